@@ -150,13 +150,21 @@ export async function useMultiFileAuthState(_folder: string): Promise<{
   });
 }
 
+// Protobuf enums used by the client
+export const proto = {
+  Message: {
+    ProtocolMessage: { Type: { REVOKE: 0, MESSAGE_EDIT: 14 } },
+  },
+};
+
 // Mock utility functions
 export function isJidGroup(jid?: string): boolean {
   return jid?.endsWith("@g.us") || false;
 }
 
 export function jidNormalizedUser(jid: string): string {
-  return jid.split("@")[0] + "@s.whatsapp.net";
+  // Drop the device suffix ("972500000000:3@s.whatsapp.net")
+  return jid.split("@")[0].split(":")[0] + "@s.whatsapp.net";
 }
 
 export function getContentType(
@@ -176,6 +184,22 @@ export async function downloadMediaMessage(
   return Promise.resolve(Buffer.from("mock-media-data"));
 }
 
+// Votes are not encrypted in tests: encPayload holds the selected option hashes (hex) as JSON
+export function decryptPollVote(
+  { encPayload }: { encPayload?: Uint8Array | null },
+  _context: {
+    pollCreatorJid: string;
+    pollMsgId: string;
+    pollEncKey: Uint8Array;
+    voterJid: string;
+  }
+): { selectedOptions: Uint8Array[] } {
+  const hashes = JSON.parse(
+    Buffer.from(encPayload ?? []).toString() || "[]"
+  ) as string[];
+  return { selectedOptions: hashes.map((hash) => Buffer.from(hash, "hex")) };
+}
+
 export const Browsers = {
   ubuntu: (version: string) => ["Ubuntu", "Chrome", version],
   macOS: (version: string) => ["Mac OS", "Safari", version],
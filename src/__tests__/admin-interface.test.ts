@@ -4,7 +4,12 @@
  */
 
 import { ConfigService } from "../config-service";
-import { AdminServer } from "../admin-server";
+import { AdminServer, type ApprovalActions } from "../admin-server";
+import { UsageTracker } from "../usage-tracker";
+import {
+  MessagePrefilter,
+  prefilterSettingsFromEnv,
+} from "../message-prefilter";
 import * as http from "http";
 import * as fs from "fs";
 
@@ -12,10 +17,28 @@ describe("Admin Interface Integration", () => {
   let configService: ConfigService;
   let adminServer: AdminServer;
   const testDir = ".baileys_auth_test_admin";
+  const approvalActions = {
+    getPending: jest.fn<ReturnType<ApprovalActions["getPending"]>, []>(() => []),
+    approve: jest.fn((id: string) => Promise.resolve(id === "aaaa1111")),
+    reject: jest.fn(() => false),
+  };
+
+  let usageTracker: UsageTracker;
+  let prefilter: MessagePrefilter;
 
   beforeAll(() => {
     configService = new ConfigService(testDir);
-    adminServer = new AdminServer(configService);
+    usageTracker = new UsageTracker(configService, undefined, testDir, {});
+    prefilter = new MessagePrefilter(prefilterSettingsFromEnv({}), testDir);
+    adminServer = new AdminServer(
+      configService,
+      undefined,
+      undefined,
+      undefined,
+      approvalActions,
+      usageTracker,
+      prefilter
+    );
   });
 
   afterAll(() => {
@@ -111,4 +134,308 @@ describe("Admin Interface Integration", () => {
     expect(response).toHaveProperty("error");
     expect(response.error).toContain("Unauthorized");
   });
+
+  describe("Language, time zone and delivery settings", () => {
+    const request = (
+      method: string,
+      url: string,
+      body?: unknown,
+      token?: string
+    ): Promise<{ statusCode: number; data: Record<string, unknown> }> =>
+      new Promise((resolve) => {
+        const req = {
+          method,
+          url,
+          headers: token ? { authorization: `Bearer ${token}` } : {},
+          on: jest.fn((event: string, callback: (data?: Buffer) => void) => {
+            if (event === "data" && body !== undefined) {
+              callback(Buffer.from(JSON.stringify(body)));
+            } else if (event === "end") {
+              setTimeout(() => callback(), 0);
+            }
+          }),
+        } as unknown as http.IncomingMessage;
+
+        let statusCode = 0;
+        const res = {
+          writeHead: jest.fn((code: number) => {
+            statusCode = code;
+          }),
+          end: jest.fn((data: string) => {
+            resolve({ statusCode, data: JSON.parse(data) as Record<string, unknown> });
+          }),
+        } as unknown as http.ServerResponse;
+
+        void adminServer.handleRequest(req, res);
+      });
+
+    let token: string;
+
+    beforeAll(async () => {
+      const login = await request("POST", "/admin/login", { password: "testpass123" });
+      token = login.data.token as string;
+    });
+
+    it("should return the defaults", async () => {
+      const { data } = await request("GET", "/admin/config", undefined, token);
+      expect(data).toMatchObject({
+        timezone: "Asia/Jerusalem",
+        language: "he",
+        dateLocale: "he-IL",
+      });
+    });
+
+    it("should save valid settings", async () => {
+      const update = await request(
+        "POST",
+        "/admin/config",
+        { timezone: "Europe/Berlin", language: "en", dateLocale: "en-GB" },
+        token
+      );
+      expect(update.statusCode).toBe(200);
+      expect(configService.getTimezone()).toBe("Europe/Berlin");
+      expect(configService.getLanguage()).toBe("en");
+      expect(configService.getDateLocale()).toBe("en-GB");
+    });
+
+    it("should reject an unknown time zone", async () => {
+      const update = await request(
+        "POST",
+        "/admin/config",
+        { timezone: "Mars/Olympus" },
+        token
+      );
+      expect(update.statusCode).toBe(400);
+      expect(update.data.error).toContain("Mars/Olympus");
+      expect(configService.getTimezone()).toBe("Europe/Berlin");
+    });
+
+    it("should save reminder and digest settings", async () => {
+      const update = await request(
+        "POST",
+        "/admin/config",
+        {
+          reminderOffsets: [120],
+          deliveryMode: "digest",
+          digestSchedule: "weekly",
+          digestTime: "20:00",
+          digestWeekday: 0,
+        },
+        token
+      );
+      expect(update.statusCode).toBe(200);
+
+      const { data } = await request("GET", "/admin/config", undefined, token);
+      expect(data).toMatchObject({
+        reminderOffsets: [120],
+        deliveryMode: "digest",
+        digestSchedule: "weekly",
+        digestTime: "20:00",
+        digestWeekday: 0,
+      });
+    });
+
+    it("should reject invalid reminder and digest settings", async () => {
+      for (const invalid of [
+        { reminderOffsets: [-5] },
+        { deliveryMode: "sometimes" },
+        { digestTime: "25:00" },
+        { digestWeekday: 7 },
+        { approvalExpiryHours: 0 },
+      ]) {
+        const update = await request("POST", "/admin/config", invalid, token);
+        expect(update.statusCode).toBe(400);
+      }
+      expect(configService.getDeliveryMode()).toBe("digest");
+    });
+
+    it("should never return the CalDAV password and keep it when left empty", async () => {
+      const caldav = {
+        serverUrl: "http://localhost:5232",
+        username: "me",
+        password: "secret",
+        calendarPath: "me/events",
+      };
+      await request("POST", "/admin/config", { caldav }, token);
+
+      const { data } = await request("GET", "/admin/config", undefined, token);
+      expect(data.caldav).toEqual({
+        serverUrl: "http://localhost:5232",
+        username: "me",
+        calendarPath: "me/events",
+        hasPassword: true,
+      });
+
+      await request(
+        "POST",
+        "/admin/config",
+        { caldav: { ...caldav, password: "", calendarPath: "me/work" } },
+        token
+      );
+      expect(configService.getCalDavSettings()).toEqual({
+        ...caldav,
+        calendarPath: "me/work",
+      });
+
+      const invalid = await request(
+        "POST",
+        "/admin/config",
+        { caldav: { serverUrl: "localhost" } },
+        token
+      );
+      expect(invalid.statusCode).toBe(400);
+
+      await request("POST", "/admin/config", { caldav: null }, token);
+      expect(configService.getCalDavSettings()).toBeNull();
+    });
+
+    it("should never return webhook secrets and keep them when hidden", async () => {
+      const hook = { type: "webhook" as const, url: "https://example.com/school", secret: "rule-secret" };
+      await request(
+        "POST",
+        "/admin/config",
+        {
+          webhooks: [
+            { url: "https://example.com/all", secret: "shared-secret" },
+            { url: "https://example.com/open" },
+          ],
+          routingRules: [
+            { name: "School", match: { chats: ["School"] }, destinations: [hook] },
+          ],
+        },
+        token
+      );
+
+      const { data } = await request("GET", "/admin/config", undefined, token);
+      expect(JSON.stringify(data)).not.toContain("shared-secret");
+      expect(JSON.stringify(data)).not.toContain("rule-secret");
+      expect(data.webhooks).toEqual([
+        { url: "https://example.com/all", hasSecret: true },
+        { url: "https://example.com/open" },
+      ]);
+
+      // Saving what was loaded keeps the secrets; a new secret replaces the current one
+      const webhooks = data.webhooks as { url: string }[];
+      await request(
+        "POST",
+        "/admin/config",
+        {
+          webhooks: [webhooks[0], { ...webhooks[1], secret: "new-secret" }],
+          routingRules: data.routingRules,
+        },
+        token
+      );
+      expect(configService.getWebhooks()).toEqual([
+        { url: "https://example.com/all", secret: "shared-secret" },
+        { url: "https://example.com/open", secret: "new-secret" },
+      ]);
+      expect(configService.getRoutingRules()[0].destinations).toEqual([hook]);
+
+      await request("POST", "/admin/config", { webhooks: [], routingRules: [] }, token);
+    });
+
+    it("should save approval settings", async () => {
+      await request(
+        "POST",
+        "/admin/config",
+        { approvalMode: true, approvalExpiryHours: 12 },
+        token
+      );
+
+      const { data } = await request("GET", "/admin/config", undefined, token);
+      expect(data).toMatchObject({ approvalMode: true, approvalExpiryHours: 12 });
+    });
+
+    it("should list, approve and drop pending events", async () => {
+      const pending = await request("GET", "/admin/pending", undefined, token);
+      expect(pending.data).toEqual({ pending: [] });
+
+      const approved = await request(
+        "POST",
+        "/admin/pending/aaaa1111/approve",
+        undefined,
+        token
+      );
+      expect(approved.statusCode).toBe(200);
+      expect(approvalActions.approve).toHaveBeenCalledWith("aaaa1111");
+
+      const missing = await request(
+        "POST",
+        "/admin/pending/bbbb2222/reject",
+        undefined,
+        token
+      );
+      expect(missing.statusCode).toBe(404);
+    });
+
+    it("should save and validate LLM budgets", async () => {
+      await request(
+        "POST",
+        "/admin/config",
+        { dailyBudgetUsd: 0.5, monthlyBudgetUsd: 10 },
+        token
+      );
+      const { data } = await request("GET", "/admin/config", undefined, token);
+      expect(data).toMatchObject({ dailyBudgetUsd: 0.5, monthlyBudgetUsd: 10 });
+
+      const invalid = await request(
+        "POST",
+        "/admin/config",
+        { monthlyBudgetUsd: -1 },
+        token
+      );
+      expect(invalid.statusCode).toBe(400);
+
+      await request("POST", "/admin/config", { dailyBudgetUsd: null }, token);
+      expect(configService.getDailyBudget()).toBeNull();
+      expect(configService.getMonthlyBudget()).toBe(10);
+    });
+
+    it("should report LLM usage", async () => {
+      usageTracker.record({
+        model: "gpt-4o-mini",
+        chatId: "family@g.us",
+        chatName: "Family",
+        outcome: "events",
+        promptTokens: 2000,
+        completionTokens: 100,
+        imageInputs: 0,
+      });
+
+      const { statusCode, data } = await request(
+        "GET",
+        "/admin/usage",
+        undefined,
+        token
+      );
+      expect(statusCode).toBe(200);
+      expect(data).toMatchObject({
+        today: { calls: 1, promptTokens: 2000, completionTokens: 100 },
+        byChat: { Family: { calls: 1 } },
+        budget: { monthlyUsd: 10, level: "none" },
+      });
+    });
+
+    it("should report and reset the pre-filter counts", async () => {
+      prefilter.record("Family", "👍", prefilter.check("👍"));
+
+      const { statusCode, data } = await request(
+        "GET",
+        "/admin/prefilter",
+        undefined,
+        token
+      );
+      expect(statusCode).toBe(200);
+      expect(data).toMatchObject({
+        enabled: true,
+        checked: 1,
+        skipped: 1,
+        byReason: { "emoji-only": 1 },
+      });
+
+      await request("POST", "/admin/prefilter/reset", undefined, token);
+      expect(prefilter.getStats().checked).toBe(0);
+    });
+  });
 });
+
@@ -0,0 +1,129 @@
+/**
+ * Tests for the Approval Queue
+ * Tests parsing of draft replies, draft edits, expiry and persistence
+ */
+
+import {
+  ApprovalQueue,
+  applyEventEdit,
+  parseApprovalReply,
+} from "../approval-queue";
+import { DateResolver } from "../date-resolver";
+import type { EventSource } from "../event-store";
+import { createMockEvent, cleanupTestAuthDir } from "./utils/test-helpers";
+import * as fs from "fs";
+
+describe("ApprovalQueue", () => {
+  const testDir = ".baileys_auth_test_approval";
+  const now = new Date("2024-12-23T05:30:00.000Z");
+  const source: EventSource = {
+    chatId: "family@g.us",
+    chatName: "Family",
+    sender: "Dana",
+    messageId: "MSG1",
+    messageText: "Dinner on Thursday at 19:00",
+  };
+  // Thursday 26 December 2024, 19:00-21:00 in Israel (UTC+2)
+  const event = createMockEvent({
+    title: "Dinner",
+    startDateISO: "2024-12-26T17:00:00.000Z",
+    endDateISO: "2024-12-26T19:00:00.000Z",
+  });
+  const resolver = new DateResolver("Asia/Jerusalem", () => now);
+
+  beforeEach(() => {
+    cleanupTestAuthDir(testDir);
+    fs.mkdirSync(testDir, { recursive: true });
+  });
+
+  afterAll(() => {
+    cleanupTestAuthDir(testDir);
+  });
+
+  describe("parseApprovalReply", () => {
+    it("should recognize approvals, rejections and edits", () => {
+      expect(parseApprovalReply("1")).toEqual({ type: "approve" });
+      expect(parseApprovalReply(" OK ")).toEqual({ type: "approve" });
+      expect(parseApprovalReply("no")).toEqual({ type: "reject" });
+      expect(parseApprovalReply("Edit time 18:00")).toEqual({
+        type: "edit",
+        field: "time",
+        value: "18:00",
+      });
+    });
+
+    it("should ignore other messages", () => {
+      expect(parseApprovalReply("ok, see you there")).toBeNull();
+      expect(parseApprovalReply("edit the invitation")).toBeNull();
+    });
+  });
+
+  describe("applyEventEdit", () => {
+    it("should move the time and keep the date and duration", () => {
+      const edited = applyEventEdit(event, "time", "18:00", resolver);
+
+      expect(edited?.startDateISO).toBe("2024-12-26T16:00:00.000Z");
+      expect(edited?.endDateISO).toBe("2024-12-26T18:00:00.000Z");
+      expect(edited?.time).toBe("18:00");
+    });
+
+    it("should move the date and keep the time", () => {
+      const edited = applyEventEdit(event, "date", "27.12", resolver);
+
+      expect(edited?.startDateISO).toBe("2024-12-27T17:00:00.000Z");
+      expect(edited?.endDateISO).toBe("2024-12-27T19:00:00.000Z");
+    });
+
+    it("should replace text fields", () => {
+      const edited = applyEventEdit(event, "title", "Family dinner", resolver);
+
+      expect(edited?.title).toBe("Family dinner");
+      expect(edited?.summary).toBe("Family dinner");
+      expect(applyEventEdit(event, "location", "Grandma's", resolver)?.location).toBe(
+        "Grandma's"
+      );
+    });
+
+    it("should reject times and dates it cannot read", () => {
+      expect(applyEventEdit(event, "time", "evening", resolver)).toBeNull();
+      expect(applyEventEdit(event, "date", "soon", resolver)).toBeNull();
+    });
+  });
+
+  describe("Queue", () => {
+    it("should find drafts by their message and the latest draft", () => {
+      const queue = new ApprovalQueue(testDir);
+      queue.add("aaaa1111", event, source, null, 24, now);
+      queue.add("bbbb2222", event, source, null, 24, new Date(now.getTime() + 1000));
+      queue.update("aaaa1111", { draftMessageId: "DRAFT1" });
+
+      expect(queue.findByDraftMessage("DRAFT1")?.id).toBe("aaaa1111");
+      expect(queue.getLatest()?.id).toBe("bbbb2222");
+      expect(queue.remove("aaaa1111")?.id).toBe("aaaa1111");
+      expect(queue.getAll()).toHaveLength(1);
+    });
+
+    it("should drop drafts when they expire", () => {
+      const queue = new ApprovalQueue(testDir);
+      queue.add("aaaa1111", event, source, null, 24, now);
+
+      expect(queue.processDue(new Date("2024-12-24T05:00:00.000Z"))).toBe(0);
+      expect(queue.processDue(new Date("2024-12-24T05:30:00.000Z"))).toBe(1);
+      expect(queue.getAll()).toHaveLength(0);
+    });
+
+    it("should restore pending drafts after a restart", () => {
+      const queue = new ApprovalQueue(testDir);
+      queue.add("aaaa1111", event, source, "test-model", 24, now);
+
+      const restarted = new ApprovalQueue(testDir);
+      restarted.load();
+
+      expect(restarted.get("aaaa1111")).toMatchObject({
+        event: { title: "Dinner" },
+        source: { chatName: "Family" },
+        model: "test-model",
+      });
+    });
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * Tests for the CalDAV client
+ * Tests calendar URLs, authentication, stable event resources, deletion and retries
+ */
+
+import {
+  CalDavClient,
+  calendarCollectionUrl,
+  validateCalDavSettings,
+} from "../caldav-client";
+import { ConfigService, type CalDavSettings } from "../config-service";
+import type { StoredEvent } from "../event-store";
+import { eventUid } from "../ics-generator";
+import { createMockEvent, cleanupTestAuthDir } from "./utils/test-helpers";
+
+describe("CalDavClient", () => {
+  const testDir = ".baileys_auth_test_caldav";
+  const settings: CalDavSettings = {
+    serverUrl: "http://localhost:5232/",
+    username: "me",
+    password: "secret",
+    calendarPath: "/me/events/",
+  };
+
+  let configService: ConfigService;
+
+  const storedEvent: StoredEvent = {
+    fingerprint: "fp1",
+    details: createMockEvent({ title: "Team Meeting" }),
+    source: {
+      chatId: "team@g.us",
+      chatName: "Team",
+      sender: "Alice",
+      messageId: "MSG1",
+      messageText: "Team meeting on Wednesday at 10",
+    },
+    model: null,
+    detectedAt: "2024-12-20T10:00:00.000Z",
+    createdAt: Date.now(),
+    status: "active",
+  };
+
+  const createClient = (status = 201) => {
+    const fetchFn = jest
+      .fn<Promise<Response>, [string, RequestInit]>()
+      .mockImplementation(() =>
+        Promise.resolve(new Response(null, { status }))
+      );
+    return { client: new CalDavClient(configService, fetchFn, testDir), fetchFn };
+  };
+
+  beforeEach(() => {
+    cleanupTestAuthDir(testDir);
+    configService = new ConfigService(testDir);
+    configService.setCalDavSettings(settings);
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    cleanupTestAuthDir(testDir);
+  });
+
+  it("should join the server URL and calendar path", () => {
+    expect(calendarCollectionUrl(settings)).toBe(
+      "http://localhost:5232/me/events/"
+    );
+    expect(calendarCollectionUrl({ ...settings, calendarPath: "" })).toBe(
+      "http://localhost:5232/"
+    );
+  });
+
+  it("should PUT the event to a resource named after its fingerprint", async () => {
+    const { client, fetchFn } = createClient();
+
+    expect(await client.putEvent(storedEvent)).toBe(true);
+
+    const [url, init] = fetchFn.mock.calls[0];
+    const headers = init.headers as Record<string, string>;
+    expect(url).toBe("http://localhost:5232/me/events/fp1.ics");
+    expect(init.method).toBe("PUT");
+    expect(headers["Content-Type"]).toBe("text/calendar; charset=utf-8");
+    expect(headers["Authorization"]).toBe(
+      `Basic ${Buffer.from("me:secret").toString("base64")}`
+    );
+    expect(init.body).toContain(`UID:${eventUid("fp1")}`);
+    expect(init.body).toContain("SUMMARY:Team Meeting");
+  });
+
+  it("should overwrite the same resource when an event is updated", async () => {
+    const { client, fetchFn } = createClient(204);
+
+    await client.putEvent(storedEvent);
+    await client.putEvent({
+      ...storedEvent,
+      details: { ...storedEvent.details, title: "Team Meeting (moved)" },
+    });
+
+    expect(fetchFn.mock.calls[0][0]).toBe(fetchFn.mock.calls[1][0]);
+    expect(fetchFn.mock.calls[1][1].body).toContain(
+      "SUMMARY:Team Meeting (moved)"
+    );
+  });
+
+  it("should skip events without a start date", async () => {
+    const { client, fetchFn } = createClient();
+
+    const result = await client.putEvent({
+      ...storedEvent,
+      details: { ...storedEvent.details, startDateISO: null },
+    });
+    const legacy = await client.putEvent({
+      ...storedEvent,
+      details: { ...storedEvent.details, startDateISO: "next Friday" },
+    });
+
+    expect(result).toBe(false);
+    expect(legacy).toBe(false);
+    expect(fetchFn).not.toHaveBeenCalled();
+  });
+
+  it("should report server errors", async () => {
+    const { client } = createClient(401);
+
+    expect(await client.putEvent(storedEvent)).toBe(false);
+    expect(console.error).toHaveBeenCalled();
+  });
+
+  it("should drop changes the server rejects", async () => {
+    const { client } = createClient(403);
+
+    expect(await client.putEvent(storedEvent)).toBe(false);
+    expect(client.getPending()).toEqual([]);
+  });
+
+  it("should retry failed changes with backoff and keep them across restarts", async () => {
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    const { client, fetchFn } = createClient(503);
+
+    expect(await client.putEvent(storedEvent)).toBe(false);
+    const [pending] = client.getPending();
+    expect(pending).toMatchObject({ fingerprint: "fp1", method: "PUT", attempts: 1 });
+
+    // Not due yet
+    expect(await client.processDue(new Date())).toBe(0);
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+
+    const restarted = new CalDavClient(
+      configService,
+      jest.fn(() => Promise.resolve(new Response(null, { status: 201 }))),
+      testDir
+    );
+    restarted.load();
+    const later = new Date(Date.now() + 60 * 1000);
+    expect(await restarted.processDue(later)).toBe(1);
+    expect(restarted.getPending()).toEqual([]);
+  });
+
+  it("should replace a pending change with a newer one of the same event", async () => {
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    const { client } = createClient(503);
+
+    await client.putEvent(storedEvent);
+    await client.deleteEvent("fp1");
+
+    expect(client.getPending()).toEqual([
+      expect.objectContaining({ fingerprint: "fp1", method: "DELETE" }),
+    ]);
+  });
+
+  it("should save a change before sending it and not let a deletion overtake it", async () => {
+    let respond: (response: Response) => void = () => {};
+    const fetchFn = jest
+      .fn<Promise<Response>, [string, RequestInit]>()
+      .mockImplementationOnce(
+        () => new Promise((resolve) => (respond = resolve))
+      )
+      .mockImplementation(() =>
+        Promise.resolve(new Response(null, { status: 204 }))
+      );
+    const client = new CalDavClient(configService, fetchFn, testDir);
+
+    const put = client.putEvent(storedEvent);
+    const restarted = new CalDavClient(configService, fetchFn, testDir);
+    restarted.load();
+    expect(restarted.getPending()).toEqual([
+      expect.objectContaining({ fingerprint: "fp1", method: "PUT" }),
+    ]);
+
+    const deletion = client.deleteEvent("fp1");
+    await Promise.resolve();
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+
+    respond(new Response(null, { status: 201 }));
+    expect(await put).toBe(true);
+    expect(await deletion).toBe(true);
+    expect(fetchFn.mock.calls.map(([, init]) => init.method)).toEqual([
+      "PUT",
+      "DELETE",
+    ]);
+    expect(client.getPending()).toEqual([]);
+  });
+
+  it("should only send the latest of several changes waiting for an event", async () => {
+    let respond: (response: Response) => void = () => {};
+    const fetchFn = jest
+      .fn<Promise<Response>, [string, RequestInit]>()
+      .mockImplementationOnce(
+        () => new Promise((resolve) => (respond = resolve))
+      )
+      .mockImplementation(() =>
+        Promise.resolve(new Response(null, { status: 204 }))
+      );
+    const client = new CalDavClient(configService, fetchFn, testDir);
+
+    const first = client.putEvent(storedEvent);
+    const update = client.putEvent({
+      ...storedEvent,
+      details: { ...storedEvent.details, title: "Team Meeting (moved)" },
+    });
+    const deletion = client.deleteEvent("fp1");
+
+    respond(new Response(null, { status: 201 }));
+    expect(await Promise.all([first, update, deletion])).toEqual([
+      true,
+      false,
+      true,
+    ]);
+    expect(fetchFn.mock.calls.map(([, init]) => init.method)).toEqual([
+      "PUT",
+      "DELETE",
+    ]);
+  });
+
+  it("should DELETE cancelled events, treating missing ones as deleted", async () => {
+    const { client, fetchFn } = createClient(404);
+
+    expect(await client.deleteEvent("fp1")).toBe(true);
+    expect(fetchFn.mock.calls[0][0]).toBe(
+      "http://localhost:5232/me/events/fp1.ics"
+    );
+    expect(fetchFn.mock.calls[0][1].method).toBe("DELETE");
+  });
+
+  it("should do nothing when CalDAV is not configured", async () => {
+    configService.setCalDavSettings(null);
+    const { client, fetchFn } = createClient();
+
+    expect(client.isEnabled()).toBe(false);
+    expect(await client.putEvent(storedEvent)).toBe(false);
+    expect(fetchFn).not.toHaveBeenCalled();
+  });
+
+  it("should validate settings from the admin interface", () => {
+    expect(validateCalDavSettings(settings)).toBeNull();
+    expect(validateCalDavSettings(null)).toBeNull();
+    expect(validateCalDavSettings({ serverUrl: "localhost:5232" })).toBe(
+      "CalDAV server URL must be an http(s) URL"
+    );
+    expect(
+      validateCalDavSettings({ serverUrl: "http://localhost", username: 1 })
+    ).toBe("CalDAV username must be a string");
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Tests for the Command Handler
+ * Tests the commands sent from the self-chat or the target group
+ */
+
+import { CommandHandler, type CommandClient } from "../command-handler";
+import { ConfigService } from "../config-service";
+import { DigestService } from "../digest-service";
+import { EventStore, type EventDelivery, type StoredEvent } from "../event-store";
+import { ReminderScheduler } from "../reminder-scheduler";
+import { WebhookDispatcher } from "../webhook-dispatcher";
+import { createMockEvent, cleanupTestAuthDir } from "./utils/test-helpers";
+import * as fs from "fs";
+
+describe("CommandHandler", () => {
+  const testDir = ".baileys_auth_test_commands";
+  const now = new Date("2024-12-23T05:30:00.000Z");
+
+  let configService: ConfigService;
+  let eventStore: EventStore;
+
+  const addEvent = (
+    title: string,
+    startDateISO: string,
+    overrides: Partial<StoredEvent> = {}
+  ): void => {
+    eventStore.add({
+      fingerprint: `fingerprint-${title}`,
+      details: createMockEvent({ title, startDateISO }),
+      source: {
+        chatId: "family@g.us",
+        chatName: "Family",
+        sender: "Dana",
+        messageId: null,
+        messageText: title,
+      },
+      model: null,
+      detectedAt: now.toISOString(),
+      createdAt: Date.now(),
+      status: "active",
+      ...overrides,
+    });
+  };
+
+  const createHandler = (undone: StoredEvent | null = null) => {
+    const sendDigest = jest
+      .fn<Promise<EventDelivery | null>, [string]>()
+      .mockResolvedValue({
+        chatId: "target@g.us",
+        messageId: "DIGEST1",
+        sentAt: now.toISOString(),
+      });
+    const client: CommandClient = {
+      getConnectionState: () => "open",
+      getTargetGroupName: () => "Me",
+      undoLastEvent: jest
+        .fn<Promise<StoredEvent | null>, []>()
+        .mockResolvedValue(undone),
+    };
+    const handler = new CommandHandler(
+      configService,
+      eventStore,
+      new ReminderScheduler(jest.fn(), testDir),
+      new WebhookDispatcher(testDir),
+      new DigestService(
+        eventStore,
+        configService,
+        sendDigest,
+        undefined,
+        testDir
+      ),
+      client
+    );
+    return { handler, client, sendDigest };
+  };
+
+  beforeEach(() => {
+    cleanupTestAuthDir(testDir);
+    fs.mkdirSync(testDir, { recursive: true });
+    delete process.env.ALLOWED_CHAT_NAMES;
+    configService = new ConfigService(testDir);
+    configService.setLocaleSettings({ language: "en", dateLocale: "en-GB" });
+    eventStore = new EventStore(testDir);
+  });
+
+  afterAll(() => {
+    cleanupTestAuthDir(testDir);
+  });
+
+  it("should recognize commands", () => {
+    expect(CommandHandler.isCommand("/events")).toBe(true);
+    expect(CommandHandler.isCommand("  /Mute Family")).toBe(true);
+    expect(CommandHandler.isCommand("Dinner at 8/9")).toBe(false);
+    expect(CommandHandler.isCommand("/ 12")).toBe(false);
+  });
+
+  it("should list upcoming active events", async () => {
+    addEvent("Past event", "2024-12-20T16:00:00.000Z");
+    addEvent("Parent meeting", "2024-12-23T16:00:00.000Z");
+    addEvent("Cancelled trip", "2024-12-24T08:00:00.000Z", {
+      status: "cancelled",
+    });
+    const { handler } = createHandler();
+
+    const reply = await handler.handle("/events", now);
+
+    expect(reply).toContain("*Parent meeting* (Family) [fingerpr]");
+    expect(reply).toContain("18:00");
+    expect(reply).not.toContain("Past event");
+    expect(reply).not.toContain("Cancelled trip");
+  });
+
+  it("should mute and unmute chats", async () => {
+    const { handler } = createHandler();
+
+    expect(await handler.handle("/mute School Parents")).toContain(
+      'Muted "School Parents"'
+    );
+    expect(configService.getMutedChats()).toEqual(["School Parents"]);
+    expect(await handler.handle("/mute")).toContain("School Parents");
+
+    expect(await handler.handle("/unmute school parents")).toContain(
+      'Unmuted "School Parents"'
+    );
+    expect(configService.getMutedChats()).toEqual([]);
+    expect(await handler.handle("/unmute Family")).toContain("not muted");
+  });
+
+  it("should add chats to the monitored chats", async () => {
+    configService.setAllowedChatNames(["Family"]);
+    const { handler } = createHandler();
+
+    expect(await handler.handle("/watch Football")).toContain(
+      'Now monitoring "Football"'
+    );
+    expect(configService.getAllowedChatNames()).toEqual(["Family", "Football"]);
+    expect(await handler.handle("/watch family")).toContain("already monitored");
+  });
+
+  it("should not restrict monitoring when all chats are monitored", async () => {
+    configService.setAllowedChatNames([]);
+    const { handler } = createHandler();
+
+    expect(await handler.handle("/watch Football")).toContain(
+      "All chats are already monitored"
+    );
+    expect(configService.getAllowedChatNames()).toEqual([]);
+  });
+
+  it("should retract the last event", async () => {
+    addEvent("Parent meeting", "2024-12-23T16:00:00.000Z");
+    const event = eventStore.get("fingerprint-Parent meeting");
+    const { handler, client } = createHandler(event);
+
+    expect(await handler.handle("/undo")).toContain(
+      "Retracted *Parent meeting*"
+    );
+    expect(client.undoLastEvent).toHaveBeenCalled();
+    expect(await createHandler(null).handler.handle("/undo")).toBe(
+      "Nothing to undo."
+    );
+  });
+
+  it("should report the status", async () => {
+    addEvent("Parent meeting", "2024-12-23T16:00:00.000Z");
+    configService.setMutedChats(["Football"]);
+    const { handler } = createHandler();
+
+    const reply = await handler.handle("/status", now);
+
+    expect(reply).toContain("Connection: open");
+    expect(reply).toContain("Upcoming events: 1 (1 stored)");
+    expect(reply).toContain("Delivery: immediate");
+    expect(reply).toContain("Muted: Football");
+  });
+
+  it("should send the digest now", async () => {
+    addEvent("Parent meeting", "2024-12-23T16:00:00.000Z");
+    const { handler, sendDigest } = createHandler();
+
+    expect(await handler.handle("/digest now", now)).toBe(
+      "🗓️ Digest with 1 event(s) sent to Me."
+    );
+    expect(sendDigest).toHaveBeenCalledWith(
+      expect.stringContaining("Parent meeting")
+    );
+    expect(await handler.handle("/digest")).toBe("Usage: /digest now");
+  });
+
+  it("should answer unknown commands with a hint", async () => {
+    const { handler } = createHandler();
+
+    expect(await handler.handle("/party")).toContain("Send /help");
+    expect(await handler.handle("/help")).toContain("/undo");
+  });
+});
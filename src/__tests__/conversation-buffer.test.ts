@@ -0,0 +1,92 @@
+/**
+ * Tests for the Conversation Buffer
+ * Tests the conversation window, its formatting, settings and persistence
+ */
+
+import {
+  ConversationBuffer,
+  conversationSettingsFromEnv,
+  formatConversationMessage,
+} from "../conversation-buffer";
+import { cleanupTestAuthDir } from "./utils/test-helpers";
+import * as fs from "fs";
+
+describe("ConversationBuffer", () => {
+  const testDir = ".baileys_auth_test_conversations";
+  const now = new Date("2024-12-24T13:00:00.000Z");
+  const minutesAgo = (minutes: number): string =>
+    new Date(now.getTime() - minutes * 60 * 1000).toISOString();
+
+  beforeEach(() => {
+    cleanupTestAuthDir(testDir);
+    fs.mkdirSync(testDir, { recursive: true });
+  });
+
+  afterAll(() => {
+    cleanupTestAuthDir(testDir);
+  });
+
+  it("should keep the last messages of each chat", () => {
+    const buffer = new ConversationBuffer(testDir, 2, 12);
+    buffer.add("family@g.us", { sender: "Dana", text: "One", timestamp: minutesAgo(3) });
+    buffer.add("family@g.us", { sender: "Avi", text: "Two", timestamp: minutesAgo(2) });
+    buffer.add("family@g.us", { sender: "Dana", text: "Three", timestamp: minutesAgo(1) });
+    buffer.add("work@g.us", { sender: "Noa", text: "Other", timestamp: minutesAgo(1) });
+
+    expect(buffer.get("family@g.us", now).map((m) => m.text)).toEqual([
+      "Two",
+      "Three",
+    ]);
+    expect(buffer.get("work@g.us", now)).toHaveLength(1);
+    expect(buffer.get("unknown@g.us", now)).toEqual([]);
+  });
+
+  it("should leave out messages older than the window", () => {
+    const buffer = new ConversationBuffer(testDir, 20, 1);
+    buffer.add("family@g.us", { sender: "Dana", text: "Yesterday", timestamp: minutesAgo(24 * 60) });
+    buffer.add("family@g.us", { sender: "Dana", text: "Now", timestamp: minutesAgo(5) });
+
+    expect(buffer.get("family@g.us", now).map((m) => m.text)).toEqual(["Now"]);
+  });
+
+  it("should restore conversations after a restart", () => {
+    const buffer = new ConversationBuffer(testDir);
+    buffer.add("family@g.us", {
+      sender: "Dana",
+      text: "Dinner on Friday?",
+      timestamp: new Date().toISOString(),
+    });
+    buffer.save();
+
+    const restarted = new ConversationBuffer(testDir);
+    restarted.load();
+
+    expect(restarted.get("family@g.us")).toMatchObject([
+      { sender: "Dana", text: "Dinner on Friday?" },
+    ]);
+  });
+
+  it("should format messages with their local time and sender", () => {
+    expect(
+      formatConversationMessage(
+        { sender: "Dana", text: "Dinner on Friday?", timestamp: now.toISOString() },
+        "Asia/Jerusalem"
+      )
+    ).toBe("Tue 15:00 Dana: Dinner on Friday?");
+  });
+
+  it("should read the settings from the environment", () => {
+    expect(conversationSettingsFromEnv({})).toEqual({
+      maxMessages: 20,
+      maxAgeHours: 12,
+      batchWindowSeconds: 20,
+    });
+    expect(
+      conversationSettingsFromEnv({
+        CONVERSATION_WINDOW_MESSAGES: "50",
+        CONVERSATION_WINDOW_HOURS: "-1",
+        BATCH_WINDOW_SECONDS: "0",
+      })
+    ).toEqual({ maxMessages: 50, maxAgeHours: 12, batchWindowSeconds: 0 });
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Tests for the Date Resolver
+ * Tests Hebrew/English day and time parsing, DST-aware conversion and LLM date validation
+ */
+
+import { DateResolver } from "../date-resolver";
+import { createMockEvent } from "./utils/test-helpers";
+
+describe("DateResolver", () => {
+  // Wednesday 18 December 2024, 12:00 in Israel (UTC+2)
+  const resolver = new DateResolver(
+    "Asia/Jerusalem",
+    () => new Date("2024-12-18T10:00:00.000Z")
+  );
+
+  describe("resolveDay", () => {
+    it.each([
+      ["מחר", { year: 2024, month: 12, day: 19 }],
+      ["מחרתיים", { year: 2024, month: 12, day: 20 }],
+      ["היום", { year: 2024, month: 12, day: 18 }],
+      ["יום שני הבא", { year: 2024, month: 12, day: 23 }],
+      ["יום ב'", { year: 2024, month: 12, day: 23 }],
+      ["next Friday", { year: 2024, month: 12, day: 20 }],
+      ["יום רביעי הבא", { year: 2024, month: 12, day: 25 }],
+      ["יום שלישי בשבוע הבא", { year: 2024, month: 12, day: 24 }],
+      ["25.12", { year: 2024, month: 12, day: 25 }],
+      ["5/1", { year: 2025, month: 1, day: 5 }],
+      ["1/12/2024", { year: 2024, month: 12, day: 1 }],
+      ["2025-03-30", { year: 2025, month: 3, day: 30 }],
+    ])("should resolve %s", (text, expected) => {
+      expect(resolver.resolveDay(text)).toMatchObject(expected);
+    });
+
+    it("should return null when there is no day", () => {
+      expect(resolver.resolveDay("בשעה 18:00")).toBeNull();
+      expect(resolver.resolveDay("31/02")).toBeNull();
+    });
+  });
+
+  describe("resolveTime", () => {
+    it.each([
+      ["מחר בשעה 18:00", { hour: 18, minute: 0 }],
+      ["בשעה 6 בערב", { hour: 18, minute: 0 }],
+      ["at 6:30pm", { hour: 18, minute: 30 }],
+      ["10am", { hour: 10, minute: 0 }],
+    ])("should resolve %s", (text, expected) => {
+      expect(resolver.resolveTime(text)?.start).toEqual(expected);
+    });
+
+    it("should resolve time ranges", () => {
+      expect(resolver.resolveTime("17:00-19:30")).toEqual({
+        start: { hour: 17, minute: 0 },
+        end: { hour: 19, minute: 30 },
+      });
+    });
+
+    it("should not read dates as times", () => {
+      expect(resolver.resolveTime("25.12")).toBeNull();
+    });
+  });
+
+  describe("toUtc", () => {
+    it("should apply the winter and summer offsets", () => {
+      expect(
+        resolver
+          .toUtc({ year: 2024, month: 12, day: 25 }, { hour: 10, minute: 0 })
+          .toISOString()
+      ).toBe("2024-12-25T08:00:00.000Z");
+      expect(
+        resolver
+          .toUtc({ year: 2025, month: 7, day: 10 }, { hour: 10, minute: 0 })
+          .toISOString()
+      ).toBe("2025-07-10T07:00:00.000Z");
+    });
+
+    it("should handle the day daylight saving time starts", () => {
+      // Israel moved to UTC+3 on Friday 28 March 2025 at 02:00
+      expect(
+        resolver
+          .toUtc({ year: 2025, month: 3, day: 28 }, { hour: 18, minute: 0 })
+          .toISOString()
+      ).toBe("2025-03-28T15:00:00.000Z");
+    });
+  });
+
+  describe("validateEvent", () => {
+    it("should keep correct dates unchanged", () => {
+      const event = createMockEvent({
+        date: "25.12",
+        time: "10:00",
+        startDateISO: "2024-12-25T08:00:00.000Z",
+        endDateISO: "2024-12-25T09:00:00.000Z",
+      });
+
+      const { event: validated, corrections } = resolver.validateEvent(event);
+      expect(corrections).toEqual([]);
+      expect(validated).toBe(event);
+    });
+
+    it("should correct a DST offset mistake and keep the duration", () => {
+      const event = createMockEvent({
+        date: "10/7/2025",
+        time: "10:00",
+        startDateISO: "2025-07-10T08:00:00.000Z", // Used winter offset
+        endDateISO: "2025-07-10T10:00:00.000Z",
+      });
+
+      const { event: validated, corrections } = resolver.validateEvent(event);
+      expect(validated.startDateISO).toBe("2025-07-10T07:00:00.000Z");
+      expect(validated.endDateISO).toBe("2025-07-10T09:00:00.000Z");
+      expect(corrections[0]).toContain("time zone offset off by +1h");
+    });
+
+    it("should fill in missing ISO dates", () => {
+      const event = {
+        ...createMockEvent({ date: "מחר", time: "בשעה 18:00" }),
+        startDateISO: null,
+        endDateISO: null,
+      };
+
+      const { event: validated, corrections } = resolver.validateEvent(event);
+      expect(validated.startDateISO).toBe("2024-12-19T16:00:00.000Z");
+      expect(validated.endDateISO).toBe("2024-12-19T17:00:00.000Z");
+      expect(corrections).toHaveLength(2);
+    });
+
+    it("should leave events with an unparseable date alone", () => {
+      const event = createMockEvent({ date: "בקרוב" });
+      expect(resolver.validateEvent(event).corrections).toEqual([]);
+    });
+  });
+});
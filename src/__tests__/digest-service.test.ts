@@ -0,0 +1,246 @@
+/**
+ * Tests for the Digest Service
+ * Tests digest scheduling, grouping by day and source chat, and sending
+ */
+
+import { DigestService, type DigestFilter } from "../digest-service";
+import { ConfigService } from "../config-service";
+import { EventStore, type EventDelivery, type StoredEvent } from "../event-store";
+import { createMockEvent, cleanupTestAuthDir } from "./utils/test-helpers";
+import * as fs from "fs";
+
+describe("DigestService", () => {
+  const testDir = ".baileys_auth_test_digest";
+  // Monday 23 December 2024, 07:30 in Israel (UTC+2)
+  const now = new Date("2024-12-23T05:30:00.000Z");
+
+  let configService: ConfigService;
+  let eventStore: EventStore;
+
+  const addEvent = (
+    title: string,
+    startDateISO: string,
+    chatName: string,
+    overrides: Partial<StoredEvent> = {}
+  ): void => {
+    eventStore.add({
+      fingerprint: `fp-${title}`,
+      details: { ...createMockEvent({ title, startDateISO }), location: null },
+      source: {
+        chatId: `${chatName}@g.us`,
+        chatName,
+        sender: "Dana",
+        messageId: null,
+        messageText: title,
+      },
+      model: null,
+      detectedAt: now.toISOString(),
+      createdAt: Date.now(),
+      status: "active",
+      ...overrides,
+    });
+  };
+
+  const createService = (
+    delivery: EventDelivery | null = null,
+    isForTargetGroup: DigestFilter = () => true
+  ) => {
+    const sender = jest
+      .fn<Promise<EventDelivery | null>, [string]>()
+      .mockResolvedValue(delivery);
+    const service = new DigestService(
+      eventStore,
+      configService,
+      sender,
+      isForTargetGroup,
+      testDir
+    );
+    return { service, sender };
+  };
+
+  beforeEach(() => {
+    cleanupTestAuthDir(testDir);
+    fs.mkdirSync(testDir, { recursive: true });
+    configService = new ConfigService(testDir);
+    configService.setLocaleSettings({ language: "en", dateLocale: "en-GB" });
+    configService.setDigestSettings({ deliveryMode: "digest", digestTime: "07:00" });
+    eventStore = new EventStore(testDir);
+  });
+
+  afterAll(() => {
+    cleanupTestAuthDir(testDir);
+  });
+
+  describe("Schedule", () => {
+    it("should use today's digest time once it has passed", () => {
+      const { service } = createService();
+      expect(service.getLastSlot(now).toISOString()).toBe("2024-12-23T05:00:00.000Z");
+    });
+
+    it("should use yesterday's digest time before today's", () => {
+      const { service } = createService();
+      expect(service.getLastSlot(new Date("2024-12-23T04:00:00.000Z")).toISOString()).toBe(
+        "2024-12-22T05:00:00.000Z"
+      );
+    });
+
+    it("should use the configured weekday for weekly digests", () => {
+      configService.setDigestSettings({ digestSchedule: "weekly", digestTime: "20:00", digestWeekday: 0 });
+      const { service } = createService();
+
+      // Sunday 22 December 2024, 20:00 in Israel
+      expect(service.getLastSlot(now).toISOString()).toBe("2024-12-22T18:00:00.000Z");
+    });
+  });
+
+  describe("Formatting", () => {
+    it("should group the day's events by source chat", () => {
+      addEvent("Parent meeting", "2024-12-23T16:00:00.000Z", "School Parents");
+      addEvent("Football practice", "2024-12-23T15:00:00.000Z", "Football");
+      addEvent("Class trip", "2024-12-23T06:00:00.000Z", "School Parents");
+      addEvent("Tomorrow's event", "2024-12-24T08:00:00.000Z", "Football");
+
+      const { service } = createService();
+      const digest = service.buildDigest(new Date("2024-12-23T05:00:00.000Z"));
+
+      expect(digest?.events.map((e) => e.details.title)).toEqual([
+        "Class trip",
+        "Football practice",
+        "Parent meeting",
+      ]);
+      expect(digest?.text).toBe(
+        "🗓️ *Today's events*\n" +
+          "\n*Monday 23 December*\n" +
+          "📱 School Parents\n" +
+          "• 08:00 Class trip\n" +
+          "• 18:00 Parent meeting\n" +
+          "📱 Football\n" +
+          "• 17:00 Football practice\n"
+      );
+    });
+
+    it("should cover the next 7 days in weekly digests", () => {
+      configService.setDigestSettings({ digestSchedule: "weekly" });
+      addEvent("Monday event", "2024-12-23T16:00:00.000Z", "Family");
+      addEvent("Friday event", "2024-12-27T08:00:00.000Z", "Family");
+      addEvent("Next month", "2025-01-20T08:00:00.000Z", "Family");
+
+      const { service } = createService();
+      const digest = service.buildDigest(new Date("2024-12-22T18:00:00.000Z"));
+
+      expect(digest?.text).toContain("*This week's events*");
+      expect(digest?.text).toContain("*Monday 23 December*");
+      expect(digest?.text).toContain("*Friday 27 December*");
+      expect(digest?.text).not.toContain("Next month");
+    });
+
+    it("should leave out cancelled events", () => {
+      addEvent("Cancelled", "2024-12-23T16:00:00.000Z", "Family", { status: "cancelled" });
+
+      const { service } = createService();
+      expect(service.buildDigest(new Date("2024-12-23T05:00:00.000Z"))).toBeNull();
+    });
+
+    it("should leave out events routed away from the target group", () => {
+      addEvent("Parent meeting", "2024-12-23T16:00:00.000Z", "School Parents");
+      addEvent("Sprint review", "2024-12-23T10:00:00.000Z", "Acme Team");
+
+      const { service } = createService(
+        null,
+        (event) => event.source.chatName !== "School Parents"
+      );
+      const digest = service.buildDigest(new Date("2024-12-23T05:00:00.000Z"));
+
+      expect(digest?.events.map((e) => e.details.title)).toEqual([
+        "Sprint review",
+      ]);
+    });
+  });
+
+  describe("Sending", () => {
+    const delivery: EventDelivery = {
+      chatId: "target@g.us",
+      messageId: "DIGEST1",
+      sentAt: now.toISOString(),
+    };
+
+    it("should wait for the next digest time on first start", async () => {
+      addEvent("Parent meeting", "2024-12-23T16:00:00.000Z", "School Parents");
+      const { service, sender } = createService(delivery);
+
+      expect(await service.processDue(now)).toBe(false);
+      expect(sender).not.toHaveBeenCalled();
+    });
+
+    it("should send each digest once and record it as a delivery", async () => {
+      const { service, sender } = createService(delivery);
+      await service.processDue(new Date("2024-12-22T20:00:00.000Z"));
+      addEvent("Parent meeting", "2024-12-23T16:00:00.000Z", "School Parents");
+
+      expect(await service.processDue(now)).toBe(true);
+      expect(await service.processDue(now)).toBe(false);
+      expect(sender).toHaveBeenCalledTimes(1);
+      expect(eventStore.get("fp-Parent meeting")?.deliveries).toEqual([delivery]);
+    });
+
+    it("should not send the same digest again after a restart", async () => {
+      const { service } = createService(delivery);
+      await service.processDue(new Date("2024-12-22T20:00:00.000Z"));
+      addEvent("Parent meeting", "2024-12-23T16:00:00.000Z", "School Parents");
+      await service.processDue(now);
+
+      const { service: restarted, sender } = createService(delivery);
+      restarted.load();
+
+      expect(await restarted.processDue(now)).toBe(false);
+      expect(sender).not.toHaveBeenCalled();
+    });
+
+    it("should retry when the digest could not be sent", async () => {
+      const { service, sender } = createService(null);
+      await service.processDue(new Date("2024-12-22T20:00:00.000Z"));
+      addEvent("Parent meeting", "2024-12-23T16:00:00.000Z", "School Parents");
+
+      expect(await service.processDue(now)).toBe(false);
+      sender.mockResolvedValue(delivery);
+      expect(await service.processDue(now)).toBe(true);
+    });
+
+    it("should send a digest on request without changing the schedule", async () => {
+      const { service, sender } = createService(delivery);
+      await service.processDue(new Date("2024-12-22T20:00:00.000Z"));
+      addEvent("Parent meeting", "2024-12-23T16:00:00.000Z", "School Parents");
+
+      const digest = await service.sendNow(now);
+
+      expect(digest?.events).toHaveLength(1);
+      expect(eventStore.get("fp-Parent meeting")?.deliveries).toEqual([delivery]);
+      expect(await service.processDue(now)).toBe(true);
+      expect(sender).toHaveBeenCalledTimes(2);
+    });
+
+    it("should tell which events a digest that is still to come will list", async () => {
+      const { service } = createService(delivery);
+      await service.processDue(now);
+
+      // Later today: today's digest was already sent
+      expect(service.coversLater("2024-12-23T16:00:00.000Z", now)).toBe(false);
+      // Tomorrow after the digest time
+      expect(service.coversLater("2024-12-24T16:00:00.000Z", now)).toBe(true);
+      // Tomorrow before the digest time: no digest covers it
+      expect(service.coversLater("2024-12-24T04:00:00.000Z", now)).toBe(false);
+      expect(service.coversLater(null, now)).toBe(false);
+    });
+
+    it("should not send digests in immediate mode", async () => {
+      configService.setDigestSettings({ deliveryMode: "immediate" });
+      const { service, sender } = createService(delivery);
+      addEvent("Parent meeting", "2024-12-23T16:00:00.000Z", "School Parents");
+
+      await service.processDue(new Date("2024-12-22T20:00:00.000Z"));
+      await service.processDue(now);
+
+      expect(sender).not.toHaveBeenCalled();
+    });
+  });
+});
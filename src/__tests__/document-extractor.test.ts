@@ -0,0 +1,174 @@
+/**
+ * Tests for the Document Extractor
+ * Tests PDF text extraction, page and size limits, scanned PDFs and plain-text documents
+ */
+
+import { getDocumentProxy, renderPageAsImage } from "unpdf";
+import { execFileSync } from "child_process";
+import * as path from "path";
+import {
+  DEFAULT_DOCUMENT_LIMITS,
+  DocumentExtractor,
+  documentLimitsFromEnv,
+} from "../document-extractor";
+
+// PDF.js is loaded with a dynamic import, which Jest does not support
+jest.mock("unpdf", () => ({
+  getDocumentProxy: jest.fn(),
+  renderPageAsImage: jest.fn(),
+}));
+
+describe("DocumentExtractor", () => {
+  const pdf = Buffer.from("%PDF-1.4");
+  const destroy = jest.fn();
+
+  // A PDF whose pages contain the given lines of text
+  const mockPdf = (pages: string[][]) => {
+    (getDocumentProxy as jest.Mock).mockResolvedValue({
+      numPages: pages.length,
+      getPage: (pageNumber: number) =>
+        Promise.resolve({
+          getTextContent: () =>
+            Promise.resolve({
+              items: pages[pageNumber - 1].map((str) => ({ str, hasEOL: true })),
+            }),
+        }),
+      destroy,
+    });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    (renderPageAsImage as jest.Mock).mockResolvedValue(
+      new Uint8Array([137, 80, 78, 71]).buffer
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should extract the text of a PDF", async () => {
+    mockPdf([
+      ["School newsletter", "Parent meeting on Wednesday at 18:00"],
+      ["Field trip on Friday at 08:00"],
+    ]);
+    const extractor = new DocumentExtractor();
+
+    const document = await extractor.extract(pdf, "application/pdf", "newsletter.pdf");
+
+    expect(document).toEqual({
+      fileName: "newsletter.pdf",
+      text: "School newsletter\nParent meeting on Wednesday at 18:00\n\nField trip on Friday at 08:00",
+      pageImages: [],
+      pageCount: 2,
+      truncated: false,
+    });
+    expect(renderPageAsImage).not.toHaveBeenCalled();
+    expect(destroy).toHaveBeenCalled();
+  });
+
+  it("should only read the first pages", async () => {
+    mockPdf([["First page event"], ["Second page event"]]);
+    const extractor = new DocumentExtractor({ maxPages: 1 });
+
+    const document = await extractor.extract(pdf, null, "newsletter.pdf");
+
+    expect(document?.text).toBe("First page event");
+    expect(document?.pageCount).toBe(2);
+    expect(document?.truncated).toBe(true);
+  });
+
+  it("should render the first pages of a scanned PDF as images", async () => {
+    mockPdf([[], [], [], []]);
+    const extractor = new DocumentExtractor({ maxRasterPages: 2 });
+
+    const document = await extractor.extract(pdf, "application/pdf", "scan.pdf");
+
+    expect(renderPageAsImage).toHaveBeenCalledTimes(2);
+    expect(document?.pageImages).toEqual(["iVBORw==", "iVBORw=="]);
+    expect(document?.text).toBe("");
+  });
+
+  it("should render the text of a scanned page with the real PDF.js", () => {
+    // A 200x200pt page with a single large word: too little text, so it is rasterized
+    const content = "BT /F1 96 Tf 20 60 Td (Hi) Tj ET";
+    const objects = [
+      "<< /Type /Catalog /Pages 2 0 R >>",
+      "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+      "<< /Type /Page /Parent 2 0 R /MediaBox [0 0 200 200] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>",
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>",
+    ];
+    let source = "%PDF-1.4\n";
+    const offsets = objects.map((object, index) => {
+      const offset = source.length;
+      source += `${index + 1} 0 obj\n${object}\nendobj\n`;
+      return offset;
+    });
+    const xref = source.length;
+    source += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    source += offsets
+      .map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`)
+      .join("");
+    source += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+    const output = execFileSync(
+      process.execPath,
+      ["--import", "tsx", path.join(__dirname, "utils", "render-pdf.ts")],
+      { cwd: path.join(__dirname, "..", ".."), input: Buffer.from(source, "latin1") }
+    ).toString();
+    const result = JSON.parse(output.trim().split("\n").pop() || "{}") as {
+      pageImages: number;
+      width?: number;
+      darkPixels?: number;
+    };
+
+    expect(result.pageImages).toBe(1);
+    expect(result.width).toBe(300);
+    expect(result.darkPixels).toBeGreaterThan(1000);
+  });
+
+  it("should cut off long text", async () => {
+    const extractor = new DocumentExtractor({ maxTextLength: 10 });
+
+    const document = await extractor.extract(
+      Buffer.from("Parent meeting on Wednesday"),
+      "text/plain",
+      "notes.txt"
+    );
+
+    expect(document?.text).toBe("Parent mee");
+    expect(document?.truncated).toBe(true);
+  });
+
+  it("should skip documents over the size limit", async () => {
+    const extractor = new DocumentExtractor({ maxBytes: 100 });
+
+    expect(extractor.isTooLarge(101)).toBe(true);
+    expect(
+      await extractor.extract(Buffer.alloc(101, "a"), "text/plain", "big.txt")
+    ).toBeNull();
+  });
+
+  it("should skip unsupported documents", async () => {
+    const extractor = new DocumentExtractor();
+
+    expect(extractor.isSupported("application/msword", "invite.doc")).toBe(false);
+    expect(extractor.isSupported(null, "invite.PDF")).toBe(true);
+    expect(extractor.isSupported("text/plain; charset=utf-8", "notes")).toBe(true);
+    expect(
+      await extractor.extract(Buffer.from("data"), "application/msword", "invite.doc")
+    ).toBeNull();
+  });
+
+  it("should read limits from the environment", () => {
+    expect(
+      documentLimitsFromEnv({ MAX_DOCUMENT_SIZE_MB: "2", MAX_DOCUMENT_PAGES: "3" })
+    ).toMatchObject({ maxBytes: 2 * 1024 * 1024, maxPages: 3 });
+    expect(documentLimitsFromEnv({ MAX_DOCUMENT_SIZE_MB: "abc" })).toEqual(
+      DEFAULT_DOCUMENT_LIMITS
+    );
+  });
+});
@@ -181,18 +181,18 @@ describe("Duplicate Event Detection", () => {
       // Use private method access via type assertion for testing
       type EventType = ReturnType<typeof createMockEvent>;
       const client = whatsappClient as unknown as {
-        isEventAlreadyCreated: (event: EventType) => boolean;
+        findDuplicateEvent: (event: EventType) => unknown;
         markEventAsCreated: (event: EventType) => void;
       };
 
       // Initially, event should not be marked as created
-      expect(client.isEventAlreadyCreated(event)).toBe(false);
+      expect(client.findDuplicateEvent(event)).toBeUndefined();
 
       // Mark event as created
       client.markEventAsCreated(event);
 
       // Now it should be detected as duplicate
-      expect(client.isEventAlreadyCreated(event)).toBe(true);
+      expect(client.findDuplicateEvent(event)).toBeDefined();
     });
 
     it("should not flag different events as duplicates", () => {
@@ -213,7 +213,7 @@ describe("Duplicate Event Detection", () => {
       // Use private method access via type assertion for testing
       type EventType = ReturnType<typeof createMockEvent>;
       const client = whatsappClient as unknown as {
-        isEventAlreadyCreated: (event: EventType) => boolean;
+        findDuplicateEvent: (event: EventType) => unknown;
         markEventAsCreated: (event: EventType) => void;
       };
 
@@ -221,7 +221,33 @@ describe("Duplicate Event Detection", () => {
       client.markEventAsCreated(event1);
 
       // Second event should not be detected as duplicate
-      expect(client.isEventAlreadyCreated(event2)).toBe(false);
+      expect(client.findDuplicateEvent(event2)).toBeUndefined();
+    });
+
+    it("should not flag events that were cancelled or withdrawn", () => {
+      whatsappClient = createClient();
+
+      const event = createMockEvent({
+        title: "Test Event",
+        startDateISO: "2024-12-25T08:00:00.000Z",
+        location: "Test Location",
+      });
+
+      // Use private method access via type assertion for testing
+      type EventType = ReturnType<typeof createMockEvent>;
+      const client = whatsappClient as unknown as {
+        findDuplicateEvent: (event: EventType) => unknown;
+        markEventAsCreated: (event: EventType) => string;
+      };
+
+      const fingerprint = client.markEventAsCreated(event);
+      for (const status of ["cancelled", "withdrawn"] as const) {
+        whatsappClient.getEventStore().update(fingerprint, { status });
+        expect(client.findDuplicateEvent(event)).toBeUndefined();
+        expect(
+          client.findDuplicateEvent({ ...event, title: "Test Event!" })
+        ).toBeUndefined();
+      }
     });
   });
 
@@ -232,7 +258,8 @@ describe("Duplicate Event Detection", () => {
 
       const event = createMockEvent({
         title: "Test Event",
-        startDateISO: "2024-12-25T08:00:00.000Z",
+        startDateISO: "2099-12-25T08:00:00.000Z",
+        endDateISO: "2099-12-25T09:00:00.000Z",
         location: "Test Location",
       });
 
@@ -288,7 +315,7 @@ describe("Duplicate Event Detection", () => {
       const recentEvent = {
         fingerprint: "recent123",
         title: "Recent Event",
-        startDateISO: "2024-12-25T08:00:00.000Z",
+        startDateISO: "2099-12-25T08:00:00.000Z",
         createdAt: Date.now(),
       };
 
@@ -332,6 +359,350 @@ describe("Duplicate Event Detection", () => {
     });
   });
 
+  describe("Event Updates and Cancellations", () => {
+    type EventType = ReturnType<typeof createMockEvent>;
+    type SendMessageArgs = [
+      string,
+      { text: string },
+      { quoted?: { key: { id: string } } }
+    ];
+    interface ClientInternals {
+      llmService: {
+        analyzeMessage: (...args: unknown[]) => Promise<unknown>;
+      };
+      socket: { sendMessage: jest.Mock<Promise<unknown>, SendMessageArgs> } | null;
+      isReady: boolean;
+      targetGroupId: string | null;
+      markEventAsCreated: (
+        event: EventType,
+        source?: unknown,
+        model?: string | null,
+        deliveries?: unknown[]
+      ) => void;
+      generateEventFingerprint: (event: EventType) => string;
+      processMessageForEvents: (
+        chatId: string,
+        messageText: string,
+        chatName: string,
+        contactName: string,
+        imageBase64?: string | null,
+        imageMimeType?: string | null,
+        sendToWhatsApp?: boolean
+      ) => Promise<{ formattedMessages?: string[] }>;
+    }
+
+    const original = createMockEvent({
+      title: "Parent Meeting",
+      startDateISO: "2099-12-25T16:00:00.000Z",
+      endDateISO: "2099-12-25T17:00:00.000Z",
+      location: "School",
+    });
+
+    // The change is built from the short reference of the original event
+    const setupClient = (change: (reference: string) => Partial<EventType>) => {
+      whatsappClient = createClient();
+      const client = whatsappClient as unknown as ClientInternals;
+      const reference = client.generateEventFingerprint(original).substring(0, 8);
+      const analyzeMessage = jest.fn<Promise<unknown>, unknown[]>().mockResolvedValue({
+        hasEvents: true,
+        events: [{ ...createMockEvent(), ...change(reference) }],
+      });
+      client.llmService.analyzeMessage = analyzeMessage;
+      client.socket = {
+        sendMessage: jest
+          .fn<Promise<unknown>, SendMessageArgs>()
+          .mockResolvedValue({ key: { id: "NOTICE1" } }),
+      };
+      client.isReady = true;
+      client.targetGroupId = "target@g.us";
+      client.markEventAsCreated(
+        original,
+        {
+          chatId: "school@g.us",
+          chatName: "School Parents",
+          sender: "Dana",
+          messageId: "SRC1",
+          messageText: "Parent meeting at 18:00",
+        },
+        "test-model",
+        [{ chatId: "target@g.us", messageId: "SENT1", sentAt: new Date().toISOString() }]
+      );
+      return { client, analyzeMessage, reference };
+    };
+
+    it("should offer known events from the chat to the LLM", async () => {
+      const { client, analyzeMessage, reference } = setupClient(() => ({ isEvent: false }));
+
+      await client.processMessageForEvents("school@g.us", "hello", "School Parents", "Dana");
+
+      expect(analyzeMessage.mock.calls[0][6]).toEqual({
+        knownEvents: [
+          {
+            id: reference,
+            title: "Parent Meeting",
+            startDateISO: "2099-12-25T16:00:00.000Z",
+            location: "School",
+          },
+        ],
+      });
+    });
+
+    it("should send an update notice quoting the original event instead of a new event", async () => {
+      const { client, reference } = setupClient((ref) => ({
+        title: "Parent Meeting",
+        startDateISO: "2099-12-25T15:00:00.000Z",
+        endDateISO: null,
+        location: null,
+        action: "update",
+        relatedEventId: ref,
+      }));
+
+      const result = await client.processMessageForEvents(
+        "school@g.us", "The meeting moved to 17:00", "School Parents", "Dana"
+      );
+
+      expect(result.formattedMessages?.[0]).toContain("עודכן");
+      expect(client.socket?.sendMessage).toHaveBeenCalledTimes(1);
+      const [groupId, content, options] = client.socket?.sendMessage.mock.calls[0] ?? [];
+      expect(groupId).toBe("target@g.us");
+      expect(content?.text).toContain("Parent Meeting");
+      expect(options?.quoted?.key.id).toBe("SENT1");
+
+      const stored = whatsappClient.getEventStore().findByReference(reference);
+      expect(stored?.details.startDateISO).toBe("2099-12-25T15:00:00.000Z");
+      expect(stored?.details.location).toBe("School");
+      expect(stored?.updatedAt).toBeDefined();
+
+      // The updated version is not announced again as a new event
+      const updated = { ...original, startDateISO: "2099-12-25T15:00:00.000Z" };
+      expect(whatsappClient.getEventStore().has(client.generateEventFingerprint(updated))).toBe(true);
+    });
+
+    it("should mark the event as cancelled and send a cancellation notice", async () => {
+      const { client, reference } = setupClient((ref) => ({
+        title: "Parent Meeting",
+        action: "cancel",
+        relatedEventId: ref,
+      }));
+
+      const result = await client.processMessageForEvents(
+        "school@g.us", "The meeting is cancelled", "School Parents", "Dana"
+      );
+
+      expect(result.formattedMessages?.[0]).toContain("בוטל");
+      expect(whatsappClient.getEventStore().findByReference(reference)?.status).toBe("cancelled");
+    });
+
+    it("should move reminders when an event is updated", async () => {
+      const { client } = setupClient((ref) => ({
+        title: "Parent Meeting",
+        startDateISO: "2099-12-25T15:00:00.000Z",
+        action: "update",
+        relatedEventId: ref,
+      }));
+      const scheduler = whatsappClient.getReminderScheduler();
+      scheduler.schedule(client.generateEventFingerprint(original), original.startDateISO, [60]);
+
+      await client.processMessageForEvents(
+        "school@g.us", "The meeting moved to 17:00", "School Parents", "Dana"
+      );
+
+      // Rescheduled with the configured offsets (default: 1 day and 1 hour before)
+      expect(scheduler.getPending().map((r) => r.remindAt)).toEqual([
+        "2099-12-24T15:00:00.000Z",
+        "2099-12-25T14:00:00.000Z",
+      ]);
+    });
+
+    it("should cancel reminders when an event is cancelled", async () => {
+      const { client } = setupClient((ref) => ({
+        title: "Parent Meeting",
+        action: "cancel",
+        relatedEventId: ref,
+      }));
+      const scheduler = whatsappClient.getReminderScheduler();
+      scheduler.schedule(client.generateEventFingerprint(original), original.startDateISO, [1440, 60]);
+
+      await client.processMessageForEvents(
+        "school@g.us", "The meeting is cancelled", "School Parents", "Dana"
+      );
+
+      expect(scheduler.getPending()).toEqual([]);
+    });
+
+    it("should send due reminders as a reply to the original event", async () => {
+      const { client } = setupClient(() => ({ isEvent: false }));
+      const scheduler = whatsappClient.getReminderScheduler();
+      scheduler.schedule(client.generateEventFingerprint(original), original.startDateISO, [60]);
+
+      const sent = await scheduler.processDue(new Date("2099-12-25T15:30:00.000Z"));
+
+      expect(sent).toBe(1);
+      const [groupId, content, options] = client.socket?.sendMessage.mock.calls[0] ?? [];
+      expect(groupId).toBe("target@g.us");
+      expect(content?.text).toContain("תזכורת");
+      expect(content?.text).toContain("Parent Meeting");
+      expect(options?.quoted?.key.id).toBe("SENT1");
+      expect(scheduler.getPending()).toEqual([]);
+    });
+
+    it("should skip cancellations of unknown events", async () => {
+      const { client } = setupClient(() => ({
+        title: "Something Else",
+        action: "cancel",
+        relatedEventId: "ffffffff",
+      }));
+
+      const result = await client.processMessageForEvents(
+        "school@g.us", "Cancelled", "School Parents", "Dana"
+      );
+
+      expect(result.formattedMessages).toBeUndefined();
+      expect(client.socket?.sendMessage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Cross-chat Merging", () => {
+    type EventType = ReturnType<typeof createMockEvent>;
+    interface ClientInternals {
+      llmService: { analyzeMessage: jest.Mock };
+      socket: { sendMessage: jest.Mock } | null;
+      isReady: boolean;
+      targetGroupId: string | null;
+      caldavClient: { isEnabled: () => boolean; putEvent: jest.Mock };
+      markEventAsCreated: (event: EventType, source?: unknown) => string;
+      processMessageForEvents: (
+        chatId: string,
+        messageText: string,
+        chatName: string,
+        contactName: string,
+        imageBase64?: string | null,
+        imageMimeType?: string | null,
+        sendToWhatsApp?: boolean,
+        messageId?: string | null
+      ) => Promise<unknown>;
+      handleProtocolMessage: (
+        message: unknown,
+        chatId: string,
+        isGroup: boolean
+      ) => Promise<void>;
+    }
+
+    const setupClient = (detected: Partial<EventType>) => {
+      whatsappClient = createClient();
+      const client = whatsappClient as unknown as ClientInternals;
+      client.llmService.analyzeMessage = jest.fn().mockResolvedValue({
+        hasEvents: true,
+        events: [createMockEvent(detected)],
+      });
+      client.socket = {
+        sendMessage: jest.fn().mockResolvedValue({ key: { id: "SENT2" } }),
+      };
+      client.isReady = true;
+      client.targetGroupId = "target@g.us";
+      client.caldavClient.isEnabled = () => true;
+      client.caldavClient.putEvent = jest.fn().mockResolvedValue(true);
+      const fingerprint = client.markEventAsCreated(
+        createMockEvent({
+          title: "אסיפת הורים",
+          startDateISO: "2099-12-25T16:00:00.000Z",
+          endDateISO: "2099-12-25T17:00:00.000Z",
+          location: "בית הספר",
+        }),
+        {
+          chatId: "class-a@g.us",
+          chatName: "כיתה א",
+          sender: "Dana",
+          messageId: "SRC1",
+          messageText: "אסיפת הורים ביום רביעי ב-18:00 בבית הספר",
+        }
+      );
+      return { client, fingerprint };
+    };
+
+    it("should merge the same event announced in another chat", async () => {
+      const { client, fingerprint } = setupClient({
+        title: "אסיפה להורים",
+        startDateISO: "2099-12-25T16:15:00.000Z",
+        location: "בית-הספר",
+      });
+
+      await client.processMessageForEvents(
+        "class-b@g.us", "תזכורת: אסיפה להורים ב-18:15", "כיתה ב", "Avi"
+      );
+
+      expect(client.socket?.sendMessage).not.toHaveBeenCalled();
+      const stored = whatsappClient.getEventStore().get(fingerprint);
+      expect(stored?.additionalSources).toEqual([
+        expect.objectContaining({ chatId: "class-b@g.us", chatName: "כיתה ב" }),
+      ]);
+      expect(whatsappClient.getEventStore().query({ chat: "class-b@g.us" })).toHaveLength(1);
+      expect(client.caldavClient.putEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ additionalSources: stored?.additionalSources })
+      );
+    });
+
+    it("should keep a merged event when its first announcement is deleted", async () => {
+      const { client, fingerprint } = setupClient({
+        title: "אסיפה להורים",
+        startDateISO: "2099-12-25T16:15:00.000Z",
+        location: "בית-הספר",
+      });
+      await client.processMessageForEvents(
+        "class-b@g.us", "תזכורת: אסיפה להורים ב-18:15", "כיתה ב", "Avi",
+        null, null, true, "SRC2"
+      );
+
+      await client.handleProtocolMessage(
+        { key: { id: "REVOKE1" }, message: { protocolMessage: { type: 0, key: { id: "SRC1" } } } },
+        "class-a@g.us",
+        true
+      );
+
+      const stored = whatsappClient.getEventStore().get(fingerprint);
+      expect(stored?.status).toBe("active");
+      expect(stored?.source).toMatchObject({ chatId: "class-b@g.us", messageId: "SRC2" });
+      expect(stored?.additionalSources).toEqual([]);
+      expect(client.socket?.sendMessage).not.toHaveBeenCalled();
+
+      await client.handleProtocolMessage(
+        { key: { id: "REVOKE2" }, message: { protocolMessage: { type: 0, key: { id: "SRC2" } } } },
+        "class-b@g.us",
+        true
+      );
+      expect(whatsappClient.getEventStore().get(fingerprint)?.status).toBe("withdrawn");
+    });
+
+    it("should not add the same chat twice", async () => {
+      const { client, fingerprint } = setupClient({
+        title: "אסיפת ההורים",
+        startDateISO: "2099-12-25T16:00:00.000Z",
+        location: null,
+      });
+
+      await client.processMessageForEvents(
+        "class-a@g.us", "מזכירים: אסיפת ההורים מחר", "כיתה א", "Dana"
+      );
+
+      expect(client.socket?.sendMessage).not.toHaveBeenCalled();
+      expect(whatsappClient.getEventStore().get(fingerprint)?.additionalSources).toBeUndefined();
+    });
+
+    it("should still send different events at the same time", async () => {
+      const { client } = setupClient({
+        title: "אימון כדורגל",
+        startDateISO: "2099-12-25T16:00:00.000Z",
+        location: "בית הספר",
+      });
+
+      await client.processMessageForEvents(
+        "class-b@g.us", "אימון כדורגל ביום רביעי ב-18:00", "כיתה ב", "Avi"
+      );
+
+      expect(client.socket?.sendMessage).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe("Integration with Message Processing", () => {
     it("should not call sendEventToGroup for duplicate events", () => {
       whatsappClient = createClient();
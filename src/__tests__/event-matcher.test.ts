@@ -0,0 +1,106 @@
+/**
+ * Tests for the Event Matcher
+ * Tests Hebrew normalization, title and location similarity and matching within a time tolerance
+ */
+
+import {
+  eventMatchSettingsFromEnv,
+  eventSimilarity,
+  findMatchingEvent,
+  normalizeEventText,
+  textSimilarity,
+} from "../event-matcher";
+import type { StoredEvent } from "../event-store";
+import { createMockEvent } from "./utils/test-helpers";
+
+describe("EventMatcher", () => {
+  const settings = eventMatchSettingsFromEnv({});
+  const stored = (overrides: Parameters<typeof createMockEvent>[0]): StoredEvent => ({
+    fingerprint: `fp-${overrides?.title ?? "event"}`,
+    details: createMockEvent(overrides),
+    source: {
+      chatId: "class-a@g.us",
+      chatName: "כיתה א",
+      sender: "Dana",
+      messageId: "SRC1",
+      messageText: "",
+    },
+    model: null,
+    detectedAt: new Date().toISOString(),
+    createdAt: Date.now(),
+    status: "active",
+  });
+
+  describe("Normalization", () => {
+    it("should ignore vowel marks, final letters, punctuation and case", () => {
+      expect(normalizeEventText("אֲסֵיפַת הורים - כיתה ג'")).toBe("אסיפת הורימ כיתה ג");
+      expect(normalizeEventText("Parent-Teacher  MEETING!")).toBe("parent teacher meeting");
+    });
+  });
+
+  describe("Similarity", () => {
+    it("should match Hebrew titles that differ by prefixes and construct forms", () => {
+      expect(textSimilarity("אסיפת הורים", "אסיפה להורים")).toBe(1);
+      expect(textSimilarity("מסיבת חנוכה", "מסיבה של חנוכה")).toBe(1);
+      expect(textSimilarity("אסיפת הורים", "אסיפת הורים כיתה ג")).toBeCloseTo(2 / 3);
+    });
+
+    it("should tell apart titles with different numbers or letters", () => {
+      expect(textSimilarity("אסיפת הורים כיתה ג", "אסיפת הורים כיתה ד")).toBe(0);
+      expect(textSimilarity("Training group 1", "Training group 2")).toBe(0);
+    });
+
+    it("should weigh the location in when both events have one", () => {
+      const a = createMockEvent({ title: "Parent meeting", location: "School hall" });
+
+      expect(eventSimilarity(a, { ...a, location: null })).toBe(1);
+      expect(eventSimilarity(a, { ...a, location: "Community center" })).toBeCloseTo(2 / 3);
+    });
+  });
+
+  describe("findMatchingEvent", () => {
+    const meeting = stored({
+      title: "אסיפת הורים",
+      startDateISO: "2099-12-25T16:00:00.000Z",
+    });
+
+    it("should find an event starting within the tolerance", () => {
+      const event = createMockEvent({
+        title: "אסיפה להורים",
+        startDateISO: "2099-12-25T16:30:00.000Z",
+      });
+
+      expect(findMatchingEvent(event, [meeting], settings)).toBe(meeting);
+      expect(
+        findMatchingEvent(
+          { ...event, startDateISO: "2099-12-25T16:31:00.000Z" },
+          [meeting],
+          settings
+        )
+      ).toBeUndefined();
+    });
+
+    it("should pick the most similar event", () => {
+      const practice = stored({
+        title: "אימון כדורגל",
+        startDateISO: "2099-12-25T16:00:00.000Z",
+      });
+      const event = createMockEvent({
+        title: "אימון הכדורגל",
+        startDateISO: "2099-12-25T16:00:00.000Z",
+      });
+
+      expect(findMatchingEvent(event, [meeting, practice], settings)).toBe(practice);
+    });
+  });
+
+  it("should read the settings from the environment", () => {
+    expect(settings).toEqual({ toleranceMinutes: 30, threshold: 0.6 });
+    expect(
+      eventMatchSettingsFromEnv({
+        DEDUP_TIME_TOLERANCE_MINUTES: "0",
+        DEDUP_SIMILARITY_THRESHOLD: "1.5",
+      })
+    ).toEqual({ toleranceMinutes: 0, threshold: 0.6 });
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Tests for event routing rules
+ * Tests rule matching, destination resolution and validation
+ */
+
+import {
+  destinationJid,
+  resolveDestinations,
+  ruleMatches,
+  validateRoutingRules,
+  type RouteContext,
+  type RoutingRule,
+} from "../event-router";
+import { createMockEvent } from "./utils/test-helpers";
+
+describe("Event Router", () => {
+  const context = (overrides: Partial<RouteContext> = {}): RouteContext => ({
+    chatId: "school@g.us",
+    chatName: "School Parents 3B",
+    sender: "Dana Cohen",
+    messageText: "Parent meeting on Wednesday at 18:00",
+    event: createMockEvent({ title: "Parent Meeting" }),
+    ...overrides,
+  });
+
+  const rule = (match: RoutingRule["match"], id = "parent@s.whatsapp.net"): RoutingRule => ({
+    name: "Rule",
+    match,
+    destinations: [{ type: "contact", id }],
+  });
+
+  describe("ruleMatches", () => {
+    it("should match chats by ID or partial name", () => {
+      expect(ruleMatches(rule({ chats: ["school@g.us"] }), context())).toBe(true);
+      expect(ruleMatches(rule({ chats: ["school parents"] }), context())).toBe(true);
+      expect(ruleMatches(rule({ chats: ["Work"] }), context())).toBe(false);
+    });
+
+    it("should match keywords in the message or event", () => {
+      expect(ruleMatches(rule({ keywords: ["meeting"] }), context())).toBe(true);
+      expect(
+        ruleMatches(
+          rule({ keywords: ["trip"] }),
+          context({ event: createMockEvent({ title: "Class Trip" }) })
+        )
+      ).toBe(true);
+      expect(ruleMatches(rule({ keywords: ["football"] }), context())).toBe(false);
+    });
+
+    it("should require all given conditions", () => {
+      expect(ruleMatches(rule({ chats: ["School"], senders: ["Dana"] }), context())).toBe(true);
+      expect(ruleMatches(rule({ chats: ["School"], senders: ["Noam"] }), context())).toBe(false);
+    });
+
+    it("should match everything when a rule has no conditions", () => {
+      expect(ruleMatches(rule({}), context())).toBe(true);
+    });
+  });
+
+  describe("resolveDestinations", () => {
+    it("should combine the destinations of all matching rules without duplicates", () => {
+      const rules: RoutingRule[] = [
+        rule({ chats: ["School"] }, "972501111111"),
+        rule({ keywords: ["meeting"] }, "972501111111@s.whatsapp.net"),
+        rule({ senders: ["Dana"] }, "972502222222"),
+        rule({ chats: ["Work"] }, "972503333333"),
+      ];
+
+      expect(resolveDestinations(rules, context())).toEqual([
+        { type: "contact", id: "972501111111" },
+        { type: "contact", id: "972502222222" },
+      ]);
+    });
+
+    it("should return no destinations when no rule matches", () => {
+      expect(resolveDestinations([rule({ chats: ["Work"] })], context())).toEqual([]);
+    });
+  });
+
+  describe("destinationJid", () => {
+    it("should turn phone numbers into user JIDs", () => {
+      expect(destinationJid({ type: "contact", id: "+972 50-123-4567" })).toBe(
+        "972501234567@s.whatsapp.net"
+      );
+      expect(destinationJid({ type: "group", id: "120363000000@g.us" })).toBe(
+        "120363000000@g.us"
+      );
+    });
+  });
+
+  describe("validateRoutingRules", () => {
+    it("should accept valid rules", () => {
+      expect(
+        validateRoutingRules([
+          {
+            name: "School",
+            match: { chats: ["School"] },
+            destinations: [
+              { type: "group", id: "120363000000@g.us" },
+              { type: "webhook", url: "https://example.com/hook" },
+            ],
+          },
+        ])
+      ).toBeNull();
+      expect(validateRoutingRules([])).toBeNull();
+    });
+
+    it("should reject invalid rules", () => {
+      expect(validateRoutingRules({})).toBe("Routing rules must be an array");
+      expect(validateRoutingRules([{ match: {}, destinations: [] }])).toBe(
+        "Rule 1 needs a name"
+      );
+      expect(
+        validateRoutingRules([{ name: "A", match: { chats: "School" }, destinations: [] }])
+      ).toBe('Rule 1: "chats" must be a list of strings');
+      expect(validateRoutingRules([{ name: "A", match: {}, destinations: [] }])).toBe(
+        "Rule 1 needs at least one destination"
+      );
+      expect(
+        validateRoutingRules([
+          { name: "A", match: {}, destinations: [{ type: "webhook", url: "ftp://x" }] },
+        ])
+      ).toBe("Rule 1: webhook destinations need an http(s) URL");
+      expect(
+        validateRoutingRules([{ name: "A", match: {}, destinations: [{ type: "email" }] }])
+      ).toContain("destination type must be one of");
+    });
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Tests for the LLM response schema
+ * Tests parsing, type checks, ISO dates, end-after-start and field lengths
+ */
+
+import {
+  EVENT_FIELD_LIMITS,
+  parseMultiEventResult,
+  validateMultiEventResult,
+} from "../event-schema";
+
+describe("Event Schema", () => {
+  const event = (overrides: Record<string, unknown> = {}) => ({
+    isEvent: true,
+    summary: "Birthday party",
+    title: "Birthday party",
+    date: "יום שישי",
+    time: "18:00",
+    location: "Park",
+    description: null,
+    startDateISO: "2024-12-20T16:00:00.000Z",
+    endDateISO: "2024-12-20T17:00:00.000Z",
+    action: "create",
+    relatedEventId: null,
+    ...overrides,
+  });
+
+  describe("parseMultiEventResult", () => {
+    it("should parse a valid response", () => {
+      const { result, errors } = parseMultiEventResult(
+        JSON.stringify({ hasEvents: true, events: [event()] })
+      );
+
+      expect(errors).toEqual([]);
+      expect(result?.hasEvents).toBe(true);
+      expect(result?.events[0].title).toBe("Birthday party");
+    });
+
+    it("should accept JSON wrapped in a markdown code fence", () => {
+      const { result } = parseMultiEventResult(
+        "```json\n" + JSON.stringify({ hasEvents: false, events: [] }) + "\n```"
+      );
+
+      expect(result).toEqual({ hasEvents: false, events: [] });
+    });
+
+    it("should report invalid JSON", () => {
+      const { result, errors } = parseMultiEventResult('{"hasEvents": true');
+
+      expect(result).toBeNull();
+      expect(errors[0]).toContain("not valid JSON");
+    });
+  });
+
+  describe("validateMultiEventResult", () => {
+    it("should require a boolean hasEvents", () => {
+      expect(validateMultiEventResult({ hasEvents: "yes" }).errors).toEqual([
+        '"hasEvents" must be true or false',
+      ]);
+      expect(validateMultiEventResult([]).errors).toEqual([
+        "Response must be a JSON object",
+      ]);
+    });
+
+    it("should ignore placeholder events when hasEvents is false", () => {
+      const { result } = validateMultiEventResult({
+        hasEvents: false,
+        events: [event({ title: null })],
+      });
+
+      expect(result).toEqual({ hasEvents: false, events: [] });
+    });
+
+    it("should require events when hasEvents is true", () => {
+      expect(
+        validateMultiEventResult({ hasEvents: true, events: [] }).errors
+      ).toEqual(['"hasEvents" is true but "events" is empty']);
+    });
+
+    it("should check field types", () => {
+      const { result, errors } = validateMultiEventResult({
+        hasEvents: true,
+        events: [event({ title: 42, location: ["Park"] })],
+      });
+
+      expect(result).toBeNull();
+      expect(errors).toEqual([
+        "events[0].title must be a string or null",
+        "events[0].location must be a string or null",
+      ]);
+    });
+
+    it("should reject invalid ISO dates", () => {
+      const { errors } = validateMultiEventResult({
+        hasEvents: true,
+        events: [
+          event({ startDateISO: "2024-12-20 18:00" }),
+          event({ endDateISO: "2024-13-40T10:00:00.000Z" }),
+        ],
+      });
+
+      expect(errors).toHaveLength(2);
+      expect(errors[0]).toMatch(/^events\[0\]\.startDateISO must be/);
+      expect(errors[1]).toMatch(/^events\[1\]\.endDateISO must be/);
+    });
+
+    it("should require the end to be after the start", () => {
+      const { errors } = validateMultiEventResult({
+        hasEvents: true,
+        events: [event({ endDateISO: "2024-12-20T15:00:00.000Z" })],
+      });
+
+      expect(errors).toEqual([
+        "events[0].endDateISO must be after startDateISO",
+      ]);
+    });
+
+    it("should enforce maximum field lengths", () => {
+      const { errors } = validateMultiEventResult({
+        hasEvents: true,
+        events: [event({ title: "x".repeat(EVENT_FIELD_LIMITS.title + 1) })],
+      });
+
+      expect(errors).toEqual([
+        `events[0].title is longer than ${EVENT_FIELD_LIMITS.title} characters`,
+      ]);
+    });
+
+    it("should default missing fields and action", () => {
+      const { result } = validateMultiEventResult({
+        hasEvents: true,
+        events: [{ title: "Meeting" }],
+      });
+
+      expect(result?.events[0]).toEqual({
+        isEvent: true,
+        summary: null,
+        title: "Meeting",
+        date: null,
+        time: null,
+        location: null,
+        description: null,
+        startDateISO: null,
+        endDateISO: null,
+        action: "create",
+        relatedEventId: null,
+      });
+    });
+
+    it("should drop entries that are not events", () => {
+      const { result, errors } = validateMultiEventResult({
+        hasEvents: true,
+        events: [event(), event({ title: "Maybe later", isEvent: false })],
+      });
+
+      expect(errors).toEqual([]);
+      expect(result?.events).toHaveLength(1);
+      expect(result?.events[0].title).toBe("Birthday party");
+
+      expect(
+        validateMultiEventResult({
+          hasEvents: true,
+          events: [event({ isEvent: false })],
+        }).result
+      ).toEqual({ hasEvents: false, events: [] });
+    });
+
+    it("should require a boolean isEvent", () => {
+      const { result, errors } = validateMultiEventResult({
+        hasEvents: true,
+        events: [event({ isEvent: "yes" })],
+      });
+
+      expect(result).toBeNull();
+      expect(errors).toEqual(["events[0].isEvent must be true or false"]);
+    });
+
+    it("should reject unknown actions", () => {
+      const { errors } = validateMultiEventResult({
+        hasEvents: true,
+        events: [event({ action: "delete" })],
+      });
+
+      expect(errors).toEqual([
+        "events[0].action must be one of create, update, cancel",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * Tests for the Event Store
+ * Tests provenance storage, querying, persistence and legacy file upgrades
+ */
+
+import {
+  EventStore,
+  sourceChatNames,
+  type StoredEvent,
+} from "../event-store";
+import { createMockEvent, cleanupTestAuthDir } from "./utils/test-helpers";
+import * as fs from "fs";
+import * as path from "path";
+
+describe("EventStore", () => {
+  const testDir = ".baileys_auth_test_events";
+
+  const createStoredEvent = (
+    overrides: Partial<StoredEvent> & { title?: string; startDateISO?: string } = {}
+  ): StoredEvent => ({
+    fingerprint: overrides.fingerprint ?? `fp-${Math.random()}`,
+    details:
+      overrides.details ??
+      createMockEvent({
+        title: overrides.title ?? "Test Event",
+        startDateISO: overrides.startDateISO ?? "2024-12-25T08:00:00.000Z",
+      }),
+    source: overrides.source ?? {
+      chatId: "school@g.us",
+      chatName: "School Parents",
+      sender: "Dana",
+      messageId: "MSG1",
+      messageText: "Parent meeting on Wednesday at 18:00",
+    },
+    model: overrides.model ?? "test-model",
+    detectedAt: overrides.detectedAt ?? new Date().toISOString(),
+    createdAt: overrides.createdAt ?? Date.now(),
+    status: overrides.status ?? "active",
+  });
+
+  beforeEach(() => {
+    cleanupTestAuthDir(testDir);
+    fs.mkdirSync(testDir, { recursive: true });
+  });
+
+  afterAll(() => {
+    cleanupTestAuthDir(testDir);
+  });
+
+  describe("Querying", () => {
+    it("should filter events by date range", () => {
+      const store = new EventStore(testDir);
+      store.add(createStoredEvent({ title: "Early", startDateISO: "2024-12-01T08:00:00.000Z" }));
+      store.add(createStoredEvent({ title: "Middle", startDateISO: "2024-12-15T08:00:00.000Z" }));
+      store.add(createStoredEvent({ title: "Late", startDateISO: "2024-12-30T08:00:00.000Z" }));
+
+      const results = store.query({
+        from: "2024-12-10T00:00:00.000Z",
+        to: "2024-12-20T00:00:00.000Z",
+      });
+
+      expect(results.map((e) => e.details.title)).toEqual(["Middle"]);
+    });
+
+    it("should filter events by source chat ID or name", () => {
+      const store = new EventStore(testDir);
+      store.add(createStoredEvent({ title: "School" }));
+      store.add(
+        createStoredEvent({
+          title: "Work",
+          source: {
+            chatId: "work@g.us",
+            chatName: "Work Team",
+            sender: "Avi",
+            messageId: "MSG2",
+            messageText: "Standup moved",
+          },
+        })
+      );
+
+      expect(store.query({ chat: "work@g.us" }).map((e) => e.details.title)).toEqual(["Work"]);
+      expect(store.query({ chat: "School" }).map((e) => e.details.title)).toEqual(["School"]);
+      expect(store.query({ chat: "work team" }).map((e) => e.details.title)).toEqual(["Work"]);
+      expect(store.query({ chat: "WORK@G.US" }).map((e) => e.details.title)).toEqual(["Work"]);
+    });
+
+    it("should match free text against details and the original message", () => {
+      const store = new EventStore(testDir);
+      store.add(createStoredEvent({ title: "Parent meeting" }));
+      store.add(createStoredEvent({ title: "Birthday" }));
+
+      expect(store.query({ text: "wednesday" })).toHaveLength(2);
+      expect(store.query({ text: "birthday" }).map((e) => e.details.title)).toEqual(["Birthday"]);
+    });
+
+    it("should sort results by start date", () => {
+      const store = new EventStore(testDir);
+      store.add(createStoredEvent({ title: "B", startDateISO: "2024-12-20T08:00:00.000Z" }));
+      store.add(createStoredEvent({ title: "A", startDateISO: "2024-12-10T08:00:00.000Z" }));
+
+      expect(store.query().map((e) => e.details.title)).toEqual(["A", "B"]);
+    });
+  });
+
+  describe("Updates", () => {
+    it("should find events by a fingerprint prefix", () => {
+      const store = new EventStore(testDir);
+      store.add(createStoredEvent({ fingerprint: "abcdef123456" }));
+
+      expect(store.findByReference(EventStore.referenceFor("abcdef123456"))?.fingerprint).toBe("abcdef123456");
+      expect(store.findByReference("abc")).toBeUndefined();
+      expect(store.findByReference("999999")).toBeUndefined();
+    });
+
+    it("should treat fingerprints of updated versions as known", () => {
+      const store = new EventStore(testDir);
+      store.add(createStoredEvent({ fingerprint: "original" }));
+      store.update("original", { aliases: ["updated"], status: "cancelled" });
+
+      expect(store.has("updated")).toBe(true);
+      expect(store.findByFingerprint("updated")?.fingerprint).toBe("original");
+      expect(store.get("original")?.status).toBe("cancelled");
+    });
+
+    it("should add the other chats that announced an event once each", () => {
+      const store = new EventStore(testDir);
+      store.add(createStoredEvent({ fingerprint: "meeting" }));
+      const other = {
+        chatId: "class-b@g.us",
+        chatName: "Class B Parents",
+        sender: "Avi",
+        messageId: "MSG9",
+        messageText: "Parents meeting Wednesday 18:00",
+      };
+
+      expect(store.addSource("meeting", other)).toBeDefined();
+      expect(store.addSource("meeting", other)).toBeUndefined();
+      expect(store.addSource("meeting", createStoredEvent().source)).toBeUndefined();
+
+      const merged = store.get("meeting") as StoredEvent;
+      expect(sourceChatNames(merged)).toEqual(["School Parents", "Class B Parents"]);
+      expect(store.query({ chat: "Class B" }).map((e) => e.fingerprint)).toEqual([
+        "meeting",
+      ]);
+    });
+
+    it("should promote another source when the first announcement is removed", () => {
+      const store = new EventStore(testDir);
+      store.add(createStoredEvent({ fingerprint: "meeting" }));
+      store.addSource("meeting", {
+        chatId: "class-b@g.us",
+        chatName: "Class B Parents",
+        sender: "Avi",
+        messageId: "MSG9",
+        messageText: "Parents meeting Wednesday 18:00",
+      });
+
+      expect(
+        store.findBySourceMessage("class-b@g.us", "MSG9").map((e) => e.fingerprint)
+      ).toEqual(["meeting"]);
+
+      const remaining = store.removeSource("meeting", "school@g.us", "MSG1");
+      expect(remaining?.source.chatId).toBe("class-b@g.us");
+      expect(remaining?.additionalSources).toEqual([]);
+      expect(store.removeSource("meeting", "class-b@g.us", "MSG9")).toBeUndefined();
+    });
+
+    it("should find the events detected from a source message", () => {
+      const store = new EventStore(testDir);
+      store.add(createStoredEvent({ fingerprint: "first" }));
+      store.add(createStoredEvent({ fingerprint: "second" }));
+      store.add(
+        createStoredEvent({
+          fingerprint: "other",
+          source: {
+            chatId: "school@g.us",
+            chatName: "School Parents",
+            sender: "Dana",
+            messageId: "MSG2",
+            messageText: "Trip on Friday",
+          },
+        })
+      );
+
+      expect(
+        store.findBySourceMessage("school@g.us", "MSG1").map((e) => e.fingerprint)
+      ).toEqual(["first", "second"]);
+      expect(store.findBySourceMessage("other@g.us", "MSG1")).toEqual([]);
+    });
+  });
+
+  describe("Persistence", () => {
+    it("should save and reload events with provenance", () => {
+      const store = new EventStore(testDir);
+      const event = createStoredEvent({
+        fingerprint: "abc",
+        details: createMockEvent({
+          startDateISO: "2099-12-25T08:00:00.000Z",
+          endDateISO: "2099-12-25T09:00:00.000Z",
+        }),
+      });
+      store.add(event);
+      store.save();
+
+      const reloaded = new EventStore(testDir);
+      reloaded.load();
+
+      expect(reloaded.get("abc")).toEqual(event);
+    });
+
+    it("should upgrade entries written by older versions", () => {
+      fs.writeFileSync(
+        path.join(testDir, "created_events.json"),
+        JSON.stringify([
+          {
+            fingerprint: "legacy",
+            title: "Legacy Event",
+            startDateISO: "2099-12-25T08:00:00.000Z",
+            createdAt: Date.now(),
+          },
+        ])
+      );
+
+      const store = new EventStore(testDir);
+      store.load();
+
+      const event = store.get("legacy");
+      expect(event?.details.title).toBe("Legacy Event");
+      expect(event?.details.startDateISO).toBe("2099-12-25T08:00:00.000Z");
+      expect(event?.source.chatName).toBe("");
+      expect(event?.status).toBe("active");
+    });
+
+    it("should drop events that ended before the retention period", () => {
+      const day = 24 * 60 * 60 * 1000;
+      const dated = (fingerprint: string, startDays: number, createdAt = Date.now()) =>
+        createStoredEvent({
+          fingerprint,
+          createdAt,
+          details: createMockEvent({
+            startDateISO: new Date(Date.now() + startDays * day).toISOString(),
+            endDateISO: new Date(Date.now() + startDays * day + 60 * 60 * 1000).toISOString(),
+          }),
+        });
+      const store = new EventStore(testDir, 30);
+      store.add(dated("old", -32));
+      store.add(dated("recent", -29, Date.now() - 40 * day));
+      // Announced long ago, but still ahead
+      store.add(dated("upcoming", 10, Date.now() - 60 * day));
+      // Without a date, the detection time counts
+      store.add(createStoredEvent({
+        fingerprint: "undated",
+        details: { ...createMockEvent(), startDateISO: null, endDateISO: null },
+        createdAt: Date.now() - 31 * day,
+      }));
+
+      store.cleanup();
+
+      expect(store.has("old")).toBe(false);
+      expect(store.has("recent")).toBe(true);
+      expect(store.has("upcoming")).toBe(true);
+      expect(store.has("undated")).toBe(false);
+    });
+  });
+});
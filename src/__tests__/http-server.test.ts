@@ -0,0 +1,83 @@
+/**
+ * Tests for the HTTP Server
+ * Tests the API token checks of the event query endpoint
+ */
+
+import { HttpServer } from "../http-server";
+import { ConfigService } from "../config-service";
+import { EventStore } from "../event-store";
+import { cleanupTestAuthDir } from "./utils/test-helpers";
+import * as http from "http";
+import * as fs from "fs";
+
+describe("HttpServer", () => {
+  const testDir = ".baileys_auth_test_http";
+
+  interface TestableServer {
+    handleGetEvents(req: http.IncomingMessage, res: http.ServerResponse): void;
+  }
+
+  const createServer = (token?: string): TestableServer =>
+    new HttpServer(
+      () => ({
+        isConnected: true,
+        connectionState: "open",
+        hasEverConnected: true,
+      }),
+      undefined,
+      token,
+      new ConfigService(testDir),
+      undefined,
+      undefined,
+      new EventStore(testDir)
+    ) as unknown as TestableServer;
+
+  const getEvents = (
+    server: TestableServer,
+    headers: http.IncomingHttpHeaders = {}
+  ): { statusCode: number; body: { error?: string; count?: number } } => {
+    const response = { statusCode: 0, body: {} };
+    const req = { method: "GET", url: "/events", headers } as http.IncomingMessage;
+    const res = {
+      writeHead: jest.fn((code: number) => {
+        response.statusCode = code;
+      }),
+      end: jest.fn((data: string) => {
+        response.body = JSON.parse(data) as object;
+      }),
+    } as unknown as http.ServerResponse;
+    server.handleGetEvents(req, res);
+    return response;
+  };
+
+  beforeEach(() => {
+    cleanupTestAuthDir(testDir);
+    fs.mkdirSync(testDir, { recursive: true });
+  });
+
+  afterAll(() => {
+    cleanupTestAuthDir(testDir);
+  });
+
+  describe("GET /events", () => {
+    it("should refuse queries when no API token is configured", () => {
+      const response = getEvents(createServer());
+
+      expect(response.statusCode).toBe(403);
+      expect(response.body.error).toContain("TEST_ENDPOINT_TOKEN");
+    });
+
+    it("should require the configured API token", () => {
+      const server = createServer("secret");
+
+      expect(getEvents(server).statusCode).toBe(401);
+      expect(
+        getEvents(server, { authorization: "Bearer wrong" }).statusCode
+      ).toBe(401);
+
+      const response = getEvents(server, { authorization: "Bearer secret" });
+      expect(response.statusCode).toBe(200);
+      expect(response.body.count).toBe(0);
+    });
+  });
+});
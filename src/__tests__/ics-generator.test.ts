@@ -0,0 +1,126 @@
+/**
+ * Tests for iCalendar generation
+ * Tests stable UIDs, escaping, line folding and the calendar feed
+ */
+
+import {
+  createCalendarFeed,
+  createEventVCalendar,
+  createStoredEventVCalendar,
+  escapeICSText,
+  eventUid,
+  formatICSDate,
+} from "../ics-generator";
+import type { StoredEvent } from "../event-store";
+import { createMockEvent } from "./utils/test-helpers";
+
+describe("ICS Generator", () => {
+  const createStoredEvent = (fingerprint: string, title: string): StoredEvent => ({
+    fingerprint,
+    details: createMockEvent({ title }),
+    source: {
+      chatId: "school@g.us",
+      chatName: "School Parents",
+      sender: "Dana",
+      messageId: "MSG1",
+      messageText: "original",
+    },
+    model: "test-model",
+    detectedAt: "2024-12-20T10:00:00.000Z",
+    createdAt: Date.now(),
+    status: "active",
+  });
+
+  it("should format dates as UTC date-times", () => {
+    expect(formatICSDate("2024-12-25T08:00:00.000Z")).toBe("20241225T080000Z");
+  });
+
+  it("should escape special characters", () => {
+    expect(escapeICSText("a, b; c\\d\ne")).toBe("a\\, b\\; c\\\\d\\ne");
+  });
+
+  it("should create a single-event calendar with a stable UID", () => {
+    const ics = createEventVCalendar(createMockEvent(), "abc123");
+
+    expect(ics).toContain("BEGIN:VCALENDAR\r\n");
+    expect(ics).toContain(`UID:${eventUid("abc123")}\r\n`);
+    expect(ics).toContain("DTSTART:20241225T080000Z");
+    expect(ics).toContain("DTEND:20241225T090000Z");
+    expect(ics).toContain("SUMMARY:Test Event");
+  });
+
+  it("should keep the same UID for the same fingerprint across feeds", () => {
+    const first = createCalendarFeed([createStoredEvent("fp1", "Meeting")]);
+    const second = createCalendarFeed([
+      createStoredEvent("fp2", "Other"),
+      createStoredEvent("fp1", "Meeting"),
+    ]);
+
+    expect(first).toContain(`UID:${eventUid("fp1")}`);
+    expect(second).toContain(`UID:${eventUid("fp1")}`);
+    expect(second.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+  });
+
+  it("should include the source chat in the description", () => {
+    const ics = createCalendarFeed([createStoredEvent("fp1", "Meeting")]);
+    expect(ics).toContain("DESCRIPTION:מקור: School Parents");
+  });
+
+  it("should list every chat that announced a merged event", () => {
+    const merged: StoredEvent = {
+      ...createStoredEvent("fp1", "Meeting"),
+      additionalSources: [
+        {
+          chatId: "class@g.us",
+          chatName: "Class 3",
+          sender: "Avi",
+          messageId: "MSG2",
+          messageText: "forwarded",
+        },
+      ],
+    };
+    const ics = createStoredEventVCalendar(merged, "Source");
+    expect(ics).toContain("DESCRIPTION:Source: School Parents\\, Class 3");
+  });
+
+  it("should keep cancelled events in the feed with a cancelled status", () => {
+    const cancelled = { ...createStoredEvent("fp1", "Meeting"), status: "cancelled" as const };
+    const ics = createCalendarFeed([cancelled, createStoredEvent("fp2", "Other")]);
+
+    expect(ics.match(/STATUS:CANCELLED/g)).toHaveLength(1);
+    expect(ics).toContain(`UID:${eventUid("fp1")}\r\nDTSTAMP:20241220T100000Z\r\nSTATUS:CANCELLED`);
+  });
+
+  it("should leave out events without a valid date instead of failing", () => {
+    const legacy = createStoredEvent("fp1", "Legacy");
+    legacy.details = { ...legacy.details, startDateISO: "יום שישי בערב" };
+    const withBadEnd = createStoredEvent("fp2", "Meeting");
+    withBadEnd.details = { ...withBadEnd.details, endDateISO: "soon" };
+    withBadEnd.detectedAt = "yesterday";
+
+    const ics = createCalendarFeed([legacy, withBadEnd]);
+
+    expect(ics).not.toContain(eventUid("fp1"));
+    expect(ics).toContain(`UID:${eventUid("fp2")}`);
+    expect(ics).toContain("DTSTART:20241225T080000Z");
+    expect(ics).not.toContain("DTEND");
+  });
+
+  it("should create a calendar object for one stored event", () => {
+    const ics = createStoredEventVCalendar(createStoredEvent("fp1", "Meeting"), "Source");
+
+    expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(1);
+    expect(ics).toContain(`UID:${eventUid("fp1")}\r\n`);
+    expect(ics).toContain("DESCRIPTION:Source: School Parents");
+    expect(ics).not.toContain("X-WR-CALNAME");
+  });
+
+  it("should fold long lines to 75 octets", () => {
+    const longTitle = "אירוע ".repeat(30);
+    const ics = createCalendarFeed([createStoredEvent("fp1", longTitle)]);
+
+    for (const line of ics.split("\r\n")) {
+      expect(Buffer.byteLength(line, "utf-8")).toBeLessThanOrEqual(75);
+    }
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Tests for LLM providers
+ * Tests provider selection from the environment and the offline rule-based provider
+ */
+
+import {
+  createLLMProvider,
+  RuleBasedProvider,
+  type LLMRequest,
+} from "../llm-provider";
+import { LLMService } from "../llm-service";
+import { ConfigService } from "../config-service";
+import { DateResolver } from "../date-resolver";
+
+jest.mock("openai");
+
+describe("LLM Providers", () => {
+  const request = (message: string): LLMRequest => ({
+    model: "rule-based",
+    systemPrompt: "",
+    userContent: [{ type: "text", text: message }],
+    maxTokens: 100,
+    jsonResponse: true,
+    message,
+  });
+
+  describe("createLLMProvider", () => {
+    it("should default to OpenRouter", () => {
+      const provider = createLLMProvider({ OPENROUTER_API_KEY: "key" });
+      expect(provider.name).toBe("openrouter");
+    });
+
+    it("should require the API key of the selected provider", () => {
+      expect(() => createLLMProvider({})).toThrow("OPENROUTER_API_KEY");
+      expect(() => createLLMProvider({ LLM_PROVIDER: "openai" })).toThrow(
+        "OPENAI_API_KEY"
+      );
+      expect(() =>
+        createLLMProvider({ LLM_PROVIDER: "openai-compatible" })
+      ).toThrow("LLM_BASE_URL");
+    });
+
+    it("should create an OpenAI-compatible provider without an API key", () => {
+      const provider = createLLMProvider({
+        LLM_PROVIDER: "openai-compatible",
+        LLM_BASE_URL: "http://localhost:11434/v1",
+      });
+      expect(provider.name).toBe("openai-compatible");
+      expect(provider.defaultFallbackModel).toBe(provider.defaultModel);
+    });
+
+    it("should resolve rule-based dates in the configured time zone", async () => {
+      const configService = {
+        getTimezone: () => "America/New_York",
+      } as unknown as ConfigService;
+      const provider = createLLMProvider(
+        { LLM_PROVIDER: "rule-based" },
+        configService
+      );
+
+      const response = await provider.complete(
+        request("Party on 2099-12-25 at 18:00")
+      );
+      const result = JSON.parse(response.content) as {
+        events: { startDateISO: string }[];
+      };
+
+      expect(result.events[0].startDateISO).toBe("2099-12-25T23:00:00.000Z");
+    });
+
+    it("should reject unknown providers", () => {
+      expect(() => createLLMProvider({ LLM_PROVIDER: "magic" })).toThrow(
+        'Unknown LLM_PROVIDER "magic"'
+      );
+    });
+  });
+
+  describe("RuleBasedProvider", () => {
+    // Wednesday 18 December 2024, 12:00 in Israel (UTC+2)
+    const dateResolver = new DateResolver(
+      "Asia/Jerusalem",
+      () => new Date("2024-12-18T10:00:00.000Z")
+    );
+    const provider = new RuleBasedProvider(dateResolver);
+
+    it("should detect a weekday with a time in Israel time", async () => {
+      const response = await provider.complete(
+        request("אסיפת הורים ביום ראשון בשעה 18:00")
+      );
+      const result = JSON.parse(response.content) as {
+        hasEvents: boolean;
+        events: { startDateISO: string; endDateISO: string }[];
+      };
+
+      expect(result.hasEvents).toBe(true);
+      expect(result.events[0].startDateISO).toBe("2024-12-22T16:00:00.000Z");
+      expect(result.events[0].endDateISO).toBe("2024-12-22T17:00:00.000Z");
+    });
+
+    it("should use daylight saving time for summer dates", async () => {
+      const response = await provider.complete(request("Picnic on 10/7 at 10:00"));
+      const result = JSON.parse(response.content) as {
+        events: { startDateISO: string }[];
+      };
+      expect(result.events[0].startDateISO).toBe("2025-07-10T07:00:00.000Z");
+    });
+
+    it("should default to 08:00 when no time is given", async () => {
+      const response = await provider.complete(request("Team outing tomorrow"));
+      const result = JSON.parse(response.content) as {
+        events: { startDateISO: string }[];
+      };
+      expect(result.events[0].startDateISO).toBe("2024-12-19T06:00:00.000Z");
+    });
+
+    it("should not detect events in questions or messages without a day", async () => {
+      for (const message of ["Should we meet on Monday?", "Thanks everyone", ""]) {
+        const response = await provider.complete(request(message));
+        expect(JSON.parse(response.content)).toEqual({
+          hasEvents: false,
+          events: [],
+        });
+      }
+    });
+
+    it("should work end to end through the LLM service", async () => {
+      const service = new LLMService(new ConfigService(), provider, dateResolver);
+      const result = await service.analyzeMessage(
+        "chat-1",
+        "Soccer practice on Thursday at 17:30",
+        "Test Chat",
+        "Test User"
+      );
+
+      expect(result.hasEvents).toBe(true);
+      expect(result.events[0].startDateISO).toBe("2024-12-19T15:30:00.000Z");
+    });
+  });
+});
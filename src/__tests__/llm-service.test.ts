@@ -3,7 +3,12 @@
  * Tests event detection, multi-event extraction, language handling, and error cases
  */
 
-import { OpenAIService } from "../llm-service";
+import { OpenAIService, type AnalysisContext } from "../llm-service";
+import type { LLMProvider, LLMRequest } from "../llm-provider";
+import type { ExtractedDocument } from "../document-extractor";
+import type { UsageTracker } from "../usage-tracker";
+import { ResponseCache } from "../response-cache";
+import type { ConfigService } from "../config-service";
 import {
   validateEventDetails,
   validateMultiEventResult,
@@ -325,6 +330,45 @@ describe("OpenAIService", () => {
       expect(result).toHaveProperty("hasEvents");
     });
 
+    it("should give the conversation with times and senders, without the burst being analyzed", async () => {
+      const complete = jest.fn((_request: LLMRequest) =>
+        Promise.resolve({
+          content: '{"hasEvents": false, "events": []}',
+          finishReason: "stop",
+          usage: null,
+        })
+      );
+      const service = new OpenAIService(undefined, {
+        name: "scripted",
+        defaultModel: "scripted",
+        defaultFallbackModel: "scripted",
+        complete,
+      });
+      const minutesAgo = (minutes: number) =>
+        new Date(Date.now() - minutes * 60 * 1000);
+      service.addMessageToHistory("test-chat-id", "Dinner Thursday?", "Alice", minutesAgo(3));
+      service.addMessageToHistory("test-chat-id", "Can't, Friday?", "Dana", minutesAgo(2));
+      service.addMessageToHistory("test-chat-id", "Friday at 8 then", "Alice", minutesAgo(1));
+
+      await service.analyzeMessage(
+        "test-chat-id",
+        "Dana: Can't, Friday?\nAlice: Friday at 8 then",
+        "Test Chat",
+        "Dana, Alice",
+        null,
+        null,
+        { batchSize: 2 }
+      );
+      const [textPart] = complete.mock.calls[0][0].userContent;
+      const prompt = textPart.type === "text" ? textPart.text : "";
+
+      expect(prompt).toContain("2 messages sent in a quick burst");
+      expect(prompt).toMatch(
+        /Previous messages for context:\n\[1\] \w{3} \d{2}:\d{2} Alice: Dinner Thursday\?\n\n/
+      );
+      expect(service.getMessageHistory("test-chat-id")).toHaveLength(3);
+    });
+
     it("should use chat name for context", async () => {
       const result = await openaiService.analyzeMessage(
         "test-chat-id",
@@ -412,6 +456,114 @@ describe("OpenAIService", () => {
     });
   });
 
+  describe("Response Repair", () => {
+    const validEvent = JSON.stringify({
+      hasEvents: true,
+      events: [
+        {
+          isEvent: true,
+          summary: "Team meeting",
+          title: "Team meeting",
+          date: "2024-12-25",
+          time: "10:00",
+          location: null,
+          description: null,
+          startDateISO: "2024-12-25T08:00:00.000Z",
+          endDateISO: "2024-12-25T09:00:00.000Z",
+        },
+      ],
+    });
+
+    // Provider that answers with the given responses in order
+    const scriptedProvider = (responses: string[]) => {
+      const complete = jest.fn((_request: LLMRequest) =>
+        Promise.resolve({
+          content: responses.shift() ?? "",
+          finishReason: "stop",
+          usage: null,
+        })
+      );
+      const provider: LLMProvider = {
+        name: "scripted",
+        defaultModel: "scripted",
+        defaultFallbackModel: "scripted",
+        complete,
+      };
+      return { provider, complete };
+    };
+
+    it("should re-ask the model with the validation errors", async () => {
+      const invalid = JSON.stringify({
+        hasEvents: true,
+        events: [{ title: "Team meeting", startDateISO: "tomorrow" }],
+      });
+      const { provider, complete } = scriptedProvider([invalid, validEvent]);
+      const service = new OpenAIService(undefined, provider);
+
+      const result = await service.analyzeMessage(
+        "test-chat-id",
+        "Team meeting on 2024-12-25 at 10:00",
+        "Test Chat",
+        "Test User"
+      );
+
+      expect(result.hasEvents).toBe(true);
+      expect(result.events[0].title).toBe("Team meeting");
+      expect(complete).toHaveBeenCalledTimes(2);
+
+      const repairRequest = complete.mock.calls[1][0];
+      const repairText = repairRequest.userContent
+        .map((part) => (part.type === "text" ? part.text : ""))
+        .join("\n");
+      expect(repairText).toContain("events[0].startDateISO");
+      expect(repairText).toContain(invalid);
+      expect(service.getValidationStats()).toEqual({
+        invalid: 1,
+        repaired: 1,
+        failed: 0,
+      });
+    });
+
+    it("should give up after one repair attempt", async () => {
+      const { provider, complete } = scriptedProvider([
+        "Invalid JSON {",
+        '{"hasEvents": true, "summary": "Meeting"}',
+        validEvent,
+      ]);
+      const service = new OpenAIService(undefined, provider);
+
+      const result = await service.analyzeMessage(
+        "test-chat-id",
+        "Team meeting",
+        "Test Chat",
+        "Test User"
+      );
+
+      expect(result).toEqual({ hasEvents: false, events: [] });
+      expect(complete).toHaveBeenCalledTimes(2);
+      expect(service.getValidationStats()).toEqual({
+        invalid: 2,
+        repaired: 0,
+        failed: 1,
+      });
+    });
+
+    it("should not re-ask when the response is valid", async () => {
+      const { provider, complete } = scriptedProvider([validEvent]);
+      const service = new OpenAIService(undefined, provider);
+
+      await service.analyzeMessage(
+        "test-chat-id",
+        "Team meeting",
+        "Test Chat",
+        "Test User"
+      );
+
+      expect(complete).toHaveBeenCalledTimes(1);
+      expect(service.getValidationStats().invalid).toBe(0);
+    });
+  });
+
   describe("ISO Date Format Validation", () => {
     it("should return valid ISO 8601 dates", async () => {
       const result = await openaiService.analyzeMessage(
@@ -503,4 +655,369 @@ describe("OpenAIService", () => {
       }
     });
   });
+
+  describe("Document Attachments", () => {
+    const analyzeWithDocument = async (document: ExtractedDocument) => {
+      const complete = jest.fn((_request: LLMRequest) =>
+        Promise.resolve({
+          content: '{"hasEvents": false, "events": []}',
+          finishReason: "stop",
+          usage: null,
+        })
+      );
+      const service = new OpenAIService(undefined, {
+        name: "scripted",
+        defaultModel: "scripted",
+        defaultFallbackModel: "scripted",
+        complete,
+      });
+
+      await service.analyzeMessage(
+        "test-chat-id",
+        "December newsletter",
+        "Test Chat",
+        "Teacher",
+        null,
+        null,
+        { document }
+      );
+      return complete.mock.calls[0][0];
+    };
+
+    it("should include the document text and file name in the prompt", async () => {
+      const request = await analyzeWithDocument({
+        fileName: "newsletter.pdf",
+        text: "Parent meeting on Wednesday at 18:00",
+        pageImages: [],
+        pageCount: 1,
+        truncated: false,
+      });
+
+      const [textPart] = request.userContent;
+      const prompt = textPart.type === "text" ? textPart.text : "";
+      expect(prompt).toContain('"newsletter.pdf"');
+      expect(prompt).toContain("Parent meeting on Wednesday at 18:00");
+      expect(prompt).toContain("December newsletter");
+      expect(request.userContent).toHaveLength(1);
+    });
+
+    it("should attach the pages of a scanned document as images", async () => {
+      const request = await analyzeWithDocument({
+        fileName: "scan.pdf",
+        text: "",
+        pageImages: ["cGFnZTE=", "cGFnZTI="],
+        pageCount: 3,
+        truncated: false,
+      });
+
+      expect(request.userContent.slice(1)).toEqual([
+        {
+          type: "image_url",
+          image_url: { url: "data:image/png;base64,cGFnZTE=", detail: "auto" },
+        },
+        {
+          type: "image_url",
+          image_url: { url: "data:image/png;base64,cGFnZTI=", detail: "auto" },
+        },
+      ]);
+    });
+  });
+
+  describe("Quoted Messages and Polls", () => {
+    const promptFor = async (context: AnalysisContext) => {
+      const complete = jest.fn((_request: LLMRequest) =>
+        Promise.resolve({
+          content: '{"hasEvents": false, "events": []}',
+          finishReason: "stop",
+          usage: null,
+        })
+      );
+      const service = new OpenAIService(undefined, {
+        name: "scripted",
+        defaultModel: "scripted",
+        defaultFallbackModel: "scripted",
+        complete,
+      });
+
+      await service.analyzeMessage(
+        "test-chat-id",
+        "yes, 17:00 works",
+        "Test Chat",
+        "Dana",
+        null,
+        null,
+        context
+      );
+      const [textPart] = complete.mock.calls[0][0].userContent;
+      return textPart.type === "text" ? textPart.text : "";
+    };
+
+    it("should include the quoted message and its sender in the prompt", async () => {
+      const prompt = await promptFor({
+        quotedMessage: {
+          text: "Coffee at Cafe Noir on Sunday?",
+          sender: "Alice",
+        },
+      });
+
+      expect(prompt).toContain(
+        "The current message is a reply to this earlier message from Alice:"
+      );
+      expect(prompt).toContain("Coffee at Cafe Noir on Sunday?");
+      expect(prompt.indexOf("Coffee at Cafe Noir")).toBeLessThan(
+        prompt.indexOf("yes, 17:00 works")
+      );
+    });
+
+    it("should include the question and options of a decided poll", async () => {
+      const prompt = await promptFor({
+        poll: {
+          question: "Which evening works for dinner?",
+          options: ["Tuesday 20:00", "Thursday 20:00"],
+          creator: "Alice",
+          votes: 4,
+        },
+      });
+
+      expect(prompt).toContain("WhatsApp poll by Alice (4 vote(s))");
+      expect(prompt).toContain(
+        "Poll question: Which evening works for dinner?"
+      );
+      expect(prompt).toContain("All options: Tuesday 20:00 | Thursday 20:00");
+    });
+
+    it("should include the earlier version of an edited message", async () => {
+      const prompt = await promptFor({
+        knownEvents: [
+          {
+            id: "abcd1234",
+            title: "Coffee",
+            startDateISO: "2099-01-04T15:00:00.000Z",
+            location: null,
+          },
+        ],
+        editedFrom: "Coffee on Sunday at 17:00",
+      });
+
+      expect(prompt).toContain(
+        "The current message is an edited version of this earlier message:"
+      );
+      expect(prompt).toContain("Coffee on Sunday at 17:00");
+      expect(prompt).toContain("id: abcd1234");
+    });
+
+    it("should not mention replies or polls for other messages", async () => {
+      const prompt = await promptFor({});
+
+      expect(prompt).not.toContain("is a reply to");
+      expect(prompt).not.toContain("Poll question");
+    });
+  });
+
+  describe("Usage and Budgets", () => {
+    const setup = (level: string) => {
+      const complete = jest.fn((_request: LLMRequest) =>
+        Promise.resolve({
+          content: '{"hasEvents": false, "events": []}',
+          finishReason: "stop",
+          usage: { promptTokens: 1200, completionTokens: 80, totalTokens: 1280 },
+        })
+      );
+      const tracker = {
+        getDegradationLevel: jest.fn().mockReturnValue(level),
+        cheapestModel: jest.fn().mockReturnValue("cheap-model"),
+        record: jest.fn(),
+      };
+      const service = new OpenAIService(
+        undefined,
+        {
+          name: "scripted",
+          defaultModel: "scripted",
+          defaultFallbackModel: "scripted-fallback",
+          complete,
+        },
+        undefined,
+        undefined,
+        tracker as unknown as UsageTracker
+      );
+      const analyze = () =>
+        service.analyzeMessage(
+          "test-chat-id",
+          "Dinner on Friday at 20:00",
+          "Test Chat",
+          "Dana",
+          "aW1hZ2U=",
+          "image/jpeg"
+        );
+      return { complete, tracker, analyze };
+    };
+
+    it("should record the tokens, images and outcome of each analysis", async () => {
+      const { tracker, analyze } = setup("none");
+
+      await analyze();
+
+      expect(tracker.record).toHaveBeenCalledWith({
+        model: process.env.LLM_MODEL,
+        chatId: "test-chat-id",
+        chatName: "Test Chat",
+        outcome: "no-events",
+        promptTokens: 1200,
+        completionTokens: 80,
+        imageInputs: 1,
+      });
+    });
+
+    it("should leave out images and use the cheapest model over budget", async () => {
+      const { complete, tracker, analyze } = setup("cheapest-model");
+
+      await analyze();
+
+      const request = complete.mock.calls[0][0];
+      expect(request.model).toBe("cheap-model");
+      expect(request.userContent.every((part) => part.type === "text")).toBe(
+        true
+      );
+      expect(tracker.record).toHaveBeenCalledWith(
+        expect.objectContaining({ model: "cheap-model", imageInputs: 0 })
+      );
+    });
+
+    it("should not call the model while detection is paused", async () => {
+      const { complete, tracker, analyze } = setup("paused");
+
+      const result = await analyze();
+
+      expect(result).toEqual({ hasEvents: false, events: [] });
+      expect(complete).not.toHaveBeenCalled();
+      expect(tracker.record).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Chat Filtering", () => {
+    it("should skip muted chats regardless of case", () => {
+      const configService = {
+        getMutedChats: () => ["school parents"],
+        getMonitorAllGroupChats: () => true,
+        getAllowedChatNames: () => [],
+      } as unknown as ConfigService;
+      const service = new OpenAIService(configService);
+
+      expect(service.isChatAllowed("School Parents 2024", true)).toBe(false);
+      expect(service.isChatAllowed("Family", true)).toBe(true);
+    });
+  });
+
+  describe("Response Cache", () => {
+    const setup = () => {
+      const complete = jest.fn((_request: LLMRequest) =>
+        Promise.resolve({
+          content: JSON.stringify({
+            hasEvents: true,
+            events: [
+              {
+                isEvent: true,
+                summary: "School trip",
+                title: "School trip",
+                date: "2099-12-25",
+                time: "08:00",
+                location: null,
+                description: null,
+                startDateISO: "2099-12-25T06:00:00.000Z",
+                endDateISO: "2099-12-25T07:00:00.000Z",
+              },
+            ],
+          }),
+          finishReason: "stop",
+          usage: null,
+        })
+      );
+      const service = new OpenAIService(
+        undefined,
+        {
+          name: "scripted",
+          defaultModel: "scripted",
+          defaultFallbackModel: "scripted",
+          complete,
+        },
+        undefined,
+        undefined,
+        undefined,
+        new ResponseCache(".baileys_auth_test_cache")
+      );
+      return { complete, service };
+    };
+
+    it("should reuse the result of an identical message from another chat", async () => {
+      const { complete, service } = setup();
+
+      const first = await service.analyzeMessage(
+        "class-a@g.us",
+        "School trip on 25.12 at 08:00",
+        "Class A",
+        "Dana"
+      );
+      const copy = await service.analyzeMessage(
+        "class-b@g.us",
+        "  school trip on 25.12   at 08:00",
+        "Class B",
+        "Avi"
+      );
+
+      expect(complete).toHaveBeenCalledTimes(1);
+      expect(copy).toEqual(first);
+      expect(copy.events[0].title).toBe("School trip");
+    });
+
+    it("should analyze different content and replies again", async () => {
+      const { complete, service } = setup();
+
+      await service.analyzeMessage("class-a@g.us", "School trip on 25.12", "Class A");
+      await service.analyzeMessage("class-a@g.us", "School trip on 26.12", "Class A");
+      await service.analyzeMessage(
+        "class-b@g.us",
+        "School trip on 25.12",
+        "Class B",
+        "Avi",
+        "aW1hZ2U=",
+        "image/jpeg"
+      );
+      await service.analyzeMessage(
+        "class-b@g.us",
+        "School trip on 25.12",
+        "Class B",
+        "Avi",
+        null,
+        null,
+        { quotedMessage: { text: "Which day?", sender: "Dana" } }
+      );
+
+      expect(complete).toHaveBeenCalledTimes(4);
+    });
+
+    it("should not reuse a result across chats with different known events", async () => {
+      const { complete, service } = setup();
+      const knownEvent = (id: string, title: string) => ({
+        knownEvents: [
+          { id, title, startDateISO: "2099-12-25T06:00:00.000Z", location: null },
+        ],
+      });
+      const text = "The trip is postponed to 26.12";
+
+      await service.analyzeMessage(
+        "class-a@g.us", text, "Class A", "Dana", null, null,
+        knownEvent("aaaa1111", "School trip")
+      );
+      await service.analyzeMessage(
+        "class-b@g.us", text, "Class B", "Avi", null, null,
+        knownEvent("bbbb2222", "Museum trip")
+      );
+      await service.analyzeMessage(
+        "class-b@g.us", text, "Class B", "Avi", null, null,
+        knownEvent("bbbb2222", "Museum trip")
+      );
+
+      expect(complete).toHaveBeenCalledTimes(2);
+    });
+  });
 });
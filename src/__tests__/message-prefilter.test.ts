@@ -0,0 +1,117 @@
+/**
+ * Tests for the Message Pre-filter
+ * Tests the skip rules, the bilingual lexicon, settings and skip counts
+ */
+
+import {
+  MessagePrefilter,
+  prefilterSettingsFromEnv,
+} from "../message-prefilter";
+import { cleanupTestAuthDir } from "./utils/test-helpers";
+import * as fs from "fs";
+
+describe("MessagePrefilter", () => {
+  const testDir = ".baileys_auth_test_prefilter";
+  const settings = prefilterSettingsFromEnv({});
+
+  beforeEach(() => {
+    cleanupTestAuthDir(testDir);
+    fs.mkdirSync(testDir, { recursive: true });
+  });
+
+  afterAll(() => {
+    cleanupTestAuthDir(testDir);
+  });
+
+  describe("check", () => {
+    const prefilter = new MessagePrefilter(settings, testDir);
+
+    it("should skip emoji-only and very short messages", () => {
+      expect(prefilter.check("👍").reason).toBe("emoji-only");
+      expect(prefilter.check("😂😂 👍🏽!").reason).toBe("emoji-only");
+      expect(prefilter.check("ok!").reason).toBe("too-short");
+      expect(prefilter.check("כן").reason).toBe("too-short");
+    });
+
+    it("should skip messages without event hints", () => {
+      expect(prefilter.check("thanks everyone").reason).toBe("no-signals");
+      expect(prefilter.check("תודה רבה לכולם").reason).toBe("no-signals");
+    });
+
+    it("should analyze messages with day, time or event words", () => {
+      expect(prefilter.check("Dinner on Thursday at 19:30?")).toMatchObject({
+        analyze: true,
+        signals: ["day", "time", "keyword"],
+      });
+      expect(prefilter.check("נפגשים בשבת ב-8").signals).toEqual([
+        "day",
+        "time",
+        "keyword",
+      ]);
+      expect(prefilter.check("see you 24.12").signals).toEqual(["day"]);
+      expect(prefilter.check("מחר?").analyze).toBe(true);
+    });
+
+    it("should judge a reply together with the message it quotes", () => {
+      expect(prefilter.check("👍", "Coffee on Sunday morning?").analyze).toBe(
+        true
+      );
+    });
+  });
+
+  it("should read the settings from the environment", () => {
+    expect(settings).toEqual({
+      enabled: true,
+      minLength: 3,
+      threshold: 1,
+      keywords: [],
+    });
+
+    const custom = prefilterSettingsFromEnv({
+      PREFILTER_ENABLED: "false",
+      PREFILTER_MIN_LENGTH: "5",
+      PREFILTER_THRESHOLD: "2",
+      PREFILTER_KEYWORDS: "Hackathon, סעודה",
+    });
+    expect(custom).toEqual({
+      enabled: false,
+      minLength: 5,
+      threshold: 2,
+      keywords: ["hackathon", "סעודה"],
+    });
+    expect(
+      new MessagePrefilter(custom, testDir).check("Hackathon on Friday").analyze
+    ).toBe(true);
+    expect(
+      new MessagePrefilter(custom, testDir).check("Lunch together?").reason
+    ).toBe("no-signals");
+  });
+
+  it("should count skips and restore the counts after a restart", () => {
+    const prefilter = new MessagePrefilter(settings, testDir);
+    const now = new Date("2024-12-24T13:00:00.000Z");
+    for (const text of ["👍", "thanks everyone", "Dinner on Friday?"]) {
+      prefilter.record("Family", text, prefilter.check(text), now);
+    }
+    prefilter.save();
+
+    const restarted = new MessagePrefilter(settings, testDir);
+    restarted.load();
+    const stats = restarted.getStats();
+
+    expect(stats).toMatchObject({
+      checked: 3,
+      skipped: 2,
+      byReason: { "emoji-only": 1, "too-short": 0, "no-signals": 1 },
+      byChat: { Family: { checked: 3, skipped: 2 } },
+    });
+    expect(stats.skipRate).toBeCloseTo(2 / 3);
+    expect(stats.recentSkipped.map((message) => message.text)).toEqual([
+      "👍",
+      "thanks everyone",
+    ]);
+
+    restarted.resetStats();
+    expect(restarted.getStats().checked).toBe(0);
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Tests for native WhatsApp events
+ * Tests converting event messages to event details
+ */
+
+import { eventDetailsFromEventMessage } from "../native-event";
+
+describe("eventDetailsFromEventMessage", () => {
+  const start = Date.parse("2099-03-04T17:00:00.000Z") / 1000;
+
+  it("should take the structured details as they are", () => {
+    const event = eventDetailsFromEventMessage(
+      {
+        name: " Book club ",
+        description: "Bring snacks",
+        location: { name: "Dana's place", address: "Herzl 1, Tel Aviv" },
+        joinLink: "https://call.whatsapp.com/video/abc",
+        startTime: start,
+        endTime: start + 2 * 60 * 60,
+      },
+      "en-US",
+      "Asia/Jerusalem"
+    );
+
+    expect(event).toEqual({
+      isEvent: true,
+      summary: "Book club",
+      title: "Book club",
+      date: "Wednesday, March 4",
+      time: "07:00 PM",
+      location: "Dana's place",
+      description: "Bring snacks\nhttps://call.whatsapp.com/video/abc",
+      startDateISO: "2099-03-04T17:00:00.000Z",
+      endDateISO: "2099-03-04T19:00:00.000Z",
+      action: "create",
+      relatedEventId: null,
+    });
+  });
+
+  it("should default to a one hour event without location or description", () => {
+    const event = eventDetailsFromEventMessage(
+      { name: "Book club", startTime: start, endTime: 0 },
+      "en-US",
+      "Asia/Jerusalem"
+    );
+
+    expect(event?.endDateISO).toBe("2099-03-04T18:00:00.000Z");
+    expect(event?.location).toBeNull();
+    expect(event?.description).toBeNull();
+  });
+
+  it("should read start times sent as Long", () => {
+    const event = eventDetailsFromEventMessage(
+      {
+        name: "Book club",
+        startTime: { toNumber: () => start } as unknown as number,
+      },
+      "en-US",
+      "Asia/Jerusalem"
+    );
+
+    expect(event?.startDateISO).toBe("2099-03-04T17:00:00.000Z");
+  });
+
+  it("should return null for cancelled events and events without a name or start", () => {
+    expect(
+      eventDetailsFromEventMessage(
+        { name: "Book club", startTime: start, isCanceled: true },
+        "en-US",
+        "Asia/Jerusalem"
+      )
+    ).toBeNull();
+    expect(
+      eventDetailsFromEventMessage({ name: "Book club" }, "en-US", "UTC")
+    ).toBeNull();
+    expect(
+      eventDetailsFromEventMessage({ startTime: start }, "en-US", "UTC")
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Tests for the Poll Tracker
+ * Tests vote counting, majority and closing decisions, and persistence
+ */
+
+import {
+  PollTracker,
+  pollSettingsFromEnv,
+  type PollDecision,
+} from "../poll-tracker";
+import { cleanupTestAuthDir } from "./utils/test-helpers";
+import * as fs from "fs";
+
+describe("PollTracker", () => {
+  const testDir = ".baileys_auth_test_polls";
+  const now = new Date("2024-12-20T12:00:00.000Z");
+
+  const createTracker = (majority = 0.5) => {
+    const handler = jest
+      .fn<Promise<void>, [PollDecision]>()
+      .mockResolvedValue(undefined);
+    const tracker = new PollTracker(handler, testDir, majority, 48);
+    tracker.track(
+      {
+        id: "POLL1",
+        chatId: "friends@g.us",
+        chatName: "Friends",
+        creator: "Alice",
+        creatorJid: "972501111111@s.whatsapp.net",
+        question: "Which evening works for dinner?",
+        options: ["Tuesday 20:00", "Wednesday 20:00", "Thursday 20:00"],
+        encKey: Buffer.from("secret").toString("base64"),
+        memberCount: 6,
+      },
+      now
+    );
+    return { tracker, handler };
+  };
+
+  const hash = (option: string) =>
+    Buffer.from(PollTracker.optionHash(option), "hex");
+
+  beforeEach(() => {
+    cleanupTestAuthDir(testDir);
+    fs.mkdirSync(testDir, { recursive: true });
+  });
+
+  afterAll(() => {
+    cleanupTestAuthDir(testDir);
+  });
+
+  describe("Votes", () => {
+    it("should count each voter's latest vote", async () => {
+      const { tracker } = createTracker();
+
+      await tracker.recordVote("POLL1", "a@s.whatsapp.net", [
+        hash("Tuesday 20:00"),
+      ]);
+      await tracker.recordVote("POLL1", "a@s.whatsapp.net", [
+        hash("Wednesday 20:00"),
+      ]);
+      await tracker.recordVote("POLL1", "b@s.whatsapp.net", [
+        hash("Wednesday 20:00"),
+        hash("Thursday 20:00"),
+      ]);
+
+      const poll = tracker.get("POLL1");
+      expect(poll && tracker.tally(poll)).toEqual([
+        { option: "Wednesday 20:00", votes: 2 },
+        { option: "Thursday 20:00", votes: 1 },
+        { option: "Tuesday 20:00", votes: 0 },
+      ]);
+    });
+
+    it("should withdraw a vote with an empty selection", async () => {
+      const { tracker } = createTracker();
+
+      await tracker.recordVote("POLL1", "a@s.whatsapp.net", [
+        hash("Tuesday 20:00"),
+      ]);
+      await tracker.recordVote("POLL1", "a@s.whatsapp.net", []);
+
+      expect(tracker.get("POLL1")?.votes).toEqual({});
+    });
+
+    it("should ignore votes for unknown polls", async () => {
+      const { tracker } = createTracker();
+
+      expect(
+        await tracker.recordVote("OTHER", "a@s.whatsapp.net", [
+          hash("Tuesday 20:00"),
+        ])
+      ).toBeNull();
+    });
+  });
+
+  describe("Decisions", () => {
+    it("should decide when an option reaches the majority of members", async () => {
+      const { tracker, handler } = createTracker();
+
+      for (const voter of ["a", "b"]) {
+        expect(
+          await tracker.recordVote("POLL1", `${voter}@s.whatsapp.net`, [
+            hash("Thursday 20:00"),
+          ])
+        ).toBeNull();
+      }
+      const decision = await tracker.recordVote("POLL1", "c@s.whatsapp.net", [
+        hash("Thursday 20:00"),
+      ]);
+
+      expect(decision).toMatchObject({
+        option: "Thursday 20:00",
+        votes: 3,
+        reason: "majority",
+      });
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(tracker.get("POLL1")).toBeUndefined();
+    });
+
+    it("should take the leading option when the poll closes", async () => {
+      const { tracker, handler } = createTracker();
+      await tracker.recordVote("POLL1", "a@s.whatsapp.net", [
+        hash("Tuesday 20:00"),
+      ]);
+
+      expect(
+        await tracker.processDue(new Date("2024-12-22T11:00:00.000Z"))
+      ).toBe(0);
+      expect(
+        await tracker.processDue(new Date("2024-12-22T12:00:00.000Z"))
+      ).toBe(1);
+
+      const [decision] = handler.mock.calls[0];
+      expect(decision.option).toBe("Tuesday 20:00");
+      expect(decision.reason).toBe("closed");
+      expect(tracker.getOpen()).toHaveLength(0);
+    });
+
+    it("should drop closed polls without a clear winner", async () => {
+      const { tracker, handler } = createTracker();
+      await tracker.recordVote("POLL1", "a@s.whatsapp.net", [
+        hash("Tuesday 20:00"),
+      ]);
+      await tracker.recordVote("POLL1", "b@s.whatsapp.net", [
+        hash("Wednesday 20:00"),
+      ]);
+
+      expect(
+        await tracker.processDue(new Date("2024-12-23T00:00:00.000Z"))
+      ).toBe(0);
+      expect(handler).not.toHaveBeenCalled();
+      expect(tracker.getOpen()).toHaveLength(0);
+    });
+  });
+
+  describe("Persistence", () => {
+    it("should restore open polls and their votes after a restart", async () => {
+      const { tracker } = createTracker();
+      await tracker.recordVote("POLL1", "a@s.whatsapp.net", [
+        hash("Tuesday 20:00"),
+      ]);
+
+      const restarted = new PollTracker(jest.fn(), testDir);
+      restarted.load();
+
+      expect(restarted.get("POLL1")?.votes).toEqual({
+        "a@s.whatsapp.net": ["Tuesday 20:00"],
+      });
+    });
+  });
+
+  describe("pollSettingsFromEnv", () => {
+    it("should parse valid settings and fall back to the defaults", () => {
+      expect(
+        pollSettingsFromEnv({ POLL_MAJORITY: "0.75", POLL_CLOSE_HOURS: "24" })
+      ).toEqual({ majority: 0.75, closeAfterHours: 24 });
+      expect(
+        pollSettingsFromEnv({ POLL_MAJORITY: "3", POLL_CLOSE_HOURS: "soon" })
+      ).toEqual({ majority: 0.5, closeAfterHours: 48 });
+    });
+  });
+});
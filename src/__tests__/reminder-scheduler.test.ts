@@ -0,0 +1,153 @@
+/**
+ * Tests for the Reminder Scheduler
+ * Tests scheduling offsets, cancellation, sending due reminders and persistence
+ */
+
+import { ReminderScheduler, type Reminder } from "../reminder-scheduler";
+import { cleanupTestAuthDir } from "./utils/test-helpers";
+import * as fs from "fs";
+
+describe("ReminderScheduler", () => {
+  const testDir = ".baileys_auth_test_reminders";
+  const start = "2024-12-25T16:00:00.000Z";
+  const now = new Date("2024-12-20T12:00:00.000Z");
+
+  const createScheduler = (handled = true) => {
+    const handler = jest
+      .fn<Promise<boolean>, [Reminder]>()
+      .mockResolvedValue(handled);
+    return { scheduler: new ReminderScheduler(handler, testDir), handler };
+  };
+
+  beforeEach(() => {
+    cleanupTestAuthDir(testDir);
+    fs.mkdirSync(testDir, { recursive: true });
+  });
+
+  afterAll(() => {
+    cleanupTestAuthDir(testDir);
+  });
+
+  describe("Scheduling", () => {
+    it("should schedule one reminder per offset", () => {
+      const { scheduler } = createScheduler();
+
+      expect(scheduler.schedule("fp1", start, [1440, 60], now)).toBe(2);
+      expect(scheduler.getPending().map((r) => r.remindAt)).toEqual([
+        "2024-12-24T16:00:00.000Z",
+        "2024-12-25T15:00:00.000Z",
+      ]);
+    });
+
+    it("should skip reminders whose time has already passed", () => {
+      const { scheduler } = createScheduler();
+
+      const scheduled = scheduler.schedule(
+        "fp1",
+        start,
+        [1440, 60],
+        new Date("2024-12-25T12:00:00.000Z")
+      );
+
+      expect(scheduled).toBe(1);
+      expect(scheduler.getPending()[0].offsetMinutes).toBe(60);
+    });
+
+    it("should not schedule reminders for events without a start date", () => {
+      const { scheduler } = createScheduler();
+
+      expect(scheduler.schedule("fp1", null, [60], now)).toBe(0);
+      expect(scheduler.getPending()).toEqual([]);
+    });
+
+    it("should replace existing reminders when rescheduling an event", () => {
+      const { scheduler } = createScheduler();
+      scheduler.schedule("fp1", start, [1440, 60], now);
+
+      scheduler.schedule("fp1", "2024-12-26T16:00:00.000Z", [60], now);
+
+      expect(scheduler.getPending()).toEqual([
+        {
+          fingerprint: "fp1",
+          offsetMinutes: 60,
+          remindAt: "2024-12-26T15:00:00.000Z",
+          eventStart: "2024-12-26T16:00:00.000Z",
+        },
+      ]);
+    });
+
+    it("should cancel all reminders of an event", () => {
+      const { scheduler } = createScheduler();
+      scheduler.schedule("fp1", start, [1440, 60], now);
+      scheduler.schedule("fp2", start, [60], now);
+
+      expect(scheduler.cancel("fp1")).toBe(2);
+      expect(scheduler.getPending().map((r) => r.fingerprint)).toEqual([
+        "fp2",
+      ]);
+    });
+  });
+
+  describe("Sending", () => {
+    it("should only send reminders that are due", async () => {
+      const { scheduler, handler } = createScheduler();
+      scheduler.schedule("fp1", start, [1440, 60], now);
+
+      const sent = await scheduler.processDue(
+        new Date("2024-12-24T18:00:00.000Z")
+      );
+
+      expect(sent).toBe(1);
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler.mock.calls[0][0].offsetMinutes).toBe(1440);
+      expect(scheduler.getPending()).toHaveLength(1);
+    });
+
+    it("should keep reminders the handler could not send", async () => {
+      const { scheduler, handler } = createScheduler(false);
+      scheduler.schedule("fp1", start, [60], now);
+
+      const dueAt = new Date("2024-12-25T15:30:00.000Z");
+      expect(await scheduler.processDue(dueAt)).toBe(0);
+      expect(scheduler.getPending()).toHaveLength(1);
+
+      handler.mockResolvedValue(true);
+      expect(await scheduler.processDue(dueAt)).toBe(1);
+      expect(scheduler.getPending()).toEqual([]);
+    });
+
+    it("should drop reminders for events that have already started", async () => {
+      const { scheduler, handler } = createScheduler();
+      scheduler.schedule("fp1", start, [60], now);
+
+      const sent = await scheduler.processDue(
+        new Date("2024-12-25T17:00:00.000Z")
+      );
+
+      expect(sent).toBe(0);
+      expect(handler).not.toHaveBeenCalled();
+      expect(scheduler.getPending()).toEqual([]);
+    });
+  });
+
+  describe("Persistence", () => {
+    it("should restore pending reminders after a restart", () => {
+      const { scheduler } = createScheduler();
+      scheduler.schedule("fp1", start, [1440, 60], now);
+
+      const { scheduler: restarted } = createScheduler();
+      restarted.load();
+
+      expect(restarted.getPending()).toEqual(scheduler.getPending());
+    });
+
+    it("should start fresh when the reminders file is corrupted", () => {
+      fs.writeFileSync(`${testDir}/reminders.json`, "not json");
+      const { scheduler } = createScheduler();
+
+      scheduler.load();
+
+      expect(scheduler.getPending()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Tests for the Response Cache
+ * Tests content keys, expiry, size limits and persistence
+ */
+
+import {
+  ResponseCache,
+  normalizeMessageText,
+  responseCacheKey,
+  responseCacheSettingsFromEnv,
+} from "../response-cache";
+import type { MultiEventResult } from "../llm-service";
+import { createMockEvent, cleanupTestAuthDir } from "./utils/test-helpers";
+import * as fs from "fs";
+
+describe("ResponseCache", () => {
+  const testDir = ".baileys_auth_test_response_cache";
+  const now = new Date("2024-12-24T13:00:00.000Z");
+  const result: MultiEventResult = {
+    hasEvents: true,
+    events: [createMockEvent({ title: "School trip" })],
+    model: "test-model",
+  };
+  const key = (text: string, overrides = {}) =>
+    responseCacheKey({
+      promptVersion: 1,
+      model: "test-model",
+      text,
+      settings: ["English", "Asia/Jerusalem", "2024-12-24", ""],
+      ...overrides,
+    });
+
+  beforeEach(() => {
+    cleanupTestAuthDir(testDir);
+    fs.mkdirSync(testDir, { recursive: true });
+  });
+
+  afterAll(() => {
+    cleanupTestAuthDir(testDir);
+  });
+
+  describe("Keys", () => {
+    it("should ignore whitespace, case and invisible marks", () => {
+      expect(normalizeMessageText("  School\u200f trip\n\nFRIDAY ")).toBe(
+        "school trip friday"
+      );
+      expect(key("School trip Friday")).toBe(key(" school  trip\nfriday\u200e"));
+    });
+
+    it("should differ by image, model, prompt version and settings", () => {
+      const base = key("School trip Friday");
+
+      expect(key("School trip Friday", { imageBase64: "aW1hZ2U=" })).not.toBe(base);
+      expect(key("School trip Friday", { model: "other-model" })).not.toBe(base);
+      expect(key("School trip Friday", { promptVersion: 2 })).not.toBe(base);
+      expect(
+        key("School trip Friday", {
+          settings: ["English", "Asia/Jerusalem", "2024-12-25", ""],
+        })
+      ).not.toBe(base);
+    });
+  });
+
+  it("should return a copy of the result until it expires", () => {
+    const cache = new ResponseCache(testDir, 24);
+    cache.set("k1", result, now);
+
+    const cached = cache.get("k1", new Date("2024-12-25T12:00:00.000Z"));
+    expect(cached).toEqual(result);
+    expect(cached).not.toBe(result);
+    expect(cache.get("k1", new Date("2024-12-25T13:00:00.000Z"))).toBeNull();
+    expect(cache.get("missing", now)).toBeNull();
+    expect(cache.getStats()).toEqual({ entries: 1, hits: 1, misses: 2 });
+  });
+
+  it("should drop the oldest results beyond the size limit", () => {
+    const cache = new ResponseCache(testDir, 24, 2);
+    cache.set("k1", result, now);
+    cache.set("k2", result, now);
+    cache.set("k3", result, now);
+
+    expect(cache.get("k1", now)).toBeNull();
+    expect(cache.get("k3", now)).toEqual(result);
+  });
+
+  it("should not cache when the TTL is 0", () => {
+    const cache = new ResponseCache(testDir, 0);
+    cache.set("k1", result, now);
+
+    expect(cache.isEnabled()).toBe(false);
+    expect(cache.get("k1", now)).toBeNull();
+  });
+
+  it("should restore cached results after a restart", () => {
+    const cache = new ResponseCache(testDir);
+    cache.set("k1", result);
+    cache.save();
+
+    const restarted = new ResponseCache(testDir);
+    restarted.load();
+
+    expect(restarted.get("k1")).toEqual(result);
+  });
+
+  it("should read the settings from the environment", () => {
+    expect(responseCacheSettingsFromEnv({})).toEqual({ ttlHours: 24, maxEntries: 1000 });
+    expect(
+      responseCacheSettingsFromEnv({
+        RESPONSE_CACHE_TTL_HOURS: "0",
+        RESPONSE_CACHE_MAX_ENTRIES: "-5",
+      })
+    ).toEqual({ ttlHours: 0, maxEntries: 1000 });
+  });
+});
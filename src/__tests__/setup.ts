@@ -12,6 +12,8 @@ process.env.LLM_FALLBACK_MODEL =
 process.env.TARGET_GROUP_NAME = "Test Group";
 process.env.BAILEYS_AUTH_DIR = ".baileys_auth_test";
 process.env.NODE_ENV = "test";
+process.env.BATCH_WINDOW_SECONDS = "0"; // Analyze each message right away unless a test batches
+process.env.PREFILTER_ENABLED = "false"; // Send every message to the LLM unless a test pre-filters
 
 // Increase timeout for tests that may need it
 jest.setTimeout(30000);
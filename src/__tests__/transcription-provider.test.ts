@@ -0,0 +1,152 @@
+/**
+ * Tests for transcription providers
+ * Tests provider selection from the environment, the OpenAI-compatible request and the whisper.cpp pipeline
+ */
+
+import * as fs from "fs";
+import {
+  audioExtension,
+  createTranscriptionProvider,
+  OpenAICompatibleTranscriptionProvider,
+  WhisperCppProvider,
+} from "../transcription-provider";
+
+describe("Transcription Providers", () => {
+  const audio = Buffer.from("voice-data");
+
+  describe("createTranscriptionProvider", () => {
+    it("should disable transcription when no provider is configured", () => {
+      expect(createTranscriptionProvider({})).toBeNull();
+      expect(
+        createTranscriptionProvider({ TRANSCRIPTION_PROVIDER: "none" })
+      ).toBeNull();
+    });
+
+    it("should create the configured provider", () => {
+      expect(
+        createTranscriptionProvider({
+          TRANSCRIPTION_PROVIDER: "openai",
+          OPENAI_API_KEY: "key",
+        })?.name
+      ).toBe("openai");
+      expect(
+        createTranscriptionProvider({
+          TRANSCRIPTION_PROVIDER: "openai-compatible",
+          TRANSCRIPTION_BASE_URL: "http://localhost:8000/v1",
+        })?.name
+      ).toBe("openai-compatible");
+      expect(
+        createTranscriptionProvider({
+          TRANSCRIPTION_PROVIDER: "whisper-cpp",
+          WHISPER_CPP_MODEL: "/models/ggml-base.bin",
+        })?.name
+      ).toBe("whisper-cpp");
+    });
+
+    it("should require the settings of the selected provider", () => {
+      expect(() =>
+        createTranscriptionProvider({ TRANSCRIPTION_PROVIDER: "openai" })
+      ).toThrow("OPENAI_API_KEY");
+      expect(() =>
+        createTranscriptionProvider({
+          TRANSCRIPTION_PROVIDER: "openai-compatible",
+        })
+      ).toThrow("TRANSCRIPTION_BASE_URL");
+      expect(() =>
+        createTranscriptionProvider({ TRANSCRIPTION_PROVIDER: "whisper-cpp" })
+      ).toThrow("WHISPER_CPP_MODEL");
+      expect(() =>
+        createTranscriptionProvider({ TRANSCRIPTION_PROVIDER: "vosk" })
+      ).toThrow('Unknown TRANSCRIPTION_PROVIDER "vosk"');
+    });
+  });
+
+  describe("OpenAICompatibleTranscriptionProvider", () => {
+    const createProvider = (response: Response, language?: string) => {
+      const fetchFn = jest
+        .fn<Promise<Response>, [string, RequestInit]>()
+        .mockResolvedValue(response);
+      const provider = new OpenAICompatibleTranscriptionProvider(
+        "openai-compatible",
+        { baseURL: "http://localhost:8000/v1/", apiKey: "key" },
+        "whisper-large-v3",
+        language,
+        fetchFn
+      );
+      return { provider, fetchFn };
+    };
+
+    it("should upload the audio as multipart form data", async () => {
+      const { provider, fetchFn } = createProvider(
+        Response.json({ text: " Dinner on Friday at 8 " }),
+        "he"
+      );
+
+      const text = await provider.transcribe(audio, "audio/ogg; codecs=opus");
+
+      expect(text).toBe("Dinner on Friday at 8");
+      const [url, init] = fetchFn.mock.calls[0];
+      expect(url).toBe("http://localhost:8000/v1/audio/transcriptions");
+      expect(init.headers).toEqual({ Authorization: "Bearer key" });
+      const form = init.body as FormData;
+      expect(form.get("model")).toBe("whisper-large-v3");
+      expect(form.get("language")).toBe("he");
+      expect((form.get("file") as File).name).toBe("voice.ogg");
+    });
+
+    it("should throw on HTTP errors", async () => {
+      const { provider } = createProvider(
+        new Response("bad audio", { status: 400 })
+      );
+
+      await expect(provider.transcribe(audio, "audio/ogg")).rejects.toThrow(
+        "HTTP 400 bad audio"
+      );
+    });
+  });
+
+  describe("WhisperCppProvider", () => {
+    it("should convert the audio with ffmpeg and run whisper.cpp", async () => {
+      const exec = jest
+        .fn<
+          Promise<{ stdout: string; stderr: string }>,
+          [string, string[], { timeout: number }]
+        >()
+        .mockResolvedValueOnce({ stdout: "", stderr: "" })
+        .mockResolvedValueOnce({
+          stdout: "\n Meeting tomorrow\n at ten \n",
+          stderr: "",
+        });
+      const provider = new WhisperCppProvider(
+        "/models/ggml-base.bin",
+        "whisper-cli",
+        "ffmpeg",
+        undefined,
+        exec
+      );
+
+      const text = await provider.transcribe(audio, "audio/ogg; codecs=opus");
+
+      expect(text).toBe("Meeting tomorrow at ten");
+      const [ffmpegBinary, ffmpegArgs] = exec.mock.calls[0];
+      const [whisperBinary, whisperArgs] = exec.mock.calls[1];
+      expect(ffmpegBinary).toBe("ffmpeg");
+      expect(ffmpegArgs[2]).toMatch(/voice\.ogg$/);
+      expect(whisperBinary).toBe("whisper-cli");
+      expect(whisperArgs).toEqual(
+        expect.arrayContaining(["-m", "/models/ggml-base.bin", "-l", "auto"])
+      );
+
+      // The temporary directory is removed afterwards
+      expect(fs.existsSync(ffmpegArgs[2])).toBe(false);
+    });
+  });
+
+  describe("audioExtension", () => {
+    it("should map audio MIME types to file extensions", () => {
+      expect(audioExtension("audio/ogg; codecs=opus")).toBe("ogg");
+      expect(audioExtension("audio/mpeg")).toBe("mp3");
+      expect(audioExtension("application/octet-stream")).toBe("ogg");
+    });
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Tests for the Usage Tracker
+ * Tests cost estimation, usage totals, budget degradation and persistence
+ */
+
+import { ConfigService } from "../config-service";
+import { UsageTracker, parseModelPrices } from "../usage-tracker";
+import { cleanupTestAuthDir } from "./utils/test-helpers";
+import * as fs from "fs";
+
+describe("UsageTracker", () => {
+  const testDir = ".baileys_auth_test_usage";
+  // 24 December 2024, 15:00 in Israel
+  const now = new Date("2024-12-24T13:00:00.000Z");
+
+  let configService: ConfigService;
+
+  const call = (
+    overrides: Partial<Parameters<UsageTracker["record"]>[0]> = {}
+  ): Parameters<UsageTracker["record"]>[0] => ({
+    model: "gpt-4o-mini",
+    chatId: "family@g.us",
+    chatName: "Family",
+    outcome: "events",
+    promptTokens: 1_000_000,
+    completionTokens: 0,
+    imageInputs: 0,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    cleanupTestAuthDir(testDir);
+    fs.mkdirSync(testDir, { recursive: true });
+    configService = new ConfigService(testDir);
+  });
+
+  afterAll(() => {
+    cleanupTestAuthDir(testDir);
+  });
+
+  describe("Cost", () => {
+    it("should estimate the cost from the model's price", () => {
+      const tracker = new UsageTracker(configService, undefined, testDir, {});
+
+      expect(tracker.estimateCost("gpt-4o-mini", 1_000_000, 1_000_000)).toBeCloseTo(0.75);
+      expect(tracker.estimateCost("meta-llama/llama-3.3-70b-instruct:free", 5000, 500)).toBe(0);
+      expect(tracker.estimateCost("unknown-model", 5000, 500)).toBe(0);
+    });
+
+    it("should read prices from LLM_PRICES", () => {
+      expect(parseModelPrices("my-model=1/2, other:latest=0.5/0.5,broken")).toEqual({
+        "my-model": { prompt: 1, completion: 2 },
+        "other:latest": { prompt: 0.5, completion: 0.5 },
+      });
+
+      const tracker = new UsageTracker(configService, undefined, testDir, {
+        "my-model": { prompt: 1, completion: 2 },
+      });
+      expect(tracker.estimateCost("my-model", 1_000_000, 1_000_000)).toBe(3);
+    });
+
+    it("should pick the cheapest model with a known price", () => {
+      const tracker = new UsageTracker(configService, undefined, testDir, {});
+
+      expect(tracker.cheapestModel(["gpt-4o", "gpt-4o-mini"])).toBe("gpt-4o-mini");
+      expect(tracker.cheapestModel(["gpt-4o-mini", "unknown-model"])).toBe("gpt-4o-mini");
+      expect(tracker.cheapestModel(["unknown-a", "unknown-b"])).toBe("unknown-a");
+    });
+  });
+
+  describe("Totals", () => {
+    it("should total today and this month by model, chat and outcome", () => {
+      const tracker = new UsageTracker(configService, undefined, testDir, {});
+      tracker.record(call({ imageInputs: 1 }), now);
+      tracker.record(
+        call({ model: "gpt-4o", chatName: "School", outcome: "no-events" }),
+        new Date("2024-12-02T08:00:00.000Z")
+      );
+      tracker.record(call(), new Date("2024-11-30T08:00:00.000Z"));
+
+      const summary = tracker.getSummary(now);
+
+      expect(summary.today).toEqual({
+        calls: 1,
+        promptTokens: 1_000_000,
+        completionTokens: 0,
+        imageInputs: 1,
+        cost: 0.15,
+      });
+      expect(summary.month.calls).toBe(2);
+      expect(summary.month.cost).toBeCloseTo(2.65);
+      expect(Object.keys(summary.byModel)).toEqual(["gpt-4o-mini", "gpt-4o"]);
+      expect(summary.byChat.School.calls).toBe(1);
+      expect(summary.byOutcome["no-events"].calls).toBe(1);
+      expect(summary.budget).toEqual({
+        dailyUsd: null,
+        monthlyUsd: null,
+        level: "none",
+      });
+    });
+  });
+
+  describe("Budgets", () => {
+    it("should cut back detection step by step and announce each step once", () => {
+      configService.setBudgetSettings({ dailyBudgetUsd: 1 });
+      const announce = jest.fn();
+      const tracker = new UsageTracker(configService, announce, testDir, {
+        "test-model": { prompt: 1, completion: 0 },
+      });
+      const spend = (usd: number) =>
+        tracker.record(call({ model: "test-model", promptTokens: usd * 1_000_000 }), now);
+
+      spend(0.9);
+      expect(tracker.getDegradationLevel(now)).toBe("none");
+
+      spend(0.1);
+      expect(tracker.getDegradationLevel(now)).toBe("text-only");
+      spend(0.05);
+      expect(announce).toHaveBeenCalledTimes(1);
+      expect(announce).toHaveBeenCalledWith(
+        expect.stringContaining("daily LLM budget is exceeded: images")
+      );
+
+      spend(0.05);
+      expect(tracker.getDegradationLevel(now)).toBe("cheapest-model");
+      spend(0.15);
+      expect(tracker.getDegradationLevel(now)).toBe("paused");
+      expect(announce).toHaveBeenCalledTimes(3);
+
+      // A new day starts with a fresh daily budget
+      expect(tracker.getDegradationLevel(new Date("2024-12-25T08:00:00.000Z"))).toBe(
+        "none"
+      );
+    });
+
+    it("should apply the monthly budget across days", () => {
+      configService.setBudgetSettings({ monthlyBudgetUsd: 2.2 });
+      const announce = jest.fn();
+      const tracker = new UsageTracker(configService, announce, testDir, {});
+      tracker.record(call({ model: "gpt-4o" }), new Date("2024-12-02T08:00:00.000Z"));
+
+      expect(tracker.getDegradationLevel(now)).toBe("cheapest-model");
+      expect(announce).toHaveBeenCalledWith(
+        expect.stringContaining("monthly LLM budget is exceeded")
+      );
+      expect(tracker.getDegradationLevel(new Date("2025-01-01T08:00:00.000Z"))).toBe(
+        "none"
+      );
+    });
+  });
+
+  it("should restore usage and announcements after a restart", () => {
+    configService.setBudgetSettings({ dailyBudgetUsd: 0.1 });
+    const announce = jest.fn();
+    const tracker = new UsageTracker(configService, announce, testDir, {});
+    tracker.record(call(), now);
+
+    const restarted = new UsageTracker(configService, announce, testDir, {});
+    restarted.load();
+    restarted.record(call({ promptTokens: 0 }), now);
+
+    expect(restarted.getSummary(now).today.calls).toBe(2);
+    expect(announce).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Renders a PDF read from stdin with the real DocumentExtractor and reports the first page image
+ * Run in a separate Node process by the document extractor tests, because PDF.js is loaded with
+ * a dynamic import that Jest does not support
+ */
+import { createCanvas, loadImage } from "@napi-rs/canvas";
+import { DocumentExtractor } from "../../document-extractor";
+
+async function main(): Promise<void> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+
+  const document = await new DocumentExtractor().extract(
+    Buffer.concat(chunks),
+    "application/pdf",
+    "scan.pdf"
+  );
+  const [pageImage] = document?.pageImages ?? [];
+  if (!pageImage) {
+    process.stdout.write(`${JSON.stringify({ pageImages: 0 })}\n`);
+    return;
+  }
+
+  // Count the dark pixels of the rendered page (a blank page has none)
+  const image = await loadImage(Buffer.from(pageImage, "base64"));
+  const canvas = createCanvas(image.width, image.height);
+  const context = canvas.getContext("2d");
+  context.drawImage(image, 0, 0);
+  const pixels = context.getImageData(0, 0, image.width, image.height).data;
+  let darkPixels = 0;
+  for (let i = 0; i < pixels.length; i += 4) {
+    if (pixels[i + 3] > 0 && pixels[i] < 128) darkPixels++;
+  }
+
+  process.stdout.write(
+    `${JSON.stringify({
+      pageImages: document?.pageImages.length ?? 0,
+      width: image.width,
+      darkPixels,
+    })}\n`
+  );
+}
+
+void main();
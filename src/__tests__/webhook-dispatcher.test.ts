@@ -0,0 +1,238 @@
+/**
+ * Tests for the Webhook Dispatcher
+ * Tests request signing, retries with backoff, permanent failures and persistence
+ */
+
+import {
+  WebhookDispatcher,
+  validateWebhookEndpoints,
+  type WebhookPayload,
+} from "../webhook-dispatcher";
+import { createMockEvent, cleanupTestAuthDir } from "./utils/test-helpers";
+import * as fs from "fs";
+
+describe("WebhookDispatcher", () => {
+  const testDir = ".baileys_auth_test_webhooks";
+  const url = "https://example.com/hook";
+
+  const payload: WebhookPayload = {
+    action: "create",
+    reference: "abc12345",
+    event: createMockEvent({ title: "Team Meeting" }),
+    source: {
+      chatId: "123@g.us",
+      chatName: "Team",
+      sender: "Alice",
+      messageId: "msg1",
+      messageText: "Team meeting tomorrow at 10",
+    },
+    timestamp: "2024-12-20T12:00:00.000Z",
+  };
+
+  const createDispatcher = (...statuses: number[]) => {
+    const fetchFn = jest.fn<Promise<Response>, [string, RequestInit]>();
+    for (const status of statuses) {
+      fetchFn.mockResolvedValueOnce(new Response(null, { status }));
+    }
+    fetchFn.mockResolvedValue(new Response(null, { status: 200 }));
+    return { dispatcher: new WebhookDispatcher(testDir, fetchFn), fetchFn };
+  };
+
+  // Let the attempt started by enqueue() finish
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  beforeEach(() => {
+    cleanupTestAuthDir(testDir);
+    fs.mkdirSync(testDir, { recursive: true });
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    cleanupTestAuthDir(testDir);
+  });
+
+  describe("Sending", () => {
+    it("should POST the payload as JSON right away", async () => {
+      const { dispatcher, fetchFn } = createDispatcher();
+
+      dispatcher.enqueue(url, payload);
+      await flush();
+
+      expect(fetchFn).toHaveBeenCalledTimes(1);
+      const [calledUrl, init] = fetchFn.mock.calls[0];
+      expect(calledUrl).toBe(url);
+      expect(init.method).toBe("POST");
+      expect(JSON.parse(init.body as string)).toEqual(payload);
+      expect(dispatcher.getPending()).toHaveLength(0);
+      expect(dispatcher.getStats()).toEqual({ sent: 1, failed: 0, pending: 0 });
+    });
+
+    it("should sign the body when a secret is configured", async () => {
+      const { dispatcher, fetchFn } = createDispatcher();
+
+      dispatcher.enqueue(url, payload, "shared-secret");
+      await flush();
+
+      const init = fetchFn.mock.calls[0][1];
+      const headers = init.headers as Record<string, string>;
+      expect(headers["X-Webhook-Id"]).toBeTruthy();
+      expect(headers["X-Webhook-Signature"]).toBe(
+        WebhookDispatcher.sign(
+          "shared-secret",
+          headers["X-Webhook-Timestamp"],
+          init.body as string
+        )
+      );
+    });
+
+    it("should not sign the body without a secret", async () => {
+      const { dispatcher, fetchFn } = createDispatcher();
+
+      dispatcher.enqueue(url, payload);
+      await flush();
+
+      const headers = fetchFn.mock.calls[0][1].headers as Record<
+        string,
+        string
+      >;
+      expect(headers["X-Webhook-Signature"]).toBeUndefined();
+    });
+
+    it("should compute a stable sha256 signature", () => {
+      const signature = WebhookDispatcher.sign("secret", "1700000000", "{}");
+
+      expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/);
+      expect(WebhookDispatcher.sign("secret", "1700000000", "{}")).toBe(
+        signature
+      );
+      expect(WebhookDispatcher.sign("other", "1700000000", "{}")).not.toBe(
+        signature
+      );
+    });
+  });
+
+  describe("Retries", () => {
+    it("should retry server errors with exponential backoff", async () => {
+      const { dispatcher, fetchFn } = createDispatcher(500, 503);
+
+      dispatcher.enqueue(url, payload);
+      await flush();
+
+      const [first] = dispatcher.getPending();
+      expect(first.attempts).toBe(1);
+      expect(first.lastError).toBe("HTTP 500");
+
+      // Not due yet
+      const firstRetry = new Date(first.nextAttemptAt);
+      expect(
+        await dispatcher.processDue(new Date(firstRetry.getTime() - 1000))
+      ).toBe(0);
+
+      expect(await dispatcher.processDue(firstRetry)).toBe(0);
+      const [second] = dispatcher.getPending();
+      expect(second.attempts).toBe(2);
+      expect(new Date(second.nextAttemptAt).getTime()).toBe(
+        firstRetry.getTime() + 60 * 1000
+      );
+
+      expect(await dispatcher.processDue(new Date(second.nextAttemptAt))).toBe(
+        1
+      );
+      expect(fetchFn).toHaveBeenCalledTimes(3);
+      expect(dispatcher.getPending()).toHaveLength(0);
+    });
+
+    it("should retry network errors", async () => {
+      const { dispatcher, fetchFn } = createDispatcher();
+      fetchFn.mockRejectedValueOnce(new Error("ECONNREFUSED"));
+
+      dispatcher.enqueue(url, payload);
+      await flush();
+
+      expect(dispatcher.getPending()[0].lastError).toBe("ECONNREFUSED");
+    });
+
+    it("should not retry client errors", async () => {
+      const { dispatcher, fetchFn } = createDispatcher(400);
+
+      dispatcher.enqueue(url, payload);
+      await flush();
+
+      expect(fetchFn).toHaveBeenCalledTimes(1);
+      expect(dispatcher.getPending()).toHaveLength(0);
+      expect(dispatcher.getStats().failed).toBe(1);
+    });
+
+    it("should retry rate limited requests", async () => {
+      const { dispatcher } = createDispatcher(429);
+
+      dispatcher.enqueue(url, payload);
+      await flush();
+
+      expect(dispatcher.getPending()).toHaveLength(1);
+    });
+
+    it("should give up after the maximum number of attempts", async () => {
+      const { dispatcher, fetchFn } = createDispatcher();
+      fetchFn.mockResolvedValue(new Response(null, { status: 500 }));
+
+      dispatcher.enqueue(url, payload);
+      await flush();
+
+      while (dispatcher.getPending().length > 0) {
+        const [pending] = dispatcher.getPending();
+        await dispatcher.processDue(new Date(pending.nextAttemptAt));
+      }
+
+      expect(fetchFn).toHaveBeenCalledTimes(8);
+      expect(dispatcher.getStats()).toEqual({ sent: 0, failed: 1, pending: 0 });
+    });
+  });
+
+  describe("Persistence", () => {
+    it("should restore pending deliveries after a restart", async () => {
+      const { dispatcher } = createDispatcher(500);
+
+      dispatcher.enqueue(url, payload, "shared-secret");
+      await flush();
+
+      const { dispatcher: restarted, fetchFn } = createDispatcher();
+      restarted.load();
+
+      const [pending] = restarted.getPending();
+      expect(pending.url).toBe(url);
+      expect(pending.secret).toBe("shared-secret");
+      expect(pending.attempts).toBe(1);
+
+      expect(await restarted.processDue(new Date(pending.nextAttemptAt))).toBe(
+        1
+      );
+      expect(fetchFn).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("validateWebhookEndpoints", () => {
+    it("should accept endpoints with and without a secret", () => {
+      expect(
+        validateWebhookEndpoints([{ url }, { url, secret: "shared-secret" }])
+      ).toBeNull();
+    });
+
+    it("should reject invalid endpoints", () => {
+      expect(validateWebhookEndpoints({ url })).toBe(
+        "Webhooks must be an array"
+      );
+      expect(validateWebhookEndpoints([{ url: "ftp://example.com" }])).toBe(
+        "Webhook 1 needs an http(s) URL"
+      );
+      expect(validateWebhookEndpoints([{ url, secret: 42 }])).toBe(
+        "Webhook 1: secret must be a string"
+      );
+    });
+  });
+});
@@ -3,8 +3,14 @@
  * Tests message filtering, group metadata, chat name filtering, and session management
  */
 
+import type { WAMessage } from "@whiskeysockets/baileys";
 import { WhatsAppClient } from "../whatsapp-client";
+import { ConfigService } from "../config-service";
+import type { AnalysisContext, OpenAIService } from "../llm-service";
+import { PollTracker } from "../poll-tracker";
+import { EventStore } from "../event-store";
 import {
+  createMockEvent,
   createMockWAMessage,
   createMockGroupMetadata,
   cleanupTestAuthDir,
@@ -476,4 +482,1325 @@ describe("WhatsAppClient", () => {
       expect(isFlood).toBe(false);
     });
   });
+
+  describe("Message Formatting", () => {
+    type EventType = ReturnType<typeof createMockEvent>;
+    const formatFor = (client: WhatsAppClient) =>
+      client as unknown as {
+        configService: ConfigService;
+        formatEventMessage: (event: EventType, sourceGroupName?: string) => string;
+      };
+
+    it("should format events in Hebrew and Israel time by default", () => {
+      whatsappClient = createClient();
+      const message = formatFor(whatsappClient).formatEventMessage(
+        createMockEvent({ startDateISO: "2024-12-25T08:00:00.000Z", endDateISO: null }),
+        "School Parents"
+      );
+
+      expect(message).toContain("מקור: School Parents");
+      expect(message).toContain("10:00");
+    });
+
+    it("should use the configured language, locale and time zone", () => {
+      whatsappClient = createClient();
+      const client = formatFor(whatsappClient);
+      client.configService.setLocaleSettings({
+        timezone: "Europe/Berlin",
+        language: "en",
+        dateLocale: "en-GB",
+      });
+
+      const message = client.formatEventMessage(
+        createMockEvent({ startDateISO: "2024-12-25T08:00:00.000Z", endDateISO: null }),
+        "School Parents"
+      );
+
+      expect(message).toContain("Source: School Parents");
+      expect(message).toContain("Wednesday");
+      expect(message).toContain("09:00");
+    });
+  });
+
+  describe("Document Attachments", () => {
+    const createDocumentMessage = (
+      documentMessage: Record<string, unknown>
+    ): WAMessage =>
+      ({
+        key: {
+          remoteJid: "school@g.us",
+          fromMe: false,
+          id: "DOC1",
+          participant: "972501111111@s.whatsapp.net",
+        },
+        message: {
+          documentWithCaptionMessage: { message: { documentMessage } },
+        },
+      }) as unknown as WAMessage;
+
+    const setupClient = () => {
+      const client = createClient() as unknown as {
+        llmService: { analyzeMessage: jest.Mock };
+        socket: unknown;
+        handleIncomingMessage: (message: WAMessage) => Promise<void>;
+      };
+      client.llmService.analyzeMessage = jest
+        .fn()
+        .mockResolvedValue({ hasEvents: false, events: [] });
+      client.socket = {
+        updateMediaMessage: jest.fn(),
+        groupMetadata: jest
+          .fn()
+          .mockResolvedValue({ subject: "School Parents", participants: [] }),
+      };
+      return client;
+    };
+
+    it("should analyze the text of a document with its caption and file name", async () => {
+      const client = setupClient();
+
+      await client.handleIncomingMessage(
+        createDocumentMessage({
+          fileName: "schedule.txt",
+          mimetype: "text/plain",
+          caption: "Next week",
+          fileLength: 15,
+        })
+      );
+
+      const [chatId, messageText, chatName, , , , context] = client.llmService
+        .analyzeMessage.mock.calls[0] as [string, string, string, ...unknown[]];
+      expect([chatId, messageText, chatName]).toEqual([
+        "school@g.us",
+        "Next week",
+        "School Parents",
+      ]);
+      expect(context).toMatchObject({
+        document: { fileName: "schedule.txt", text: "mock-media-data" },
+      });
+    });
+
+    it("should skip documents over the size limit or of unsupported types", async () => {
+      const client = setupClient();
+
+      await client.handleIncomingMessage(
+        createDocumentMessage({
+          fileName: "newsletter.pdf",
+          mimetype: "application/pdf",
+          fileLength: 50 * 1024 * 1024,
+        })
+      );
+      await client.handleIncomingMessage(
+        createDocumentMessage({
+          fileName: "invite.docx",
+          mimetype:
+            "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+          fileLength: 1000,
+        })
+      );
+
+      expect(client.llmService.analyzeMessage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Quoted Messages", () => {
+    const setupClient = () => {
+      const client = createClient() as unknown as {
+        llmService: { analyzeMessage: jest.Mock };
+        socket: unknown;
+        handleIncomingMessage: (message: WAMessage) => Promise<void>;
+      };
+      client.llmService.analyzeMessage = jest
+        .fn()
+        .mockResolvedValue({ hasEvents: false, events: [] });
+      client.socket = {
+        groupMetadata: jest.fn().mockResolvedValue({
+          subject: "Friends",
+          participants: [
+            { id: "972501111111@s.whatsapp.net", notify: "Alice" },
+            { id: "972502222222@s.whatsapp.net", notify: "Dana" },
+          ],
+        }),
+      };
+      return client;
+    };
+
+    const createReply = (
+      text: string,
+      contextInfo: Record<string, unknown>
+    ): WAMessage =>
+      ({
+        key: {
+          remoteJid: "friends@g.us",
+          fromMe: false,
+          id: "REPLY1",
+          participant: "972502222222@s.whatsapp.net",
+        },
+        message: { extendedTextMessage: { text, contextInfo } },
+      }) as unknown as WAMessage;
+
+    it("should pass the quoted message and its sender with a reply", async () => {
+      const client = setupClient();
+
+      await client.handleIncomingMessage(
+        createReply("yes, 17:00 works", {
+          stanzaId: "PROPOSAL1",
+          participant: "972501111111@s.whatsapp.net",
+          quotedMessage: { conversation: "Coffee at Cafe Noir on Sunday?" },
+        })
+      );
+
+      const [, messageText, , sender, , , context] = client.llmService
+        .analyzeMessage.mock.calls[0] as [string, string, ...unknown[]];
+      expect(messageText).toBe("yes, 17:00 works");
+      expect(sender).toBe("Dana");
+      expect(context).toMatchObject({
+        quotedMessage: {
+          text: "Coffee at Cafe Noir on Sunday?",
+          sender: "Alice",
+        },
+      });
+    });
+
+    it("should use the caption of a quoted image", async () => {
+      const client = setupClient();
+
+      await client.handleIncomingMessage(
+        createReply("I'm in", {
+          participant: "972509999999@s.whatsapp.net",
+          quotedMessage: { imageMessage: { caption: "Party on Friday!" } },
+        })
+      );
+
+      const [, , , , , , context] = client.llmService.analyzeMessage.mock
+        .calls[0] as [
+        string,
+        string,
+        string,
+        string,
+        null,
+        null,
+        AnalysisContext,
+      ];
+      expect(context.quotedMessage).toEqual({
+        text: "Party on Friday!",
+        sender: "972509999999",
+      });
+    });
+
+    it("should not add a quoted message to plain messages", async () => {
+      const client = setupClient();
+
+      await client.handleIncomingMessage(createReply("Hello everyone", {}));
+
+      const [, , , , , , context] = client.llmService.analyzeMessage.mock
+        .calls[0] as [
+        string,
+        string,
+        string,
+        string,
+        null,
+        null,
+        AnalysisContext,
+      ];
+      expect(context.quotedMessage).toBeUndefined();
+    });
+  });
+
+  describe("Polls", () => {
+    const setupClient = () => {
+      const client = createClient() as unknown as {
+        llmService: { analyzeMessage: jest.Mock };
+        socket: unknown;
+        pollTracker: PollTracker;
+        handleIncomingMessage: (message: WAMessage) => Promise<void>;
+      };
+      client.llmService.analyzeMessage = jest
+        .fn()
+        .mockResolvedValue({ hasEvents: false, events: [] });
+      client.socket = {
+        user: { id: "972500000000:3@s.whatsapp.net" },
+        groupMetadata: jest.fn().mockResolvedValue({
+          subject: "Friends",
+          participants: [
+            { id: "972501111111@s.whatsapp.net", notify: "Alice" },
+            { id: "972502222222@s.whatsapp.net" },
+            { id: "972503333333@s.whatsapp.net" },
+          ],
+        }),
+      };
+      return client;
+    };
+
+    const pollMessage = {
+      key: {
+        remoteJid: "friends@g.us",
+        fromMe: false,
+        id: "POLL1",
+        participant: "972501111111@s.whatsapp.net",
+      },
+      message: {
+        pollCreationMessageV3: {
+          name: "Which evening works for dinner?",
+          options: [
+            { optionName: "Tuesday 20:00" },
+            { optionName: "Thursday 20:00" },
+          ],
+          selectableOptionsCount: 1,
+        },
+        messageContextInfo: { messageSecret: Buffer.from("secret") },
+      },
+    } as unknown as WAMessage;
+
+    const createVote = (voter: string, options: string[]): WAMessage =>
+      ({
+        key: {
+          remoteJid: "friends@g.us",
+          fromMe: false,
+          id: `VOTE-${voter}`,
+          participant: voter,
+        },
+        message: {
+          pollUpdateMessage: {
+            pollCreationMessageKey: { id: "POLL1" },
+            vote: {
+              encPayload: Buffer.from(
+                JSON.stringify(options.map(PollTracker.optionHash))
+              ),
+              encIv: Buffer.from("iv"),
+            },
+          },
+        },
+      }) as unknown as WAMessage;
+
+    it("should track a poll without analyzing it", async () => {
+      const client = setupClient();
+
+      await client.handleIncomingMessage(pollMessage);
+
+      expect(client.pollTracker.get("POLL1")).toMatchObject({
+        chatName: "Friends",
+        creator: "Alice",
+        creatorJid: "972501111111@s.whatsapp.net",
+        options: ["Tuesday 20:00", "Thursday 20:00"],
+        memberCount: 3,
+      });
+      expect(client.llmService.analyzeMessage).not.toHaveBeenCalled();
+    });
+
+    it("should analyze the winning option with the poll question as context", async () => {
+      const client = setupClient();
+      await client.handleIncomingMessage(pollMessage);
+
+      await client.handleIncomingMessage(
+        createVote("972502222222@s.whatsapp.net", ["Thursday 20:00"])
+      );
+      expect(client.llmService.analyzeMessage).not.toHaveBeenCalled();
+
+      await client.handleIncomingMessage(
+        createVote("972503333333@s.whatsapp.net", ["Thursday 20:00"])
+      );
+
+      const [chatId, messageText, chatName, sender, , , context] = client
+        .llmService.analyzeMessage.mock.calls[0] as [
+        string,
+        string,
+        string,
+        string,
+        null,
+        null,
+        AnalysisContext,
+      ];
+      expect([chatId, messageText, chatName, sender]).toEqual([
+        "friends@g.us",
+        "Thursday 20:00",
+        "Friends",
+        "Alice",
+      ]);
+      expect(context.poll).toEqual({
+        question: "Which evening works for dinner?",
+        options: ["Tuesday 20:00", "Thursday 20:00"],
+        creator: "Alice",
+        votes: 2,
+      });
+    });
+  });
+
+  describe("Native Events", () => {
+    const setupClient = () => {
+      const client = createClient() as unknown as {
+        llmService: { analyzeMessage: jest.Mock };
+        socket: unknown;
+        isReady: boolean;
+        targetGroupId: string | null;
+        eventStore: EventStore;
+        handleIncomingMessage: (message: WAMessage) => Promise<void>;
+      };
+      client.llmService.analyzeMessage = jest.fn();
+      const sendMessage = jest
+        .fn<Promise<unknown>, [string, unknown]>()
+        .mockResolvedValue({ key: { id: "SENT1" } });
+      client.socket = {
+        sendMessage,
+        groupMetadata: jest.fn().mockResolvedValue({
+          subject: "Book Club",
+          participants: [
+            { id: "972501111111@s.whatsapp.net", notify: "Alice" },
+          ],
+        }),
+      };
+      client.isReady = true;
+      client.targetGroupId = "target@g.us";
+      return { client, sendMessage };
+    };
+
+    const createEventMessage = (
+      eventMessage: Record<string, unknown>
+    ): WAMessage =>
+      ({
+        key: {
+          remoteJid: "books@g.us",
+          fromMe: false,
+          id: "EVENT1",
+          participant: "972501111111@s.whatsapp.net",
+        },
+        message: { eventMessage },
+      }) as unknown as WAMessage;
+
+    it("should store and forward a native event without an LLM call", async () => {
+      const { client, sendMessage } = setupClient();
+
+      await client.handleIncomingMessage(
+        createEventMessage({
+          name: "Book club: The Hobbit",
+          description: "Bring snacks",
+          location: { name: "Dana's place" },
+          startTime: Date.parse("2099-03-04T17:00:00.000Z") / 1000,
+        })
+      );
+
+      expect(client.llmService.analyzeMessage).not.toHaveBeenCalled();
+      expect(sendMessage.mock.calls[0][0]).toBe("target@g.us");
+
+      const [stored] = client.eventStore.query({ chat: "books@g.us" });
+      expect(stored.details).toMatchObject({
+        title: "Book club: The Hobbit",
+        location: "Dana's place",
+        description: "Bring snacks",
+        startDateISO: "2099-03-04T17:00:00.000Z",
+        endDateISO: "2099-03-04T18:00:00.000Z",
+      });
+      expect(stored.source).toMatchObject({
+        chatName: "Book Club",
+        sender: "Alice",
+        messageId: "EVENT1",
+      });
+      expect(stored.model).toBeNull();
+    });
+
+    it("should skip cancelled native events", async () => {
+      const { client, sendMessage } = setupClient();
+
+      await client.handleIncomingMessage(
+        createEventMessage({
+          name: "Book club",
+          isCanceled: true,
+          startTime: Date.parse("2099-03-04T17:00:00.000Z") / 1000,
+        })
+      );
+
+      expect(sendMessage).not.toHaveBeenCalled();
+      expect(client.eventStore.size()).toBe(0);
+    });
+  });
+
+  describe("Edits and Deletions", () => {
+    const setupClient = () => {
+      const client = createClient() as unknown as {
+        llmService: { analyzeMessage: jest.Mock };
+        socket: unknown;
+        isReady: boolean;
+        targetGroupId: string | null;
+        eventStore: EventStore;
+        handleIncomingMessage: (message: WAMessage) => Promise<void>;
+      };
+      client.llmService.analyzeMessage = jest
+        .fn()
+        .mockResolvedValue({ hasEvents: false, events: [] });
+      const sendMessage = jest
+        .fn<Promise<unknown>, [string, unknown]>()
+        .mockResolvedValue({ key: { id: "SENT1" } });
+      client.socket = {
+        sendMessage,
+        groupMetadata: jest.fn().mockResolvedValue({
+          subject: "Book Club",
+          participants: [
+            { id: "972501111111@s.whatsapp.net", notify: "Alice" },
+          ],
+        }),
+      };
+      client.isReady = true;
+      client.targetGroupId = "target@g.us";
+      return { client, sendMessage };
+    };
+
+    const createMessage = (id: string, message: Record<string, unknown>) =>
+      ({
+        key: {
+          remoteJid: "books@g.us",
+          fromMe: false,
+          id,
+          participant: "972501111111@s.whatsapp.net",
+        },
+        message,
+      }) as unknown as WAMessage;
+
+    const eventMessage = {
+      eventMessage: {
+        name: "Book club",
+        startTime: Date.parse("2099-03-04T17:00:00.000Z") / 1000,
+      },
+    };
+
+    it("should withdraw events when their message is deleted", async () => {
+      const { client, sendMessage } = setupClient();
+      await client.handleIncomingMessage(createMessage("MSG1", eventMessage));
+
+      await client.handleIncomingMessage(
+        createMessage("REVOKE1", {
+          protocolMessage: { type: 0, key: { id: "MSG1" } },
+        })
+      );
+
+      const [stored] = client.eventStore.findBySourceMessage(
+        "books@g.us",
+        "MSG1"
+      );
+      expect(stored.status).toBe("withdrawn");
+      expect(sendMessage).toHaveBeenCalledTimes(2);
+      expect(sendMessage.mock.calls[1][0]).toBe("target@g.us");
+    });
+
+    it("should ignore deletions of messages without events", async () => {
+      const { client, sendMessage } = setupClient();
+
+      await client.handleIncomingMessage(
+        createMessage("REVOKE1", {
+          protocolMessage: { type: 0, key: { id: "UNKNOWN" } },
+        })
+      );
+
+      expect(sendMessage).not.toHaveBeenCalled();
+    });
+
+    it("should re-analyze an edited message and update its event", async () => {
+      const { client } = setupClient();
+      await client.handleIncomingMessage(createMessage("MSG1", eventMessage));
+      const [original] = client.eventStore.findBySourceMessage(
+        "books@g.us",
+        "MSG1"
+      );
+      client.llmService.analyzeMessage.mockResolvedValue({
+        hasEvents: true,
+        events: [
+          {
+            ...createMockEvent({
+              title: "Book club",
+              startDateISO: "2099-03-05T17:00:00.000Z",
+              endDateISO: "2099-03-05T18:00:00.000Z",
+            }),
+            action: "update",
+            relatedEventId: EventStore.referenceFor(original.fingerprint),
+          },
+        ],
+      });
+
+      await client.handleIncomingMessage(
+        createMessage("EDIT1", {
+          protocolMessage: {
+            type: 14,
+            key: { id: "MSG1" },
+            editedMessage: { conversation: "Book club moved to Thursday" },
+          },
+        })
+      );
+
+      const [, messageText, , , , , context] = client.llmService
+        .analyzeMessage.mock.calls[0] as [
+        string,
+        string,
+        string,
+        string,
+        null,
+        null,
+        AnalysisContext,
+      ];
+      expect(messageText).toBe("Book club moved to Thursday");
+      expect(context.editedFrom).toBe("Book club");
+      expect(context.knownEvents).toHaveLength(1);
+      expect(
+        client.eventStore.get(original.fingerprint)?.details.startDateISO
+      ).toBe("2099-03-05T17:00:00.000Z");
+    });
+
+    it("should analyze edits of messages without events like new messages", async () => {
+      const { client } = setupClient();
+
+      await client.handleIncomingMessage(
+        createMessage("EDIT1", {
+          protocolMessage: {
+            type: 14,
+            key: { id: "MSG9" },
+            editedMessage: {
+              extendedTextMessage: { text: "Dinner on Friday at 20:00" },
+            },
+          },
+        })
+      );
+
+      const [, messageText, , , , , context] = client.llmService
+        .analyzeMessage.mock.calls[0] as [
+        string,
+        string,
+        string,
+        string,
+        null,
+        null,
+        AnalysisContext,
+      ];
+      expect(messageText).toBe("Dinner on Friday at 20:00");
+      expect(context.editedFrom).toBeUndefined();
+    });
+  });
+
+  describe("Voice Notes", () => {
+    const createVoiceMessage = (seconds: number): WAMessage =>
+      ({
+        key: {
+          remoteJid: "team@g.us",
+          fromMe: false,
+          id: "PTT1",
+          participant: "972501111111@s.whatsapp.net",
+        },
+        message: {
+          audioMessage: {
+            mimetype: "audio/ogg; codecs=opus",
+            seconds,
+            ptt: true,
+          },
+        },
+      }) as unknown as WAMessage;
+
+    const setupClient = (transcript: string | null) => {
+      const client = createClient() as unknown as {
+        llmService: {
+          analyzeMessage: jest.Mock;
+          getMessageHistory: (chatId: string) => string[];
+        };
+        socket: unknown;
+        transcriptionProvider: { name: string; transcribe: jest.Mock } | null;
+        handleIncomingMessage: (message: WAMessage) => Promise<void>;
+      };
+      client.llmService.analyzeMessage = jest
+        .fn()
+        .mockResolvedValue({ hasEvents: false, events: [] });
+      client.socket = {
+        updateMediaMessage: jest.fn(),
+        groupMetadata: jest
+          .fn()
+          .mockResolvedValue({ subject: "Team", participants: [] }),
+      };
+      const transcribe = jest.fn().mockResolvedValue(transcript);
+      client.transcriptionProvider =
+        transcript === null ? null : { name: "stub", transcribe };
+      return { client, transcribe };
+    };
+
+    it("should analyze the transcript of a voice note", async () => {
+      const { client, transcribe } = setupClient(
+        "Practice moved to Thursday at 6"
+      );
+
+      await client.handleIncomingMessage(createVoiceMessage(12));
+
+      const [audio, mimeType] = transcribe.mock.calls[0] as [Buffer, string];
+      expect(audio.toString()).toBe("mock-media-data");
+      expect(mimeType).toBe("audio/ogg; codecs=opus");
+
+      const [, messageText, , , , , context] = client.llmService
+        .analyzeMessage.mock.calls[0] as [string, string, ...unknown[]];
+      expect(messageText).toBe("Practice moved to Thursday at 6");
+      expect(context).toMatchObject({ voiceNote: true });
+      expect(client.llmService.getMessageHistory("team@g.us")).toContain(
+        "🎤 Practice moved to Thursday at 6"
+      );
+    });
+
+    it("should skip voice notes without a transcription provider or over the length limit", async () => {
+      const { client: disabled } = setupClient(null);
+      await disabled.handleIncomingMessage(createVoiceMessage(12));
+      expect(disabled.llmService.analyzeMessage).not.toHaveBeenCalled();
+
+      const { client, transcribe } = setupClient("A very long story");
+      await client.handleIncomingMessage(createVoiceMessage(301));
+      expect(transcribe).not.toHaveBeenCalled();
+      expect(client.llmService.analyzeMessage).not.toHaveBeenCalled();
+    });
+
+    it("should not transcribe voice notes from chats that are not monitored", async () => {
+      process.env.ALLOWED_CHAT_NAMES = "Family";
+      const { client, transcribe } = setupClient("Practice on Thursday at 6");
+
+      await client.handleIncomingMessage(createVoiceMessage(12));
+
+      expect(transcribe).not.toHaveBeenCalled();
+      expect(client.llmService.analyzeMessage).not.toHaveBeenCalled();
+      expect(client.llmService.getMessageHistory("team@g.us")).toEqual([]);
+    });
+
+    it("should skip voice notes with an empty transcript", async () => {
+      const { client } = setupClient("");
+
+      await client.handleIncomingMessage(createVoiceMessage(3));
+
+      expect(client.llmService.analyzeMessage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Message Bursts", () => {
+    const setupClient = () => {
+      process.env.BATCH_WINDOW_SECONDS = "5";
+      const client = createClient() as unknown as {
+        llmService: { analyzeMessage: jest.Mock };
+        socket: unknown;
+        handleIncomingMessage: (message: WAMessage) => Promise<void>;
+      };
+      process.env.BATCH_WINDOW_SECONDS = "0";
+      client.llmService.analyzeMessage = jest
+        .fn()
+        .mockResolvedValue({ hasEvents: false, events: [] });
+      client.socket = {
+        groupMetadata: jest.fn().mockResolvedValue({
+          subject: "Friends",
+          participants: [
+            { id: "972501111111@s.whatsapp.net", notify: "Alice" },
+            { id: "972502222222@s.whatsapp.net", notify: "Dana" },
+          ],
+        }),
+      };
+      return client;
+    };
+
+    const createMessage = (id: string, participant: string, text: string) =>
+      ({
+        key: { remoteJid: "friends@g.us", fromMe: false, id, participant },
+        message: { conversation: text },
+        messageTimestamp: 1735045200, // 24 December 2024, 15:00 in Israel
+      }) as unknown as WAMessage;
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("should analyze a burst of messages once, after a quiet period", async () => {
+      const client = setupClient();
+
+      await client.handleIncomingMessage(
+        createMessage("M1", "972501111111@s.whatsapp.net", "Dinner Thursday?")
+      );
+      await client.handleIncomingMessage(
+        createMessage("M2", "972502222222@s.whatsapp.net", "Can't, Friday?")
+      );
+      await client.handleIncomingMessage(
+        createMessage("M3", "972501111111@s.whatsapp.net", "Friday at 8 then")
+      );
+      expect(client.llmService.analyzeMessage).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(5000);
+
+      expect(client.llmService.analyzeMessage).toHaveBeenCalledTimes(1);
+      const [, messageText, , sender, , , context] = client.llmService
+        .analyzeMessage.mock.calls[0] as [string, string, ...unknown[]];
+      expect(messageText.split("\n")).toEqual([
+        "Tue 15:00 Alice: Dinner Thursday?",
+        "Tue 15:00 Dana: Can't, Friday?",
+        "Tue 15:00 Alice: Friday at 8 then",
+      ]);
+      expect(sender).toBe("Alice, Dana");
+      expect(context).toMatchObject({ batchSize: 3 });
+    });
+
+    it("should wait until the chat is quiet", async () => {
+      const client = setupClient();
+
+      await client.handleIncomingMessage(
+        createMessage("M1", "972501111111@s.whatsapp.net", "Dinner Thursday?")
+      );
+      await jest.advanceTimersByTimeAsync(4000);
+      await client.handleIncomingMessage(
+        createMessage("M2", "972502222222@s.whatsapp.net", "Sure, at 8")
+      );
+      await jest.advanceTimersByTimeAsync(4000);
+      expect(client.llmService.analyzeMessage).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(client.llmService.analyzeMessage).toHaveBeenCalledTimes(1);
+    });
+
+    it("should match deletions against every message of a burst", async () => {
+      const client = setupClient() as ReturnType<typeof setupClient> & {
+        isReady: boolean;
+        targetGroupId: string | null;
+        eventStore: EventStore;
+      };
+      client.llmService.analyzeMessage.mockResolvedValue({
+        hasEvents: true,
+        events: [
+          createMockEvent({
+            title: "Dinner",
+            startDateISO: "2099-12-27T18:00:00.000Z",
+          }),
+        ],
+      });
+      client.socket = {
+        ...(client.socket as object),
+        sendMessage: jest.fn().mockResolvedValue({ key: { id: "SENT1" } }),
+      };
+      client.isReady = true;
+      client.targetGroupId = "target@g.us";
+
+      await client.handleIncomingMessage(
+        createMessage("M1", "972501111111@s.whatsapp.net", "Dinner Friday at 8?")
+      );
+      await client.handleIncomingMessage(
+        createMessage("M2", "972502222222@s.whatsapp.net", "Sure")
+      );
+      await jest.advanceTimersByTimeAsync(5000);
+
+      const [stored] = client.eventStore.findBySourceMessage("friends@g.us", "M1");
+      expect(stored.source).toMatchObject({ messageId: "M2", messageIds: ["M1", "M2"] });
+
+      await client.handleIncomingMessage({
+        key: {
+          remoteJid: "friends@g.us",
+          fromMe: false,
+          id: "REVOKE1",
+          participant: "972501111111@s.whatsapp.net",
+        },
+        message: { protocolMessage: { type: 0, key: { id: "M1" } } },
+      } as unknown as WAMessage);
+
+      expect(client.eventStore.get(stored.fingerprint)?.status).toBe("withdrawn");
+    });
+
+    it("should only keep the history of monitored chats", async () => {
+      const client = setupClient();
+      const addMessageToHistory = jest.spyOn(
+        client.llmService as unknown as OpenAIService,
+        "addMessageToHistory"
+      );
+
+      process.env.ALLOWED_CHAT_NAMES = "Family";
+      await client.handleIncomingMessage(
+        createMessage("M1", "972501111111@s.whatsapp.net", "My new PIN is 1234")
+      );
+      expect(addMessageToHistory).not.toHaveBeenCalled();
+
+      process.env.ALLOWED_CHAT_NAMES = "Friends";
+      await client.handleIncomingMessage(
+        createMessage("M2", "972501111111@s.whatsapp.net", "Dinner Thursday?")
+      );
+      expect(addMessageToHistory).toHaveBeenCalledWith(
+        "friends@g.us",
+        "Dinner Thursday?",
+        "Alice",
+        expect.any(Date)
+      );
+    });
+
+    it("should analyze bursts still waiting when disconnecting", async () => {
+      const client = setupClient();
+
+      await client.handleIncomingMessage(
+        createMessage("M1", "972501111111@s.whatsapp.net", "Dinner Thursday?")
+      );
+      await (client as unknown as WhatsAppClient).disconnect();
+
+      expect(client.llmService.analyzeMessage).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("Pre-filter", () => {
+    it("should not send obviously non-event messages to the LLM", async () => {
+      process.env.PREFILTER_ENABLED = "true";
+      const client = createClient() as unknown as {
+        llmService: { analyzeMessage: jest.Mock };
+        prefilter: { getStats: () => { checked: number; skipped: number } };
+        socket: unknown;
+        handleIncomingMessage: (message: WAMessage) => Promise<void>;
+      };
+      process.env.PREFILTER_ENABLED = "false";
+      client.llmService.analyzeMessage = jest
+        .fn()
+        .mockResolvedValue({ hasEvents: false, events: [] });
+      client.socket = {
+        groupMetadata: jest.fn().mockResolvedValue({
+          subject: "Friends",
+          participants: [{ id: "972501111111@s.whatsapp.net", notify: "Alice" }],
+        }),
+      };
+      const send = (id: string, text: string) =>
+        client.handleIncomingMessage({
+          key: {
+            remoteJid: "friends@g.us",
+            fromMe: false,
+            id,
+            participant: "972501111111@s.whatsapp.net",
+          },
+          message: { conversation: text },
+        } as unknown as WAMessage);
+
+      await send("M1", "👍");
+      await send("M2", "thanks!");
+      expect(client.llmService.analyzeMessage).not.toHaveBeenCalled();
+
+      await send("M3", "Dinner on Thursday at 8?");
+      expect(client.llmService.analyzeMessage).toHaveBeenCalledTimes(1);
+      expect(client.prefilter.getStats()).toMatchObject({ checked: 3, skipped: 2 });
+    });
+  });
+
+  describe("Routing", () => {
+    interface ClientInternals {
+      configService: ConfigService;
+      llmService: { analyzeMessage: (...args: unknown[]) => Promise<unknown> };
+      socket: { sendMessage: jest.Mock<Promise<unknown>, [string, unknown]> } | null;
+      isReady: boolean;
+      targetGroupId: string | null;
+      processMessageForEvents: (
+        chatId: string,
+        messageText: string,
+        chatName: string,
+        contactName: string
+      ) => Promise<unknown>;
+    }
+
+    const fetchMock = jest.fn<Promise<{ ok: boolean; status: number }>, [string, RequestInit]>();
+
+    const setupClient = () => {
+      const client = createClient() as unknown as ClientInternals;
+      client.llmService.analyzeMessage = jest.fn().mockResolvedValue({
+        hasEvents: true,
+        events: [
+          createMockEvent({
+            title: "Parent Meeting",
+            startDateISO: "2099-12-25T16:00:00.000Z",
+          }),
+        ],
+      });
+      client.socket = {
+        sendMessage: jest
+          .fn<Promise<unknown>, [string, unknown]>()
+          .mockImplementation((jid) => Promise.resolve({ key: { id: `SENT-${jid}` } })),
+      };
+      client.isReady = true;
+      client.targetGroupId = "target@g.us";
+      client.configService.setRoutingRules([
+        {
+          name: "School",
+          match: { chats: ["School"] },
+          destinations: [
+            { type: "contact", id: "+972 50-111-1111" },
+            { type: "contact", id: "972502222222@s.whatsapp.net" },
+            { type: "webhook", url: "https://example.com/hook" },
+          ],
+        },
+      ]);
+      return client;
+    };
+
+    const originalFetch = global.fetch;
+
+    beforeEach(() => {
+      fetchMock.mockReset().mockResolvedValue({ ok: true, status: 200 });
+      global.fetch = fetchMock as unknown as typeof fetch;
+    });
+
+    afterAll(() => {
+      global.fetch = originalFetch;
+    });
+
+    it("should send events to the destinations of matching rules", async () => {
+      const client = setupClient();
+
+      await client.processMessageForEvents(
+        "school@g.us", "Parent meeting on Wednesday", "School Parents", "Dana"
+      );
+
+      expect(client.socket?.sendMessage.mock.calls.map(([jid]) => jid)).toEqual([
+        "972501111111@s.whatsapp.net",
+        "972502222222@s.whatsapp.net",
+      ]);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe("https://example.com/hook");
+      expect(JSON.parse(init.body as string)).toMatchObject({
+        action: "create",
+        event: { title: "Parent Meeting" },
+        source: { chatName: "School Parents" },
+      });
+
+      const [stored] = whatsappClient.getEventStore().query();
+      expect(stored.deliveries?.map((d) => d.chatId)).toEqual([
+        "972501111111@s.whatsapp.net",
+        "972502222222@s.whatsapp.net",
+      ]);
+    });
+
+    it("should send events matching no rule to the target group", async () => {
+      const client = setupClient();
+
+      await client.processMessageForEvents(
+        "work@g.us", "Sprint review on Wednesday", "Acme Team", "Dana"
+      );
+
+      expect(client.socket?.sendMessage.mock.calls.map(([jid]) => jid)).toEqual([
+        "target@g.us",
+      ]);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it("should still send routed events right away in digest mode", async () => {
+      const client = setupClient();
+      client.configService.setDigestSettings({ deliveryMode: "digest" });
+
+      await client.processMessageForEvents(
+        "school@g.us", "Parent meeting on Wednesday", "School Parents", "Dana"
+      );
+      await client.processMessageForEvents(
+        "work@g.us", "Sprint review on Thursday", "Acme Team", "Dana"
+      );
+
+      // The target group only gets the digest
+      expect(client.socket?.sendMessage.mock.calls.map(([jid]) => jid)).toEqual([
+        "972501111111@s.whatsapp.net",
+        "972502222222@s.whatsapp.net",
+      ]);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      client.configService.setDigestSettings({ deliveryMode: "immediate" });
+    });
+
+    it("should only list events routed to the target group in its digest", async () => {
+      const client = setupClient();
+      client.configService.setDigestSettings({ deliveryMode: "digest" });
+      client.llmService.analyzeMessage = jest
+        .fn()
+        .mockResolvedValueOnce({
+          hasEvents: true,
+          events: [
+            createMockEvent({
+              title: "Parent Meeting",
+              startDateISO: "2099-12-25T16:00:00.000Z",
+            }),
+          ],
+        })
+        .mockResolvedValueOnce({
+          hasEvents: true,
+          events: [
+            createMockEvent({
+              title: "Sprint Review",
+              startDateISO: "2099-12-25T12:00:00.000Z",
+              location: "Office",
+            }),
+          ],
+        });
+
+      await client.processMessageForEvents(
+        "school@g.us", "Parent meeting on Wednesday", "School Parents", "Dana"
+      );
+      await client.processMessageForEvents(
+        "work@g.us", "Sprint review on Wednesday", "Acme Team", "Dana"
+      );
+
+      const digest = whatsappClient
+        .getDigestService()
+        .buildDigest(new Date("2099-12-25T05:00:00.000Z"));
+      expect(digest?.events.map((event) => event.details.title)).toEqual([
+        "Sprint Review",
+      ]);
+      client.configService.setDigestSettings({ deliveryMode: "immediate" });
+    });
+
+    it("should send events no later digest lists to the target group in digest mode", async () => {
+      // 12:00 in Israel, after the 07:00 digest of the day of the event
+      jest.useFakeTimers({ now: new Date("2099-12-25T10:00:00.000Z") });
+      const client = setupClient();
+      client.configService.setDigestSettings({
+        deliveryMode: "digest",
+        digestTime: "07:00",
+      });
+
+      await client.processMessageForEvents(
+        "work@g.us", "Sprint review tonight", "Acme Team", "Dana"
+      );
+
+      expect(client.socket?.sendMessage.mock.calls.map(([jid]) => jid)).toEqual([
+        "target@g.us",
+      ]);
+      client.configService.setDigestSettings({ deliveryMode: "immediate" });
+      jest.useRealTimers();
+    });
+
+    it("should save events on the CalDAV calendar when configured", async () => {
+      const client = setupClient();
+      client.configService.setCalDavSettings({
+        serverUrl: "http://localhost:5232",
+        username: "me",
+        password: "secret",
+        calendarPath: "me/events",
+      });
+
+      await client.processMessageForEvents(
+        "work@g.us", "Sprint review on Wednesday", "Acme Team", "Dana"
+      );
+
+      const [stored] = whatsappClient.getEventStore().query();
+      expect(fetchMock).toHaveBeenCalledWith(
+        `http://localhost:5232/me/events/${stored.fingerprint}.ics`,
+        expect.objectContaining({ method: "PUT" })
+      );
+      client.configService.setCalDavSettings(null);
+    });
+  });
+
+  describe("Commands", () => {
+    const setupClient = () => {
+      const client = createClient() as unknown as {
+        llmService: { analyzeMessage: jest.Mock };
+        socket: unknown;
+        isReady: boolean;
+        targetGroupId: string | null;
+        eventStore: EventStore;
+        handleIncomingMessage: (message: WAMessage) => Promise<void>;
+      };
+      client.llmService.analyzeMessage = jest
+        .fn()
+        .mockResolvedValue({ hasEvents: false, events: [] });
+      const sendMessage = jest
+        .fn<Promise<unknown>, [string, unknown]>()
+        .mockResolvedValue({ key: { id: "SENT1" } });
+      client.socket = {
+        sendMessage,
+        groupMetadata: jest.fn().mockResolvedValue({
+          subject: "Book Club",
+          participants: [],
+        }),
+        user: { id: "972500000000:3@s.whatsapp.net" },
+      };
+      client.isReady = true;
+      client.targetGroupId = "target@g.us";
+      return { client, sendMessage };
+    };
+
+    const createOwnMessage = (remoteJid: string, id: string, text: string) =>
+      ({
+        key: { remoteJid, fromMe: true, id },
+        message: { conversation: text },
+      }) as unknown as WAMessage;
+
+    it("should answer commands in the self-chat without analyzing them", async () => {
+      const { client, sendMessage } = setupClient();
+
+      await client.handleIncomingMessage(
+        createOwnMessage("972500000000@s.whatsapp.net", "CMD1", "/status")
+      );
+      // The reply comes back as an own message in the self-chat
+      await client.handleIncomingMessage(
+        createOwnMessage("972500000000@s.whatsapp.net", "SENT1", "🤖 *Status*")
+      );
+
+      expect(sendMessage).toHaveBeenCalledTimes(1);
+      const [chatId, content] = sendMessage.mock.calls[0] as [
+        string,
+        { text: string },
+      ];
+      expect(chatId).toBe("972500000000@s.whatsapp.net");
+      expect(content.text).toContain("Target group:");
+      expect(client.llmService.analyzeMessage).not.toHaveBeenCalled();
+    });
+
+    it("should not treat messages to other private chats as commands", async () => {
+      const { client, sendMessage } = setupClient();
+
+      await client.handleIncomingMessage(
+        createOwnMessage("972509999999@s.whatsapp.net", "MSG1", "/events")
+      );
+
+      expect(sendMessage).not.toHaveBeenCalled();
+      expect(client.llmService.analyzeMessage).toHaveBeenCalled();
+    });
+
+    it("should retract the last forwarded event on /undo in the target group", async () => {
+      const { client, sendMessage } = setupClient();
+      await client.handleIncomingMessage({
+        key: {
+          remoteJid: "books@g.us",
+          fromMe: false,
+          id: "MSG1",
+          participant: "972501111111@s.whatsapp.net",
+        },
+        message: {
+          eventMessage: {
+            name: "Book club",
+            startTime: Date.parse("2099-03-04T17:00:00.000Z") / 1000,
+          },
+        },
+      } as unknown as WAMessage);
+
+      await client.handleIncomingMessage(
+        createOwnMessage("target@g.us", "CMD1", "/undo")
+      );
+
+      const [stored] = client.eventStore.findBySourceMessage(
+        "books@g.us",
+        "MSG1"
+      );
+      expect(stored.status).toBe("withdrawn");
+      expect(sendMessage).toHaveBeenCalledWith("target@g.us", {
+        delete: { remoteJid: "target@g.us", fromMe: true, id: "SENT1" },
+      });
+      const [, reply] = sendMessage.mock.calls[2] as [string, { text: string }];
+      expect(reply.text).toContain("Retracted *Book club*");
+    });
+  });
+
+  describe("Approval", () => {
+    const selfChatId = "972500000000@s.whatsapp.net";
+
+    const setupClient = () => {
+      const client = createClient() as unknown as {
+        llmService: { analyzeMessage: jest.Mock };
+        configService: ConfigService;
+        socket: unknown;
+        isReady: boolean;
+        targetGroupId: string | null;
+        eventStore: EventStore;
+        handleIncomingMessage: (message: WAMessage) => Promise<void>;
+        getPendingEvents: WhatsAppClient["getPendingEvents"];
+      };
+      client.llmService.analyzeMessage = jest
+        .fn()
+        .mockResolvedValue({ hasEvents: false, events: [] });
+      let sentCount = 0;
+      const sendMessage = jest
+        .fn<Promise<unknown>, [string, unknown]>()
+        .mockImplementation(() =>
+          Promise.resolve({ key: { id: `SENT${++sentCount}` } })
+        );
+      client.socket = {
+        sendMessage,
+        groupMetadata: jest.fn().mockResolvedValue({
+          subject: "Book Club",
+          participants: [],
+        }),
+        user: { id: "972500000000:3@s.whatsapp.net" },
+      };
+      client.isReady = true;
+      client.targetGroupId = "target@g.us";
+      client.configService.setApprovalSettings({ approvalMode: true });
+      return { client, sendMessage };
+    };
+
+    const receiveEvent = (client: ReturnType<typeof setupClient>["client"]) =>
+      client.handleIncomingMessage({
+        key: {
+          remoteJid: "books@g.us",
+          fromMe: false,
+          id: "MSG1",
+          participant: "972501111111@s.whatsapp.net",
+        },
+        message: {
+          eventMessage: {
+            name: "Book club",
+            startTime: Date.parse("2099-03-04T17:00:00.000Z") / 1000,
+          },
+        },
+      } as unknown as WAMessage);
+
+    const reply = (text: string, quotedId?: string) =>
+      ({
+        key: { remoteJid: selfChatId, fromMe: true, id: `REPLY-${text}` },
+        message: quotedId
+          ? {
+              extendedTextMessage: {
+                text,
+                contextInfo: { stanzaId: quotedId },
+              },
+            }
+          : { conversation: text },
+      }) as unknown as WAMessage;
+
+    afterEach(() => {
+      (
+        whatsappClient as unknown as { configService: ConfigService }
+      ).configService.setApprovalSettings({ approvalMode: false });
+    });
+
+    it("should send new events as a draft to the self-chat", async () => {
+      const { client, sendMessage } = setupClient();
+
+      await receiveEvent(client);
+
+      expect(sendMessage).toHaveBeenCalledTimes(1);
+      const [chatId, content] = sendMessage.mock.calls[0] as [
+        string,
+        { text: string },
+      ];
+      expect(chatId).toBe(selfChatId);
+      expect(content.text).toContain("Draft");
+      expect(client.getPendingEvents()).toHaveLength(1);
+      expect(client.eventStore.size()).toBe(0);
+    });
+
+    it("should forward a draft once it is approved", async () => {
+      const { client, sendMessage } = setupClient();
+      await receiveEvent(client);
+
+      await client.handleIncomingMessage(reply("ok", "SENT1"));
+
+      expect(sendMessage.mock.calls[1][0]).toBe("target@g.us");
+      expect(client.getPendingEvents()).toHaveLength(0);
+      expect(client.eventStore.findBySourceMessage("books@g.us", "MSG1")).toHaveLength(1);
+    });
+
+    it("should send an edited draft for approval", async () => {
+      const { client, sendMessage } = setupClient();
+      await receiveEvent(client);
+
+      await client.handleIncomingMessage(reply("edit location Library"));
+
+      const [pending] = client.getPendingEvents();
+      expect(pending.event.location).toBe("Library");
+      expect(pending.draftMessageId).toBe("SENT2");
+      expect(sendMessage.mock.calls[1][0]).toBe(selfChatId);
+    });
+
+    it("should drop a rejected draft", async () => {
+      const { client, sendMessage } = setupClient();
+      await receiveEvent(client);
+
+      await client.handleIncomingMessage(reply("no"));
+
+      expect(client.getPendingEvents()).toHaveLength(0);
+      expect(client.eventStore.size()).toBe(0);
+      expect(sendMessage).not.toHaveBeenCalledWith(
+        "target@g.us",
+        expect.anything()
+      );
+    });
+  });
 });
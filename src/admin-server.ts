@@ -1,6 +1,45 @@
 import * as http from "http";
 import * as crypto from "crypto";
-import { ConfigService } from "./config-service";
+import {
+  ConfigService,
+  DELIVERY_MODES,
+  DIGEST_SCHEDULES,
+  type DeliveryMode,
+  type DigestSchedule,
+  type WebhookEndpoint,
+  type CalDavSettings,
+} from "./config-service";
+import { isValidLocale, isValidTimeZone } from "./locale";
+import { validateRoutingRules, type RoutingRule } from "./event-router";
+import { validateWebhookEndpoints } from "./webhook-dispatcher";
+import { validateCalDavSettings } from "./caldav-client";
+import type { EventStore } from "./event-store";
+import type { PendingEvent } from "./approval-queue";
+import type { UsageTracker } from "./usage-tracker";
+import type { MessagePrefilter } from "./message-prefilter";
+
+// A webhook as sent to the browser: hasSecret tells whether a secret is set, without the secret
+type WithHiddenSecret<T extends { secret?: string }> = Omit<T, "secret"> & {
+  secret?: string;
+  hasSecret?: boolean;
+};
+
+function hideSecret<T extends { secret?: string }>(
+  endpoint: T
+): WithHiddenSecret<T> {
+  const { secret, ...rest } = endpoint;
+  return secret ? { ...rest, hasSecret: true } : rest;
+}
+
+// A new secret replaces the current one; without one, hasSecret keeps the current secret
+function restoreSecret<T extends { url: string; secret?: string }>(
+  endpoint: WithHiddenSecret<T>,
+  secrets: Map<string, string>
+): T {
+  const { hasSecret, secret, ...rest } = endpoint;
+  const kept = secret || (hasSecret ? secrets.get(endpoint.url) : undefined);
+  return (kept ? { ...rest, secret: kept } : rest) as T;
+}
 
 // Type for chat provider function
 type ChatProvider = () => Promise<{ id: string; name: string; isGroup: boolean }[]>;
@@ -12,6 +51,13 @@ type StatusProvider = () => {
   qrCode: string | null;
 };
 
+// Actions on detected events waiting for approval
+export interface ApprovalActions {
+  getPending: () => PendingEvent[];
+  approve: (id: string) => Promise<boolean>;
+  reject: (id: string) => boolean;
+}
+
 /**
  * Simple admin server for managing WhatsApp bot configuration
  * Provides a web interface and API endpoints for configuration management
@@ -23,15 +69,27 @@ export class AdminServer {
   private sessionExpiry = 0;
   private chatProvider?: ChatProvider;
   private statusProvider?: StatusProvider;
+  private eventStore?: EventStore;
+  private approvalActions?: ApprovalActions;
+  private usageTracker?: UsageTracker;
+  private prefilter?: MessagePrefilter;
 
   constructor(
     configService: ConfigService,
     chatProvider?: ChatProvider,
-    statusProvider?: StatusProvider
+    statusProvider?: StatusProvider,
+    eventStore?: EventStore,
+    approvalActions?: ApprovalActions,
+    usageTracker?: UsageTracker,
+    prefilter?: MessagePrefilter
   ) {
     this.configService = configService;
     this.chatProvider = chatProvider;
     this.statusProvider = statusProvider;
+    this.eventStore = eventStore;
+    this.approvalActions = approvalActions;
+    this.usageTracker = usageTracker;
+    this.prefilter = prefilter;
   }
 
   /**
@@ -169,6 +227,48 @@ export class AdminServer {
       return;
     }
 
+    // Query detected events
+    if (
+      req.method === "GET" &&
+      (url === "/admin/events" || url.startsWith("/admin/events?"))
+    ) {
+      this.handleGetEvents(url, res);
+      return;
+    }
+
+    // Events waiting for approval
+    if (req.method === "GET" && url === "/admin/pending") {
+      this.handleGetPending(res);
+      return;
+    }
+
+    // Approve or drop an event waiting for approval
+    const pendingAction = /^\/admin\/pending\/([^/]+)\/(approve|reject)$/.exec(url);
+    if (req.method === "POST" && pendingAction) {
+      void this.handlePendingAction(
+        decodeURIComponent(pendingAction[1]),
+        pendingAction[2] as "approve" | "reject",
+        res
+      );
+      return;
+    }
+
+    // LLM token usage, estimated cost and budget state
+    if (req.method === "GET" && url === "/admin/usage") {
+      this.handleGetUsage(res);
+      return;
+    }
+
+    // Messages the pre-filter kept from the LLM
+    if (req.method === "GET" && url === "/admin/prefilter") {
+      this.handleGetPrefilter(res);
+      return;
+    }
+    if (req.method === "POST" && url === "/admin/prefilter/reset") {
+      this.handleResetPrefilter(res);
+      return;
+    }
+
     // Not found
     res.writeHead(404, { "Content-Type": "application/json" });
     res.end(JSON.stringify({ error: "Not found" }));
@@ -228,12 +328,43 @@ export class AdminServer {
    */
   private handleGetConfig(res: http.ServerResponse): void {
     const config = this.configService.getConfig();
+    const caldav = this.configService.getCalDavSettings();
     // Don't send password hash to client
     const safeConfig = {
       allowedChatNames: config.allowedChatNames,
       monitorAllGroupChats: config.monitorAllGroupChats || false,
       targetGroupId: config.targetGroupId,
       targetGroupName: config.targetGroupName,
+      focusedInstructions: config.focusedInstructions || "",
+      timezone: this.configService.getTimezone(),
+      language: this.configService.getLanguage(),
+      dateLocale: this.configService.getDateLocale(),
+      reminderOffsets: this.configService.getReminderOffsets(),
+      deliveryMode: this.configService.getDeliveryMode(),
+      digestSchedule: this.configService.getDigestSchedule(),
+      digestTime: this.configService.getDigestTime(),
+      digestWeekday: this.configService.getDigestWeekday(),
+      // Webhook secrets are not sent either, only whether one is set
+      routingRules: this.configService.getRoutingRules().map((rule) => ({
+        ...rule,
+        destinations: rule.destinations.map((destination) =>
+          (destination.type === "webhook" ? hideSecret(destination) : destination)
+        ),
+      })),
+      approvalMode: this.configService.getApprovalMode(),
+      approvalExpiryHours: this.configService.getApprovalExpiryHours(),
+      dailyBudgetUsd: this.configService.getDailyBudget(),
+      monthlyBudgetUsd: this.configService.getMonthlyBudget(),
+      webhooks: this.configService.getWebhooks().map(hideSecret),
+      // Don't send the CalDAV password either, only whether one is set
+      caldav: caldav
+        ? {
+            serverUrl: caldav.serverUrl,
+            username: caldav.username,
+            calendarPath: caldav.calendarPath,
+            hasPassword: Boolean(caldav.password),
+          }
+        : null,
       lastUpdated: config.lastUpdated,
       hasPassword: this.configService.hasAdminPassword(),
     };
@@ -241,6 +372,133 @@ export class AdminServer {
     res.end(JSON.stringify(safeConfig));
   }
 
+  /**
+   * Validate time zone, date locale and language from a config update
+   * Returns an error message, or null if all given values are valid
+   */
+  private validateLocaleSettings(updates: {
+    timezone?: string;
+    language?: string;
+    dateLocale?: string;
+  }): string | null {
+    if (updates.timezone !== undefined && !isValidTimeZone(updates.timezone)) {
+      return `Unknown time zone "${updates.timezone}"`;
+    }
+    if (updates.dateLocale !== undefined && !isValidLocale(updates.dateLocale)) {
+      return `Unknown date locale "${updates.dateLocale}"`;
+    }
+    if (updates.language !== undefined && !/^[a-z]{2,3}$/.test(updates.language)) {
+      return `Invalid language code "${updates.language}"`;
+    }
+    return null;
+  }
+
+  /**
+   * Secrets of the configured webhooks and webhook destinations, by URL
+   */
+  private currentWebhookSecrets(): Map<string, string> {
+    const secrets = new Map<string, string>();
+    const endpoints = [
+      ...this.configService.getWebhooks(),
+      ...this.configService
+        .getRoutingRules()
+        .flatMap((rule) => rule.destinations)
+        .filter((destination) => destination.type === "webhook"),
+    ];
+    for (const endpoint of endpoints) {
+      if ("url" in endpoint && endpoint.secret) {
+        secrets.set(endpoint.url, endpoint.secret);
+      }
+    }
+    return secrets;
+  }
+
+  /**
+   * Validate the LLM budgets from a config update (null removes a budget)
+   * Returns an error message, or null if all given values are valid
+   */
+  private validateBudgetSettings(updates: {
+    dailyBudgetUsd?: number | null;
+    monthlyBudgetUsd?: number | null;
+  }): string | null {
+    for (const [name, value] of [
+      ["Daily", updates.dailyBudgetUsd],
+      ["Monthly", updates.monthlyBudgetUsd],
+    ] as const) {
+      if (
+        value !== undefined &&
+        value !== null &&
+        !(typeof value === "number" && value > 0)
+      ) {
+        return `${name} budget must be a positive amount in USD`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Validate reminder offsets, delivery mode, digest schedule and draft expiry from a config update
+   * Returns an error message, or null if all given values are valid
+   */
+  private validateDeliverySettings(updates: {
+    reminderOffsets?: number[];
+    deliveryMode?: DeliveryMode;
+    digestSchedule?: DigestSchedule;
+    digestTime?: string;
+    digestWeekday?: number;
+    approvalExpiryHours?: number;
+  }): string | null {
+    if (
+      updates.reminderOffsets !== undefined &&
+      !(
+        Array.isArray(updates.reminderOffsets) &&
+        updates.reminderOffsets.every(
+          (offset) => Number.isInteger(offset) && offset > 0
+        )
+      )
+    ) {
+      return "Reminder offsets must be positive whole minutes";
+    }
+    if (
+      updates.deliveryMode !== undefined &&
+      !DELIVERY_MODES.includes(updates.deliveryMode)
+    ) {
+      return `Unknown delivery mode "${updates.deliveryMode}"`;
+    }
+    if (
+      updates.digestSchedule !== undefined &&
+      !DIGEST_SCHEDULES.includes(updates.digestSchedule)
+    ) {
+      return `Unknown digest schedule "${updates.digestSchedule}"`;
+    }
+    if (
+      updates.digestTime !== undefined &&
+      !/^([01]\d|2[0-3]):[0-5]\d$/.test(updates.digestTime)
+    ) {
+      return `Invalid digest time "${updates.digestTime}" (expected HH:MM)`;
+    }
+    if (
+      updates.approvalExpiryHours !== undefined &&
+      !(
+        typeof updates.approvalExpiryHours === "number" &&
+        updates.approvalExpiryHours > 0
+      )
+    ) {
+      return "Draft expiry must be a positive number of hours";
+    }
+    if (
+      updates.digestWeekday !== undefined &&
+      !(
+        Number.isInteger(updates.digestWeekday) &&
+        updates.digestWeekday >= 0 &&
+        updates.digestWeekday <= 6
+      )
+    ) {
+      return "Digest weekday must be 0 (Sunday) to 6 (Saturday)";
+    }
+    return null;
+  }
+
   /**
    * Handle get chats request - fetch available chats from WhatsApp
    */
@@ -304,6 +562,130 @@ export class AdminServer {
     }
   }
 
+  /**
+   * Handle get events request - query the event store
+   * Supports ?from=&to= (ISO dates), ?chat= (chat ID or name) and ?q= (free text)
+   */
+  private handleGetEvents(url: string, res: http.ServerResponse): void {
+    if (!this.eventStore) {
+      res.writeHead(503, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Event store not available" }));
+      return;
+    }
+
+    const params = new URL(url, "http://localhost").searchParams;
+    const events = this.eventStore.query({
+      from: params.get("from") || undefined,
+      to: params.get("to") || undefined,
+      chat: params.get("chat") || undefined,
+      text: params.get("q") || undefined,
+    });
+
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ events }));
+  }
+
+  /**
+   * Handle get pending events request - events waiting for approval, oldest first
+   */
+  private handleGetPending(res: http.ServerResponse): void {
+    if (!this.approvalActions) {
+      res.writeHead(503, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Approval queue not available" }));
+      return;
+    }
+
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ pending: this.approvalActions.getPending() }));
+  }
+
+  /**
+   * Handle get usage request - LLM tokens and estimated cost of today and this month
+   */
+  private handleGetUsage(res: http.ServerResponse): void {
+    if (!this.usageTracker) {
+      res.writeHead(503, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Usage tracking not available" }));
+      return;
+    }
+
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(this.usageTracker.getSummary()));
+  }
+
+  /**
+   * Handle get pre-filter request - how many messages were skipped and why, with recent samples
+   */
+  private handleGetPrefilter(res: http.ServerResponse): void {
+    if (!this.prefilter) {
+      res.writeHead(503, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Pre-filter not available" }));
+      return;
+    }
+
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(
+      JSON.stringify({
+        enabled: this.prefilter.isEnabled(),
+        ...this.prefilter.getStats(),
+      })
+    );
+  }
+
+  /**
+   * Handle reset pre-filter request - start counting again after the rules were tuned
+   */
+  private handleResetPrefilter(res: http.ServerResponse): void {
+    if (!this.prefilter) {
+      res.writeHead(503, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Pre-filter not available" }));
+      return;
+    }
+
+    this.prefilter.resetStats();
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ success: true }));
+  }
+
+  /**
+   * Handle approving (forwarding) or dropping an event waiting for approval
+   */
+  private async handlePendingAction(
+    id: string,
+    action: "approve" | "reject",
+    res: http.ServerResponse
+  ): Promise<void> {
+    if (!this.approvalActions) {
+      res.writeHead(503, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Approval queue not available" }));
+      return;
+    }
+
+    try {
+      const found =
+        action === "approve"
+          ? await this.approvalActions.approve(id)
+          : this.approvalActions.reject(id);
+      if (!found) {
+        res.writeHead(404, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "Pending event not found (it may have expired)" }));
+        return;
+      }
+
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ success: true }));
+    } catch (error) {
+      console.error(`Error handling pending event (${action}):`, error);
+      res.writeHead(500, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          error: "Failed to update pending event",
+          details: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+  }
+
   /**
    * Handle update configuration request
    */
@@ -323,9 +705,45 @@ export class AdminServer {
           monitorAllGroupChats?: boolean;
           targetGroupId?: string;
           targetGroupName?: string;
+          focusedInstructions?: string;
+          timezone?: string;
+          language?: string;
+          dateLocale?: string;
+          reminderOffsets?: number[];
+          deliveryMode?: DeliveryMode;
+          digestSchedule?: DigestSchedule;
+          digestTime?: string;
+          digestWeekday?: number;
+          routingRules?: RoutingRule[]; // Webhook destinations may have hasSecret instead of a secret
+          approvalMode?: boolean;
+          approvalExpiryHours?: number;
+          dailyBudgetUsd?: number | null;
+          monthlyBudgetUsd?: number | null;
+          webhooks?: WithHiddenSecret<WebhookEndpoint>[];
+          caldav?: Partial<CalDavSettings> | null;
           newPassword?: string;
         };
 
+        // Validate locale and delivery settings before applying anything
+        const validationError =
+          this.validateLocaleSettings(updates) ||
+          this.validateDeliverySettings(updates) ||
+          this.validateBudgetSettings(updates) ||
+          (updates.routingRules !== undefined
+            ? validateRoutingRules(updates.routingRules)
+            : null) ||
+          (updates.webhooks !== undefined
+            ? validateWebhookEndpoints(updates.webhooks)
+            : null) ||
+          (updates.caldav !== undefined
+            ? validateCalDavSettings(updates.caldav)
+            : null);
+        if (validationError) {
+          res.writeHead(400, { "Content-Type": "application/json" });
+          res.end(JSON.stringify({ error: validationError }));
+          return;
+        }
+
         // Update monitor all group chats setting
         if (updates.monitorAllGroupChats !== undefined) {
           this.configService.setMonitorAllGroupChats(updates.monitorAllGroupChats);
@@ -342,6 +760,76 @@ export class AdminServer {
           this.configService.setTargetGroup(groupId, groupName);
         }
 
+        if (updates.focusedInstructions !== undefined) {
+          this.configService.setFocusedInstructions(updates.focusedInstructions);
+        }
+
+        this.configService.setLocaleSettings({
+          timezone: updates.timezone,
+          language: updates.language,
+          dateLocale: updates.dateLocale,
+        });
+
+        if (updates.reminderOffsets !== undefined) {
+          this.configService.setReminderOffsets(updates.reminderOffsets);
+        }
+
+        this.configService.setDigestSettings({
+          deliveryMode: updates.deliveryMode,
+          digestSchedule: updates.digestSchedule,
+          digestTime: updates.digestTime,
+          digestWeekday: updates.digestWeekday,
+        });
+
+        // Webhooks sent back with hasSecret instead of their secret keep the current one
+        const secrets = this.currentWebhookSecrets();
+
+        if (updates.routingRules !== undefined) {
+          this.configService.setRoutingRules(
+            updates.routingRules.map((rule) => ({
+              ...rule,
+              destinations: rule.destinations.map((destination) =>
+                (destination.type === "webhook"
+                  ? restoreSecret<typeof destination>(destination, secrets)
+                  : destination)
+              ),
+            }))
+          );
+        }
+
+        this.configService.setApprovalSettings({
+          approvalMode: updates.approvalMode,
+          approvalExpiryHours: updates.approvalExpiryHours,
+        });
+
+        this.configService.setBudgetSettings({
+          dailyBudgetUsd: updates.dailyBudgetUsd,
+          monthlyBudgetUsd: updates.monthlyBudgetUsd,
+        });
+
+        if (updates.webhooks !== undefined) {
+          this.configService.setWebhooks(
+            updates.webhooks.map((endpoint) =>
+              restoreSecret<WebhookEndpoint>(endpoint, secrets)
+            )
+          );
+        }
+
+        if (updates.caldav !== undefined) {
+          // An empty password keeps the current one, since it is never sent to the browser
+          this.configService.setCalDavSettings(
+            updates.caldav && {
+              serverUrl: updates.caldav.serverUrl || "",
+              username: updates.caldav.username || "",
+              password:
+                updates.caldav.password ||
+                this.configService.getCalDavSettings()?.password ||
+                "",
+              calendarPath: updates.caldav.calendarPath || "",
+            }
+          );
+        }
+
         // Update password if provided
         if (updates.newPassword) {
           const hashedPassword = this.hashPassword(updates.newPassword);
@@ -656,11 +1144,212 @@ export class AdminServer {
                             </p>
                         </div>
 
+                        <!-- Language and Time Zone -->
+                        <div class="form-group" style="display: flex; gap: 10px;">
+                            <div style="flex: 2;">
+                                <label for="timezone">Time Zone</label>
+                                <input type="text" id="timezone" list="timezoneOptions" placeholder="Asia/Jerusalem">
+                                <datalist id="timezoneOptions">
+                                    <option value="Asia/Jerusalem">
+                                    <option value="Europe/London">
+                                    <option value="Europe/Berlin">
+                                    <option value="Europe/Paris">
+                                    <option value="America/New_York">
+                                    <option value="UTC">
+                                </datalist>
+                            </div>
+                            <div style="flex: 1;">
+                                <label for="language">Language</label>
+                                <select id="language" style="width: 100%; padding: 12px; border: 2px solid #e0e0e0; border-radius: 8px; font-size: 14px;">
+                                    <option value="he">עברית</option>
+                                    <option value="en">English</option>
+                                    <option value="de">Deutsch</option>
+                                    <option value="fr">Français</option>
+                                    <option value="es">Español</option>
+                                    <option value="ru">Русский</option>
+                                </select>
+                            </div>
+                            <div style="flex: 1;">
+                                <label for="dateLocale">Date Format</label>
+                                <input type="text" id="dateLocale" placeholder="he-IL">
+                            </div>
+                        </div>
+                        <p class="help-text" style="margin-top: -10px; margin-bottom: 20px;">
+                            Dates in messages are interpreted in this time zone. Event text and labels use the selected language, and dates are formatted with the date format locale (e.g. he-IL, en-GB, de-DE).
+                        </p>
+
+                        <!-- Reminders -->
+                        <div class="form-group">
+                            <label for="reminderOffsets">Reminders (minutes before the event)</label>
+                            <input type="text" id="reminderOffsets" placeholder="1440, 60">
+                            <p class="help-text">
+                                Comma-separated list of when to remind the target group before each event (1440 = 1 day, 60 = 1 hour). Leave empty to disable reminders.
+                            </p>
+                        </div>
+
+                        <!-- Digest -->
+                        <div class="form-group" style="display: flex; gap: 10px;">
+                            <div style="flex: 2;">
+                                <label for="deliveryMode">Send Events</label>
+                                <select id="deliveryMode" style="width: 100%; padding: 12px; border: 2px solid #e0e0e0; border-radius: 8px; font-size: 14px;">
+                                    <option value="immediate">One message per event</option>
+                                    <option value="digest">Digest only</option>
+                                    <option value="both">Both</option>
+                                </select>
+                            </div>
+                            <div style="flex: 1;">
+                                <label for="digestSchedule">Digest</label>
+                                <select id="digestSchedule" style="width: 100%; padding: 12px; border: 2px solid #e0e0e0; border-radius: 8px; font-size: 14px;">
+                                    <option value="daily">Daily</option>
+                                    <option value="weekly">Weekly</option>
+                                </select>
+                            </div>
+                            <div style="flex: 1;">
+                                <label for="digestWeekday">Day</label>
+                                <select id="digestWeekday" style="width: 100%; padding: 12px; border: 2px solid #e0e0e0; border-radius: 8px; font-size: 14px;">
+                                    <option value="0">Sunday</option>
+                                    <option value="1">Monday</option>
+                                    <option value="2">Tuesday</option>
+                                    <option value="3">Wednesday</option>
+                                    <option value="4">Thursday</option>
+                                    <option value="5">Friday</option>
+                                    <option value="6">Saturday</option>
+                                </select>
+                            </div>
+                            <div style="flex: 1;">
+                                <label for="digestTime">Time</label>
+                                <input type="time" id="digestTime">
+                            </div>
+                        </div>
+                        <p class="help-text" style="margin-top: -10px; margin-bottom: 20px;">
+                            The digest is a single agenda of upcoming events grouped by day and source chat. A daily digest covers the rest of the day; a weekly digest (e.g. Sunday at 20:00) covers the next 7 days. The day only applies to weekly digests.
+                        </p>
+
+                        <!-- Approval -->
+                        <div class="form-group" style="display: flex; gap: 10px; align-items: flex-end;">
+                            <div style="flex: 2;">
+                                <label>
+                                    <input type="checkbox" id="approvalMode">
+                                    Approve Events Before Sending
+                                </label>
+                            </div>
+                            <div style="flex: 1;">
+                                <label for="approvalExpiryHours">Drafts Expire After (hours)</label>
+                                <input type="number" id="approvalExpiryHours" min="1" placeholder="24">
+                            </div>
+                        </div>
+                        <p class="help-text" style="margin-top: -10px; margin-bottom: 20px;">
+                            New events are sent to you as a draft in your self-chat instead of going straight to the target group. Reply 1/ok to send a draft, "edit time 18:00" to change it or "no" to drop it, or use the Pending Events list below. Unanswered drafts are dropped when they expire.
+                        </p>
+
+                        <!-- LLM Budget -->
+                        <div class="form-group" style="display: flex; gap: 10px;">
+                            <div style="flex: 1;">
+                                <label for="dailyBudgetUsd">Daily LLM Budget (USD)</label>
+                                <input type="number" id="dailyBudgetUsd" min="0" step="0.01" placeholder="No limit">
+                            </div>
+                            <div style="flex: 1;">
+                                <label for="monthlyBudgetUsd">Monthly LLM Budget (USD)</label>
+                                <input type="number" id="monthlyBudgetUsd" min="0" step="0.01" placeholder="No limit">
+                            </div>
+                        </div>
+                        <p class="help-text" style="margin-top: -10px; margin-bottom: 20px;">
+                            Based on the estimated cost of each analysis. Once a budget is used up, images are no longer analyzed; at 110% the cheapest model is used and at 125% detection pauses until the budget resets. Each step is announced once in the target group. Leave empty for no limit.
+                        </p>
+
+                        <!-- Routing Rules -->
+                        <div class="form-group">
+                            <label for="routingRules">Routing Rules (JSON)</label>
+                            <textarea id="routingRules" rows="8" placeholder='[{"name": "School", "match": {"chats": ["School"]}, "destinations": [{"type": "contact", "id": "972501234567"}]}]' style="width: 100%; padding: 12px; border: 2px solid #e0e0e0; border-radius: 8px; font-size: 13px; resize: vertical; font-family: monospace;"></textarea>
+                            <p class="help-text">
+                                Send events to other places depending on where they come from. Each rule matches on <code>chats</code>, <code>keywords</code> and/or <code>senders</code> and lists <code>destinations</code> of type <code>group</code> (group ID), <code>contact</code> (phone number or ID) or <code>webhook</code> (URL). Events matching no rule go to the target group. Leave empty for no rules.
+                            </p>
+                        </div>
+
+                        <!-- Webhooks -->
+                        <div class="form-group">
+                            <label for="webhooks">Webhooks (JSON)</label>
+                            <textarea id="webhooks" rows="4" placeholder='[{"url": "https://example.com/hook", "secret": "shared-secret"}]' style="width: 100%; padding: 12px; border: 2px solid #e0e0e0; border-radius: 8px; font-size: 13px; resize: vertical; font-family: monospace;"></textarea>
+                            <p class="help-text">
+                                Every detected, updated and cancelled event is POSTed as JSON to these URLs. With a <code>secret</code>, requests carry an <code>X-Webhook-Signature</code> HMAC header. Failed requests are retried with backoff. Secrets are shown as <code>"hasSecret": true</code>; keep it to leave a secret unchanged.
+                            </p>
+                        </div>
+
+                        <!-- CalDAV -->
+                        <div class="form-group">
+                            <label for="caldavServerUrl">CalDAV Server</label>
+                            <input type="text" id="caldavServerUrl" placeholder="https://cloud.example.com/remote.php/dav">
+                            <div style="display: flex; gap: 10px; margin-top: 10px;">
+                                <div style="flex: 1;">
+                                    <input type="text" id="caldavUsername" placeholder="Username" autocomplete="off">
+                                </div>
+                                <div style="flex: 1;">
+                                    <input type="password" id="caldavPassword" placeholder="Password" autocomplete="new-password">
+                                </div>
+                            </div>
+                            <input type="text" id="caldavCalendarPath" placeholder="calendars/username/personal" style="margin-top: 10px;">
+                            <p class="help-text">
+                                Create, update and delete detected events on a CalDAV calendar (Radicale, Nextcloud, Fastmail, ...). The calendar path is relative to the server URL. Leave the password empty to keep the current one, and the server URL empty to disable CalDAV.
+                            </p>
+                        </div>
+
                         <button type="submit" class="btn">Save Configuration</button>
                         <button type="button" class="btn btn-secondary" onclick="loadConfig()">Reload</button>
                     </form>
                 </div>
 
+                <!-- Pending Events -->
+                <div class="section">
+                    <h2>Pending Events</h2>
+                    <p class="help-text">Events waiting for approval (only used when "Approve Events Before Sending" is on).</p>
+                    <div id="pendingList" style="margin-top: 10px;"></div>
+                    <button type="button" class="btn btn-secondary" onclick="loadPendingEvents()">Reload</button>
+                </div>
+
+                <!-- LLM Usage -->
+                <div class="section">
+                    <h2>LLM Usage</h2>
+                    <p class="help-text">Tokens and estimated cost of event detection (breakdowns are for this month).</p>
+                    <div id="usageSummary" style="margin-top: 10px;"></div>
+                    <button type="button" class="btn btn-secondary" onclick="loadUsage()">Reload</button>
+                </div>
+
+                <!-- Pre-filter -->
+                <div class="section">
+                    <h2>Pre-filter</h2>
+                    <p class="help-text">Text messages skipped without an LLM call (emoji only, too short, or no day, time or event words).</p>
+                    <div id="prefilterSummary" style="margin-top: 10px;"></div>
+                    <button type="button" class="btn btn-secondary" onclick="loadPrefilter()">Reload</button>
+                    <button type="button" class="btn btn-secondary" onclick="resetPrefilter()">Reset Counts</button>
+                </div>
+
+                <!-- Detected Events -->
+                <div class="section">
+                    <h2>Detected Events</h2>
+                    <form onsubmit="loadEvents(event)">
+                        <div class="form-group" style="display: flex; gap: 10px;">
+                            <div style="flex: 1;">
+                                <label for="eventsFrom">From</label>
+                                <input type="date" id="eventsFrom" style="width: 100%; padding: 10px; border: 2px solid #e0e0e0; border-radius: 8px;">
+                            </div>
+                            <div style="flex: 1;">
+                                <label for="eventsTo">To</label>
+                                <input type="date" id="eventsTo" style="width: 100%; padding: 10px; border: 2px solid #e0e0e0; border-radius: 8px;">
+                            </div>
+                        </div>
+                        <div class="form-group">
+                            <label for="eventsChat">Source Chat</label>
+                            <input type="text" id="eventsChat" placeholder="Chat name or ID">
+                        </div>
+                        <div class="form-group">
+                            <label for="eventsText">Search</label>
+                            <input type="text" id="eventsText" placeholder="Title, location, description or original message">
+                        </div>
+                        <button type="submit" class="btn">Search Events</button>
+                    </form>
+                    <div id="eventsList" style="margin-top: 20px;"></div>
+                </div>
+
                 <!-- Change Password -->
                 <div class="section">
                     <div style="cursor: pointer; display: flex; align-items: center; justify-content: space-between;" onclick="togglePasswordSection()">
@@ -839,6 +1528,244 @@ export class AdminServer {
             document.getElementById('adminPanel').classList.add('active');
             loadConfig();
             loadChats();
+            loadPendingEvents();
+            loadUsage();
+            loadPrefilter();
+            loadEvents();
+        }
+
+        function escapeHtml(value) {
+            const div = document.createElement('div');
+            div.textContent = value == null ? '' : String(value);
+            return div.innerHTML;
+        }
+
+        async function loadEvents(event) {
+            if (event) event.preventDefault();
+            const eventsList = document.getElementById('eventsList');
+            const params = new URLSearchParams();
+            const from = document.getElementById('eventsFrom').value;
+            const to = document.getElementById('eventsTo').value;
+            const chat = document.getElementById('eventsChat').value.trim();
+            const text = document.getElementById('eventsText').value.trim();
+            if (from) params.set('from', new Date(from + 'T00:00:00').toISOString());
+            if (to) params.set('to', new Date(to + 'T23:59:59').toISOString());
+            if (chat) params.set('chat', chat);
+            if (text) params.set('q', text);
+
+            try {
+                const response = await fetch('/admin/events?' + params.toString(), {
+                    headers: { 'Authorization': 'Bearer ' + authToken }
+                });
+
+                if (response.status === 401) {
+                    logout();
+                    return;
+                }
+
+                const data = await response.json();
+                if (!response.ok) {
+                    eventsList.innerHTML = '<p style="color: #e74c3c;">Error: ' + escapeHtml(data.error || 'Failed to load events') + '</p>';
+                    return;
+                }
+
+                const events = data.events || [];
+                if (events.length === 0) {
+                    eventsList.innerHTML = '<p style="color: #666; text-align: center;">No events found</p>';
+                    return;
+                }
+
+                eventsList.innerHTML = events.map(stored => \`
+                    <div class="info-box">
+                        <p><strong>\${escapeHtml(stored.details.title || 'Untitled')}</strong>\${stored.status !== 'active' ? ' <span style="color: #e74c3c;">(' + escapeHtml(stored.status) + ')</span>' : stored.updatedAt ? ' <span style="color: #666;">(updated)</span>' : ''}</p>
+                        <p>🕐 \${stored.details.startDateISO ? escapeHtml(new Date(stored.details.startDateISO).toLocaleString()) : 'No date'}</p>
+                        \${stored.details.location ? '<p>📍 ' + escapeHtml(stored.details.location) + '</p>' : ''}
+                        <p>📱 \${escapeHtml([stored.source, ...(stored.additionalSources || [])].map(source => source.chatName).filter(Boolean).join(', ') || 'Unknown chat')} · 👤 \${escapeHtml(stored.source.sender || 'Unknown')}</p>
+                        <p class="help-text">Detected \${escapeHtml(new Date(stored.detectedAt).toLocaleString())}\${stored.model ? ' by ' + escapeHtml(stored.model) : ''}</p>
+                        \${stored.source.messageText ? '<details><summary class="help-text">Original message</summary><p style="white-space: pre-wrap;">' + escapeHtml(stored.source.messageText) + '</p></details>' : ''}
+                    </div>
+                \`).join('');
+            } catch (error) {
+                eventsList.innerHTML = '<p style="color: #e74c3c;">Network error loading events</p>';
+            }
+        }
+
+        async function loadPendingEvents() {
+            const pendingList = document.getElementById('pendingList');
+
+            try {
+                const response = await fetch('/admin/pending', {
+                    headers: { 'Authorization': 'Bearer ' + authToken }
+                });
+
+                if (response.status === 401) {
+                    logout();
+                    return;
+                }
+
+                const data = await response.json();
+                if (!response.ok) {
+                    pendingList.innerHTML = '<p style="color: #e74c3c;">Error: ' + escapeHtml(data.error || 'Failed to load pending events') + '</p>';
+                    return;
+                }
+
+                const pending = data.pending || [];
+                if (pending.length === 0) {
+                    pendingList.innerHTML = '<p style="color: #666; text-align: center;">No events waiting for approval</p>';
+                    return;
+                }
+
+                pendingList.innerHTML = pending.map(entry => \`
+                    <div class="info-box">
+                        <p><strong>\${escapeHtml(entry.event.title || 'Untitled')}</strong> <span style="color: #666;">[\${escapeHtml(entry.id)}]</span></p>
+                        <p>🕐 \${entry.event.startDateISO ? escapeHtml(new Date(entry.event.startDateISO).toLocaleString()) : 'No date'}</p>
+                        \${entry.event.location ? '<p>📍 ' + escapeHtml(entry.event.location) + '</p>' : ''}
+                        <p>📱 \${escapeHtml(entry.source.chatName || 'Unknown chat')} · 👤 \${escapeHtml(entry.source.sender || 'Unknown')}</p>
+                        <p class="help-text">Expires \${escapeHtml(new Date(entry.expiresAt).toLocaleString())}</p>
+                        <button type="button" class="btn" onclick="updatePendingEvent('\${escapeHtml(entry.id)}', 'approve')">Send</button>
+                        <button type="button" class="btn btn-secondary" onclick="updatePendingEvent('\${escapeHtml(entry.id)}', 'reject')">Drop</button>
+                    </div>
+                \`).join('');
+            } catch (error) {
+                pendingList.innerHTML = '<p style="color: #e74c3c;">Network error loading pending events</p>';
+            }
+        }
+
+        async function updatePendingEvent(id, action) {
+            try {
+                const response = await fetch('/admin/pending/' + encodeURIComponent(id) + '/' + action, {
+                    method: 'POST',
+                    headers: { 'Authorization': 'Bearer ' + authToken }
+                });
+
+                if (response.status === 401) {
+                    logout();
+                    return;
+                }
+
+                const data = await response.json();
+                if (response.ok) {
+                    showSuccess(action === 'approve' ? 'Event sent' : 'Event dropped');
+                } else {
+                    showError(data.error || 'Failed to update pending event');
+                }
+                loadPendingEvents();
+                loadEvents();
+            } catch (error) {
+                showError('Network error. Please try again.');
+            }
+        }
+
+        async function loadUsage() {
+            const usageSummary = document.getElementById('usageSummary');
+
+            try {
+                const response = await fetch('/admin/usage', {
+                    headers: { 'Authorization': 'Bearer ' + authToken }
+                });
+
+                if (response.status === 401) {
+                    logout();
+                    return;
+                }
+
+                const data = await response.json();
+                if (!response.ok) {
+                    usageSummary.innerHTML = '<p style="color: #e74c3c;">Error: ' + escapeHtml(data.error || 'Failed to load usage') + '</p>';
+                    return;
+                }
+
+                const formatTotals = (totals) =>
+                    totals.calls + ' call(s), ' + (totals.promptTokens + totals.completionTokens).toLocaleString() + ' tokens, ' +
+                    totals.imageInputs + ' image(s), $' + totals.cost.toFixed(4);
+                const formatBudget = (budget) => budget ? ' of $' + budget.toFixed(2) : '';
+                const breakdown = (title, groups) => {
+                    const entries = Object.entries(groups);
+                    if (entries.length === 0) return '';
+                    return '<p><strong>' + title + '</strong></p>' + entries
+                        .map(([name, totals]) => '<p class="help-text">' + escapeHtml(name) + ': ' + escapeHtml(formatTotals(totals)) + '</p>')
+                        .join('');
+                };
+                const levels = {
+                    'none': 'Normal',
+                    'text-only': 'Budget exceeded - text only',
+                    'cheapest-model': 'Budget exceeded - cheapest model',
+                    'paused': 'Budget exceeded - detection paused'
+                };
+
+                usageSummary.innerHTML = \`
+                    <div class="info-box">
+                        <p><strong>Today:</strong> \${escapeHtml(formatTotals(data.today))}\${escapeHtml(formatBudget(data.budget.dailyUsd))}</p>
+                        <p><strong>This month:</strong> \${escapeHtml(formatTotals(data.month))}\${escapeHtml(formatBudget(data.budget.monthlyUsd))}</p>
+                        <p><strong>Status:</strong> \${escapeHtml(levels[data.budget.level] || data.budget.level)}</p>
+                        \${breakdown('By model', data.byModel)}
+                        \${breakdown('By chat', data.byChat)}
+                        \${breakdown('By outcome', data.byOutcome)}
+                    </div>
+                \`;
+            } catch (error) {
+                usageSummary.innerHTML = '<p style="color: #e74c3c;">Network error loading usage</p>';
+            }
+        }
+
+        async function loadPrefilter() {
+            const prefilterSummary = document.getElementById('prefilterSummary');
+
+            try {
+                const response = await fetch('/admin/prefilter', {
+                    headers: { 'Authorization': 'Bearer ' + authToken }
+                });
+
+                if (response.status === 401) {
+                    logout();
+                    return;
+                }
+
+                const data = await response.json();
+                if (!response.ok) {
+                    prefilterSummary.innerHTML = '<p style="color: #e74c3c;">Error: ' + escapeHtml(data.error || 'Failed to load pre-filter') + '</p>';
+                    return;
+                }
+
+                const chats = Object.entries(data.byChat)
+                    .map(([name, counts]) => '<p class="help-text">' + escapeHtml(name) + ': ' + counts.skipped + ' of ' + counts.checked + ' skipped</p>')
+                    .join('');
+                const samples = data.recentSkipped.slice().reverse()
+                    .map((message) => '<p class="help-text">[' + escapeHtml(message.reason) + '] ' + escapeHtml(message.chatName) + ': ' + escapeHtml(message.text) + '</p>')
+                    .join('');
+
+                prefilterSummary.innerHTML = \`
+                    <div class="info-box">
+                        <p><strong>Status:</strong> \${data.enabled ? 'On' : 'Off'}</p>
+                        <p><strong>Skipped:</strong> \${data.skipped} of \${data.checked} message(s) (\${Math.round(data.skipRate * 100)}%) since \${escapeHtml(new Date(data.since).toLocaleString())}</p>
+                        <p><strong>By reason:</strong> emoji only \${data.byReason['emoji-only']}, too short \${data.byReason['too-short']}, no signals \${data.byReason['no-signals']}</p>
+                        \${chats ? '<p><strong>By chat</strong></p>' + chats : ''}
+                        \${samples ? '<p><strong>Recently skipped</strong></p>' + samples : ''}
+                    </div>
+                \`;
+            } catch (error) {
+                prefilterSummary.innerHTML = '<p style="color: #e74c3c;">Network error loading pre-filter</p>';
+            }
+        }
+
+        async function resetPrefilter() {
+            if (!confirm('Reset the pre-filter counts?')) return;
+
+            try {
+                const response = await fetch('/admin/prefilter/reset', {
+                    method: 'POST',
+                    headers: { 'Authorization': 'Bearer ' + authToken }
+                });
+
+                if (response.status === 401) {
+                    logout();
+                    return;
+                }
+
+                loadPrefilter();
+            } catch (error) {
+                showError('Network error. Please try again.');
+            }
         }
 
         let allChats = [];
@@ -1006,6 +1933,44 @@ export class AdminServer {
                 
                 // Set focused instructions
                 document.getElementById('focusedInstructions').value = config.focusedInstructions || '';
+
+                // Set language and time zone
+                document.getElementById('timezone').value = config.timezone || '';
+                document.getElementById('language').value = config.language || 'he';
+                document.getElementById('dateLocale').value = config.dateLocale || '';
+
+                // Set reminder offsets
+                document.getElementById('reminderOffsets').value = (config.reminderOffsets || []).join(', ');
+
+                // Set digest settings
+                document.getElementById('deliveryMode').value = config.deliveryMode || 'immediate';
+                document.getElementById('digestSchedule').value = config.digestSchedule || 'daily';
+                document.getElementById('digestWeekday').value = String(config.digestWeekday || 0);
+                document.getElementById('digestTime').value = config.digestTime || '07:00';
+
+                // Set approval settings
+                document.getElementById('approvalMode').checked = config.approvalMode || false;
+                document.getElementById('approvalExpiryHours').value = config.approvalExpiryHours || 24;
+
+                // Set LLM budgets
+                document.getElementById('dailyBudgetUsd').value = config.dailyBudgetUsd || '';
+                document.getElementById('monthlyBudgetUsd').value = config.monthlyBudgetUsd || '';
+
+                // Set routing rules
+                const routingRules = config.routingRules || [];
+                document.getElementById('routingRules').value = routingRules.length > 0 ? JSON.stringify(routingRules, null, 2) : '';
+
+                // Set webhooks
+                const webhooks = config.webhooks || [];
+                document.getElementById('webhooks').value = webhooks.length > 0 ? JSON.stringify(webhooks, null, 2) : '';
+
+                // Set CalDAV settings (the password is never sent back)
+                const caldav = config.caldav || {};
+                document.getElementById('caldavServerUrl').value = caldav.serverUrl || '';
+                document.getElementById('caldavUsername').value = caldav.username || '';
+                document.getElementById('caldavPassword').value = '';
+                document.getElementById('caldavPassword').placeholder = caldav.hasPassword ? 'Password (unchanged)' : 'Password';
+                document.getElementById('caldavCalendarPath').value = caldav.calendarPath || '';
             } catch (error) {
                 showError('Failed to load configuration');
             }
@@ -1017,6 +1982,47 @@ export class AdminServer {
             const monitorAllGroupChats = document.getElementById('monitorAllGroupChats').checked;
             const targetGroupId = document.getElementById('targetGroup').value;
             const focusedInstructions = document.getElementById('focusedInstructions').value.trim();
+            const timezone = document.getElementById('timezone').value.trim() || undefined;
+            const language = document.getElementById('language').value;
+            const dateLocale = document.getElementById('dateLocale').value.trim() || undefined;
+            const reminderOffsets = document.getElementById('reminderOffsets').value
+                .split(',')
+                .map(offset => offset.trim())
+                .filter(offset => offset !== '')
+                .map(Number);
+            const deliveryMode = document.getElementById('deliveryMode').value;
+            const digestSchedule = document.getElementById('digestSchedule').value;
+            const digestWeekday = Number(document.getElementById('digestWeekday').value);
+            const digestTime = document.getElementById('digestTime').value || undefined;
+            const approvalMode = document.getElementById('approvalMode').checked;
+            const approvalExpiryHours = Number(document.getElementById('approvalExpiryHours').value) || undefined;
+            const dailyBudgetUsd = Number(document.getElementById('dailyBudgetUsd').value) || null;
+            const monthlyBudgetUsd = Number(document.getElementById('monthlyBudgetUsd').value) || null;
+            let routingRules;
+            try {
+                const routingRulesText = document.getElementById('routingRules').value.trim();
+                routingRules = routingRulesText ? JSON.parse(routingRulesText) : [];
+            } catch (error) {
+                showError('Routing rules are not valid JSON');
+                return;
+            }
+            let webhooks;
+            try {
+                const webhooksText = document.getElementById('webhooks').value.trim();
+                webhooks = webhooksText ? JSON.parse(webhooksText) : [];
+            } catch (error) {
+                showError('Webhooks are not valid JSON');
+                return;
+            }
+            const caldavServerUrl = document.getElementById('caldavServerUrl').value.trim();
+            const caldav = caldavServerUrl
+                ? {
+                    serverUrl: caldavServerUrl,
+                    username: document.getElementById('caldavUsername').value.trim(),
+                    password: document.getElementById('caldavPassword').value,
+                    calendarPath: document.getElementById('caldavCalendarPath').value.trim()
+                }
+                : null;
             
             // Find the group name from the selected ID
             const selectedGroup = allChats.find(chat => chat.id === targetGroupId);
@@ -1034,7 +2040,22 @@ export class AdminServer {
                         allowedChatNames: selectedChatNames,
                         targetGroupId,
                         targetGroupName,
-                        focusedInstructions
+                        focusedInstructions,
+                        timezone,
+                        language,
+                        dateLocale,
+                        reminderOffsets,
+                        deliveryMode,
+                        digestSchedule,
+                        digestWeekday,
+                        digestTime,
+                        routingRules,
+                        approvalMode,
+                        approvalExpiryHours,
+                        dailyBudgetUsd,
+                        monthlyBudgetUsd,
+                        webhooks,
+                        caldav
                     })
                 });
 
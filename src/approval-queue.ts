@@ -0,0 +1,300 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { DateResolver } from "./date-resolver";
+import type { EventSource } from "./event-store";
+import type { EventDetails } from "./llm-service";
+
+/**
+ * A detected event waiting for approval before it is forwarded
+ */
+export interface PendingEvent {
+  id: string; // Short reference shown in the draft and the admin interface
+  event: EventDetails;
+  source: EventSource;
+  model: string | null;
+  createdAt: string;
+  expiresAt: string;
+  draftMessageId: string | null; // The draft sent to the self-chat, so replies to it can be matched
+}
+
+export type EditableField =
+  | "title"
+  | "date"
+  | "time"
+  | "location"
+  | "description";
+
+/**
+ * An answer to a draft: approve it, drop it, or change one of its fields
+ */
+export type ApprovalReply =
+  | { type: "approve" }
+  | { type: "reject" }
+  | { type: "edit"; field: EditableField; value: string };
+
+const APPROVE_PATTERN = /^(1|ok|okay|yes|y|send|👍|✅|כן|אישור)$/i;
+const REJECT_PATTERN = /^(0|no|n|drop|👎|❌|לא)$/i;
+const EDIT_PATTERN =
+  /^edit\s+(title|date|time|location|description)\s+([\s\S]+)$/i;
+
+const DEFAULT_DURATION_MS = 60 * 60 * 1000;
+
+/**
+ * Parse a reply to a draft ("1"/"ok" to approve, "no" to drop, "edit time 18:00" to amend)
+ * Returns null if the text is not a reply to a draft
+ */
+export function parseApprovalReply(text: string): ApprovalReply | null {
+  const trimmed = text.trim();
+  if (APPROVE_PATTERN.test(trimmed)) return { type: "approve" };
+  if (REJECT_PATTERN.test(trimmed)) return { type: "reject" };
+
+  const edit = EDIT_PATTERN.exec(trimmed);
+  if (!edit) return null;
+  return {
+    type: "edit",
+    field: edit[1].toLowerCase() as EditableField,
+    value: edit[2].trim(),
+  };
+}
+
+/**
+ * Apply an edit to a draft event
+ * Date and time edits move startDateISO/endDateISO and keep the event's duration.
+ * Returns null if the new date or time cannot be read.
+ */
+export function applyEventEdit(
+  event: EventDetails,
+  field: EditableField,
+  value: string,
+  dateResolver: DateResolver
+): EventDetails | null {
+  if (field !== "date" && field !== "time") {
+    return {
+      ...event,
+      [field]: value,
+      ...(field === "title" ? { summary: value } : {}),
+    };
+  }
+
+  const start = event.startDateISO ? new Date(event.startDateISO) : null;
+  const end = event.endDateISO ? new Date(event.endDateISO) : null;
+  const duration =
+    start && end && end > start
+      ? end.getTime() - start.getTime()
+      : DEFAULT_DURATION_MS;
+
+  if (field === "date") {
+    const day = dateResolver.resolveDay(value);
+    if (!day) return null;
+    const time = start
+      ? dateResolver.toLocalTime(start)
+      : { hour: 8, minute: 0 };
+    const newStart = dateResolver.toUtc(day, time);
+    return {
+      ...event,
+      date: value,
+      startDateISO: newStart.toISOString(),
+      endDateISO: new Date(newStart.getTime() + duration).toISOString(),
+    };
+  }
+
+  // A bare hour ("18") is only read as a time after "at"
+  const time =
+    dateResolver.resolveTime(value) || dateResolver.resolveTime(`at ${value}`);
+  const day = start
+    ? dateResolver.toLocalDate(start)
+    : dateResolver.resolveDay(event.date || "");
+  if (!time || !day) return null;
+
+  const newStart = dateResolver.toUtc(day, time.start);
+  let newEnd = time.end
+    ? dateResolver.toUtc(day, time.end)
+    : new Date(newStart.getTime() + duration);
+  if (newEnd <= newStart) {
+    newEnd = new Date(newEnd.getTime() + 24 * 60 * 60 * 1000);
+  }
+  return {
+    ...event,
+    time: value,
+    startDateISO: newStart.toISOString(),
+    endDateISO: newEnd.toISOString(),
+  };
+}
+
+/**
+ * Detected events waiting for approval (approval mode)
+ *
+ * Instead of going straight to the target group, each new event is sent as a draft to the
+ * self-chat and kept here until it is approved, edited or dropped there or in the admin
+ * interface. Drafts that are not answered in time expire.
+ * Pending events are persisted to pending_events.json so drafts survive a restart.
+ */
+export class ApprovalQueue {
+  private pending = new Map<string, PendingEvent>();
+  private readonly filePath: string;
+  private checkInterval: NodeJS.Timeout | null = null;
+
+  constructor(
+    sessionDir?: string,
+    private readonly checkIntervalMs = 60 * 1000
+  ) {
+    const dir = sessionDir || process.env.BAILEYS_AUTH_DIR || ".baileys_auth";
+    this.filePath = path.join(dir, "pending_events.json");
+  }
+
+  /**
+   * Add an event to the queue, expiring after the given number of hours
+   */
+  public add(
+    id: string,
+    event: EventDetails,
+    source: EventSource,
+    model: string | null,
+    expiryHours: number,
+    now = new Date()
+  ): PendingEvent {
+    const pending: PendingEvent = {
+      id,
+      event,
+      source,
+      model,
+      createdAt: now.toISOString(),
+      expiresAt: new Date(
+        now.getTime() + expiryHours * 60 * 60 * 1000
+      ).toISOString(),
+      draftMessageId: null,
+    };
+    this.pending.set(id, pending);
+    this.save();
+    return pending;
+  }
+
+  public get(id: string): PendingEvent | undefined {
+    return this.pending.get(id);
+  }
+
+  /**
+   * Pending events, oldest first
+   */
+  public getAll(): PendingEvent[] {
+    return [...this.pending.values()].sort((a, b) =>
+      a.createdAt.localeCompare(b.createdAt)
+    );
+  }
+
+  /**
+   * The most recently added pending event (the one a reply without a quote refers to)
+   */
+  public getLatest(): PendingEvent | undefined {
+    return this.getAll().pop();
+  }
+
+  /**
+   * Find the pending event a draft message was sent for
+   */
+  public findByDraftMessage(messageId: string): PendingEvent | undefined {
+    return [...this.pending.values()].find(
+      (pending) => pending.draftMessageId === messageId
+    );
+  }
+
+  /**
+   * Update a pending event (its details or the ID of its latest draft message)
+   */
+  public update(
+    id: string,
+    changes: Partial<Pick<PendingEvent, "event" | "draftMessageId">>
+  ): PendingEvent | undefined {
+    const existing = this.pending.get(id);
+    if (!existing) return undefined;
+    const updated = { ...existing, ...changes };
+    this.pending.set(id, updated);
+    this.save();
+    return updated;
+  }
+
+  /**
+   * Remove an event from the queue (approved or dropped)
+   */
+  public remove(id: string): PendingEvent | undefined {
+    const existing = this.pending.get(id);
+    if (!existing) return undefined;
+    this.pending.delete(id);
+    this.save();
+    return existing;
+  }
+
+  /**
+   * Drop drafts that were not answered in time
+   * Returns the number of expired drafts
+   */
+  public processDue(now = new Date()): number {
+    let expired = 0;
+    for (const pending of this.getAll()) {
+      if (new Date(pending.expiresAt).getTime() > now.getTime()) continue;
+      console.log(
+        `⌛ Draft expired without approval, dropping: ${pending.event.title}`
+      );
+      this.pending.delete(pending.id);
+      expired++;
+    }
+
+    if (expired > 0) {
+      this.save();
+    }
+    return expired;
+  }
+
+  /**
+   * Start dropping expired drafts periodically
+   */
+  public start(): void {
+    if (this.checkInterval) return;
+    this.checkInterval = setInterval(() => {
+      this.processDue();
+    }, this.checkIntervalMs);
+  }
+
+  /**
+   * Stop dropping expired drafts
+   */
+  public stop(): void {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+  }
+
+  /**
+   * Save pending events to file for persistence across restarts
+   */
+  public save(): void {
+    try {
+      fs.writeFileSync(
+        this.filePath,
+        JSON.stringify([...this.pending.values()], null, 2)
+      );
+    } catch (error) {
+      console.error("Error saving pending events to file:", error);
+    }
+  }
+
+  /**
+   * Load pending events from file on startup
+   */
+  public load(): void {
+    try {
+      if (!fs.existsSync(this.filePath)) {
+        console.log("No pending events file found, starting fresh");
+        return;
+      }
+
+      const data = fs.readFileSync(this.filePath, "utf-8");
+      const pending = JSON.parse(data) as PendingEvent[];
+      this.pending = new Map(pending.map((entry) => [entry.id, entry]));
+      console.log(`Loaded ${this.pending.size} pending event(s) from file`);
+    } catch (error) {
+      console.error("Error loading pending events from file:", error);
+    }
+  }
+}
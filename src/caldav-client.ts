@@ -0,0 +1,356 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ConfigService, type CalDavSettings } from "./config-service";
+import type { StoredEvent } from "./event-store";
+import { createStoredEventVCalendar, isValidICSDate } from "./ics-generator";
+import { getLabels } from "./locale";
+
+/**
+ * A calendar change waiting to be sent to the server
+ */
+export interface CalDavOperation {
+  fingerprint: string;
+  method: "PUT" | "DELETE";
+  body?: string; // Calendar object to upload (PUT only)
+  label: string | null; // Event title or reference, for logs
+  attempts: number;
+  nextAttemptAt: string; // ISO time of the next attempt
+  lastError?: string;
+}
+
+type FetchFunction = (url: string, init: RequestInit) => Promise<Response>;
+
+const MAX_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 15 * 1000;
+
+/**
+ * Validate CalDAV settings from the admin interface (null disables CalDAV)
+ * Returns an error message, or null if the settings are valid
+ */
+export function validateCalDavSettings(value: unknown): string | null {
+  if (value === null) return null;
+  if (typeof value !== "object" || Array.isArray(value)) {
+    return "CalDAV settings must be an object or null";
+  }
+
+  const settings = value as Partial<Record<keyof CalDavSettings, unknown>>;
+  if (
+    typeof settings.serverUrl !== "string" ||
+    !/^https?:\/\/[^/]+/.test(settings.serverUrl)
+  ) {
+    return "CalDAV server URL must be an http(s) URL";
+  }
+  for (const field of ["username", "password", "calendarPath"] as const) {
+    if (settings[field] !== undefined && typeof settings[field] !== "string") {
+      return `CalDAV ${field} must be a string`;
+    }
+  }
+  return null;
+}
+
+/**
+ * URL of the calendar collection (always ending with a slash)
+ */
+export function calendarCollectionUrl(settings: CalDavSettings): string {
+  const base = settings.serverUrl.replace(/\/+$/, "");
+  const calendarPath = settings.calendarPath.replace(/^\/+|\/+$/g, "");
+  return calendarPath ? `${base}/${calendarPath}/` : `${base}/`;
+}
+
+/**
+ * Creates, updates and deletes detected events on a CalDAV server (Radicale, Nextcloud, Fastmail, ...)
+ *
+ * Each event is stored as "<fingerprint>.ics" in the configured calendar with a UID derived
+ * from the fingerprint, so an update overwrites the same resource instead of adding a duplicate.
+ * Settings are read on every request, so changes from the admin interface apply immediately.
+ * Failed requests (network errors, 408, 429 and 5xx responses) are retried with exponential
+ * backoff (30s, 1m, 2m, ... up to 1h); a newer change of the same event replaces a pending one.
+ * Changes of one event are sent one at a time and in order, so a deletion never overtakes an
+ * upload still in flight. The queue is persisted to caldav_queue.json before each change is
+ * sent, so pending changes survive restarts and crashes.
+ */
+export class CalDavClient {
+  private queue: CalDavOperation[] = [];
+  private readonly filePath: string;
+  private checkInterval: NodeJS.Timeout | null = null;
+  private isProcessing = false;
+  // Last request of each event, which the next change of the event waits for
+  private inFlight = new Map<string, Promise<boolean>>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly fetchFn: FetchFunction = (url, init) => fetch(url, init),
+    sessionDir?: string,
+    private readonly checkIntervalMs = 60 * 1000
+  ) {
+    const dir = sessionDir || process.env.BAILEYS_AUTH_DIR || ".baileys_auth";
+    this.filePath = path.join(dir, "caldav_queue.json");
+  }
+
+  /**
+   * Check if a CalDAV server is configured
+   */
+  public isEnabled(): boolean {
+    return this.configService.getCalDavSettings() !== null;
+  }
+
+  /**
+   * URL of an event's calendar object
+   */
+  public eventUrl(settings: CalDavSettings, fingerprint: string): string {
+    return `${calendarCollectionUrl(settings)}${encodeURIComponent(fingerprint)}.ics`;
+  }
+
+  /**
+   * Create or replace an event on the server
+   * Returns true if the server accepted it (failed requests are retried later)
+   */
+  public putEvent(event: StoredEvent): Promise<boolean> {
+    if (!this.isEnabled()) return Promise.resolve(false);
+
+    if (!isValidICSDate(event.details.startDateISO)) {
+      console.log(
+        `⚠️ Event has no valid start date, not adding it to the calendar: ${event.details.title}`
+      );
+      return Promise.resolve(false);
+    }
+
+    const labels = getLabels(this.configService.getLanguage());
+    return this.enqueue(
+      event.fingerprint,
+      "PUT",
+      createStoredEventVCalendar(event, labels.source),
+      event.details.title
+    );
+  }
+
+  /**
+   * Delete an event from the server (events that are already gone count as deleted)
+   * Returns true if the event is no longer on the server (failed requests are retried later)
+   */
+  public deleteEvent(fingerprint: string): Promise<boolean> {
+    if (!this.isEnabled()) return Promise.resolve(false);
+
+    return this.enqueue(
+      fingerprint,
+      "DELETE",
+      undefined,
+      fingerprint.substring(0, 8)
+    );
+  }
+
+  /**
+   * Pending changes, in queue order
+   */
+  public getPending(): CalDavOperation[] {
+    return [...this.queue];
+  }
+
+  /**
+   * Attempt all pending changes that are due
+   * Returns the number of changes the server accepted
+   */
+  public async processDue(now = new Date()): Promise<number> {
+    if (this.isProcessing) return 0;
+    this.isProcessing = true;
+
+    let sent = 0;
+    try {
+      const due = this.queue.filter(
+        (operation) => new Date(operation.nextAttemptAt) <= now
+      );
+      for (const operation of due) {
+        if (await this.send(operation, now)) sent++;
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+    return sent;
+  }
+
+  /**
+   * Start retrying pending changes periodically
+   */
+  public start(): void {
+    if (this.checkInterval) return;
+    this.checkInterval = setInterval(() => {
+      void this.processDue();
+    }, this.checkIntervalMs);
+  }
+
+  /**
+   * Stop retrying pending changes
+   */
+  public stop(): void {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+  }
+
+  /**
+   * Save the queue to file for persistence across restarts
+   */
+  public save(): void {
+    try {
+      fs.writeFileSync(this.filePath, JSON.stringify(this.queue, null, 2));
+    } catch (error) {
+      console.error("Error saving CalDAV queue to file:", error);
+    }
+  }
+
+  /**
+   * Load the queue from file on startup
+   */
+  public load(): void {
+    try {
+      if (!fs.existsSync(this.filePath)) return;
+      const data = fs.readFileSync(this.filePath, "utf-8");
+      const queue = JSON.parse(data) as CalDavOperation[];
+      if (!Array.isArray(queue)) return;
+      this.queue = queue;
+      if (this.queue.length > 0) {
+        console.log(`Loaded ${this.queue.length} pending CalDAV change(s)`);
+      }
+    } catch (error) {
+      console.error("Error loading CalDAV queue from file:", error);
+    }
+  }
+
+  /**
+   * Queue a change of an event, replacing a pending one, and try to send it right away
+   */
+  private enqueue(
+    fingerprint: string,
+    method: "PUT" | "DELETE",
+    body: string | undefined,
+    label: string | null
+  ): Promise<boolean> {
+    const now = new Date();
+    const operation: CalDavOperation = {
+      fingerprint,
+      method,
+      ...(body !== undefined ? { body } : {}),
+      label,
+      attempts: 0,
+      nextAttemptAt: now.toISOString(),
+    };
+    this.queue = [
+      ...this.queue.filter((pending) => pending.fingerprint !== fingerprint),
+      operation,
+    ];
+    this.save();
+    return this.send(operation, now);
+  }
+
+  /**
+   * Send a change once the previous request of the same event has finished
+   */
+  private send(operation: CalDavOperation, now: Date): Promise<boolean> {
+    const { fingerprint } = operation;
+    const previous = this.inFlight.get(fingerprint);
+    const current = previous
+      ? previous.catch(() => false).then(() => this.attempt(operation, now))
+      : this.attempt(operation, now);
+
+    const release = (): void => {
+      if (this.inFlight.get(fingerprint) === current) {
+        this.inFlight.delete(fingerprint);
+      }
+    };
+    this.inFlight.set(fingerprint, current);
+    void current.then(release, release);
+    return current;
+  }
+
+  /**
+   * Send one change, rescheduling or dropping it on failure
+   * Returns true if the server accepted it
+   */
+  private async attempt(operation: CalDavOperation, now: Date): Promise<boolean> {
+    // A newer change of the event replaced this one while it was waiting,
+    // or the request it waited for failed and rescheduled it
+    if (
+      !this.queue.includes(operation) ||
+      new Date(operation.nextAttemptAt) > now
+    ) {
+      return false;
+    }
+
+    const settings = this.configService.getCalDavSettings();
+    if (!settings) return false;
+
+    const url = this.eventUrl(settings, operation.fingerprint);
+    const headers: Record<string, string> = {
+      "User-Agent": "whatsapp-me-caldav",
+    };
+    if (settings.username) {
+      const credentials = Buffer.from(
+        `${settings.username}:${settings.password}`
+      ).toString("base64");
+      headers["Authorization"] = `Basic ${credentials}`;
+    }
+    if (operation.body !== undefined) {
+      headers["Content-Type"] = "text/calendar; charset=utf-8";
+    }
+
+    let retryable = true;
+    try {
+      const response = await this.fetchFn(url, {
+        method: operation.method,
+        headers,
+        body: operation.body,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      // 404/410 on DELETE: the event was already removed on the server
+      const isGone =
+        operation.method === "DELETE" &&
+        (response.status === 404 || response.status === 410);
+      if (response.ok || isGone) {
+        this.remove(operation);
+        console.log(
+          `📆 CalDAV ${operation.method === "PUT" ? "saved" : "deleted"} event: ${operation.label || url}`
+        );
+        return true;
+      }
+      operation.lastError = `HTTP ${response.status} ${response.statusText}`;
+      retryable =
+        response.status >= 500 ||
+        response.status === 408 ||
+        response.status === 429;
+    } catch (error) {
+      operation.lastError = error instanceof Error ? error.message : String(error);
+    }
+
+    // A newer change of the event replaced this one while it was being sent
+    if (!this.queue.includes(operation)) return false;
+
+    operation.attempts++;
+    if (!retryable || operation.attempts >= MAX_ATTEMPTS) {
+      console.error(
+        `❌ CalDAV ${operation.method} ${url} failed after ${operation.attempts} attempt(s) (${operation.lastError}), dropping`
+      );
+      this.remove(operation);
+      return false;
+    }
+
+    const delay = Math.min(
+      BASE_RETRY_DELAY_MS * 2 ** (operation.attempts - 1),
+      MAX_RETRY_DELAY_MS
+    );
+    operation.nextAttemptAt = new Date(now.getTime() + delay).toISOString();
+    console.warn(
+      `⚠️ CalDAV ${operation.method} ${url} failed (${operation.lastError}), retry ${operation.attempts}/${MAX_ATTEMPTS - 1} at ${operation.nextAttemptAt}`
+    );
+    this.save();
+    return false;
+  }
+
+  private remove(operation: CalDavOperation): void {
+    const before = this.queue.length;
+    this.queue = this.queue.filter((pending) => pending !== operation);
+    if (this.queue.length !== before) this.save();
+  }
+}
@@ -0,0 +1,225 @@
+import { ConfigService } from "./config-service";
+import { DigestService } from "./digest-service";
+import { EventStore, sourceChatNames, type StoredEvent } from "./event-store";
+import { ReminderScheduler } from "./reminder-scheduler";
+import { WebhookDispatcher } from "./webhook-dispatcher";
+
+/**
+ * The parts of the WhatsApp client commands need
+ */
+export interface CommandClient {
+  getConnectionState(): string;
+  getTargetGroupName(): string;
+  /**
+   * Retract the most recently forwarded event, returning it (or null if there is none)
+   */
+  undoLastEvent(): Promise<StoredEvent | null>;
+}
+
+const MAX_LISTED_EVENTS = 10;
+
+const HELP_TEXT = [
+  "🤖 *Commands*",
+  "/events - upcoming events",
+  "/mute <chat> - ignore a chat (/mute alone lists muted chats)",
+  "/unmute <chat> - stop ignoring a chat",
+  "/watch <chat> - add a chat to the monitored chats",
+  "/undo - retract the last forwarded event",
+  "/digest now - send the digest right away",
+  "/status - connection and delivery status",
+  "/help - this list",
+].join("\n");
+
+/**
+ * Handles commands sent to the bot from the self-chat or the target group
+ * (messages starting with "/"), so it can be controlled from the phone without the admin interface
+ */
+export class CommandHandler {
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly eventStore: EventStore,
+    private readonly reminderScheduler: ReminderScheduler,
+    private readonly webhookDispatcher: WebhookDispatcher,
+    private readonly digestService: DigestService,
+    private readonly client: CommandClient
+  ) {}
+
+  /**
+   * Check if a message is a command
+   */
+  public static isCommand(text: string): boolean {
+    return /^\/[a-z]/i.test(text.trim());
+  }
+
+  /**
+   * Run a command and return the reply text
+   */
+  public async handle(text: string, now = new Date()): Promise<string> {
+    const [command, ...args] = text.trim().split(/\s+/);
+    const argument = args.join(" ");
+
+    try {
+      switch (command.toLowerCase()) {
+        case "/events":
+          return this.listEvents(now);
+        case "/mute":
+          return this.mute(argument);
+        case "/unmute":
+          return this.unmute(argument);
+        case "/watch":
+          return this.watch(argument);
+        case "/undo":
+          return await this.undo();
+        case "/status":
+          return this.status(now);
+        case "/digest":
+          return await this.digest(argument, now);
+        case "/help":
+          return HELP_TEXT;
+        default:
+          return `Unknown command ${command}. Send /help for the list of commands.`;
+      }
+    } catch (error) {
+      console.error(`Error running command ${command}:`, error);
+      return `⚠️ ${command} failed: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+
+  private listEvents(now: Date): string {
+    const events = this.getUpcomingEvents(now);
+    if (events.length === 0) return "📅 No upcoming events.";
+
+    const lines = events
+      .slice(0, MAX_LISTED_EVENTS)
+      .map(
+        (event) =>
+          `• ${this.formatEventDate(event)} *${event.details.title || event.details.summary}*` +
+          (event.source.chatName
+            ? ` (${sourceChatNames(event).join(", ")})`
+            : "") +
+          ` [${EventStore.referenceFor(event.fingerprint)}]`
+      );
+    if (events.length > MAX_LISTED_EVENTS) {
+      lines.push(`…and ${events.length - MAX_LISTED_EVENTS} more`);
+    }
+    return `📅 *Upcoming events*\n${lines.join("\n")}`;
+  }
+
+  private mute(chatName: string): string {
+    const muted = this.configService.getMutedChats();
+    if (!chatName) {
+      return muted.length > 0
+        ? `🔇 Muted chats: ${muted.join(", ")}`
+        : "No muted chats. Usage: /mute <chat>";
+    }
+    if (this.findName(muted, chatName)) {
+      return `"${chatName}" is already muted.`;
+    }
+
+    this.configService.setMutedChats([...muted, chatName]);
+    return `🔇 Muted "${chatName}". Messages from matching chats are ignored until /unmute ${chatName}.`;
+  }
+
+  private unmute(chatName: string): string {
+    if (!chatName) return "Usage: /unmute <chat>";
+    const muted = this.configService.getMutedChats();
+    const existing = this.findName(muted, chatName);
+    if (!existing) return `"${chatName}" is not muted.`;
+
+    this.configService.setMutedChats(muted.filter((name) => name !== existing));
+    return `🔊 Unmuted "${existing}".`;
+  }
+
+  private watch(chatName: string): string {
+    if (!chatName) return "Usage: /watch <chat>";
+    if (process.env.ALLOWED_CHAT_NAMES) {
+      return "The monitored chats are set by ALLOWED_CHAT_NAMES in the .env file and cannot be changed.";
+    }
+
+    const allowed = this.configService.getAllowedChatNames();
+    if (allowed.length === 0) {
+      return "All chats are already monitored (the list of monitored chats is empty).";
+    }
+    if (this.findName(allowed, chatName)) {
+      return `"${chatName}" is already monitored.`;
+    }
+
+    this.configService.setAllowedChatNames([...allowed, chatName]);
+    return `👀 Now monitoring "${chatName}".`;
+  }
+
+  private async undo(): Promise<string> {
+    const event = await this.client.undoLastEvent();
+    if (!event) return "Nothing to undo.";
+    return `↩️ Retracted *${event.details.title || event.details.summary}* (${this.formatEventDate(event)}).`;
+  }
+
+  private status(now: Date): string {
+    const webhooks = this.webhookDispatcher.getStats();
+    const deliveryMode = this.configService.getDeliveryMode();
+    const muted = this.configService.getMutedChats();
+    const allowed = this.configService.getAllowedChatNames();
+
+    const delivery =
+      deliveryMode === "immediate"
+        ? "immediate"
+        : `${deliveryMode}, ${this.configService.getDigestSchedule()} digest at ${this.configService.getDigestTime()}`;
+    let monitored = allowed.length > 0 ? allowed.join(", ") : "all chats";
+    if (this.configService.getMonitorAllGroupChats()) {
+      monitored = "all groups";
+    }
+
+    return [
+      "🤖 *Status*",
+      `Connection: ${this.client.getConnectionState()}`,
+      `Target group: ${this.client.getTargetGroupName()}`,
+      `Upcoming events: ${this.getUpcomingEvents(now).length} (${this.eventStore.size()} stored)`,
+      `Pending reminders: ${this.reminderScheduler.getPending().length}`,
+      `Webhooks: ${webhooks.sent} sent, ${webhooks.failed} failed, ${webhooks.pending} pending`,
+      `Delivery: ${delivery}`,
+      `Monitoring: ${monitored}`,
+      `Muted: ${muted.length > 0 ? muted.join(", ") : "none"}`,
+    ].join("\n");
+  }
+
+  private async digest(argument: string, now: Date): Promise<string> {
+    if (argument.toLowerCase() !== "now") return "Usage: /digest now";
+
+    const digest = await this.digestService.sendNow(now);
+    if (!digest) return "🗓️ No upcoming events for a digest.";
+    return `🗓️ Digest with ${digest.events.length} event(s) sent to ${this.client.getTargetGroupName()}.`;
+  }
+
+  /**
+   * Active events starting from now, soonest first
+   */
+  private getUpcomingEvents(now: Date): StoredEvent[] {
+    return this.eventStore
+      .query({ from: now.toISOString() })
+      .filter((event) => event.status === "active");
+  }
+
+  private formatEventDate(event: StoredEvent): string {
+    if (!event.details.startDateISO) {
+      return [event.details.date, event.details.time].filter(Boolean).join(" ");
+    }
+    return new Date(event.details.startDateISO).toLocaleString(
+      this.configService.getDateLocale(),
+      {
+        weekday: "short",
+        day: "numeric",
+        month: "short",
+        hour: "2-digit",
+        minute: "2-digit",
+        timeZone: this.configService.getTimezone(),
+      }
+    );
+  }
+
+  /**
+   * Find a chat name in a list, ignoring case
+   */
+  private findName(names: string[], chatName: string): string | undefined {
+    return names.find((name) => name.toLowerCase() === chatName.toLowerCase());
+  }
+}
@@ -1,5 +1,55 @@
 import * as fs from "fs";
 import * as path from "path";
+import type { RoutingRule } from "./event-router";
+
+// Defaults for configuration files written before these settings existed
+const DEFAULT_TIMEZONE = "Asia/Jerusalem";
+const DEFAULT_LANGUAGE = "he";
+const DEFAULT_DATE_LOCALE = "he-IL";
+const DEFAULT_REMINDER_OFFSETS = [24 * 60, 60]; // 1 day and 1 hour before
+const DEFAULT_DIGEST_TIME = "07:00";
+const DEFAULT_APPROVAL_EXPIRY_HOURS = 24;
+
+/**
+ * How detected events are sent to the target group
+ * - immediate: one message per event when it is detected
+ * - digest: only in the scheduled digest
+ * - both: one message per event and the digest
+ */
+export type DeliveryMode = "immediate" | "digest" | "both";
+export const DELIVERY_MODES: DeliveryMode[] = ["immediate", "digest", "both"];
+
+export type DigestSchedule = "daily" | "weekly";
+export const DIGEST_SCHEDULES: DigestSchedule[] = ["daily", "weekly"];
+
+/**
+ * A URL receiving every detected, updated and cancelled event
+ */
+export interface WebhookEndpoint {
+  url: string;
+  secret?: string; // Key for the HMAC signature header (unsigned if empty)
+}
+
+/**
+ * CalDAV calendar that events are created, updated and deleted on
+ */
+export interface CalDavSettings {
+  serverUrl: string; // e.g. "https://cloud.example.com/remote.php/dav"
+  username: string;
+  password: string; // Password or app password
+  calendarPath: string; // Calendar collection relative to serverUrl (e.g. "calendars/me/personal")
+}
+
+/**
+ * Parse a comma-separated list of reminder offsets in minutes (e.g. "1440,60")
+ * Invalid entries are ignored
+ */
+export function parseReminderOffsets(value: string): number[] {
+  return value
+    .split(",")
+    .map((entry) => Number(entry.trim()))
+    .filter((offset) => Number.isInteger(offset) && offset > 0);
+}
 
 /**
  * Configuration data structure stored in JSON file
@@ -7,10 +57,26 @@ import * as path from "path";
 export interface ConfigData {
   allowedChatNames: string[];
   monitorAllGroupChats: boolean; // If true, monitor all group chats (overrides allowedChatNames)
+  mutedChats: string[]; // Chats (name or part of it) ignored even if they are allowed
   targetGroupId: string;
   targetGroupName: string;
   adminPassword: string; // Salted and hashed password for admin authentication (format: salt$hash)
   focusedInstructions: string; // Custom instructions to guide the LLM for better event detection
+  timezone: string; // IANA time zone the user lives in (e.g. "Asia/Jerusalem", "Europe/Berlin")
+  language: string; // ISO 639-1 code of the language for event text and labels (e.g. "he", "en")
+  dateLocale: string; // BCP 47 locale used to format dates in messages (e.g. "he-IL", "en-GB")
+  reminderOffsets: number[]; // Minutes before an event to send reminders (empty disables reminders)
+  deliveryMode: DeliveryMode;
+  digestSchedule: DigestSchedule;
+  digestTime: string; // Local time of the digest (HH:MM)
+  digestWeekday: number; // Day of the weekly digest (0 = Sunday)
+  routingRules: RoutingRule[]; // Where events are sent by source (events matching no rule go to the target group)
+  approvalMode: boolean; // If true, new events are sent to the self-chat as drafts and only forwarded once approved
+  approvalExpiryHours: number; // Drafts not approved within this time are dropped
+  dailyBudgetUsd: number | null; // Estimated LLM spend per day before detection is cut back (null = no limit)
+  monthlyBudgetUsd: number | null; // Estimated LLM spend per month before detection is cut back (null = no limit)
+  webhooks: WebhookEndpoint[];
+  caldav: CalDavSettings | null; // null disables CalDAV push
   lastUpdated: string;
 }
 
@@ -69,10 +135,46 @@ export class ConfigService {
     return {
       allowedChatNames,
       monitorAllGroupChats: false, // Default to false
+      mutedChats: [],
       targetGroupId: process.env.TARGET_GROUP_ID?.trim() || "",
       targetGroupName: process.env.TARGET_GROUP_NAME?.trim() || "אני",
       adminPassword: process.env.ADMIN_PASSWORD || "", // Empty means no auth initially
       focusedInstructions: process.env.FOCUSED_INSTRUCTIONS || "", // Custom instructions for LLM
+      timezone: process.env.TIMEZONE?.trim() || DEFAULT_TIMEZONE,
+      language: process.env.OUTPUT_LANGUAGE?.trim() || DEFAULT_LANGUAGE,
+      dateLocale: process.env.DATE_LOCALE?.trim() || DEFAULT_DATE_LOCALE,
+      reminderOffsets: process.env.REMINDER_OFFSETS !== undefined
+        ? parseReminderOffsets(process.env.REMINDER_OFFSETS)
+        : DEFAULT_REMINDER_OFFSETS,
+      deliveryMode: DELIVERY_MODES.find((mode) => mode === process.env.DELIVERY_MODE?.trim()) ?? "immediate",
+      digestSchedule: DIGEST_SCHEDULES.find((schedule) => schedule === process.env.DIGEST_SCHEDULE?.trim()) ?? "daily",
+      digestTime: process.env.DIGEST_TIME?.trim() || DEFAULT_DIGEST_TIME,
+      digestWeekday: 0,
+      routingRules: [],
+      approvalMode: process.env.APPROVAL_MODE?.trim() === "true",
+      approvalExpiryHours:
+        Number(process.env.APPROVAL_EXPIRY_HOURS) > 0
+          ? Number(process.env.APPROVAL_EXPIRY_HOURS)
+          : DEFAULT_APPROVAL_EXPIRY_HOURS,
+      dailyBudgetUsd: Number(process.env.LLM_DAILY_BUDGET_USD) > 0
+        ? Number(process.env.LLM_DAILY_BUDGET_USD)
+        : null,
+      monthlyBudgetUsd: Number(process.env.LLM_MONTHLY_BUDGET_USD) > 0
+        ? Number(process.env.LLM_MONTHLY_BUDGET_USD)
+        : null,
+      webhooks: (process.env.WEBHOOK_URLS || "")
+        .split(",")
+        .map((url) => url.trim())
+        .filter(Boolean)
+        .map((url) => ({ url, secret: process.env.WEBHOOK_SECRET || undefined })),
+      caldav: process.env.CALDAV_URL?.trim()
+        ? {
+            serverUrl: process.env.CALDAV_URL.trim(),
+            username: process.env.CALDAV_USERNAME?.trim() || "",
+            password: process.env.CALDAV_PASSWORD || "",
+            calendarPath: process.env.CALDAV_CALENDAR_PATH?.trim() || "",
+          }
+        : null,
       lastUpdated: new Date().toISOString(),
     };
   }
@@ -140,6 +242,20 @@ export class ConfigService {
     this.updateConfig({ allowedChatNames: chatNames });
   }
 
+  /**
+   * Get muted chat names
+   */
+  public getMutedChats(): string[] {
+    return this.getConfig().mutedChats || [];
+  }
+
+  /**
+   * Update muted chat names
+   */
+  public setMutedChats(chatNames: string[]): void {
+    this.updateConfig({ mutedChats: chatNames });
+  }
+
   /**
    * Get target group ID
    */
@@ -213,4 +329,196 @@ export class ConfigService {
   public setFocusedInstructions(instructions: string): void {
     this.updateConfig({ focusedInstructions: instructions });
   }
+
+  /**
+   * Get the user's time zone
+   */
+  public getTimezone(): string {
+    return this.getConfig().timezone || DEFAULT_TIMEZONE;
+  }
+
+  /**
+   * Get the output language for event text and labels
+   */
+  public getLanguage(): string {
+    return this.getConfig().language || DEFAULT_LANGUAGE;
+  }
+
+  /**
+   * Get the locale used to format dates
+   */
+  public getDateLocale(): string {
+    return this.getConfig().dateLocale || DEFAULT_DATE_LOCALE;
+  }
+
+  /**
+   * Update time zone, language and date locale (values should be validated by the caller)
+   */
+  public setLocaleSettings(settings: {
+    timezone?: string;
+    language?: string;
+    dateLocale?: string;
+  }): void {
+    this.updateConfig(
+      Object.fromEntries(
+        Object.entries(settings).filter(([, value]) => value !== undefined)
+      )
+    );
+  }
+
+  /**
+   * Get the reminder offsets in minutes before an event
+   */
+  public getReminderOffsets(): number[] {
+    return this.getConfig().reminderOffsets ?? DEFAULT_REMINDER_OFFSETS;
+  }
+
+  /**
+   * Set the reminder offsets in minutes before an event
+   */
+  public setReminderOffsets(offsets: number[]): void {
+    this.updateConfig({ reminderOffsets: offsets });
+  }
+
+  /**
+   * Get how detected events are sent to the target group
+   */
+  public getDeliveryMode(): DeliveryMode {
+    return this.getConfig().deliveryMode || "immediate";
+  }
+
+  /**
+   * Get whether the digest is sent daily or weekly
+   */
+  public getDigestSchedule(): DigestSchedule {
+    return this.getConfig().digestSchedule || "daily";
+  }
+
+  /**
+   * Get the local time of the digest (HH:MM)
+   */
+  public getDigestTime(): string {
+    return this.getConfig().digestTime || DEFAULT_DIGEST_TIME;
+  }
+
+  /**
+   * Get the day of the weekly digest (0 = Sunday)
+   */
+  public getDigestWeekday(): number {
+    return this.getConfig().digestWeekday ?? 0;
+  }
+
+  /**
+   * Get the rules routing events to destinations other than the target group
+   */
+  public getRoutingRules(): RoutingRule[] {
+    return this.getConfig().routingRules || [];
+  }
+
+  /**
+   * Set the routing rules (should be validated by the caller)
+   */
+  public setRoutingRules(rules: RoutingRule[]): void {
+    this.updateConfig({ routingRules: rules });
+  }
+
+  /**
+   * Check if new events need approval before they are forwarded
+   */
+  public getApprovalMode(): boolean {
+    return this.getConfig().approvalMode || false;
+  }
+
+  /**
+   * Get the hours after which unapproved drafts are dropped
+   */
+  public getApprovalExpiryHours(): number {
+    return this.getConfig().approvalExpiryHours || DEFAULT_APPROVAL_EXPIRY_HOURS;
+  }
+
+  /**
+   * Update approval mode and draft expiry (values should be validated by the caller)
+   */
+  public setApprovalSettings(settings: {
+    approvalMode?: boolean;
+    approvalExpiryHours?: number;
+  }): void {
+    this.updateConfig(
+      Object.fromEntries(
+        Object.entries(settings).filter(([, value]) => value !== undefined)
+      )
+    );
+  }
+
+  /**
+   * Get the daily LLM budget in USD, or null if there is none
+   */
+  public getDailyBudget(): number | null {
+    return this.getConfig().dailyBudgetUsd ?? null;
+  }
+
+  /**
+   * Get the monthly LLM budget in USD, or null if there is none
+   */
+  public getMonthlyBudget(): number | null {
+    return this.getConfig().monthlyBudgetUsd ?? null;
+  }
+
+  /**
+   * Update the LLM budgets (values should be validated by the caller, null removes a budget)
+   */
+  public setBudgetSettings(settings: {
+    dailyBudgetUsd?: number | null;
+    monthlyBudgetUsd?: number | null;
+  }): void {
+    this.updateConfig(
+      Object.fromEntries(
+        Object.entries(settings).filter(([, value]) => value !== undefined)
+      )
+    );
+  }
+
+  /**
+   * Get the webhooks receiving all events
+   */
+  public getWebhooks(): WebhookEndpoint[] {
+    return this.getConfig().webhooks || [];
+  }
+
+  /**
+   * Set the webhooks receiving all events (should be validated by the caller)
+   */
+  public setWebhooks(webhooks: WebhookEndpoint[]): void {
+    this.updateConfig({ webhooks });
+  }
+
+  /**
+   * Get the CalDAV calendar events are pushed to, or null if CalDAV is disabled
+   */
+  public getCalDavSettings(): CalDavSettings | null {
+    return this.getConfig().caldav || null;
+  }
+
+  /**
+   * Set the CalDAV calendar (should be validated by the caller), or null to disable it
+   */
+  public setCalDavSettings(caldav: CalDavSettings | null): void {
+    this.updateConfig({ caldav });
+  }
+
+  /**
+   * Update delivery mode and digest schedule (values should be validated by the caller)
+   */
+  public setDigestSettings(settings: {
+    deliveryMode?: DeliveryMode;
+    digestSchedule?: DigestSchedule;
+    digestTime?: string;
+    digestWeekday?: number;
+  }): void {
+    this.updateConfig(
+      Object.fromEntries(
+        Object.entries(settings).filter(([, value]) => value !== undefined)
+      )
+    );
+  }
 }
@@ -0,0 +1,152 @@
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * A message in a chat's conversation window
+ */
+export interface ConversationMessage {
+  sender: string;
+  text: string;
+  timestamp: string; // When the message was sent (ISO)
+}
+
+/**
+ * Conversation window and batching settings from the environment
+ * (CONVERSATION_WINDOW_MESSAGES, CONVERSATION_WINDOW_HOURS, BATCH_WINDOW_SECONDS; 0 seconds disables batching)
+ */
+export function conversationSettingsFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): {
+  maxMessages: number;
+  maxAgeHours: number;
+  batchWindowSeconds: number;
+} {
+  const maxMessages = Number(env.CONVERSATION_WINDOW_MESSAGES);
+  const maxAgeHours = Number(env.CONVERSATION_WINDOW_HOURS);
+  const batchWindowSeconds = Number(env.BATCH_WINDOW_SECONDS);
+  return {
+    maxMessages:
+      env.CONVERSATION_WINDOW_MESSAGES && maxMessages > 0
+        ? Math.floor(maxMessages)
+        : 20,
+    maxAgeHours:
+      env.CONVERSATION_WINDOW_HOURS && maxAgeHours > 0 ? maxAgeHours : 12,
+    batchWindowSeconds:
+      env.BATCH_WINDOW_SECONDS && batchWindowSeconds >= 0
+        ? batchWindowSeconds
+        : 20,
+  };
+}
+
+/**
+ * Format a message as a line of the conversation ("Mon 18:02 Dana: text"), in the given time zone
+ */
+export function formatConversationMessage(
+  message: ConversationMessage,
+  timeZone: string
+): string {
+  const time = new Date(message.timestamp).toLocaleString("en-GB", {
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZone,
+  });
+  return `${time} ${message.sender}: ${message.text}`;
+}
+
+/**
+ * Recent messages of each chat, given to the LLM as the conversation around a message
+ *
+ * The window holds the last maxMessages messages of a chat that are at most maxAgeHours old,
+ * so a planning thread is seen as a whole while yesterday's small talk is left out.
+ * Conversations are persisted to conversations.json so the context survives a restart.
+ */
+export class ConversationBuffer {
+  private conversations = new Map<string, ConversationMessage[]>();
+  private readonly filePath: string;
+
+  constructor(
+    sessionDir?: string,
+    private readonly maxMessages = 20,
+    private readonly maxAgeHours = 12
+  ) {
+    const dir = sessionDir || process.env.BAILEYS_AUTH_DIR || ".baileys_auth";
+    this.filePath = path.join(dir, "conversations.json");
+  }
+
+  /**
+   * Add a message to a chat's conversation, dropping the oldest beyond the window size
+   */
+  public add(chatId: string, message: ConversationMessage): void {
+    const messages = [...(this.conversations.get(chatId) || []), message];
+    this.conversations.set(chatId, messages.slice(-this.maxMessages));
+  }
+
+  /**
+   * The conversation window of a chat, oldest first
+   */
+  public get(chatId: string, now = new Date()): ConversationMessage[] {
+    const cutoff = now.getTime() - this.maxAgeHours * 60 * 60 * 1000;
+    return (this.conversations.get(chatId) || []).filter(
+      (message) => new Date(message.timestamp).getTime() >= cutoff
+    );
+  }
+
+  /**
+   * Drop messages that fell out of the window, and chats left without messages
+   */
+  public prune(now = new Date()): void {
+    for (const chatId of [...this.conversations.keys()]) {
+      const messages = this.get(chatId, now);
+      if (messages.length > 0) {
+        this.conversations.set(chatId, messages);
+      } else {
+        this.conversations.delete(chatId);
+      }
+    }
+  }
+
+  /**
+   * Save conversations to file for persistence across restarts
+   */
+  public save(): void {
+    this.prune();
+    try {
+      fs.writeFileSync(
+        this.filePath,
+        JSON.stringify(Object.fromEntries(this.conversations), null, 2)
+      );
+    } catch (error) {
+      console.error("Error saving conversations to file:", error);
+    }
+  }
+
+  /**
+   * Load conversations from file on startup
+   */
+  public load(): void {
+    try {
+      if (!fs.existsSync(this.filePath)) {
+        console.log("No conversations file found, starting fresh");
+        return;
+      }
+
+      const data = fs.readFileSync(this.filePath, "utf-8");
+      const conversations = JSON.parse(data) as Record<
+        string,
+        ConversationMessage[]
+      >;
+      this.conversations = new Map(
+        Object.entries(conversations).filter(([, messages]) =>
+          Array.isArray(messages)
+        )
+      );
+      this.prune();
+      console.log(
+        `Loaded conversations of ${this.conversations.size} chat(s) from file`
+      );
+    } catch (error) {
+      console.error("Error loading conversations from file:", error);
+    }
+  }
+}
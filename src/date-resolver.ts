@@ -0,0 +1,376 @@
+/**
+ * Date Resolver
+ *
+ * Deterministic parsing of the raw Hebrew/English date and time strings the LLM
+ * extracts ("יום שני הבא", "מחר בשעה 18:00", "25.12", "next Friday at 6pm"),
+ * resolved against a reference date in the configured time zone (Asia/Jerusalem).
+ *
+ * Used to sanity-check the LLM's startDateISO/endDateISO, which are often off by
+ * an hour around daylight saving changes, and by the rule-based provider.
+ */
+import type { EventDetails } from "./llm-service";
+
+export interface LocalDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+export interface LocalTime {
+  hour: number;
+  minute: number;
+}
+
+export interface ResolvedDay extends LocalDate {
+  label: string; // The text the day was resolved from
+}
+
+/**
+ * Result of checking an event's ISO dates against its date/time strings
+ */
+export interface DateValidation {
+  event: EventDetails;
+  corrections: string[]; // Human-readable descriptions of what was changed (empty if nothing)
+}
+
+const HEBREW_WEEKDAYS = [
+  "ראשון",
+  "שני",
+  "שלישי",
+  "רביעי",
+  "חמישי",
+  "שישי",
+  "שבת",
+];
+const HEBREW_WEEKDAY_LETTERS = ["א", "ב", "ג", "ד", "ה", "ו", "ש"];
+const ENGLISH_WEEKDAYS = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+const DEFAULT_START: LocalTime = { hour: 8, minute: 0 };
+const DEFAULT_DURATION_MS = 60 * 60 * 1000;
+// Dates without a year that are further in the past than this are assumed to be next year
+const YEAR_ROLLOVER_DAYS = 60;
+
+export class DateResolver {
+  constructor(
+    private readonly timeZone = "Asia/Jerusalem",
+    private readonly now: () => Date = () => new Date()
+  ) {}
+
+  /**
+   * Resolve a day from an explicit date (25.12, 25/12/2024, 2024-12-25),
+   * today/tomorrow, or a weekday name (optionally "הבא"/"next" or "next week")
+   */
+  public resolveDay(text: string): ResolvedDay | null {
+    const lower = text.toLowerCase();
+    const today = this.toLocalDate(this.now());
+
+    const isoMatch = /\b(\d{4})-(\d{1,2})-(\d{1,2})\b/.exec(text);
+    if (isoMatch) {
+      const date = this.validDate(
+        parseInt(isoMatch[1], 10),
+        parseInt(isoMatch[2], 10),
+        parseInt(isoMatch[3], 10)
+      );
+      if (date) return { ...date, label: isoMatch[0] };
+    }
+
+    const dateMatch =
+      /(?:^|[^\d:])(\d{1,2})[/.-](\d{1,2})(?:[/.-](\d{2,4}))?(?![\d:])/.exec(
+        text
+      );
+    if (dateMatch) {
+      const day = parseInt(dateMatch[1], 10);
+      const month = parseInt(dateMatch[2], 10);
+      let year = dateMatch[3] ? parseInt(dateMatch[3], 10) : today.year;
+      if (year < 100) year += 2000;
+
+      let date = this.validDate(year, month, day);
+      if (
+        date &&
+        !dateMatch[3] &&
+        this.daysBetween(today, date) < -YEAR_ROLLOVER_DAYS
+      ) {
+        date = this.validDate(year + 1, month, day);
+      }
+      if (date) return { ...date, label: dateMatch[0].trim() };
+    }
+
+    // Check "day after tomorrow" before "tomorrow" (מחרתיים contains מחר)
+    if (text.includes("מחרתיים") || lower.includes("day after tomorrow")) {
+      return { ...this.addDays(today, 2), label: "מחרתיים" };
+    }
+    if (text.includes("מחר") || lower.includes("tomorrow")) {
+      return { ...this.addDays(today, 1), label: "מחר" };
+    }
+    if (
+      text.includes("היום") ||
+      text.includes("הערב") ||
+      lower.includes("today") ||
+      lower.includes("tonight")
+    ) {
+      return { ...today, label: "היום" };
+    }
+
+    const weekday = this.findWeekday(text, lower);
+    if (weekday !== null) {
+      const todayWeekday = this.weekdayOf(today);
+      let offset: number;
+      if (text.includes("שבוע הבא") || lower.includes("next week")) {
+        // Weeks start on Sunday
+        offset = 7 - todayWeekday + weekday;
+      } else {
+        offset = (weekday - todayWeekday + 7) % 7;
+        if (offset === 0 && (text.includes("הבא") || lower.includes("next"))) {
+          offset = 7;
+        }
+      }
+      return {
+        ...this.addDays(today, offset),
+        label: `יום ${HEBREW_WEEKDAYS[weekday]}`,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Resolve a start time (and an end time for ranges like "18:00-20:00")
+   * Bare numbers are only read as hours after "בשעה"/"at", to avoid matching dates
+   */
+  public resolveTime(
+    text: string
+  ): { start: LocalTime; end: LocalTime | null } | null {
+    const lower = text.toLowerCase();
+
+    const range =
+      /\b([01]?\d|2[0-3]):([0-5]\d)\s*[-–]\s*([01]?\d|2[0-3]):([0-5]\d)\b/.exec(
+        text
+      );
+    if (range) {
+      return {
+        start: { hour: parseInt(range[1], 10), minute: parseInt(range[2], 10) },
+        end: { hour: parseInt(range[3], 10), minute: parseInt(range[4], 10) },
+      };
+    }
+
+    const clock = /\b([01]?\d|2[0-3]):([0-5]\d)\s*(am|pm)?/i.exec(text);
+    const spoken =
+      clock ||
+      /(?:בשעה|\bat)\s*(\d{1,2})(?![\d/.])\s*(am|pm)?/i.exec(text) ||
+      /\b(\d{1,2})\s*(am|pm)\b/i.exec(text);
+    if (!spoken) return null;
+
+    let hour = parseInt(spoken[1], 10);
+    const minute = clock ? parseInt(clock[2], 10) : 0;
+    const meridiem = (clock ? clock[3] : spoken[2])?.toLowerCase();
+    if (hour > 23) return null;
+
+    const isEvening =
+      meridiem === "pm" ||
+      text.includes("בערב") ||
+      text.includes("אחה\"צ") ||
+      text.includes("אחר הצהריים") ||
+      lower.includes("evening");
+    if (isEvening && hour < 12) hour += 12;
+    if (meridiem === "am" && hour === 12) hour = 0;
+
+    return { start: { hour, minute }, end: null };
+  }
+
+  /**
+   * Check an event's startDateISO/endDateISO against its date and time strings
+   * and recompute them when they disagree. Events whose date cannot be parsed are left alone.
+   */
+  public validateEvent(event: EventDetails): DateValidation {
+    const corrections: string[] = [];
+    const day = event.date ? this.resolveDay(event.date) : null;
+    if (!day) return { event, corrections };
+
+    const llmStart = this.parseISO(event.startDateISO);
+    const llmEnd = this.parseISO(event.endDateISO);
+    const time =
+      this.resolveTime(event.time || "") || this.resolveTime(event.date || "");
+
+    // Without a parseable time keep the LLM's wall-clock time (it may come from context)
+    const startTime =
+      time?.start || (llmStart ? this.toLocalTime(llmStart) : DEFAULT_START);
+    const start = this.toUtc(day, startTime);
+
+    let end: Date;
+    if (time?.end) {
+      end = this.toUtc(day, time.end);
+      if (end <= start) end = new Date(end.getTime() + 24 * 60 * 60 * 1000);
+    } else if (llmStart && llmEnd && llmEnd > llmStart) {
+      // Keep the duration the LLM chose
+      end = new Date(
+        start.getTime() + (llmEnd.getTime() - llmStart.getTime())
+      );
+    } else {
+      end = new Date(start.getTime() + DEFAULT_DURATION_MS);
+    }
+
+    const corrected = { ...event };
+    if (!llmStart || llmStart.getTime() !== start.getTime()) {
+      corrected.startDateISO = start.toISOString();
+      corrections.push(
+        `startDateISO ${event.startDateISO ?? "missing"} → ${corrected.startDateISO} (${this.describeMismatch(llmStart, start)})`
+      );
+    }
+    if (!llmEnd || llmEnd.getTime() !== end.getTime()) {
+      corrected.endDateISO = end.toISOString();
+      corrections.push(
+        `endDateISO ${event.endDateISO ?? "missing"} → ${corrected.endDateISO} (${this.describeMismatch(llmEnd, end)})`
+      );
+    }
+
+    return { event: corrections.length > 0 ? corrected : event, corrections };
+  }
+
+  /**
+   * Convert a wall-clock date and time in the configured time zone to a UTC date
+   */
+  public toUtc(date: LocalDate, time: LocalTime): Date {
+    const asUtc = Date.UTC(
+      date.year,
+      date.month - 1,
+      date.day,
+      time.hour,
+      time.minute
+    );
+    // The zone offset at that instant; a second pass handles dates near a DST change
+    let offset = this.offsetAt(new Date(asUtc));
+    offset = this.offsetAt(new Date(asUtc - offset));
+    return new Date(asUtc - offset);
+  }
+
+  /**
+   * The calendar date of an instant in the configured time zone
+   */
+  public toLocalDate(date: Date): LocalDate {
+    const parts = this.zonedParts(date);
+    return { year: parts.year, month: parts.month, day: parts.day };
+  }
+
+  /**
+   * The wall-clock time of an instant in the configured time zone
+   */
+  public toLocalTime(date: Date): LocalTime {
+    const parts = this.zonedParts(date);
+    return { hour: parts.hour, minute: parts.minute };
+  }
+
+  private describeMismatch(actual: Date | null, expected: Date): string {
+    if (!actual) return "missing or invalid";
+    const diffHours = (actual.getTime() - expected.getTime()) / (60 * 60 * 1000);
+    const sameDay =
+      this.daysBetween(this.toLocalDate(actual), this.toLocalDate(expected)) ===
+      0;
+    if (sameDay && Number.isInteger(diffHours) && Math.abs(diffHours) <= 3) {
+      return `time zone offset off by ${diffHours > 0 ? "+" : ""}${diffHours}h`;
+    }
+    return "date/time mismatch";
+  }
+
+  private findWeekday(text: string, lower: string): number | null {
+    for (let weekday = 0; weekday < 7; weekday++) {
+      const letter = HEBREW_WEEKDAY_LETTERS[weekday];
+      if (
+        text.includes(`יום ${HEBREW_WEEKDAYS[weekday]}`) ||
+        new RegExp(`יום\\s+${letter}['׳]`).test(text) ||
+        lower.includes(ENGLISH_WEEKDAYS[weekday])
+      ) {
+        return weekday;
+      }
+    }
+    // "שבת" is commonly used without "יום" ("בשבת")
+    return text.includes("בשבת") ? 6 : null;
+  }
+
+  private parseISO(value: string | null): Date | null {
+    if (!value) return null;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  private validDate(
+    year: number,
+    month: number,
+    day: number
+  ): LocalDate | null {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+      return null;
+    }
+    return { year, month, day };
+  }
+
+  /**
+   * Shift a calendar date by a number of days
+   */
+  public addDays(date: LocalDate, days: number): LocalDate {
+    const shifted = new Date(
+      Date.UTC(date.year, date.month - 1, date.day + days)
+    );
+    return {
+      year: shifted.getUTCFullYear(),
+      month: shifted.getUTCMonth() + 1,
+      day: shifted.getUTCDate(),
+    };
+  }
+
+  private daysBetween(from: LocalDate, to: LocalDate): number {
+    return (
+      (Date.UTC(to.year, to.month - 1, to.day) -
+        Date.UTC(from.year, from.month - 1, from.day)) /
+      (24 * 60 * 60 * 1000)
+    );
+  }
+
+  /**
+   * Day of the week of a calendar date (0 = Sunday)
+   */
+  public weekdayOf(date: LocalDate): number {
+    return new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+  }
+
+  private offsetAt(date: Date): number {
+    const parts = this.zonedParts(date);
+    const zoned = Date.UTC(
+      parts.year,
+      parts.month - 1,
+      parts.day,
+      parts.hour,
+      parts.minute
+    );
+    return zoned - Math.floor(date.getTime() / 60000) * 60000;
+  }
+
+  private zonedParts(date: Date): LocalDate & LocalTime {
+    const parts = new Intl.DateTimeFormat("en-US", {
+      timeZone: this.timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+    }).formatToParts(date);
+    const get = (type: string) =>
+      parseInt(parts.find((p) => p.type === type)?.value || "0", 10);
+    return {
+      year: get("year"),
+      month: get("month"),
+      day: get("day"),
+      hour: get("hour"),
+      minute: get("minute"),
+    };
+  }
+}
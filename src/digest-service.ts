@@ -0,0 +1,301 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ConfigService } from "./config-service";
+import { DateResolver } from "./date-resolver";
+import {
+  EventStore,
+  sourceChatNames,
+  type EventDelivery,
+  type StoredEvent,
+} from "./event-store";
+import { getLabels } from "./locale";
+
+/**
+ * A digest ready to be sent
+ */
+export interface Digest {
+  text: string;
+  events: StoredEvent[];
+  from: string; // ISO start of the covered period
+  to: string; // ISO end of the covered period (exclusive)
+}
+
+/**
+ * Sends a digest to the target group
+ * Returns the delivery, or null if it could not be sent (retried on the next check)
+ */
+export type DigestSender = (text: string) => Promise<EventDelivery | null>;
+
+/**
+ * Whether an event goes to the target group (events routed elsewhere stay out of the digest)
+ */
+export type DigestFilter = (event: StoredEvent) => boolean;
+
+interface DigestState {
+  lastSentSlot: string | null; // ISO time of the last scheduled digest that was handled
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Posts a single agenda of upcoming events to the target group
+ * Daily digests cover the day of the digest; weekly digests cover the following 7 days.
+ * Events that no later digest covers (e.g. detected after today's digest for later today)
+ * are sent to the target group right away instead.
+ * The last sent digest is persisted to digest_state.json so a restart does not send it twice.
+ */
+export class DigestService {
+  private readonly filePath: string;
+  private state: DigestState = { lastSentSlot: null };
+  private checkInterval: NodeJS.Timeout | null = null;
+  private isProcessing = false;
+
+  constructor(
+    private readonly eventStore: EventStore,
+    private readonly configService: ConfigService,
+    private readonly sender: DigestSender,
+    private readonly isForTargetGroup: DigestFilter = () => true,
+    sessionDir?: string,
+    private readonly checkIntervalMs = 60 * 1000
+  ) {
+    const dir = sessionDir || process.env.BAILEYS_AUTH_DIR || ".baileys_auth";
+    this.filePath = path.join(dir, "digest_state.json");
+  }
+
+  /**
+   * The most recent scheduled digest time at or before now
+   */
+  public getLastSlot(now = new Date()): Date {
+    const resolver = new DateResolver(this.configService.getTimezone());
+    const [hour, minute] = this.configService
+      .getDigestTime()
+      .split(":")
+      .map((part) => parseInt(part, 10));
+    const today = resolver.toLocalDate(now);
+
+    const isWeekly = this.configService.getDigestSchedule() === "weekly";
+    const weekday = this.configService.getDigestWeekday();
+    const daysBack = isWeekly
+      ? (resolver.weekdayOf(today) - weekday + 7) % 7
+      : 0;
+
+    const slot = resolver.toUtc(resolver.addDays(today, -daysBack), {
+      hour,
+      minute,
+    });
+    if (slot <= now) return slot;
+
+    // The digest time is later today: use the previous one
+    const previousDay = resolver.addDays(today, -daysBack - (isWeekly ? 7 : 1));
+    return resolver.toUtc(previousDay, { hour, minute });
+  }
+
+  /**
+   * Whether an event starting at this time will be in a digest that has not been sent yet
+   * Events without a start date are never in a digest.
+   */
+  public coversLater(startDateISO: string | null, now = new Date()): boolean {
+    if (!startDateISO) return false;
+    const start = new Date(startDateISO);
+    if (isNaN(start.getTime())) return false;
+
+    // The digest listing the event is the last one at or before its start
+    const slot = this.getLastSlot(start);
+    const lastSent = this.state.lastSentSlot
+      ? new Date(this.state.lastSentSlot)
+      : this.getLastSlot(now);
+    return slot > lastSent && start < this.getPeriodEnd(slot);
+  }
+
+  /**
+   * Build the digest for a scheduled time, or null if there are no upcoming events
+   */
+  public buildDigest(slot: Date): Digest | null {
+    const timeZone = this.configService.getTimezone();
+    const locale = this.configService.getDateLocale();
+    const labels = getLabels(this.configService.getLanguage());
+    const isWeekly = this.configService.getDigestSchedule() === "weekly";
+
+    const from = slot;
+    const to = this.getPeriodEnd(slot);
+
+    const events = this.eventStore
+      .query({ from: from.toISOString() })
+      .filter(
+        (event) =>
+          event.status === "active" &&
+          event.details.startDateISO !== null &&
+          new Date(event.details.startDateISO) < to &&
+          this.isForTargetGroup(event)
+      );
+    if (events.length === 0) return null;
+
+    const dayFormat: Intl.DateTimeFormatOptions = {
+      weekday: "long",
+      day: "numeric",
+      month: "long",
+      timeZone,
+    };
+    const timeFormat: Intl.DateTimeFormatOptions = {
+      hour: "2-digit",
+      minute: "2-digit",
+      timeZone,
+    };
+
+    // Group by day, then by source chat (events are already sorted by start)
+    const days = new Map<string, Map<string, StoredEvent[]>>();
+    for (const event of events) {
+      const start = new Date(event.details.startDateISO as string);
+      const day = start.toLocaleDateString(locale, dayFormat);
+      const chats = days.get(day) ?? new Map<string, StoredEvent[]>();
+      const chatName = sourceChatNames(event).join(", ");
+      chats.set(chatName, [...(chats.get(chatName) ?? []), event]);
+      days.set(day, chats);
+    }
+
+    let text = `🗓️ *${isWeekly ? labels.weeklyDigest : labels.dailyDigest}*\n`;
+    for (const [day, chats] of days) {
+      text += `\n*${day}*\n`;
+      for (const [chatName, chatEvents] of chats) {
+        if (chatName) {
+          text += `📱 ${chatName}\n`;
+        }
+        for (const event of chatEvents) {
+          const start = new Date(event.details.startDateISO as string);
+          text += `• ${start.toLocaleTimeString(locale, timeFormat)} ${event.details.title || labels.event}`;
+          if (event.details.location) {
+            text += ` 📍 ${event.details.location}`;
+          }
+          text += "\n";
+        }
+      }
+    }
+
+    return { text, events, from: from.toISOString(), to: to.toISOString() };
+  }
+
+  /**
+   * Send the digest if a scheduled time has passed since the last one
+   * Returns true if a digest was sent
+   */
+  public async processDue(now = new Date()): Promise<boolean> {
+    if (this.configService.getDeliveryMode() === "immediate") return false;
+    if (this.isProcessing) return false;
+    this.isProcessing = true;
+
+    try {
+      const slot = this.getLastSlot(now);
+
+      // On first start, wait for the next scheduled time instead of sending right away
+      if (!this.state.lastSentSlot) {
+        this.markSent(slot);
+        return false;
+      }
+      if (new Date(this.state.lastSentSlot) >= slot) return false;
+
+      const digest = this.buildDigest(slot);
+      if (!digest) {
+        console.log("No upcoming events, skipping digest");
+        this.markSent(slot);
+        return false;
+      }
+
+      if (!(await this.send(digest))) return false;
+      this.markSent(slot);
+      console.log(`🗓️ Digest with ${digest.events.length} event(s) sent`);
+      return true;
+    } catch (error) {
+      console.error("Error sending digest:", error);
+      return false;
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * Send a digest right away, covering the period starting now (the schedule is not affected)
+   * Returns the digest, or null if there are no upcoming events
+   */
+  public async sendNow(now = new Date()): Promise<Digest | null> {
+    const digest = this.buildDigest(now);
+    if (!digest) return null;
+    if (!(await this.send(digest))) {
+      throw new Error("Digest could not be sent");
+    }
+    console.log(`🗓️ Digest with ${digest.events.length} event(s) sent on request`);
+    return digest;
+  }
+
+  /**
+   * Start checking for due digests periodically
+   */
+  public start(): void {
+    if (this.checkInterval) return;
+    this.checkInterval = setInterval(() => {
+      void this.processDue();
+    }, this.checkIntervalMs);
+  }
+
+  /**
+   * Stop checking for due digests
+   */
+  public stop(): void {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+  }
+
+  /**
+   * Load the last sent digest time from file on startup
+   */
+  public load(): void {
+    try {
+      if (!fs.existsSync(this.filePath)) return;
+      const data = fs.readFileSync(this.filePath, "utf-8");
+      this.state = JSON.parse(data) as DigestState;
+    } catch (error) {
+      console.error("Error loading digest state from file:", error);
+    }
+  }
+
+  /**
+   * Send a digest and record it as a delivery of its events,
+   * so later updates and reminders reply to it
+   */
+  private async send(digest: Digest): Promise<boolean> {
+    const delivery = await this.sender(digest.text);
+    if (!delivery) return false;
+
+    for (const event of digest.events) {
+      this.eventStore.update(event.fingerprint, {
+        deliveries: [...(event.deliveries || []), delivery],
+      });
+    }
+    return true;
+  }
+
+  /**
+   * End of the period a digest covers (exclusive)
+   * Daily: the rest of the digest's day; weekly: the next 7 days
+   */
+  private getPeriodEnd(slot: Date): Date {
+    if (this.configService.getDigestSchedule() === "weekly") {
+      return new Date(slot.getTime() + 7 * DAY_MS);
+    }
+    const resolver = new DateResolver(this.configService.getTimezone());
+    return resolver.toUtc(resolver.addDays(resolver.toLocalDate(slot), 1), {
+      hour: 0,
+      minute: 0,
+    });
+  }
+
+  private markSent(slot: Date): void {
+    this.state.lastSentSlot = slot.toISOString();
+    try {
+      fs.writeFileSync(this.filePath, JSON.stringify(this.state, null, 2));
+    } catch (error) {
+      console.error("Error saving digest state to file:", error);
+    }
+  }
+}
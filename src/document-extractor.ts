@@ -0,0 +1,215 @@
+import { getDocumentProxy, renderPageAsImage } from "unpdf";
+
+/**
+ * Limits on documents sent for event detection, to keep model costs down
+ */
+export interface DocumentLimits {
+  maxBytes: number; // Larger documents are not downloaded
+  maxPages: number; // Only the first pages are read
+  maxRasterPages: number; // Pages rendered as images when a PDF has no text layer
+  maxTextLength: number; // Extracted text is cut off after this many characters
+}
+
+export const DEFAULT_DOCUMENT_LIMITS: DocumentLimits = {
+  maxBytes: 10 * 1024 * 1024,
+  maxPages: 10,
+  maxRasterPages: 2,
+  maxTextLength: 20000,
+};
+
+/**
+ * Text (or page images) extracted from a document attachment
+ */
+export interface ExtractedDocument {
+  fileName: string;
+  text: string;
+  pageImages: string[]; // Base64 PNGs of the first pages, when the PDF has no text layer
+  pageCount: number | null; // Total pages (null for non-PDF documents)
+  truncated: boolean; // True if pages or text were left out because of the limits
+}
+
+// PDFs with less text than this are treated as scans and rasterized
+const MIN_TEXT_LENGTH = 20;
+const RASTER_SCALE = 1.5;
+
+const TEXT_MIME_TYPES = [
+  "text/plain",
+  "text/csv",
+  "text/calendar",
+  "text/html",
+  "text/markdown",
+];
+const TEXT_EXTENSIONS = [".txt", ".csv", ".ics", ".html", ".htm", ".md"];
+
+/**
+ * Parse document limits from environment variables, falling back to the defaults
+ * MAX_DOCUMENT_SIZE_MB and MAX_DOCUMENT_PAGES
+ */
+export function documentLimitsFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): DocumentLimits {
+  const positive = (value: string | undefined, fallback: number) => {
+    const parsed = Number(value);
+    return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+  };
+  return {
+    ...DEFAULT_DOCUMENT_LIMITS,
+    maxBytes: Math.round(
+      positive(
+        env.MAX_DOCUMENT_SIZE_MB,
+        DEFAULT_DOCUMENT_LIMITS.maxBytes / (1024 * 1024)
+      ) *
+        1024 *
+        1024
+    ),
+    maxPages: Math.floor(
+      positive(env.MAX_DOCUMENT_PAGES, DEFAULT_DOCUMENT_LIMITS.maxPages)
+    ),
+  };
+}
+
+/**
+ * Extracts text from PDF and plain-text documents for event detection
+ *
+ * PDFs are read page by page up to the page limit. When the text layer is (nearly) empty,
+ * e.g. for a scanned newsletter, the first pages are rendered as PNG images instead so the
+ * model can read them. Other formats (Word, spreadsheets, ...) are not supported.
+ */
+export class DocumentExtractor {
+  private readonly limits: DocumentLimits;
+
+  constructor(limits: Partial<DocumentLimits> = {}) {
+    this.limits = { ...DEFAULT_DOCUMENT_LIMITS, ...limits };
+  }
+
+  public getLimits(): DocumentLimits {
+    return { ...this.limits };
+  }
+
+  /**
+   * Check if a document type can be extracted
+   */
+  public isSupported(mimeType: string | null, fileName: string): boolean {
+    return this.isPdf(mimeType, fileName) || this.isText(mimeType, fileName);
+  }
+
+  /**
+   * Check a document's size against the limit (before downloading it)
+   */
+  public isTooLarge(bytes: number): boolean {
+    return bytes > this.limits.maxBytes;
+  }
+
+  /**
+   * Extract the text of a document, or page images for PDFs without a text layer
+   * Returns null if the document is not supported or yields nothing
+   */
+  public async extract(
+    buffer: Buffer,
+    mimeType: string | null,
+    fileName: string
+  ): Promise<ExtractedDocument | null> {
+    if (this.isTooLarge(buffer.length)) {
+      console.log(
+        `⚠️ Document "${fileName}" is too large (${buffer.length} bytes), skipping`
+      );
+      return null;
+    }
+
+    if (this.isPdf(mimeType, fileName)) {
+      return this.extractPdf(buffer, fileName);
+    }
+
+    if (this.isText(mimeType, fileName)) {
+      const { text, truncated } = this.truncate(buffer.toString("utf-8"));
+      return text.trim()
+        ? { fileName, text, pageImages: [], pageCount: null, truncated }
+        : null;
+    }
+
+    console.log(
+      `⚠️ Unsupported document type "${mimeType}" (${fileName}), skipping`
+    );
+    return null;
+  }
+
+  private async extractPdf(
+    buffer: Buffer,
+    fileName: string
+  ): Promise<ExtractedDocument | null> {
+    const pdf = await getDocumentProxy(new Uint8Array(buffer));
+    try {
+      const pagesToRead = Math.min(pdf.numPages, this.limits.maxPages);
+      const pages: string[] = [];
+      for (let pageNumber = 1; pageNumber <= pagesToRead; pageNumber++) {
+        const page = await pdf.getPage(pageNumber);
+        const content = await page.getTextContent();
+        pages.push(
+          content.items
+            .map((item) =>
+              ("str" in item ? item.str + (item.hasEOL ? "\n" : " ") : "")
+            )
+            .join("")
+            .replace(/[ \t]+/g, " ")
+            .trim()
+        );
+      }
+
+      const { text, truncated } = this.truncate(
+        pages.filter(Boolean).join("\n\n")
+      );
+      const pageImages: string[] = [];
+
+      // Scanned PDF: let the model read the first pages as images
+      // (unpdf is pinned to 1.3.2: the PDF.js of later releases needs Node 22 to render fonts)
+      if (text.replace(/\s/g, "").length < MIN_TEXT_LENGTH) {
+        const pagesToRender = Math.min(
+          pdf.numPages,
+          this.limits.maxRasterPages
+        );
+        for (let pageNumber = 1; pageNumber <= pagesToRender; pageNumber++) {
+          const image = await renderPageAsImage(pdf, pageNumber, {
+            canvasImport: () => import("@napi-rs/canvas"),
+            scale: RASTER_SCALE,
+          });
+          pageImages.push(Buffer.from(image).toString("base64"));
+        }
+        console.log(
+          `PDF "${fileName}" has no text layer, rendered ${pageImages.length} page(s) as images`
+        );
+      }
+
+      if (!text.trim() && pageImages.length === 0) return null;
+
+      return {
+        fileName,
+        text,
+        pageImages,
+        pageCount: pdf.numPages,
+        truncated: truncated || pdf.numPages > pagesToRead,
+      };
+    } finally {
+      await pdf.destroy();
+    }
+  }
+
+  private truncate(text: string): { text: string; truncated: boolean } {
+    return text.length > this.limits.maxTextLength
+      ? { text: text.substring(0, this.limits.maxTextLength), truncated: true }
+      : { text, truncated: false };
+  }
+
+  private isPdf(mimeType: string | null, fileName: string): boolean {
+    return (
+      mimeType === "application/pdf" || fileName.toLowerCase().endsWith(".pdf")
+    );
+  }
+
+  private isText(mimeType: string | null, fileName: string): boolean {
+    const lowerName = fileName.toLowerCase();
+    return (
+      TEXT_MIME_TYPES.includes((mimeType || "").split(";")[0].trim()) ||
+      TEXT_EXTENSIONS.some((extension) => lowerName.endsWith(extension))
+    );
+  }
+}
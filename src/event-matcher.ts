@@ -0,0 +1,158 @@
+import type { EventDetails } from "./llm-service";
+import type { StoredEvent } from "./event-store";
+
+/**
+ * How close two announcements must be to count as the same event
+ */
+export interface EventMatchSettings {
+  toleranceMinutes: number; // Largest difference between the start times
+  threshold: number; // Smallest title (and location) similarity, 0-1
+}
+
+/**
+ * Event matching settings from the environment
+ * (DEDUP_TIME_TOLERANCE_MINUTES, DEDUP_SIMILARITY_THRESHOLD between 0 and 1)
+ */
+export function eventMatchSettingsFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): EventMatchSettings {
+  const toleranceMinutes = Number(env.DEDUP_TIME_TOLERANCE_MINUTES);
+  const threshold = Number(env.DEDUP_SIMILARITY_THRESHOLD);
+  return {
+    toleranceMinutes:
+      env.DEDUP_TIME_TOLERANCE_MINUTES && toleranceMinutes >= 0
+        ? toleranceMinutes
+        : 30,
+    threshold:
+      env.DEDUP_SIMILARITY_THRESHOLD && threshold > 0 && threshold <= 1
+        ? threshold
+        : 0.6,
+  };
+}
+
+const FINAL_LETTERS: Record<string, string> = {
+  ך: "כ",
+  ם: "מ",
+  ן: "נ",
+  ף: "פ",
+  ץ: "צ",
+};
+
+// Words that say nothing about which event it is
+const STOP_WORDS = new Set([
+  "the", "a", "an", "of", "and", "for", "with", "in", "at", "on", "to",
+  "של", "את", "עם", "על", "אל",
+]);
+
+// Tokens needed before two tokens may differ by a letter ("אסיפת" / "אסיפה", "הורים" / "להורים")
+const MIN_FUZZY_TOKEN_LENGTH = 3;
+const TOKEN_SIMILARITY = 0.75;
+
+/**
+ * Normalize event text for comparison: Unicode form, case, Hebrew vowel marks,
+ * final letter forms, and punctuation (including geresh and maqaf) are ignored
+ */
+export function normalizeEventText(text: string): string {
+  return text
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/\u05be/g, " ")
+    .replace(/[\u0591-\u05c7]/g, "")
+    .replace(/[ךםןףץ]/g, (letter) => FINAL_LETTERS[letter] ?? letter)
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+function tokenize(text: string): string[] {
+  return normalizeEventText(text)
+    .split(" ")
+    .filter((token) => token && !STOP_WORDS.has(token));
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function tokensMatch(a: string, b: string): boolean {
+  if (a === b) return true;
+  if (Math.min(a.length, b.length) < MIN_FUZZY_TOKEN_LENGTH) return false;
+  return 1 - editDistance(a, b) / Math.max(a.length, b.length) >= TOKEN_SIMILARITY;
+}
+
+// Numbers and single letters tell events apart ("כיתה ג" / "כיתה ד", "Group 1" / "Group 2")
+function isIdentifier(token: string): boolean {
+  return /^\p{N}+$/u.test(token) || token.length === 1;
+}
+
+/**
+ * Similarity of two texts from 0 to 1: the share of their words that match,
+ * allowing a letter or so of difference between longer words
+ * Texts that each have a number or single letter the other lacks are not similar.
+ */
+export function textSimilarity(a: string, b: string): number {
+  const aTokens = tokenize(a);
+  const bTokens = tokenize(b);
+  if (aTokens.length === 0 || bTokens.length === 0) return 0;
+
+  const unmatched = [...bTokens];
+  const aUnmatched: string[] = [];
+  for (const token of aTokens) {
+    const index = unmatched.findIndex((other) => tokensMatch(token, other));
+    if (index >= 0) {
+      unmatched.splice(index, 1);
+    } else {
+      aUnmatched.push(token);
+    }
+  }
+
+  if (aUnmatched.some(isIdentifier) && unmatched.some(isIdentifier)) return 0;
+  const matches = aTokens.length - aUnmatched.length;
+  return (2 * matches) / (aTokens.length + bTokens.length);
+}
+
+/**
+ * Similarity of two events from 0 to 1, by title and (when both have one) location
+ */
+export function eventSimilarity(a: EventDetails, b: EventDetails): number {
+  const title = textSimilarity(a.title || "", b.title || "");
+  if (!a.location || !b.location) return title;
+  return (2 * title + textSimilarity(a.location, b.location)) / 3;
+}
+
+/**
+ * The stored event most similar to an event that starts within the tolerance, if any is similar enough
+ */
+export function findMatchingEvent(
+  event: EventDetails,
+  candidates: StoredEvent[],
+  settings: EventMatchSettings
+): StoredEvent | undefined {
+  if (!event.startDateISO) return undefined;
+  const start = new Date(event.startDateISO).getTime();
+  const tolerance = settings.toleranceMinutes * 60 * 1000;
+
+  let best: { event: StoredEvent; similarity: number } | undefined;
+  for (const candidate of candidates) {
+    if (!candidate.details.startDateISO) continue;
+    const candidateStart = new Date(candidate.details.startDateISO).getTime();
+    if (Math.abs(candidateStart - start) > tolerance) continue;
+
+    const similarity = eventSimilarity(event, candidate.details);
+    if (similarity >= settings.threshold && similarity > (best?.similarity ?? 0)) {
+      best = { event: candidate, similarity };
+    }
+  }
+  return best?.event;
+}
@@ -0,0 +1,182 @@
+/**
+ * Event Routing
+ *
+ * Routing rules decide where a detected event is sent, based on the source chat,
+ * keywords in the message or event, and the sender. Every matching rule contributes
+ * its destinations; when no rule matches, events go to the default target group.
+ *
+ * Example (school events to both parents, work events only to me):
+ * [
+ *   { "name": "School", "match": { "chats": ["School"] },
+ *     "destinations": [{ "type": "contact", "id": "972501111111" }, { "type": "contact", "id": "972502222222" }] },
+ *   { "name": "Work", "match": { "chats": ["Acme Team"] },
+ *     "destinations": [{ "type": "group", "id": "120363000000000000@g.us" }] }
+ * ]
+ */
+import type { EventDetails } from "./llm-service";
+
+/**
+ * Where an event is sent
+ * - group: a WhatsApp group (group JID)
+ * - contact: a direct message (JID or phone number with country code)
+ * - webhook: an HTTP endpoint receiving the event as JSON (signed with the secret if given)
+ */
+export type RouteDestination =
+  | { type: "group"; id: string; name?: string }
+  | { type: "contact"; id: string; name?: string }
+  | { type: "webhook"; url: string; secret?: string };
+
+/**
+ * Conditions of a rule (all given conditions must match; any value of a condition may match)
+ * Values are matched case-insensitively as substrings
+ */
+export interface RouteMatch {
+  chats?: string[]; // Source chat ID or (partial) chat name
+  keywords?: string[]; // Words in the message, event title or description
+  senders?: string[]; // (Partial) sender name
+}
+
+export interface RoutingRule {
+  name: string;
+  match: RouteMatch;
+  destinations: RouteDestination[];
+}
+
+/**
+ * What a rule is matched against
+ */
+export interface RouteContext {
+  chatId: string;
+  chatName: string;
+  sender: string;
+  messageText: string;
+  event: EventDetails;
+}
+
+const DESTINATION_TYPES = ["group", "contact", "webhook"];
+
+/**
+ * WhatsApp JID of a group or contact destination (phone numbers become user JIDs)
+ */
+export function destinationJid(
+  destination: Exclude<RouteDestination, { type: "webhook" }>
+): string {
+  if (destination.id.includes("@")) return destination.id;
+  return `${destination.id.replace(/\D/g, "")}@s.whatsapp.net`;
+}
+
+/**
+ * Key identifying a destination, used to remove duplicates
+ */
+export function destinationKey(destination: RouteDestination): string {
+  return destination.type === "webhook"
+    ? `webhook:${destination.url}`
+    : destinationJid(destination);
+}
+
+/**
+ * Check if a rule matches an event
+ * Rules without any conditions match every event
+ */
+export function ruleMatches(rule: RoutingRule, context: RouteContext): boolean {
+  const includesAny = (text: string, values?: string[]) =>
+    !values ||
+    values.length === 0 ||
+    values.some((value) => text.toLowerCase().includes(value.toLowerCase()));
+
+  const chatMatches =
+    !rule.match.chats ||
+    rule.match.chats.length === 0 ||
+    rule.match.chats.includes(context.chatId) ||
+    includesAny(context.chatName, rule.match.chats);
+
+  const searchable = [
+    context.messageText,
+    context.event.title,
+    context.event.description,
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+  return (
+    chatMatches &&
+    includesAny(searchable, rule.match.keywords) &&
+    includesAny(context.sender, rule.match.senders)
+  );
+}
+
+/**
+ * Destinations of all rules matching an event, without duplicates
+ * Returns an empty array when no rule matches (the caller falls back to the default target)
+ */
+export function resolveDestinations(
+  rules: RoutingRule[],
+  context: RouteContext
+): RouteDestination[] {
+  const destinations = new Map<string, RouteDestination>();
+  for (const rule of rules) {
+    if (!ruleMatches(rule, context)) continue;
+    for (const destination of rule.destinations) {
+      const key = destinationKey(destination);
+      if (!destinations.has(key)) destinations.set(key, destination);
+    }
+  }
+  return Array.from(destinations.values());
+}
+
+/**
+ * Validate routing rules from the admin interface
+ * Returns an error message, or null if the rules are valid
+ */
+export function validateRoutingRules(value: unknown): string | null {
+  if (!Array.isArray(value)) return "Routing rules must be an array";
+
+  for (const [index, rule] of (value as Partial<RoutingRule>[]).entries()) {
+    const label = `Rule ${index + 1}`;
+    if (typeof rule !== "object" || rule === null) {
+      return `${label} must be an object`;
+    }
+    if (typeof rule.name !== "string" || !rule.name.trim()) {
+      return `${label} needs a name`;
+    }
+    if (typeof rule.match !== "object" || rule.match === null) {
+      return `${label} needs a "match" object`;
+    }
+    for (const field of ["chats", "keywords", "senders"] as const) {
+      const values = rule.match[field];
+      if (
+        values !== undefined &&
+        !(Array.isArray(values) && values.every((v) => typeof v === "string"))
+      ) {
+        return `${label}: "${field}" must be a list of strings`;
+      }
+    }
+    if (!Array.isArray(rule.destinations) || rule.destinations.length === 0) {
+      return `${label} needs at least one destination`;
+    }
+    for (const destination of rule.destinations as Partial<
+      Record<string, unknown>
+    >[]) {
+      if (!DESTINATION_TYPES.includes(destination?.type as string)) {
+        return `${label}: destination type must be one of ${DESTINATION_TYPES.join(", ")}`;
+      }
+      if (destination.type === "webhook") {
+        if (
+          typeof destination.url !== "string" ||
+          !/^https?:\/\//.test(destination.url)
+        ) {
+          return `${label}: webhook destinations need an http(s) URL`;
+        }
+        if (
+          destination.secret !== undefined &&
+          typeof destination.secret !== "string"
+        ) {
+          return `${label}: webhook secret must be a string`;
+        }
+      } else if (typeof destination.id !== "string" || !destination.id.trim()) {
+        return `${label}: ${String(destination.type)} destinations need an id`;
+      }
+    }
+  }
+  return null;
+}
@@ -0,0 +1,187 @@
+/**
+ * Runtime schema for LLM event responses
+ *
+ * Validates the JSON the model returns against MultiEventResult/EventDetails:
+ * field types, ISO 8601 dates, end after start, known actions and maximum field lengths.
+ * Entries the model marks with "isEvent": false are dropped.
+ * Errors are returned as readable strings so they can be sent back to the model for repair.
+ */
+import type { EventAction, EventDetails, MultiEventResult } from "./llm-service";
+
+/**
+ * Maximum length of each text field
+ */
+export const EVENT_FIELD_LIMITS = {
+  summary: 500,
+  title: 150,
+  date: 100,
+  time: 50,
+  location: 200,
+  description: 1000,
+  relatedEventId: 64,
+} as const;
+
+type TextField = keyof typeof EVENT_FIELD_LIMITS;
+
+const ISO_DATE_TIME =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d{1,3})?)?(Z|[+-]\d{2}:\d{2})$/;
+const EVENT_ACTIONS: EventAction[] = ["create", "update", "cancel"];
+
+export interface SchemaValidationResult {
+  result: MultiEventResult | null; // Normalized result (null when invalid)
+  errors: string[];
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function validateEvent(
+  value: unknown,
+  path: string,
+  errors: string[]
+): EventDetails | null {
+  if (!isObject(value)) {
+    errors.push(`${path} must be an object`);
+    return null;
+  }
+
+  const errorCount = errors.length;
+  const text = (field: TextField): string | null => {
+    const fieldValue = value[field];
+    if (fieldValue === undefined || fieldValue === null) return null;
+    if (typeof fieldValue !== "string") {
+      errors.push(`${path}.${field} must be a string or null`);
+      return null;
+    }
+    if (fieldValue.length > EVENT_FIELD_LIMITS[field]) {
+      errors.push(
+        `${path}.${field} is longer than ${EVENT_FIELD_LIMITS[field]} characters`
+      );
+    }
+    return fieldValue;
+  };
+
+  const isoDate = (field: "startDateISO" | "endDateISO"): string | null => {
+    const fieldValue = value[field];
+    if (fieldValue === undefined || fieldValue === null) return null;
+    if (
+      typeof fieldValue !== "string" ||
+      !ISO_DATE_TIME.test(fieldValue) ||
+      isNaN(new Date(fieldValue).getTime())
+    ) {
+      errors.push(
+        `${path}.${field} must be an ISO 8601 date-time (YYYY-MM-DDTHH:MM:SS.sssZ) or null`
+      );
+      return null;
+    }
+    return fieldValue;
+  };
+
+  const startDateISO = isoDate("startDateISO");
+  const endDateISO = isoDate("endDateISO");
+  if (
+    startDateISO &&
+    endDateISO &&
+    new Date(endDateISO).getTime() <= new Date(startDateISO).getTime()
+  ) {
+    errors.push(`${path}.endDateISO must be after startDateISO`);
+  }
+
+  let isEvent = true;
+  if (value.isEvent !== undefined && value.isEvent !== null) {
+    if (typeof value.isEvent === "boolean") {
+      isEvent = value.isEvent;
+    } else {
+      errors.push(`${path}.isEvent must be true or false`);
+    }
+  }
+
+  let action: EventAction = "create";
+  if (value.action !== undefined && value.action !== null) {
+    if (EVENT_ACTIONS.includes(value.action as EventAction)) {
+      action = value.action as EventAction;
+    } else {
+      errors.push(`${path}.action must be one of ${EVENT_ACTIONS.join(", ")}`);
+    }
+  }
+
+  const event: EventDetails = {
+    isEvent,
+    summary: text("summary"),
+    title: text("title"),
+    date: text("date"),
+    time: text("time"),
+    location: text("location"),
+    description: text("description"),
+    startDateISO,
+    endDateISO,
+    action,
+    relatedEventId: text("relatedEventId"),
+  };
+
+  return errors.length > errorCount ? null : event;
+}
+
+/**
+ * Validate a parsed response and normalize it to a MultiEventResult
+ */
+export function validateMultiEventResult(value: unknown): SchemaValidationResult {
+  if (!isObject(value)) {
+    return { result: null, errors: ["Response must be a JSON object"] };
+  }
+
+  if (typeof value.hasEvents !== "boolean") {
+    return { result: null, errors: ['"hasEvents" must be true or false'] };
+  }
+
+  // Events are ignored when there are none (models often include a placeholder)
+  if (!value.hasEvents) {
+    return { result: { hasEvents: false, events: [] }, errors: [] };
+  }
+
+  if (!Array.isArray(value.events)) {
+    return { result: null, errors: ['"events" must be an array'] };
+  }
+  if (value.events.length === 0) {
+    return {
+      result: null,
+      errors: ['"hasEvents" is true but "events" is empty'],
+    };
+  }
+
+  const errors: string[] = [];
+  const events: EventDetails[] = [];
+  value.events.forEach((event: unknown, index) => {
+    const validated = validateEvent(event, `events[${index}]`, errors);
+    if (validated?.isEvent) events.push(validated);
+  });
+
+  if (errors.length > 0) {
+    return { result: null, errors };
+  }
+  return { result: { hasEvents: events.length > 0, events }, errors: [] };
+}
+
+/**
+ * Parse and validate a raw model response
+ * Accepts JSON wrapped in a markdown code fence, which some models add despite JSON mode
+ */
+export function parseMultiEventResult(content: string): SchemaValidationResult {
+  const fenced = /^\s*```(?:json)?\s*([\s\S]*?)\s*```\s*$/.exec(content);
+  const json = fenced ? fenced[1] : content;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    return {
+      result: null,
+      errors: [
+        `Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+      ],
+    };
+  }
+
+  return validateMultiEventResult(parsed);
+}
@@ -0,0 +1,411 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { EventDetails } from "./llm-service";
+
+/**
+ * Where a detected event came from
+ */
+export interface EventSource {
+  chatId: string;
+  chatName: string;
+  sender: string;
+  messageId: string | null;
+  messageIds?: string[]; // All messages of a burst analyzed together (messageId is the last)
+  messageText: string;
+  transcribed?: boolean; // messageText is the transcript of a voice note
+}
+
+/**
+ * A message the bot sent for an event (used to reply to it on updates)
+ */
+export interface EventDelivery {
+  chatId: string;
+  messageId: string | null;
+  sentAt: string;
+}
+
+// withdrawn: the message the event was detected from was deleted
+export type EventStatus = "active" | "cancelled" | "withdrawn";
+
+/**
+ * A detected event with its full details and provenance
+ */
+export interface StoredEvent {
+  fingerprint: string; // Fingerprint of the first announcement (stable across updates)
+  details: EventDetails;
+  source: EventSource;
+  model: string | null; // LLM model that produced the event (null if unknown)
+  detectedAt: string; // ISO timestamp of detection
+  createdAt: number; // Epoch millis, used for retention of events without a date
+  status: EventStatus;
+  updatedAt?: string; // ISO timestamp of the last update or cancellation
+  aliases?: string[]; // Fingerprints of updated versions, so they are not re-announced
+  deliveries?: EventDelivery[];
+  additionalSources?: EventSource[]; // Other chats that announced the same event (merged into this one)
+}
+
+/**
+ * Filters for querying stored events (all optional, combined with AND)
+ */
+export interface EventQuery {
+  from?: string; // Events starting at or after this ISO date
+  to?: string; // Events starting at or before this ISO date
+  chat?: string; // Source chat ID or (partial) chat name, ignoring case
+  text?: string; // Free text matched against title, description, location and original message
+  limit?: number;
+}
+
+/**
+ * Names of every chat that announced an event, the first source first
+ */
+export function sourceChatNames(event: StoredEvent): string[] {
+  return [
+    ...new Set(
+      [event.source, ...(event.additionalSources ?? [])]
+        .map((source) => source.chatName)
+        .filter(Boolean)
+    ),
+  ];
+}
+
+function isSourceMessage(
+  source: EventSource,
+  chatId: string,
+  messageId: string
+): boolean {
+  return (
+    source.chatId === chatId &&
+    (source.messageId === messageId ||
+      (source.messageIds ?? []).includes(messageId))
+  );
+}
+
+// Minimum length of a fingerprint prefix accepted as an event reference
+const MIN_REFERENCE_LENGTH = 6;
+
+// Format written by older versions (fingerprint + title only)
+interface LegacyCreatedEvent {
+  fingerprint: string;
+  title: string;
+  startDateISO: string;
+  createdAt: number;
+}
+
+/**
+ * Persistent store of detected events
+ * Keeps the full EventDetails plus provenance so events can be traced back to their source
+ */
+export class EventStore {
+  private events = new Map<string, StoredEvent>();
+  private readonly filePath: string;
+  private readonly retentionDays: number;
+
+  constructor(sessionDir?: string, retentionDays = 30) {
+    const dir = sessionDir || process.env.BAILEYS_AUTH_DIR || ".baileys_auth";
+    this.filePath = path.join(dir, "created_events.json");
+    this.retentionDays = retentionDays;
+  }
+
+  /**
+   * Check if an event with this fingerprint (or an updated version of it) was already stored
+   */
+  public has(fingerprint: string): boolean {
+    return this.findByFingerprint(fingerprint) !== undefined;
+  }
+
+  /**
+   * Find a stored event by its fingerprint or the fingerprint of an updated version of it
+   */
+  public findByFingerprint(fingerprint: string): StoredEvent | undefined {
+    return (
+      this.events.get(fingerprint) ||
+      Array.from(this.events.values()).find((event) =>
+        event.aliases?.includes(fingerprint)
+      )
+    );
+  }
+
+  /**
+   * Get a stored event by fingerprint
+   */
+  public get(fingerprint: string): StoredEvent | undefined {
+    return this.events.get(fingerprint);
+  }
+
+  /**
+   * Short reference for an event, used when asking the LLM which event a message refers to
+   */
+  public static referenceFor(fingerprint: string): string {
+    return fingerprint.substring(0, 8);
+  }
+
+  /**
+   * Find a stored event by a reference (a fingerprint or a fingerprint prefix)
+   */
+  public findByReference(reference: string): StoredEvent | undefined {
+    const ref = reference.trim().toLowerCase();
+    if (ref.length < MIN_REFERENCE_LENGTH) return undefined;
+    return (
+      this.events.get(ref) ||
+      Array.from(this.events.values()).find((event) =>
+        event.fingerprint.startsWith(ref)
+      )
+    );
+  }
+
+  /**
+   * Find the events detected from a message (by the chat and WhatsApp ID of the source message)
+   * Every message of a burst, and messages merged into an event as additional sources, are matched too.
+   */
+  public findBySourceMessage(chatId: string, messageId: string): StoredEvent[] {
+    return Array.from(this.events.values()).filter((event) =>
+      [event.source, ...(event.additionalSources ?? [])].some((source) =>
+        isSourceMessage(source, chatId, messageId)
+      )
+    );
+  }
+
+  /**
+   * Update a stored event in place
+   */
+  public update(
+    fingerprint: string,
+    changes: Partial<Omit<StoredEvent, "fingerprint">>
+  ): StoredEvent | undefined {
+    const existing = this.events.get(fingerprint);
+    if (!existing) return undefined;
+    const updated = { ...existing, ...changes };
+    this.events.set(fingerprint, updated);
+    return updated;
+  }
+
+  /**
+   * Record another chat that announced a stored event
+   * Returns the updated event, or undefined if the event is unknown or already has a source in that chat
+   */
+  public addSource(
+    fingerprint: string,
+    source: EventSource
+  ): StoredEvent | undefined {
+    const existing = this.events.get(fingerprint);
+    if (!existing) return undefined;
+    const sources = [existing.source, ...(existing.additionalSources ?? [])];
+    if (sources.some((known) => known.chatId === source.chatId)) {
+      return undefined;
+    }
+    return this.update(fingerprint, {
+      additionalSources: [...(existing.additionalSources ?? []), source],
+    });
+  }
+
+  /**
+   * Forget a source message of a stored event (after it was deleted), promoting the next
+   * additional source when it was the first one
+   * Returns the updated event, or undefined if the event has no other source left
+   */
+  public removeSource(
+    fingerprint: string,
+    chatId: string,
+    messageId: string
+  ): StoredEvent | undefined {
+    const existing = this.events.get(fingerprint);
+    if (!existing) return undefined;
+    const remaining = [
+      existing.source,
+      ...(existing.additionalSources ?? []),
+    ].filter((source) => !isSourceMessage(source, chatId, messageId));
+    if (remaining.length === 0) return undefined;
+    const [source, ...additionalSources] = remaining;
+    return this.update(fingerprint, { source, additionalSources });
+  }
+
+  /**
+   * Add (or replace) a stored event
+   */
+  public add(event: StoredEvent): void {
+    this.events.set(event.fingerprint, event);
+  }
+
+  /**
+   * Number of stored events
+   */
+  public size(): number {
+    return this.events.size;
+  }
+
+  /**
+   * Query stored events by date range, source chat and text
+   * Results are sorted by start date (events without a date last)
+   */
+  public query(query: EventQuery = {}): StoredEvent[] {
+    const fromTime = query.from ? new Date(query.from).getTime() : null;
+    const toTime = query.to ? new Date(query.to).getTime() : null;
+    const chat = query.chat?.trim().toLowerCase();
+    const text = query.text?.trim().toLowerCase();
+
+    const results = Array.from(this.events.values()).filter((event) => {
+      const start = event.details.startDateISO
+        ? new Date(event.details.startDateISO).getTime()
+        : NaN;
+
+      if (fromTime !== null && !isNaN(fromTime)) {
+        if (isNaN(start) || start < fromTime) return false;
+      }
+      if (toTime !== null && !isNaN(toTime)) {
+        if (isNaN(start) || start > toTime) return false;
+      }
+
+      if (
+        chat &&
+        ![event.source, ...(event.additionalSources ?? [])].some(
+          (source) =>
+            source.chatId.toLowerCase() === chat ||
+            source.chatName.toLowerCase().includes(chat)
+        )
+      ) {
+        return false;
+      }
+
+      if (text) {
+        const haystack = [
+          event.details.title,
+          event.details.summary,
+          event.details.description,
+          event.details.location,
+          event.source.messageText,
+        ]
+          .filter(Boolean)
+          .join("\n")
+          .toLowerCase();
+        if (!haystack.includes(text)) return false;
+      }
+
+      return true;
+    });
+
+    results.sort((a, b) => {
+      const aStart = a.details.startDateISO;
+      const bStart = b.details.startDateISO;
+      if (!aStart || !bStart) return aStart ? -1 : bStart ? 1 : 0;
+      return aStart.localeCompare(bStart);
+    });
+
+    return query.limit && query.limit > 0
+      ? results.slice(0, query.limit)
+      : results;
+  }
+
+  /**
+   * Whether an event ended (or started, or without a date was detected) more than
+   * the retention period ago
+   * Events announced long before they happen are kept until they are over.
+   */
+  private isExpired(event: StoredEvent, now = Date.now()): boolean {
+    const maxAge = this.retentionDays * 24 * 60 * 60 * 1000;
+    const date = event.details.endDateISO || event.details.startDateISO;
+    const time = date ? new Date(date).getTime() : NaN;
+    return now - (isNaN(time) ? event.createdAt : time) > maxAge;
+  }
+
+  /**
+   * Remove events older than the retention period
+   */
+  public cleanup(): void {
+    const now = Date.now();
+
+    for (const [fingerprint, event] of this.events.entries()) {
+      if (this.isExpired(event, now)) {
+        this.events.delete(fingerprint);
+      }
+    }
+  }
+
+  /**
+   * Save stored events to file for persistence across restarts
+   */
+  public save(): void {
+    try {
+      // Clean up old events before saving
+      this.cleanup();
+
+      const eventsArray = Array.from(this.events.values());
+
+      if (eventsArray.length > 0) {
+        fs.writeFileSync(this.filePath, JSON.stringify(eventsArray, null, 2));
+        console.log(`Saved ${eventsArray.length} event(s) to events file`);
+      }
+    } catch (error) {
+      console.error("Error saving events to file:", error);
+    }
+  }
+
+  /**
+   * Load stored events from file on startup
+   * Entries written by older versions are upgraded with empty provenance
+   */
+  public load(): void {
+    try {
+      if (!fs.existsSync(this.filePath)) {
+        console.log("No events file found, starting fresh");
+        return;
+      }
+
+      const data = fs.readFileSync(this.filePath, "utf-8");
+      const eventsArray = JSON.parse(data) as (
+        | StoredEvent
+        | LegacyCreatedEvent
+      )[];
+
+      let loadedCount = 0;
+      let expiredCount = 0;
+
+      for (const entry of eventsArray) {
+        const event =
+          "details" in entry
+            ? { ...entry, status: entry.status ?? "active" }
+            : this.upgradeLegacy(entry);
+        // Only load if not too old
+        if (!this.isExpired(event)) {
+          this.events.set(event.fingerprint, event);
+          loadedCount++;
+        } else {
+          expiredCount++;
+        }
+      }
+
+      console.log(
+        `Loaded ${loadedCount} event(s) from events file (${expiredCount} expired)`
+      );
+    } catch (error) {
+      console.error("Error loading events from file:", error);
+    }
+  }
+
+  private upgradeLegacy(entry: LegacyCreatedEvent): StoredEvent {
+    return {
+      fingerprint: entry.fingerprint,
+      details: {
+        isEvent: true,
+        summary: null,
+        title: entry.title || null,
+        date: null,
+        time: null,
+        location: null,
+        description: null,
+        startDateISO: entry.startDateISO || null,
+        endDateISO: null,
+      },
+      source: {
+        chatId: "",
+        chatName: "",
+        sender: "",
+        messageId: null,
+        messageText: "",
+      },
+      model: null,
+      detectedAt: new Date(entry.createdAt).toISOString(),
+      createdAt: entry.createdAt,
+      status: "active",
+    };
+  }
+}
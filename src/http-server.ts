@@ -1,6 +1,11 @@
 import * as http from "http";
-import { AdminServer } from "./admin-server";
+import { AdminServer, type ApprovalActions } from "./admin-server";
 import { ConfigService } from "./config-service";
+import type { EventStore } from "./event-store";
+import type { UsageTracker } from "./usage-tracker";
+import type { MessagePrefilter } from "./message-prefilter";
+import { createCalendarFeed } from "./ics-generator";
+import { getLabels } from "./locale";
 
 interface HealthStatus {
   status: "healthy" | "unhealthy" | "initializing";
@@ -44,6 +49,9 @@ export class HttpServer {
   private messageHandler?: MessageHandler;
   private testEndpointToken?: string;
   private adminServer: AdminServer;
+  private configService: ConfigService;
+  private eventStore?: EventStore;
+  private calendarFeedToken?: string;
 
   constructor(
     statusProvider: StatusProvider,
@@ -51,16 +59,28 @@ export class HttpServer {
     testEndpointToken?: string,
     configService?: ConfigService,
     chatProvider?: () => Promise<{ id: string; name: string; isGroup: boolean }[]>,
-    whatsappStatusProvider?: () => { isConnected: boolean; connectionState: string; qrCode: string | null }
+    whatsappStatusProvider?: () => { isConnected: boolean; connectionState: string; qrCode: string | null },
+    eventStore?: EventStore,
+    calendarFeedToken?: string,
+    approvalActions?: ApprovalActions,
+    usageTracker?: UsageTracker,
+    prefilter?: MessagePrefilter
   ) {
     this.startTime = new Date();
     this.statusProvider = statusProvider;
     this.messageHandler = messageHandler;
     this.testEndpointToken = testEndpointToken;
+    this.eventStore = eventStore;
+    this.calendarFeedToken = calendarFeedToken;
+    this.configService = configService || new ConfigService();
     this.adminServer = new AdminServer(
-      configService || new ConfigService(),
+      this.configService,
       chatProvider,
-      whatsappStatusProvider
+      whatsappStatusProvider,
+      eventStore,
+      approvalActions,
+      usageTracker,
+      prefilter
     );
   }
 
@@ -92,6 +112,20 @@ export class HttpServer {
       // Handle POST /test-message
       else if (req.method === "POST" && url === "/test-message") {
         void this.handleTestMessage(req, res);
+      }
+      // Handle GET /events
+      else if (
+        req.method === "GET" &&
+        (url === "/events" || url.startsWith("/events?"))
+      ) {
+        this.handleGetEvents(req, res);
+      }
+      // Handle GET /calendar.ics and GET /calendar/<chat>.ics
+      else if (
+        req.method === "GET" &&
+        /^\/calendar(\/[^/?]+)?\.ics(\?|$)/.test(url)
+      ) {
+        this.handleCalendarFeed(req, res);
       } else {
         res.writeHead(404, { "Content-Type": "application/json" });
         res.end(JSON.stringify({ error: "Not found" }));
@@ -100,7 +134,7 @@ export class HttpServer {
 
     this.server.listen(port, "0.0.0.0", () => {
       console.log(`HTTP server running on port ${port}`);
-      console.log(`Endpoints: GET / (redirects to /admin), GET /health, POST /test-message, GET /admin`);
+      console.log(`Endpoints: GET / (redirects to /admin), GET /health, POST /test-message, GET /events, GET /calendar.ics, GET /admin`);
     });
 
     this.server.on("error", (error) => {
@@ -108,29 +142,164 @@ export class HttpServer {
     });
   }
 
+  /**
+   * Check the API token (if configured) and send a 401 when it is missing or wrong
+   * Returns true when the request may proceed
+   */
+  private checkApiToken(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): boolean {
+    if (!this.testEndpointToken) {
+      return true;
+    }
+
+    const authHeader =
+      req.headers["authorization"] || req.headers["x-api-key"];
+    const providedToken = String(authHeader ?? "")
+      .replace(/^Bearer /i, "")
+      .trim();
+
+    if (!providedToken || providedToken !== this.testEndpointToken) {
+      res.writeHead(401, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify(
+          { error: "Unauthorized - Invalid or missing API token" },
+          null,
+          2
+        )
+      );
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Handle GET /events - query detected events
+   * Supports ?from=&to= (ISO dates), ?chat= (chat ID or name) and ?q= (free text)
+   * Stored events come from private chats, so the endpoint is disabled without a token.
+   */
+  private handleGetEvents(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): void {
+    if (!this.testEndpointToken) {
+      res.writeHead(403, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify(
+          { error: "Event queries disabled - set TEST_ENDPOINT_TOKEN to enable them" },
+          null,
+          2
+        )
+      );
+      return;
+    }
+
+    if (!this.checkApiToken(req, res)) {
+      return;
+    }
+
+    if (!this.eventStore) {
+      res.writeHead(501, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Event store not configured" }, null, 2));
+      return;
+    }
+
+    const params = new URL(req.url || "", "http://localhost").searchParams;
+    const limit = parseInt(params.get("limit") || "", 10);
+    const events = this.eventStore.query({
+      from: params.get("from") || undefined,
+      to: params.get("to") || undefined,
+      chat: params.get("chat") || undefined,
+      text: params.get("q") || undefined,
+      limit: isNaN(limit) ? undefined : limit,
+    });
+
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ count: events.length, events }, null, 2));
+  }
+
+  /**
+   * Handle GET /calendar.ics (all events) and GET /calendar/<chat>.ics (one source chat)
+   * Calendar apps cannot send headers, so the token may also be passed as ?token=
+   */
+  private handleCalendarFeed(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): void {
+    const requestUrl = new URL(req.url || "", "http://localhost");
+
+    if (!this.calendarFeedToken) {
+      res.writeHead(403, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify(
+          { error: "Calendar feed disabled - set CALENDAR_FEED_TOKEN to enable it" },
+          null,
+          2
+        )
+      );
+      return;
+    }
+
+    const authHeader =
+      req.headers["authorization"] || req.headers["x-api-key"];
+    const providedToken = (
+      requestUrl.searchParams.get("token") ||
+      String(authHeader ?? "").replace(/^Bearer /i, "")
+    ).trim();
+
+    if (providedToken !== this.calendarFeedToken) {
+      res.writeHead(401, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify(
+          { error: "Unauthorized - Invalid or missing calendar token" },
+          null,
+          2
+        )
+      );
+      return;
+    }
+
+    if (!this.eventStore) {
+      res.writeHead(501, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Event store not configured" }, null, 2));
+      return;
+    }
+
+    const chatMatch = /^\/calendar\/([^/]+)\.ics$/.exec(requestUrl.pathname);
+    let chat: string | undefined;
+    try {
+      chat = chatMatch ? decodeURIComponent(chatMatch[1]) : undefined;
+    } catch {
+      res.writeHead(400, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Invalid chat name" }, null, 2));
+      return;
+    }
+
+    const events = this.eventStore.query({ chat });
+    const calendarName = chat ? `WhatsApp Events - ${chat}` : "WhatsApp Events";
+
+    res.writeHead(200, {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": 'inline; filename="calendar.ics"',
+      "Cache-Control": "no-cache",
+    });
+    res.end(
+      createCalendarFeed(
+        events,
+        calendarName,
+        getLabels(this.configService.getLanguage()).source
+      )
+    );
+  }
+
   private handleTestMessage(
     req: http.IncomingMessage,
     res: http.ServerResponse
   ): void {
     // Check for authorization token if configured
-    if (this.testEndpointToken) {
-      const authHeader =
-        req.headers["authorization"] || req.headers["x-api-key"];
-      const providedToken = String(authHeader ?? "")
-        .replace(/^Bearer /i, "")
-        .trim();
-
-      if (!providedToken || providedToken !== this.testEndpointToken) {
-        res.writeHead(401, { "Content-Type": "application/json" });
-        res.end(
-          JSON.stringify(
-            { error: "Unauthorized - Invalid or missing API token" },
-            null,
-            2
-          )
-        );
-        return;
-      }
+    if (!this.checkApiToken(req, res)) {
+      return;
     }
 
     if (!this.messageHandler) {
@@ -0,0 +1,192 @@
+import type { EventDetails } from "./llm-service";
+import { sourceChatNames, type StoredEvent } from "./event-store";
+
+/**
+ * iCalendar (RFC 5545) generation for detected events
+ * Used by the subscribable calendar feed, CalDAV push and the local test script
+ */
+
+const PRODID = "-//WhatsApp Event Bot//EN";
+const UID_DOMAIN = "whatsapp-me";
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Build a stable UID for an event fingerprint, so calendar clients update instead of duplicating
+ */
+export function eventUid(fingerprint: string): string {
+  return `${fingerprint}@${UID_DOMAIN}`;
+}
+
+/**
+ * Format an ISO date as an iCalendar UTC date-time (YYYYMMDDTHHMMSSZ)
+ */
+export function formatICSDate(isoDate: string | Date): string {
+  const date = typeof isoDate === "string" ? new Date(isoDate) : isoDate;
+  return date.toISOString().replace(/[-:]/g, "").split(".")[0] + "Z";
+}
+
+/**
+ * Check that a stored date can be written to a calendar (legacy events may hold free text)
+ */
+export function isValidICSDate(isoDate: string | null | undefined): isoDate is string {
+  return !!isoDate && !isNaN(new Date(isoDate).getTime());
+}
+
+/**
+ * Escape a text value (backslash, semicolon, comma and newlines)
+ */
+export function escapeICSText(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Fold a content line to at most 75 octets, without splitting multi-byte characters
+ */
+function foldLine(line: string): string {
+  if (Buffer.byteLength(line, "utf-8") <= MAX_LINE_OCTETS) {
+    return line;
+  }
+
+  const parts: string[] = [];
+  let current = "";
+  let currentOctets = 0;
+  for (const char of line) {
+    const charOctets = Buffer.byteLength(char, "utf-8");
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + charOctets > limit) {
+      parts.push(current);
+      current = "";
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += charOctets;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+/**
+ * Build the VEVENT lines for a single event
+ */
+function buildVEvent(
+  eventDetails: EventDetails,
+  uid: string,
+  options: {
+    dtstamp?: string;
+    description?: string | null;
+    cancelled?: boolean;
+  } = {}
+): string[] {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${uid}`,
+    `DTSTAMP:${formatICSDate(isValidICSDate(options.dtstamp) ? options.dtstamp : new Date())}`,
+  ];
+
+  if (options.cancelled) {
+    lines.push("STATUS:CANCELLED");
+  }
+
+  if (isValidICSDate(eventDetails.startDateISO)) {
+    lines.push(`DTSTART:${formatICSDate(eventDetails.startDateISO)}`);
+  }
+
+  if (isValidICSDate(eventDetails.endDateISO)) {
+    lines.push(`DTEND:${formatICSDate(eventDetails.endDateISO)}`);
+  }
+
+  if (eventDetails.title) {
+    lines.push(`SUMMARY:${escapeICSText(eventDetails.title)}`);
+  }
+
+  const description =
+    options.description !== undefined
+      ? options.description
+      : eventDetails.description;
+  if (description) {
+    lines.push(`DESCRIPTION:${escapeICSText(description)}`);
+  }
+
+  if (eventDetails.location) {
+    lines.push(`LOCATION:${escapeICSText(eventDetails.location)}`);
+  }
+
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+function wrapCalendar(eventLines: string[], calendarName?: string): string {
+  const lines = ["BEGIN:VCALENDAR", "VERSION:2.0", `PRODID:${PRODID}`, "CALSCALE:GREGORIAN"];
+  if (calendarName) {
+    lines.push(`X-WR-CALNAME:${escapeICSText(calendarName)}`);
+  }
+  lines.push(...eventLines, "END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+/**
+ * Create a calendar containing a single event
+ * Without a fingerprint a random UID is generated
+ */
+export function createEventVCalendar(
+  eventDetails: EventDetails,
+  fingerprint?: string
+): string {
+  const uid = fingerprint
+    ? eventUid(fingerprint)
+    : `event-${Date.now()}-${Math.random().toString(36).substring(7)}@${UID_DOMAIN}`;
+  return wrapCalendar(buildVEvent(eventDetails, uid));
+}
+
+/**
+ * Build the VEVENT lines for a stored event, with its source chats in the description
+ */
+function buildStoredVEvent(event: StoredEvent, sourceLabel: string): string[] {
+  const chatNames = sourceChatNames(event);
+  const description = [
+    chatNames.length > 0 ? `${sourceLabel}: ${chatNames.join(", ")}` : "",
+    event.details.description || "",
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+
+  return buildVEvent(event.details, eventUid(event.fingerprint), {
+    dtstamp: event.updatedAt || event.detectedAt,
+    description: description || null,
+    cancelled: event.status !== "active",
+  });
+}
+
+/**
+ * Create a calendar feed from stored events
+ * Each event keeps the UID derived from its fingerprint across feed refreshes,
+ * and cancelled events stay in the feed as STATUS:CANCELLED so clients remove them.
+ * Events without a valid start date are left out.
+ */
+export function createCalendarFeed(
+  events: StoredEvent[],
+  calendarName = "WhatsApp Events",
+  sourceLabel = "מקור"
+): string {
+  const eventLines = events
+    .filter((event) => isValidICSDate(event.details.startDateISO))
+    .flatMap((event) => buildStoredVEvent(event, sourceLabel));
+
+  return wrapCalendar(eventLines, calendarName);
+}
+
+/**
+ * Create a calendar object for a single stored event, as uploaded to a CalDAV server
+ * The UID is derived from the fingerprint, so uploading it again replaces the event
+ */
+export function createStoredEventVCalendar(
+  event: StoredEvent,
+  sourceLabel = "מקור"
+): string {
+  return wrapCalendar(buildStoredVEvent(event, sourceLabel));
+}
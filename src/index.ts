@@ -81,7 +81,21 @@ async function main() {
           isConnected: whatsappClient.isConnected(),
           connectionState: whatsappClient.getConnectionState(),
           qrCode: whatsappClient.getLatestQRCode(),
-        })
+        }),
+        // Event store for querying detected events
+        whatsappClient.getEventStore(),
+        // Token for the subscribable calendar feed
+        process.env.CALENDAR_FEED_TOKEN || testEndpointToken,
+        // Events waiting for approval (approval mode)
+        {
+          getPending: () => whatsappClient.getPendingEvents(),
+          approve: (id) => whatsappClient.approvePendingEvent(id),
+          reject: (id) => whatsappClient.rejectPendingEvent(id),
+        },
+        // LLM usage and budgets
+        whatsappClient.getUsageTracker(),
+        // Skip counts of the message pre-filter
+        whatsappClient.getPrefilter()
       );
       httpServer.start(httpPort);
       
@@ -0,0 +1,236 @@
+/**
+ * LLM Providers
+ *
+ * Model calls go through the LLMProvider interface so the bot can run against
+ * different backends:
+ * - openrouter (default): OpenRouter, with data collection denied
+ * - openai: the OpenAI API directly
+ * - openai-compatible: any server exposing the OpenAI chat API (Ollama, llama.cpp server, vLLM)
+ * - rule-based: deterministic keyword/date matching, no model and no network (tests, offline use)
+ *
+ * Configuration:
+ * - LLM_PROVIDER selects the backend
+ * - OPENROUTER_API_KEY / OPENAI_API_KEY for the hosted backends
+ * - LLM_BASE_URL and optional LLM_API_KEY for openai-compatible
+ */
+import OpenAI from "openai";
+import type { ChatCompletionCreateParamsNonStreaming } from "openai/resources/chat/completions";
+import { DateResolver } from "./date-resolver";
+import { ConfigService } from "./config-service";
+
+export type LLMContentPart =
+  | { type: "text"; text: string }
+  | {
+      type: "image_url";
+      image_url: { url: string; detail?: "low" | "high" | "auto" };
+    };
+
+/**
+ * A single chat request sent to a provider
+ */
+export interface LLMRequest {
+  model: string;
+  systemPrompt: string;
+  userContent: LLMContentPart[];
+  maxTokens: number;
+  jsonResponse: boolean;
+  message?: string; // The raw message being analyzed (used by providers that do not read the prompt)
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * A provider's answer (content is the raw model output)
+ */
+export interface LLMResponse {
+  content: string;
+  finishReason: string | null;
+  usage: LLMUsage | null;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly defaultModel: string;
+  readonly defaultFallbackModel: string;
+  complete(request: LLMRequest): Promise<LLMResponse>;
+}
+
+export type LLMProviderName =
+  | "openrouter"
+  | "openai"
+  | "openai-compatible"
+  | "rule-based";
+
+/**
+ * Provider for any backend speaking the OpenAI chat completions API
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  private client: OpenAI;
+
+  constructor(
+    public readonly name: string,
+    options: { apiKey: string; baseURL?: string },
+    public readonly defaultModel: string,
+    public readonly defaultFallbackModel: string = defaultModel,
+    private readonly extraParams: Record<string, unknown> = {}
+  ) {
+    this.client = new OpenAI(options);
+  }
+
+  public async complete(request: LLMRequest): Promise<LLMResponse> {
+    const params: ChatCompletionCreateParamsNonStreaming = {
+      model: request.model,
+      messages: [
+        { role: "system", content: request.systemPrompt },
+        { role: "user", content: request.userContent },
+      ],
+      max_completion_tokens: request.maxTokens,
+      ...(request.jsonResponse
+        ? { response_format: { type: "json_object" } }
+        : {}),
+      ...this.extraParams,
+    };
+
+    const response = await this.client.chat.completions.create(params);
+    const choice = response.choices[0];
+
+    return {
+      content: choice?.message?.content || "",
+      finishReason: choice?.finish_reason ?? null,
+      usage: response.usage
+        ? {
+            promptTokens: response.usage.prompt_tokens,
+            completionTokens: response.usage.completion_tokens,
+            totalTokens: response.usage.total_tokens,
+          }
+        : null,
+    };
+  }
+}
+
+/**
+ * Deterministic provider that detects events from day/date and time keywords
+ * Handles one event per message; useful for tests and fully offline setups
+ */
+export class RuleBasedProvider implements LLMProvider {
+  public readonly name = "rule-based";
+  public readonly defaultModel = "rule-based";
+  public readonly defaultFallbackModel = "rule-based";
+
+  constructor(private readonly dateResolver = new DateResolver()) {}
+
+  public complete(request: LLMRequest): Promise<LLMResponse> {
+    const message = (request.message ?? "").trim();
+    const event = message ? this.detectEvent(message) : null;
+
+    return Promise.resolve({
+      content: JSON.stringify({
+        hasEvents: event !== null,
+        events: event ? [event] : [],
+      }),
+      finishReason: "stop",
+      usage: null,
+    });
+  }
+
+  private detectEvent(message: string): Record<string, unknown> | null {
+    // Questions are usually attempts to schedule, not events
+    if (message.includes("?")) return null;
+
+    const day = this.dateResolver.resolveDay(message);
+    if (!day) return null;
+
+    const time = this.dateResolver.resolveTime(message);
+    const start = this.dateResolver.toUtc(
+      day,
+      time?.start || { hour: 8, minute: 0 }
+    );
+    const end = time?.end
+      ? this.dateResolver.toUtc(day, time.end)
+      : new Date(start.getTime() + 60 * 60 * 1000);
+    const title = message.split("\n")[0].trim().substring(0, 60);
+
+    return {
+      isEvent: true,
+      summary: title,
+      title,
+      date: day.label,
+      time: time
+        ? `${time.start.hour}:${String(time.start.minute).padStart(2, "0")}`
+        : null,
+      location: null,
+      description: null,
+      startDateISO: start.toISOString(),
+      endDateISO: end.toISOString(),
+      action: "create",
+      relatedEventId: null,
+    };
+  }
+}
+
+/**
+ * Create the provider selected by LLM_PROVIDER (default: openrouter)
+ * The rule-based provider resolves dates in the configured time zone
+ */
+export function createLLMProvider(
+  env: NodeJS.ProcessEnv = process.env,
+  configService: ConfigService = new ConfigService()
+): LLMProvider {
+  const providerName = (env.LLM_PROVIDER || "openrouter")
+    .trim()
+    .toLowerCase() as LLMProviderName;
+
+  switch (providerName) {
+    case "openrouter": {
+      const apiKey = env.OPENROUTER_API_KEY;
+      if (!apiKey) {
+        throw new Error("OPENROUTER_API_KEY must be defined in .env file");
+      }
+      return new OpenAICompatibleProvider(
+        "openrouter",
+        { apiKey, baseURL: "https://openrouter.ai/api/v1" },
+        // Default to cheapest Gemini model (free models require training consent)
+        "google/gemini-2.0-flash-lite-001",
+        // Fallback model for rate limits (must support vision for image analysis)
+        "meta-llama/llama-3.2-11b-vision-instruct",
+        // OpenRouter-specific: prevent data collection/training
+        { provider: { data_collection: "deny" } }
+      );
+    }
+    case "openai": {
+      const apiKey = env.OPENAI_API_KEY;
+      if (!apiKey) {
+        throw new Error(
+          "OPENAI_API_KEY must be defined in .env file when LLM_PROVIDER=openai"
+        );
+      }
+      return new OpenAICompatibleProvider("openai", { apiKey }, "gpt-4o-mini");
+    }
+    case "openai-compatible": {
+      const baseURL = env.LLM_BASE_URL;
+      if (!baseURL) {
+        throw new Error(
+          "LLM_BASE_URL must be defined in .env file when LLM_PROVIDER=openai-compatible"
+        );
+      }
+      // Local servers usually ignore the key, but the client requires one
+      return new OpenAICompatibleProvider(
+        "openai-compatible",
+        { apiKey: env.LLM_API_KEY || "not-needed", baseURL },
+        "llama3.2-vision"
+      );
+    }
+    case "rule-based":
+      return new RuleBasedProvider(
+        new DateResolver(configService.getTimezone())
+      );
+    default:
+      throw new Error(
+        `Unknown LLM_PROVIDER "${env.LLM_PROVIDER}" (expected openrouter, openai, openai-compatible or rule-based)`
+      );
+  }
+}
@@ -1,30 +1,55 @@
 /**
  * LLM Service for Event Detection
  *
- * This service uses OpenRouter to access multiple LLM providers (Gemini, Llama, etc.)
- * for analyzing WhatsApp messages and extracting event information.
+ * This service analyzes WhatsApp messages and extracts event information.
+ * Model calls go through an LLMProvider (OpenRouter by default, see llm-provider.ts).
  *
  * Configuration:
- * - Primary model: LLM_MODEL env var (default: google/gemini-2.0-flash-exp:free)
+ * - Provider: LLM_PROVIDER env var (openrouter, openai, openai-compatible, rule-based)
+ * - Primary model: LLM_MODEL env var (default depends on the provider)
  * - Fallback model: LLM_FALLBACK_MODEL env var (for rate limit handling)
  *
  * Features:
- * - Multi-provider support via OpenRouter
+ * - Pluggable providers, including self-hosted OpenAI-compatible servers
  * - Automatic fallback on rate limits (429/503)
  * - Vision support for image analysis
- * - Hebrew language support
+ * - Token and cost accounting per call, with budgets that cut back detection (see usage-tracker.ts)
+ * - Recent conversation of each chat (with time and sender) as context, see conversation-buffer.ts
+ * - Results cached by message content, so forwarded copies are not analyzed again (see response-cache.ts)
+ * - Hebrew language support; output language and time zone come from ConfigService
  *
  * Output schema:
- * - Must match MultiEventResult with Hebrew fields when content is Hebrew
- * - Convert dates to Israel timezone and ISO; apply defaults when missing
+ * - Must match MultiEventResult with text fields in the configured language
+ *   (validated by event-schema.ts; invalid responses are re-asked once)
+ * - Convert dates from the configured time zone to ISO; apply defaults when missing
  */
-import OpenAI from "openai";
 import dotenv from "dotenv";
 import { ConfigService } from "./config-service";
+import {
+  ConversationBuffer,
+  formatConversationMessage,
+} from "./conversation-buffer";
+import { DateResolver } from "./date-resolver";
+import { parseMultiEventResult } from "./event-schema";
+import type { ExtractedDocument } from "./document-extractor";
+import { getLanguageName } from "./locale";
+import type { UsageOutcome, UsageTracker } from "./usage-tracker";
+import { type ResponseCache, responseCacheKey } from "./response-cache";
+import {
+  createLLMProvider,
+  type LLMContentPart,
+  type LLMProvider,
+  type LLMResponse,
+} from "./llm-provider";
 
 // Load environment variables
 dotenv.config();
 
+// Bump when the prompt changes, so results cached for the old prompt are not reused
+export const PROMPT_VERSION = 1;
+
+export type EventAction = "create" | "update" | "cancel";
+
 export interface EventDetails {
   isEvent: boolean;
   summary: string | null;
@@ -35,41 +60,103 @@ export interface EventDetails {
   description: string | null;
   startDateISO: string | null;
   endDateISO: string | null;
+  action?: EventAction; // Whether the message creates, updates or cancels an event (default: create)
+  relatedEventId?: string | null; // Reference of the earlier event being updated or cancelled
+}
+
+/**
+ * An already-announced event the model may refer to when a message updates or cancels it
+ */
+export interface KnownEventReference {
+  id: string;
+  title: string | null;
+  startDateISO: string | null;
+  location: string | null;
+}
+
+/**
+ * The earlier message a message replies to (WhatsApp "reply" / quote)
+ */
+export interface QuotedMessage {
+  text: string;
+  sender: string;
+}
+
+/**
+ * The option a WhatsApp poll settled on (the message text is the option)
+ */
+export interface PollResult {
+  question: string;
+  options: string[];
+  creator: string;
+  votes: number; // Votes for the chosen option
+}
+
+/**
+ * Additional context for message analysis
+ */
+export interface AnalysisContext {
+  knownEvents?: KnownEventReference[];
+  quotedMessage?: QuotedMessage; // The message is a reply to this message
+  poll?: PollResult; // The message is the option a poll decided on
+  editedFrom?: string; // The message is an edit of this text (knownEvents are the events detected from it)
+  document?: ExtractedDocument; // Attached document (the message text is its caption)
+  voiceNote?: boolean; // The message text is a voice note transcript
+  batchSize?: number; // The message text is this many messages sent in a quick burst (the last ones in the conversation)
 }
 
 export interface MultiEventResult {
   hasEvents: boolean;
   events: EventDetails[];
+  model?: string; // Model that produced the result (set when an LLM call was made)
+}
+
+/**
+ * Schema validation counters (invalid includes responses that were later repaired)
+ */
+export interface ResponseValidationStats {
+  invalid: number; // Responses that failed validation (including repair attempts)
+  repaired: number; // Analyses that succeeded after re-asking the model
+  failed: number; // Analyses given up on after the repair attempt
 }
 
 export class LLMService {
-  private client: OpenAI;
-  private messageHistory = new Map<string, string[]>();
-  private readonly MAX_HISTORY_LENGTH = 5;
+  private provider: LLMProvider;
+  private conversations: ConversationBuffer;
+  private usageTracker?: UsageTracker; // Records usage and enforces budgets (no accounting without it)
+  private responseCache?: ResponseCache; // Earlier results by message content (no caching without it)
   private configService: ConfigService;
+  private dateResolver?: DateResolver; // Injected resolver (otherwise one per call, for the configured time zone)
   private readonly model: string;
   private readonly fallbackModel: string;
-
-  constructor(configService?: ConfigService) {
+  private validationStats: ResponseValidationStats = {
+    invalid: 0,
+    repaired: 0,
+    failed: 0,
+  };
+
+  constructor(
+    configService?: ConfigService,
+    provider?: LLMProvider,
+    dateResolver?: DateResolver,
+    conversations?: ConversationBuffer,
+    usageTracker?: UsageTracker,
+    responseCache?: ResponseCache
+  ) {
     this.configService = configService || new ConfigService();
-    const apiKey = process.env.OPENROUTER_API_KEY;
-
-    if (!apiKey) {
-      throw new Error("OPENROUTER_API_KEY must be defined in .env file");
-    }
+    this.provider =
+      provider || createLLMProvider(process.env, this.configService);
+    this.dateResolver = dateResolver;
+    this.conversations = conversations || new ConversationBuffer();
+    this.usageTracker = usageTracker;
+    this.responseCache = responseCache;
 
-    this.client = new OpenAI({
-      apiKey: apiKey,
-      baseURL: "https://openrouter.ai/api/v1",
-    });
-
-    // Default to cheapest Gemini model (free models require training consent)
-    this.model = process.env.LLM_MODEL || "google/gemini-2.0-flash-lite-001";
-    // Fallback model for rate limits (must support vision for image analysis)
-    this.fallbackModel = process.env.LLM_FALLBACK_MODEL || "meta-llama/llama-3.2-11b-vision-instruct";
+    this.model = process.env.LLM_MODEL || this.provider.defaultModel;
+    this.fallbackModel =
+      process.env.LLM_FALLBACK_MODEL || this.provider.defaultFallbackModel;
 
     console.log(
-      `Using LLM model: ${this.model} (fallback: ${this.fallbackModel})`
+      `Using LLM provider: ${this.provider.name}, model: ${this.model} (fallback: ${this.fallbackModel})`
     );
   }
 
@@ -89,7 +176,14 @@ export class LLMService {
   /**
    * Check if a chat name is in the allowed list
    */
-  private isChatAllowed(chatName: string, isGroup = false): boolean {
+  public isChatAllowed(chatName: string, isGroup = false): boolean {
+    // Muted chats are skipped even when they are allowed (case-insensitive, like /mute)
+    const lowerChatName = chatName.toLowerCase();
+    const mutedChats = this.configService.getMutedChats();
+    if (mutedChats.some((name) => lowerChatName.includes(name.toLowerCase()))) {
+      return false;
+    }
+
     // Check if monitoring all group chats
     const monitorAllGroupChats = this.configService.getMonitorAllGroupChats();
     if (monitorAllGroupChats && isGroup) {
@@ -104,28 +198,85 @@ export class LLMService {
   }
 
   /**
-   * Add a message to the history for a specific chat
+   * Add a message to the conversation of a specific chat
    */
-  public addMessageToHistory(chatId: string, message: string): void {
-    if (!this.messageHistory.has(chatId)) {
-      this.messageHistory.set(chatId, []);
-    }
+  public addMessageToHistory(
+    chatId: string,
+    message: string,
+    sender = "Unknown",
+    timestamp = new Date()
+  ): void {
+    this.conversations.add(chatId, {
+      sender,
+      text: message,
+      timestamp: timestamp.toISOString(),
+    });
+  }
 
-    const history = this.messageHistory.get(chatId);
-    if (!history) return;
-    history.push(message);
+  /**
+   * Get the message texts in the conversation window of a specific chat
+   */
+  public getMessageHistory(chatId: string): string[] {
+    return this.conversations.get(chatId).map((message) => message.text);
+  }
 
-    // Keep only the last MAX_HISTORY_LENGTH messages
-    if (history.length > this.MAX_HISTORY_LENGTH) {
-      this.messageHistory.set(chatId, history.slice(-this.MAX_HISTORY_LENGTH));
+  /**
+   * Recompute startDateISO/endDateISO from the event's date and time strings,
+   * logging any mismatch (LLMs often get the DST offset wrong)
+   */
+  private validateEventDates(
+    event: EventDetails,
+    dateResolver: DateResolver
+  ): EventDetails {
+    const validation = dateResolver.validateEvent(event);
+    if (validation.corrections.length > 0) {
+      console.warn(
+        `⚠️ Corrected dates for "${event.title || event.summary}" (date: "${event.date}", time: "${event.time}"): ${validation.corrections.join("; ")}`
+      );
     }
+    return validation.event;
   }
 
   /**
-   * Get the message history for a specific chat
+   * Counts of responses that failed schema validation
    */
-  public getMessageHistory(chatId: string): string[] {
-    return this.messageHistory.get(chatId) || [];
+  public getValidationStats(): ResponseValidationStats {
+    return { ...this.validationStats };
+  }
+
+  private recordInvalidResponse(errors: string[], content: string): void {
+    this.validationStats.invalid++;
+    console.error(
+      `⚠️ Invalid LLM response (${this.validationStats.invalid} so far): ${errors.join("; ")}`
+    );
+    console.log("Raw response:", content);
+  }
+
+  private buildRepairPrompt(errors: string[], content: string): string {
+    return `Your previous response did not match the required JSON format:
+${errors.map((e) => `- ${e}`).join("\n")}
+
+Previous response:
+${content}
+
+Respond again with ONLY valid JSON in the required format, fixing these errors.`;
+  }
+
+  /**
+   * Record the tokens and images of an analysis
+   */
+  private recordUsage(
+    chatId: string,
+    chatName: string,
+    call: {
+      model: string;
+      promptTokens: number;
+      completionTokens: number;
+      imageInputs: number;
+    },
+    outcome: UsageOutcome
+  ): void {
+    this.usageTracker?.record({ ...call, chatId, chatName, outcome });
   }
 
   /**
@@ -136,6 +287,7 @@ export class LLMService {
    * @param sender - Optional sender name
    * @param imageBase64OrHistory - Optional base64 image data OR conversation history array
    * @param imageMimeType - Optional MIME type of the image (required if imageBase64OrHistory is image data)
+   * @param context - Optional additional context (e.g. earlier events that may be updated or cancelled)
    */
   public async analyzeMessage(
     chatId: string,
@@ -146,8 +298,17 @@ export class LLMService {
       | string
       | { text: string; timestamp: number }[]
       | null,
-    imageMimeType?: string | null
+    imageMimeType?: string | null,
+    context: AnalysisContext = {}
   ): Promise<MultiEventResult> {
+    // Usage of the analysis, recorded once it ends (null until a model is called)
+    let call: {
+      model: string;
+      promptTokens: number;
+      completionTokens: number;
+      imageInputs: number;
+    } | null = null;
+
     try {
       // Check if the chat is allowed
       if (!this.isChatAllowed(chatName || chatId)) {
@@ -161,6 +322,18 @@ export class LLMService {
         };
       }
 
+      // Cut back detection while an LLM budget is exceeded
+      const degradation = this.usageTracker?.getDegradationLevel() ?? "none";
+      if (degradation === "paused") {
+        console.log(
+          `⏸️ Skipping analysis for chat "${chatName}" - the LLM budget is exceeded`
+        );
+        return {
+          hasEvents: false,
+          events: [],
+        };
+      }
+
       // Handle either conversation history array or image base64 string
       let imageBase64: string | null = null;
       let externalHistory: string[] = [];
@@ -173,8 +346,20 @@ export class LLMService {
         imageBase64 = imageBase64OrHistory;
       }
 
-      // Get the message history for context (combine internal + external)
-      const internalHistory = this.getMessageHistory(chatId);
+      // Over budget, only the text (and a document's text layer) is analyzed
+      const textOnly = degradation !== "none";
+      if (textOnly && imageBase64) {
+        console.log("💸 LLM budget exceeded, analyzing the text without the image");
+        imageBase64 = null;
+      }
+
+      // Get the conversation for context (external history replaces the chat's own)
+      // The messages of a burst are the current message, so they are not repeated as context
+      const timezone = this.configService.getTimezone();
+      const conversation = this.conversations.get(chatId);
+      const internalHistory = conversation
+        .slice(0, conversation.length - (context.batchSize ?? 0))
+        .map((msg) => formatConversationMessage(msg, timezone));
       const history =
         externalHistory.length > 0 ? externalHistory : internalHistory;
 
@@ -183,38 +368,138 @@ export class LLMService {
         ? "\nNote: An image is attached to this message. Please analyze both the text (if any) and the image content to detect events. The image may contain an event flyer, invitation, poster, or other visual information about an event."
         : "";
 
+      const document =
+        textOnly && context.document
+          ? { ...context.document, pageImages: [] }
+          : context.document;
+      let documentNote = "";
+      if (document) {
+        const contentNote =
+          document.pageImages.length > 0
+            ? "It has no text layer, so its first pages are attached as images."
+            : `Its text is included below${document.truncated ? " (only the beginning of the document)" : ""}.`;
+        documentNote = `\nNote: A document named "${document.fileName}" is attached to this message. ${contentNote} Newsletters and invitations often list several events, so extract ALL of them. The file name and the message text (the document caption) may help identify the events.`;
+      }
+      const documentSection =
+        document && document.text.trim()
+          ? `
+Attached document "${document.fileName}":
+"""
+${document.text}
+"""
+`
+          : "";
+
+      const voiceNote = context.voiceNote
+        ? "\nNote: This message is an automatic transcript of a voice note. It may contain transcription errors, so interpret misheard names, times and places sensibly."
+        : "";
+
+      const batchNote =
+        context.batchSize && context.batchSize > 1
+          ? `\nNote: The current message is ${context.batchSize} messages sent in a quick burst, one per line with their time and sender. Read them as one exchange: an event may be proposed in one message and confirmed or corrected in a later one - extract only the details the exchange settled on.`
+          : "";
+
+      const quoted = context.quotedMessage;
+      const quotedSection = quoted
+        ? `
+The current message is a reply to this earlier message from ${quoted.sender}:
+"""
+${quoted.text}
+"""
+Read the reply together with the quoted message. A reply that confirms or accepts a proposal in the quoted message (e.g. "yes, 17:00 works") is when the event is decided - extract it, taking the details the reply does not repeat from the quoted message.
+`
+        : "";
+
+      const poll = context.poll;
+      const pollSection = poll
+        ? `
+The current message is the option the group chose in a WhatsApp poll by ${poll.creator} (${poll.votes} vote(s)):
+Poll question: ${poll.question}
+All options: ${poll.options.join(" | ")}
+The poll decided the event: read the chosen option together with the question and extract the event they describe.
+`
+        : "";
+
+      const editSection =
+        context.editedFrom !== undefined
+          ? `
+The current message is an edited version of this earlier message:
+"""
+${context.editedFrom}
+"""
+The known events listed above were detected from the earlier version. For each of them, return "action": "update" with the FULL details as they are after the edit, or "action": "cancel" if the edited message no longer describes it. Return events that only appear in the edited message with "action": "create".
+`
+          : "";
+
       const groupContext = chatName
         ? `\nGroup/Chat Name: "${chatName}" - Use this as context to better understand the nature and purpose of the conversation when analyzing for events.`
         : "";
 
+      // Output language and time zone from config
+      const language = getLanguageName(this.configService.getLanguage());
+      const dateResolver = this.dateResolver || new DateResolver(timezone);
+      const now = new Date();
+      const currentDate = (options: Intl.DateTimeFormatOptions) =>
+        now.toLocaleDateString("en-US", { ...options, timeZone: timezone });
+      // Worked examples of the local-to-UTC conversion, so the model does not have to know the DST rules
+      const today = dateResolver.toLocalDate(now);
+      const exampleWinter = dateResolver
+        .toUtc({ year: today.year, month: 12, day: 15 }, { hour: 10, minute: 0 })
+        .toISOString();
+      const exampleSummer = dateResolver
+        .toUtc({ year: today.year, month: 7, day: 15 }, { hour: 10, minute: 0 })
+        .toISOString();
+
       // Get focused instructions from config
       const focusedInstructions = this.configService.getFocusedInstructions();
       const customInstructions = focusedInstructions
         ? `\n\nADDITIONAL FOCUSED INSTRUCTIONS:\n${focusedInstructions}\n`
         : "";
 
+      const knownEvents = context.knownEvents ?? [];
+      const knownEventsSection =
+        knownEvents.length > 0
+          ? `
+Events already announced from this chat:
+${knownEvents
+  .map(
+    (e) =>
+      `- id: ${e.id} | ${e.title || "Untitled"} | ${e.startDateISO || "no date"}${
+        e.location ? ` | ${e.location}` : ""
+      }`
+  )
+  .join("\n")}
+
+If the message changes one of these events (e.g. a new time, date or place), return it with "action": "update", "relatedEventId" set to its id and the FULL updated details.
+If the message cancels one of these events, return it with "action": "cancel" and "relatedEventId" set to its id.
+Otherwise use "action": "create" and "relatedEventId": null.
+`
+          : "";
+
       const prompt = `
-Analyze the following WhatsApp message and determine if it contains information about one or more events (like meetings, parties, gatherings, etc.).${imageNote}${groupContext}${customInstructions}
+Analyze the following WhatsApp message and determine if it contains information about one or more events (like meetings, parties, gatherings, etc.).${imageNote}${documentNote}${voiceNote}${batchNote}${groupContext}${customInstructions}
 A message can contain MULTIPLE events - make sure to extract ALL of them.
 Events usually contain a day reference, like "יום ראשון" or "יום שני" or "יום שלישי" or "יום רביעי" or "יום חמישי" or "יום שישי" or "יום שבת" 
 It could also be a specific date. It doesn't have to include all information like location.
 If the message only tries to find a good time to meet, it's not an event.
 
 For EACH event detected, extract the following details:
-1. Title - A short title for the event (in Hebrew if possible)
+1. Title - A short title for the event (in ${language} if possible)
 2. Date - The date of the event (e.g., "Monday", "יום שני", "Tomorrow", "Next Friday", "12/25/2023")
 3. Time - The time of the event (e.g., "3:00 PM", "15:00", "בשעה 18:00")
-4. Location - Where the event will take place (in Hebrew if possible)
+4. Location - Where the event will take place (in ${language} if possible)
 5. Description - A brief description of the event
 6. Start Date ISO - Convert the date and time to ISO format (YYYY-MM-DDTHH:MM:SS.sssZ)
 7. End Date ISO - Assume the event lasts 1 hour and provide the end time in ISO format
-
+8. Action - "create" for a new event, "update" or "cancel" when the message changes or cancels an earlier event
+${knownEventsSection}
 Previous messages for context:
 ${history.map((msg, i) => `[${i + 1}] ${msg}`).join("\n")}
 
+${quotedSection}${pollSection}${editSection}
 Current message:
 ${message}
-
+${documentSection}
 Sender: ${sender || "Unknown"}
 
 Respond in the following JSON format:
@@ -223,52 +508,45 @@ Respond in the following JSON format:
   "events": [
     {
       "isEvent": true,
-      "summary": "A brief Hebrew summary of the event (1-2 sentences)",
-      "title": "Short event title in Hebrew",
-      "date": "Event date in Hebrew (e.g., היום, מחר, יום שני)",
+      "summary": "A brief ${language} summary of the event (1-2 sentences)",
+      "title": "Short event title in ${language}",
+      "date": "Event date as written in the message (e.g., היום, מחר, יום שני, tomorrow, 25/12)",
       "time": "Event time (e.g., 12:00)",
-      "location": "Event location in Hebrew if mentioned, otherwise null",
-      "description": "Brief description of the event in Hebrew (do NOT include the original message)",
+      "location": "Event location in ${language} if mentioned, otherwise null",
+      "description": "Brief description of the event in ${language} (do NOT include the original message)",
       "startDateISO": "YYYY-MM-DDTHH:MM:SS.sssZ",
-      "endDateISO": "YYYY-MM-DDTHH:MM:SS.sssZ"
+      "endDateISO": "YYYY-MM-DDTHH:MM:SS.sssZ",
+      "action": "create",
+      "relatedEventId": null
     }
   ]
 }
 
 If no events are found, set hasEvents to false and events to an empty array [].
 If multiple events are found, include ALL of them in the events array.
-For all text fields, use Hebrew.
+For all text fields except date and time, use ${language}.
 Keep the description brief and clean - do not repeat the original message text.
 
 For the startDateISO and endDateISO fields:
-1. Analyze the date and time from the message relative to the current date: ${new Date().toLocaleDateString(
-        "en-US",
+1. Analyze the date and time from the message relative to the current date: ${currentDate(
         { year: "numeric", month: "long", day: "numeric" }
       )}
 2. IMPORTANT: Events are usually in the future. When interpreting relative dates (e.g., "Sunday", "Monday") or ambiguous dates, prefer future dates over past dates. For example, if today is Wednesday and the message mentions "Monday", it most likely refers to next Monday, not last Monday.
-3. Assume any date and time mentioned is in Israel timezone (Asia/Jerusalem, UTC+2 or UTC+3 with DST)
+3. Assume any date and time mentioned is in the ${timezone} time zone
 4. If the time is not specified, set the time to 8:00 AM (08:00) and end time to 9:00 AM (09:00)
-5. If there is no year mentioned, assume the current year (${new Date().toLocaleDateString(
-        "en-US",
+5. If there is no year mentioned, assume the current year (${currentDate(
         { year: "numeric" }
       )})
-6. If there is no month mentioned, assume the current month (${new Date().toLocaleDateString(
-        "en-US",
+6. If there is no month mentioned, assume the current month (${currentDate(
         { month: "long" }
       )})
 7. If a time is specified, set the end time to 1 hour after the start time
 8. If you can't determine a date, use the current date
-9. CRITICAL: Convert the Israel timezone date/time to UTC and output in ISO 8601 format (YYYY-MM-DDTHH:MM:SS.sssZ). Israel (Asia/Jerusalem) observes Daylight Saving Time, so use the correct UTC offset for the specific date: UTC+2 during standard time (roughly October-March) or UTC+3 during daylight saving time (roughly March-October). For example, if the user says "10:00" on a date in December, interpret this as 10:00 Israel Standard Time (UTC+2) and convert it to "08:00:00.000Z". If the date is in July, interpret as 10:00 Israel Daylight Time (UTC+3) and convert to "07:00:00.000Z".
+9. CRITICAL: Convert the ${timezone} date/time to UTC and output in ISO 8601 format (YYYY-MM-DDTHH:MM:SS.sssZ). ${timezone} may observe Daylight Saving Time, so use the correct UTC offset for the specific date. For example, "10:00" on December 15 converts to "${exampleWinter}" and "10:00" on July 15 converts to "${exampleSummer}".
 `;
 
       // Build the message content array for the API call
-      const userContent: (
-        | { type: "text"; text: string }
-        | {
-            type: "image_url";
-            image_url: { url: string; detail?: "low" | "high" | "auto" };
-          }
-      )[] = [{ type: "text", text: prompt }];
+      const userContent: LLMContentPart[] = [{ type: "text", text: prompt }];
 
       // Add image if present
       if (imageBase64 && imageMimeType) {
@@ -285,142 +563,182 @@ For the startDateISO and endDateISO fields:
         console.log("Including image in LLM analysis request");
       }
 
+      // Add rendered pages of a scanned document
+      for (const pageImage of document?.pageImages ?? []) {
+        userContent.push({
+          type: "image_url",
+          image_url: { url: `data:image/png;base64,${pageImage}`, detail: "auto" },
+        });
+      }
+
       const systemPrompt =
-        "You are a helpful assistant that analyzes WhatsApp messages to detect events and extract structured details. A single message can contain MULTIPLE events - make sure to extract ALL of them. For Hebrew content, provide Hebrew output for summary, title, and location. You are also skilled at converting dates and times to ISO format. IMPORTANT: When interpreting dates, remember that events are usually in the future - prefer future dates over past dates when there is ambiguity. When an image is provided, analyze both the text and the image content to detect events (such as event flyers, invitations, posters, etc.).";
+        "You are a helpful assistant that analyzes WhatsApp messages to detect events and extract structured details. A single message can contain MULTIPLE events - make sure to extract ALL of them. Write the summary, title, location and description in the language the user asks for. You are also skilled at converting dates and times to ISO format. IMPORTANT: When interpreting dates, remember that events are usually in the future - prefer future dates over past dates when there is ambiguity. When an image is provided, analyze both the text and the image content to detect events (such as event flyers, invitations, posters, etc.).";
+
+      const request = {
+        systemPrompt,
+        userContent,
+        maxTokens: 3000,
+        jsonResponse: true,
+        message,
+      };
+
+      // Over budget, the cheaper of the primary and fallback models is used
+      const model =
+        degradation === "cheapest-model" && this.usageTracker
+          ? this.usageTracker.cheapestModel([this.model, this.fallbackModel])
+          : this.model;
+
+      // Identical content (e.g. a message forwarded to several groups) reuses an earlier result
+      // Replies, polls, edits and bursts depend on the messages around them, so they are always analyzed
+      // Events already announced in the chat make the analysis specific to that chat
+      const cacheKey =
+        this.responseCache?.isEnabled() &&
+        !quoted &&
+        !poll &&
+        context.editedFrom === undefined &&
+        (context.batchSize ?? 1) <= 1
+          ? responseCacheKey({
+              promptVersion: PROMPT_VERSION,
+              model,
+              text: message,
+              imageBase64,
+              document,
+              voiceNote: context.voiceNote,
+              settings: [
+                language,
+                timezone,
+                `${today.year}-${today.month}-${today.day}`,
+                focusedInstructions,
+                knownEvents.length > 0 ? chatId : "",
+                knownEventsSection,
+              ],
+            })
+          : null;
+      const cached = cacheKey ? this.responseCache?.get(cacheKey) : null;
+      if (cached) {
+        console.log("♻️ Reusing the analysis of an identical message (no LLM call)");
+        return cached;
+      }
 
       // Call API with retry logic for rate limits
-      let response;
-      let usedModel = this.model;
+      let response: LLMResponse;
+      let usedModel = model;
+      call = {
+        model,
+        promptTokens: 0,
+        completionTokens: 0,
+        imageInputs: userContent.filter((part) => part.type === "image_url")
+          .length,
+      };
 
       try {
-        response = await this.client.chat.completions.create({
-          model: this.model,
-          messages: [
-            { role: "system", content: systemPrompt },
-            { role: "user", content: userContent },
-          ],
-          max_completion_tokens: 3000,
-          response_format: { type: "json_object" },
-          // @ts-expect-error OpenRouter-specific: prevent data collection/training
-          provider: { data_collection: "deny" },
+        response = await this.provider.complete({
+          ...request,
+          model,
         });
       } catch (error: unknown) {
         const err = error as { status?: number; message?: string };
         // Check for rate limit (429) or service unavailable (503)
         if (
-          this.fallbackModel !== this.model &&
+          this.fallbackModel !== model &&
           (err.status === 429 || err.status === 503)
         ) {
           console.warn(
-            `⚠️ Rate limited on ${this.model}, falling back to ${this.fallbackModel}`
+            `⚠️ Rate limited on ${model}, falling back to ${this.fallbackModel}`
           );
           usedModel = this.fallbackModel;
-          response = await this.client.chat.completions.create({
+          call.model = usedModel;
+          response = await this.provider.complete({
+            ...request,
             model: this.fallbackModel,
-            messages: [
-              { role: "system", content: systemPrompt },
-              { role: "user", content: userContent },
-            ],
-            max_completion_tokens: 3000,
-            response_format: { type: "json_object" },
-            // @ts-expect-error OpenRouter-specific: prevent data collection/training
-            provider: { data_collection: "deny" },
           });
         } else {
           throw error;
         }
       }
+      call.promptTokens += response.usage?.promptTokens ?? 0;
+      call.completionTokens += response.usage?.completionTokens ?? 0;
 
-      if (usedModel !== this.model) {
+      if (usedModel !== model) {
         console.log(`✅ Successfully used fallback model: ${usedModel}`);
       }
 
-      const content = response.choices[0]?.message?.content || "";
-      const finishReason = response.choices[0]?.finish_reason;
+      const content = response.content;
 
       // Check if response was truncated
-      if (finishReason === "length") {
+      if (response.finishReason === "length") {
         console.error(
-          "⚠️ OpenAI response was truncated due to token limit. Increasing max_completion_tokens may help."
+          "⚠️ LLM response was truncated due to token limit. Increasing max_completion_tokens may help."
         );
         console.log("Partial response:", content);
       }
 
-      try {
-        // Parse the JSON response
-        const parsedResponse = JSON.parse(content) as {
-          hasEvents?: boolean;
-          events?: {
-            summary?: string;
-            title?: string;
-            date?: string;
-            time?: string;
-            location?: string;
-            description?: string;
-            startDateISO?: string;
-            endDateISO?: string;
-          }[];
-        };
-
-        const hasEvents = parsedResponse.hasEvents === true;
-        const events: EventDetails[] = [];
-
-        if (hasEvents && Array.isArray(parsedResponse.events)) {
-          for (const event of parsedResponse.events) {
-            events.push({
-              isEvent: true,
-              summary: event.summary ?? null,
-              title: event.title ?? null,
-              date: event.date ?? null,
-              time: event.time ?? null,
-              location: event.location ?? null,
-              description: event.description ?? null,
-              startDateISO: event.startDateISO ?? null,
-              endDateISO: event.endDateISO ?? null,
-            });
-          }
-        }
-
-        return {
-          hasEvents,
-          events,
-        };
-      } catch (parseError) {
-        console.error("Error parsing OpenAI response:", parseError);
-        console.log("Raw response:", content);
-
-        // Fallback to basic parsing if JSON parsing fails
-        const hasEvents =
-          content.includes('"hasEvents": true') ||
-          content.includes('"hasEvents":true');
-        const summaryMatch = /"summary":\s*"([^"]*)"/.exec(content);
-
-        if (hasEvents && summaryMatch) {
+      let validation = parseMultiEventResult(content);
+
+      // Re-ask the model once with the validation errors before giving up
+      if (!validation.result) {
+        this.recordInvalidResponse(validation.errors, content);
+        const repairResponse = await this.provider.complete({
+          ...request,
+          model: usedModel,
+          userContent: [
+            ...userContent,
+            {
+              type: "text",
+              text: this.buildRepairPrompt(validation.errors, content),
+            },
+          ],
+        });
+        call.promptTokens += repairResponse.usage?.promptTokens ?? 0;
+        call.completionTokens += repairResponse.usage?.completionTokens ?? 0;
+        validation = parseMultiEventResult(repairResponse.content);
+
+        if (!validation.result) {
+          this.recordInvalidResponse(
+            validation.errors,
+            repairResponse.content
+          );
+          this.validationStats.failed++;
+          console.error("❌ LLM response still invalid after repair attempt");
+          this.recordUsage(chatId, chatName, call, "invalid");
           return {
-            hasEvents: true,
-            events: [
-              {
-                isEvent: true,
-                summary: summaryMatch[1],
-                title: null,
-                date: null,
-                time: null,
-                location: null,
-                description: null,
-                startDateISO: null,
-                endDateISO: null,
-              },
-            ],
+            hasEvents: false,
+            events: [],
           };
         }
 
-        return {
-          hasEvents: false,
-          events: [],
-        };
+        this.validationStats.repaired++;
+        console.log("✅ LLM response repaired after re-asking the model");
+      }
+
+      this.recordUsage(
+        chatId,
+        chatName,
+        call,
+        validation.result.hasEvents ? "events" : "no-events"
+      );
+      const result: MultiEventResult = {
+        hasEvents: validation.result.hasEvents,
+        events: validation.result.events.map((event) =>
+          this.validateEventDates(event, dateResolver)
+        ),
+        model: usedModel,
+      };
+
+      // Updates and cancellations refer to this chat's events, so only new events are reused
+      if (
+        cacheKey &&
+        this.responseCache &&
+        result.events.every((event) => (event.action ?? "create") === "create")
+      ) {
+        this.responseCache.set(cacheKey, result);
       }
+      return result;
     } catch (error) {
       console.error("Error analyzing message with LLM:", error);
+      if (call) {
+        this.recordUsage(chatId, chatName, call, "error");
+      }
       return {
         hasEvents: false,
         events: [],
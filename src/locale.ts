@@ -0,0 +1,129 @@
+/**
+ * Output language and locale helpers
+ * Labels used in messages the bot sends, keyed by ISO 639-1 language code
+ */
+
+export interface MessageLabels {
+  event: string; // Fallback title for events without one
+  source: string; // Prefix for the source chat name
+  updated: string;
+  cancelled: string;
+  withdrawn: string; // Notice when the message an event came from was deleted
+  reminder: string;
+  dailyDigest: string; // Heading of the daily digest
+  weeklyDigest: string; // Heading of the weekly digest
+}
+
+const LABELS: Record<string, MessageLabels> = {
+  he: {
+    event: "אירוע",
+    source: "מקור",
+    updated: "עודכן",
+    cancelled: "בוטל",
+    withdrawn: "ההודעה על האירוע נמחקה",
+    reminder: "תזכורת",
+    dailyDigest: "האירועים של היום",
+    weeklyDigest: "האירועים של השבוע",
+  },
+  en: {
+    event: "Event",
+    source: "Source",
+    updated: "Updated",
+    cancelled: "Cancelled",
+    withdrawn: "Withdrawn (message deleted)",
+    reminder: "Reminder",
+    dailyDigest: "Today's events",
+    weeklyDigest: "This week's events",
+  },
+  de: {
+    event: "Termin",
+    source: "Quelle",
+    updated: "Aktualisiert",
+    cancelled: "Abgesagt",
+    withdrawn: "Zurückgezogen (Nachricht gelöscht)",
+    reminder: "Erinnerung",
+    dailyDigest: "Termine heute",
+    weeklyDigest: "Termine dieser Woche",
+  },
+  fr: {
+    event: "Événement",
+    source: "Source",
+    updated: "Mis à jour",
+    cancelled: "Annulé",
+    withdrawn: "Retiré (message supprimé)",
+    reminder: "Rappel",
+    dailyDigest: "Événements du jour",
+    weeklyDigest: "Événements de la semaine",
+  },
+  es: {
+    event: "Evento",
+    source: "Origen",
+    updated: "Actualizado",
+    cancelled: "Cancelado",
+    withdrawn: "Retirado (mensaje eliminado)",
+    reminder: "Recordatorio",
+    dailyDigest: "Eventos de hoy",
+    weeklyDigest: "Eventos de la semana",
+  },
+  ru: {
+    event: "Событие",
+    source: "Источник",
+    updated: "Обновлено",
+    cancelled: "Отменено",
+    withdrawn: "Отозвано (сообщение удалено)",
+    reminder: "Напоминание",
+    dailyDigest: "События сегодня",
+    weeklyDigest: "События на неделе",
+  },
+};
+
+const LANGUAGE_NAMES: Record<string, string> = {
+  he: "Hebrew",
+  en: "English",
+  de: "German",
+  fr: "French",
+  es: "Spanish",
+  ru: "Russian",
+};
+
+/**
+ * Languages with translated labels (other languages fall back to English labels)
+ */
+export const SUPPORTED_LANGUAGES = Object.keys(LABELS);
+
+/**
+ * Get message labels for a language, falling back to English
+ */
+export function getLabels(language: string): MessageLabels {
+  return LABELS[language] || LABELS.en;
+}
+
+/**
+ * English name of a language, used when instructing the LLM (unknown codes are passed through)
+ */
+export function getLanguageName(language: string): string {
+  return LANGUAGE_NAMES[language] || language;
+}
+
+/**
+ * Check if a string is a time zone known to Intl (e.g. "Europe/Berlin")
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check if a string is a valid BCP 47 locale (e.g. "en-GB")
+ */
+export function isValidLocale(locale: string): boolean {
+  try {
+    return Intl.DateTimeFormat.supportedLocalesOf(locale).length > 0;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,300 @@
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * Why a message was not sent to the LLM
+ */
+export type PrefilterSkipReason = "emoji-only" | "too-short" | "no-signals";
+
+/**
+ * Kinds of hints that a message may be about an event
+ */
+export type PrefilterSignal = "day" | "time" | "keyword";
+
+/**
+ * The pre-filter's verdict on a message
+ */
+export interface PrefilterVerdict {
+  analyze: boolean;
+  score: number; // Number of signals found
+  signals: PrefilterSignal[];
+  reason: PrefilterSkipReason | null; // Set when the message is skipped
+}
+
+/**
+ * A skipped message, kept so the rules can be tuned
+ */
+export interface SkippedMessage {
+  chatName: string;
+  text: string; // Cut to MAX_SAMPLE_LENGTH
+  reason: PrefilterSkipReason;
+  timestamp: string; // ISO
+}
+
+/**
+ * How many messages were checked and skipped, overall and per chat
+ */
+export interface PrefilterStats {
+  since: string; // When counting started (ISO)
+  checked: number;
+  skipped: number;
+  skipRate: number; // skipped / checked (0-1)
+  byReason: Record<PrefilterSkipReason, number>;
+  byChat: Record<string, { checked: number; skipped: number }>;
+  recentSkipped: SkippedMessage[]; // Newest last
+}
+
+export interface PrefilterSettings {
+  enabled: boolean;
+  minLength: number; // Letters and digits a message needs
+  threshold: number; // Signals a message needs
+  keywords: string[]; // Extra event keywords
+}
+
+/**
+ * Pre-filter settings from the environment
+ * (PREFILTER_ENABLED, PREFILTER_MIN_LENGTH, PREFILTER_THRESHOLD, PREFILTER_KEYWORDS as a comma separated list)
+ */
+export function prefilterSettingsFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): PrefilterSettings {
+  const minLength = Number(env.PREFILTER_MIN_LENGTH);
+  const threshold = Number(env.PREFILTER_THRESHOLD);
+  return {
+    enabled: env.PREFILTER_ENABLED?.toLowerCase() !== "false",
+    minLength:
+      env.PREFILTER_MIN_LENGTH && minLength >= 0 ? Math.floor(minLength) : 3,
+    threshold:
+      env.PREFILTER_THRESHOLD && threshold >= 0 ? Math.floor(threshold) : 1,
+    keywords: (env.PREFILTER_KEYWORDS || "")
+      .split(",")
+      .map((keyword) => keyword.trim().toLowerCase())
+      .filter(Boolean),
+  };
+}
+
+// English words match at the start of a word ("meet" also matches "meeting")
+const ENGLISH_DAY_WORDS = [
+  "sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday",
+  "today", "tonight", "tomorrow", "weekend", "next week", "this week",
+  "morning", "afternoon", "evening", "noon", "midnight",
+  "january", "february", "march", "april", "june", "july", "august",
+  "september", "october", "november", "december",
+];
+const ENGLISH_KEYWORDS = [
+  "meet", "party", "parties", "dinner", "lunch", "breakfast", "brunch",
+  "birthday", "wedding", "appointment", "event", "concert", "show", "trip",
+  "class", "lesson", "practice", "training", "game", "match", "session",
+  "conference", "workshop", "webinar", "zoom", "call", "coffee", "drinks",
+  "invit", "rsvp", "remind", "ceremony", "funeral", "picnic", "pick up",
+  "pickup", "schedule", "reschedul", "postpone", "cancel", "deadline",
+  "doctor", "dentist",
+];
+
+// Hebrew words match anywhere, since prefixes attach to them ("בשבת", "למחר")
+const HEBREW_DAY_WORDS = [
+  "ראשון", "שני", "שלישי", "רביעי", "חמישי", "שישי", "שבת", "מוצ\"ש",
+  "היום", "מחר", "הערב", "הלילה", "בבוקר", "בצהריים", "אחה\"צ", "אחר הצהריים",
+  "סופ\"ש", "סוף שבוע", "סוף השבוע", "שבוע הבא", "חודש הבא",
+  "ינואר", "פברואר", "מרץ", "אפריל", "מאי", "יוני", "יולי", "אוגוסט",
+  "ספטמבר", "אוקטובר", "נובמבר", "דצמבר",
+];
+const HEBREW_KEYWORDS = [
+  "פגישה", "פגישת", "נפגש", "ניפגש", "נתראה", "מפגש", "מסיבה", "מסיבת",
+  "ארוחה", "ארוחת", "יום הולדת", "יומולדת", "חתונה", "מצווה", "ברית",
+  "אסיפה", "אסיפת", "ישיבה", "הרצאה", "הופעה", "הצגה", "קונצרט", "טיול",
+  "אימון", "חוג", "שיעור", "כנס", "סדנה", "סדנת", "אירוע", "הזמנה", "מוזמנים",
+  "קפה", "זום", "טקס", "לוויה", "שבעה", "פיקניק", "הסעה", "איסוף", "רופא",
+  "תזכורת", "לבטל", "בוטל", "נדחה", "לדחות",
+];
+
+const TIME_PATTERNS = [
+  /\b\d{1,2}:\d{2}\b/, // 19:30
+  /\b\d{1,2}\s?(?:am|pm)\b/, // 7pm
+  /\bat \d{1,2}\b/, // at 7
+  /בשעה/,
+  /(?:^|[\s(])ב-?\d{1,2}(?!\d)/, // ב-8, ב8
+];
+const DATE_PATTERN = /\b\d{1,2}[./]\d{1,2}(?:[./]\d{2,4})?\b/; // 24.12, 24/12/2024
+
+// Emoji, skin tones, joiners, variation selectors, keycaps and flags
+const EMOJI_ONLY_PATTERN =
+  /^(?:\p{Extended_Pictographic}|\p{Emoji_Modifier}|\u200d|\ufe0f|\u20e3|[\u{1F1E6}-\u{1F1FF}])+$/u;
+
+const MAX_RECENT_SKIPPED = 20;
+const MAX_SAMPLE_LENGTH = 100;
+
+/**
+ * Cheap local check that keeps obviously non-event text messages from the LLM
+ *
+ * Emoji-only messages and messages with fewer than minLength letters and digits are skipped.
+ * Other messages are scored by the kinds of event hints they contain (day or date words,
+ * times, event keywords, in English and Hebrew) and skipped below the threshold.
+ * Counts of checked and skipped messages are persisted to prefilter_stats.json for tuning.
+ */
+export class MessagePrefilter {
+  private stats: Omit<PrefilterStats, "skipRate">;
+  private readonly englishDayPattern: RegExp;
+  private readonly englishKeywordPattern: RegExp;
+  private readonly filePath: string;
+
+  constructor(
+    private readonly settings: PrefilterSettings = prefilterSettingsFromEnv(),
+    sessionDir?: string
+  ) {
+    const dir = sessionDir || process.env.BAILEYS_AUTH_DIR || ".baileys_auth";
+    this.filePath = path.join(dir, "prefilter_stats.json");
+    this.englishDayPattern = MessagePrefilter.wordPattern(ENGLISH_DAY_WORDS);
+    this.englishKeywordPattern = MessagePrefilter.wordPattern(ENGLISH_KEYWORDS);
+    this.stats = MessagePrefilter.emptyStats(new Date());
+  }
+
+  private static wordPattern(words: string[]): RegExp {
+    return new RegExp(`\\b(?:${words.join("|")})`);
+  }
+
+  private static emptyStats(now: Date): Omit<PrefilterStats, "skipRate"> {
+    return {
+      since: now.toISOString(),
+      checked: 0,
+      skipped: 0,
+      byReason: { "emoji-only": 0, "too-short": 0, "no-signals": 0 },
+      byChat: {},
+      recentSkipped: [],
+    };
+  }
+
+  public isEnabled(): boolean {
+    return this.settings.enabled;
+  }
+
+  /**
+   * Check a message (with the message it replies to, if any)
+   * A short reply such as "👍" to a proposal is judged together with the proposal.
+   */
+  public check(text: string, quotedText?: string): PrefilterVerdict {
+    const combined = (quotedText ? `${quotedText}\n${text}` : text).toLowerCase();
+
+    const stripped = combined.replace(/[\s\p{P}]/gu, "");
+    if (stripped.length > 0 && EMOJI_ONLY_PATTERN.test(stripped)) {
+      return { analyze: false, score: 0, signals: [], reason: "emoji-only" };
+    }
+
+    const signals = this.findSignals(combined);
+    if (combined.replace(/[^\p{L}\p{N}]/gu, "").length < this.settings.minLength) {
+      return { analyze: false, score: signals.length, signals, reason: "too-short" };
+    }
+    if (signals.length < this.settings.threshold) {
+      return { analyze: false, score: signals.length, signals, reason: "no-signals" };
+    }
+    return { analyze: true, score: signals.length, signals, reason: null };
+  }
+
+  private findSignals(text: string): PrefilterSignal[] {
+    const signals: PrefilterSignal[] = [];
+    if (
+      this.englishDayPattern.test(text) ||
+      HEBREW_DAY_WORDS.some((word) => text.includes(word)) ||
+      DATE_PATTERN.test(text)
+    ) {
+      signals.push("day");
+    }
+    if (TIME_PATTERNS.some((pattern) => pattern.test(text))) {
+      signals.push("time");
+    }
+    if (
+      this.englishKeywordPattern.test(text) ||
+      HEBREW_KEYWORDS.some((word) => text.includes(word)) ||
+      this.settings.keywords.some((word) => text.includes(word))
+    ) {
+      signals.push("keyword");
+    }
+    return signals;
+  }
+
+  /**
+   * Count a checked message, keeping a sample of it when it was skipped
+   */
+  public record(
+    chatName: string,
+    text: string,
+    verdict: PrefilterVerdict,
+    now = new Date()
+  ): void {
+    const chat = this.stats.byChat[chatName] || { checked: 0, skipped: 0 };
+    chat.checked++;
+    this.stats.checked++;
+
+    if (verdict.reason) {
+      chat.skipped++;
+      this.stats.skipped++;
+      this.stats.byReason[verdict.reason]++;
+      this.stats.recentSkipped = [
+        ...this.stats.recentSkipped,
+        {
+          chatName,
+          text: text.slice(0, MAX_SAMPLE_LENGTH),
+          reason: verdict.reason,
+          timestamp: now.toISOString(),
+        },
+      ].slice(-MAX_RECENT_SKIPPED);
+    }
+    this.stats.byChat[chatName] = chat;
+  }
+
+  public getStats(): PrefilterStats {
+    return {
+      ...this.stats,
+      skipRate:
+        this.stats.checked > 0 ? this.stats.skipped / this.stats.checked : 0,
+    };
+  }
+
+  /**
+   * Start counting again (after the rules were changed)
+   */
+  public resetStats(now = new Date()): void {
+    this.stats = MessagePrefilter.emptyStats(now);
+    this.save();
+  }
+
+  /**
+   * Save the counts to file for persistence across restarts
+   */
+  public save(): void {
+    try {
+      fs.writeFileSync(this.filePath, JSON.stringify(this.stats, null, 2));
+    } catch (error) {
+      console.error("Error saving pre-filter stats to file:", error);
+    }
+  }
+
+  /**
+   * Load the counts from file on startup
+   */
+  public load(): void {
+    try {
+      if (!fs.existsSync(this.filePath)) {
+        console.log("No pre-filter stats file found, starting fresh");
+        return;
+      }
+
+      const data = fs.readFileSync(this.filePath, "utf-8");
+      const stats = JSON.parse(data) as Partial<PrefilterStats>;
+      if (typeof stats.checked !== "number" || !stats.byReason) return;
+      this.stats = {
+        ...MessagePrefilter.emptyStats(new Date()),
+        ...stats,
+        byReason: {
+          ...MessagePrefilter.emptyStats(new Date()).byReason,
+          ...stats.byReason,
+        },
+      };
+      console.log(
+        `Loaded pre-filter stats (${this.stats.skipped} of ${this.stats.checked} messages skipped)`
+      );
+    } catch (error) {
+      console.error("Error loading pre-filter stats from file:", error);
+    }
+  }
+}
@@ -0,0 +1,70 @@
+import type { proto } from "@whiskeysockets/baileys";
+import type { EventDetails } from "./llm-service";
+
+const DEFAULT_DURATION_MS = 60 * 60 * 1000; // Events without an end time last 1 hour
+
+/**
+ * Convert a WhatsApp timestamp (seconds, number or Long) to milliseconds
+ */
+function toMillis(
+  seconds: proto.Message.IEventMessage["startTime"]
+): number | null {
+  if (seconds === null || seconds === undefined) return null;
+  const value = typeof seconds === "number" ? seconds : seconds.toNumber();
+  return value > 0 ? value * 1000 : null;
+}
+
+/**
+ * Convert a native WhatsApp event (created with the "Event" attachment) to event details
+ *
+ * These events already carry a structured name, start/end time, location and description,
+ * so they are taken as they are instead of being analyzed by the LLM.
+ * Returns null for cancelled events and events without a name or start time.
+ */
+export function eventDetailsFromEventMessage(
+  eventMessage: proto.Message.IEventMessage,
+  locale: string,
+  timeZone: string
+): EventDetails | null {
+  const title = eventMessage.name?.trim();
+  const start = toMillis(eventMessage.startTime);
+  if (!title || start === null || eventMessage.isCanceled) return null;
+
+  const end = toMillis(eventMessage.endTime);
+  const startDate = new Date(start);
+  const endDate = new Date(
+    end !== null && end > start ? end : start + DEFAULT_DURATION_MS
+  );
+
+  const location =
+    eventMessage.location?.name?.trim() ||
+    eventMessage.location?.address?.trim() ||
+    null;
+  const description =
+    [eventMessage.description?.trim(), eventMessage.joinLink?.trim()]
+      .filter(Boolean)
+      .join("\n") || null;
+
+  return {
+    isEvent: true,
+    summary: title,
+    title,
+    date: startDate.toLocaleDateString(locale, {
+      weekday: "long",
+      day: "numeric",
+      month: "long",
+      timeZone,
+    }),
+    time: startDate.toLocaleTimeString(locale, {
+      hour: "2-digit",
+      minute: "2-digit",
+      timeZone,
+    }),
+    location,
+    description,
+    startDateISO: startDate.toISOString(),
+    endDateISO: endDate.toISOString(),
+    action: "create",
+    relatedEventId: null,
+  };
+}
@@ -0,0 +1,285 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * A poll being tracked until the group decides on one of its options
+ */
+export interface TrackedPoll {
+  id: string; // Message ID of the poll
+  chatId: string;
+  chatName: string;
+  creator: string; // Display name of the poll creator
+  creatorJid: string; // Needed to decrypt votes
+  question: string;
+  options: string[];
+  encKey: string; // Base64 message secret of the poll, needed to decrypt votes
+  memberCount: number; // Chat members when the poll was created (basis for the majority)
+  createdAt: string;
+  closesAt: string;
+  votes: Record<string, string[]>; // Voter JID -> selected options
+}
+
+export interface PollOptionTally {
+  option: string;
+  votes: number;
+}
+
+/**
+ * The option a poll settled on
+ */
+export interface PollDecision {
+  poll: TrackedPoll;
+  option: string;
+  votes: number;
+  reason: "majority" | "closed"; // An option reached the majority, or the poll closed with a clear leader
+}
+
+/**
+ * Runs a decided poll option through event detection
+ */
+export type PollDecisionHandler = (decision: PollDecision) => Promise<void>;
+
+/**
+ * Parse poll settings from environment variables, falling back to the defaults
+ * POLL_MAJORITY (share of chat members, 0-1) and POLL_CLOSE_HOURS
+ */
+export function pollSettingsFromEnv(env: NodeJS.ProcessEnv = process.env): {
+  majority: number;
+  closeAfterHours: number;
+} {
+  const majority = Number(env.POLL_MAJORITY);
+  const closeAfterHours = Number(env.POLL_CLOSE_HOURS);
+  return {
+    majority:
+      env.POLL_MAJORITY && majority > 0 && majority <= 1 ? majority : 0.5,
+    closeAfterHours:
+      env.POLL_CLOSE_HOURS && closeAfterHours > 0 ? closeAfterHours : 48,
+  };
+}
+
+/**
+ * Tracks WhatsApp polls and their votes to find the option a group decided on
+ *
+ * A poll is decided as soon as one option is chosen by the configured share of the chat's
+ * members. WhatsApp polls never close by themselves, so a poll is considered closed after
+ * a fixed time; its leading option is then taken unless there is a tie or no votes at all.
+ * Open polls are persisted to polls.json so votes keep counting after a restart.
+ */
+export class PollTracker {
+  private polls = new Map<string, TrackedPoll>();
+  private readonly filePath: string;
+  private checkInterval: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly handler: PollDecisionHandler,
+    sessionDir?: string,
+    private readonly majority = 0.5,
+    private readonly closeAfterHours = 48,
+    private readonly checkIntervalMs = 5 * 60 * 1000
+  ) {
+    const dir = sessionDir || process.env.BAILEYS_AUTH_DIR || ".baileys_auth";
+    this.filePath = path.join(dir, "polls.json");
+  }
+
+  /**
+   * Hash WhatsApp uses to identify a poll option in (decrypted) votes
+   */
+  public static optionHash(option: string): string {
+    return crypto.createHash("sha256").update(option).digest("hex");
+  }
+
+  /**
+   * Start tracking a new poll
+   */
+  public track(
+    poll: Omit<TrackedPoll, "createdAt" | "closesAt" | "votes">,
+    now = new Date()
+  ): TrackedPoll {
+    const tracked: TrackedPoll = {
+      ...poll,
+      createdAt: now.toISOString(),
+      closesAt: new Date(
+        now.getTime() + this.closeAfterHours * 60 * 60 * 1000
+      ).toISOString(),
+      votes: {},
+    };
+    this.polls.set(poll.id, tracked);
+    this.save();
+    return tracked;
+  }
+
+  public get(pollId: string): TrackedPoll | undefined {
+    return this.polls.get(pollId);
+  }
+
+  /**
+   * Open polls, oldest first
+   */
+  public getOpen(): TrackedPoll[] {
+    return [...this.polls.values()].sort((a, b) =>
+      a.createdAt.localeCompare(b.createdAt)
+    );
+  }
+
+  /**
+   * Votes per option, most votes first (ties keep the poll's option order)
+   */
+  public tally(poll: TrackedPoll): PollOptionTally[] {
+    return poll.options
+      .map((option) => ({
+        option,
+        votes: Object.values(poll.votes).filter((selected) =>
+          selected.includes(option)
+        ).length,
+      }))
+      .sort((a, b) => b.votes - a.votes);
+  }
+
+  /**
+   * Record a voter's (decrypted) vote, replacing their earlier vote
+   * An empty selection withdraws the vote
+   * Returns the decision if an option reached the majority, otherwise null
+   */
+  public async recordVote(
+    pollId: string,
+    voterJid: string,
+    selectedOptionHashes: Uint8Array[]
+  ): Promise<PollDecision | null> {
+    const poll = this.polls.get(pollId);
+    if (!poll) return null;
+
+    const hashes = selectedOptionHashes.map((hash) =>
+      Buffer.from(hash).toString("hex")
+    );
+    const selected = poll.options.filter((option) =>
+      hashes.includes(PollTracker.optionHash(option))
+    );
+    if (selected.length > 0) {
+      poll.votes[voterJid] = selected;
+    } else {
+      delete poll.votes[voterJid];
+    }
+
+    const [leader] = this.tally(poll);
+    const needed = Math.max(1, Math.ceil(this.majority * poll.memberCount));
+    if (leader && leader.votes >= needed) {
+      return this.decide({
+        poll,
+        option: leader.option,
+        votes: leader.votes,
+        reason: "majority",
+      });
+    }
+
+    this.save();
+    return null;
+  }
+
+  /**
+   * Close polls whose time is up, deciding on their leading option
+   * Returns the number of polls decided
+   */
+  public async processDue(now = new Date()): Promise<number> {
+    let decided = 0;
+    let changed = false;
+
+    for (const poll of this.getOpen()) {
+      if (new Date(poll.closesAt).getTime() > now.getTime()) continue;
+
+      const [leader, runnerUp] = this.tally(poll);
+      if (!leader || leader.votes === 0 || leader.votes === runnerUp?.votes) {
+        console.log(
+          `📊 Poll "${poll.question}" closed without a clear winner, dropping`
+        );
+        this.polls.delete(poll.id);
+        changed = true;
+        continue;
+      }
+
+      await this.decide({
+        poll,
+        option: leader.option,
+        votes: leader.votes,
+        reason: "closed",
+      });
+      decided++;
+    }
+
+    if (changed) {
+      this.save();
+    }
+    return decided;
+  }
+
+  /**
+   * Start closing expired polls periodically
+   */
+  public start(): void {
+    if (this.checkInterval) return;
+    this.checkInterval = setInterval(() => {
+      void this.processDue();
+    }, this.checkIntervalMs);
+  }
+
+  /**
+   * Stop closing expired polls
+   */
+  public stop(): void {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+  }
+
+  /**
+   * Save open polls to file for persistence across restarts
+   */
+  public save(): void {
+    try {
+      fs.writeFileSync(
+        this.filePath,
+        JSON.stringify([...this.polls.values()], null, 2)
+      );
+    } catch (error) {
+      console.error("Error saving polls to file:", error);
+    }
+  }
+
+  /**
+   * Load open polls from file on startup
+   */
+  public load(): void {
+    try {
+      if (!fs.existsSync(this.filePath)) {
+        console.log("No polls file found, starting fresh");
+        return;
+      }
+
+      const data = fs.readFileSync(this.filePath, "utf-8");
+      const polls = JSON.parse(data) as TrackedPoll[];
+      this.polls = new Map(polls.map((poll) => [poll.id, poll]));
+      console.log(`Loaded ${this.polls.size} open poll(s) from file`);
+    } catch (error) {
+      console.error("Error loading polls from file:", error);
+    }
+  }
+
+  /**
+   * Stop tracking a decided poll and hand the decision to the handler
+   */
+  private async decide(decision: PollDecision): Promise<PollDecision> {
+    this.polls.delete(decision.poll.id);
+    this.save();
+    console.log(
+      `📊 Poll "${decision.poll.question}" decided (${decision.reason}): ${decision.option} with ${decision.votes} vote(s)`
+    );
+
+    try {
+      await this.handler(decision);
+    } catch (error) {
+      console.error("Error handling poll decision:", error);
+    }
+    return decision;
+  }
+}
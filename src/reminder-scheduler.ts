@@ -0,0 +1,200 @@
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * A pending reminder for a stored event
+ */
+export interface Reminder {
+  fingerprint: string; // Fingerprint of the stored event
+  offsetMinutes: number; // How long before the event start the reminder is sent
+  remindAt: string; // ISO timestamp when the reminder is due
+  eventStart: string; // ISO start of the event when the reminder was scheduled
+}
+
+/**
+ * Sends a due reminder
+ * Returns true when the reminder is done (sent, or no longer needed) and false to retry on the next check
+ */
+export type ReminderHandler = (reminder: Reminder) => Promise<boolean>;
+
+/**
+ * Schedules reminders before events and sends them when they are due
+ * The queue is persisted to reminders.json so reminders survive restarts;
+ * due reminders are checked periodically rather than with one timer per reminder
+ */
+export class ReminderScheduler {
+  private reminders: Reminder[] = [];
+  private readonly filePath: string;
+  private checkInterval: NodeJS.Timeout | null = null;
+  private isProcessing = false;
+
+  constructor(
+    private readonly handler: ReminderHandler,
+    sessionDir?: string,
+    private readonly checkIntervalMs = 60 * 1000
+  ) {
+    const dir = sessionDir || process.env.BAILEYS_AUTH_DIR || ".baileys_auth";
+    this.filePath = path.join(dir, "reminders.json");
+  }
+
+  /**
+   * Schedule reminders for an event, replacing any it already has
+   * Offsets whose reminder time has already passed are skipped
+   * Returns the number of reminders scheduled
+   */
+  public schedule(
+    fingerprint: string,
+    startDateISO: string | null,
+    offsetMinutes: number[],
+    now = new Date()
+  ): number {
+    this.reminders = this.reminders.filter(
+      (reminder) => reminder.fingerprint !== fingerprint
+    );
+
+    const start = startDateISO ? new Date(startDateISO).getTime() : NaN;
+    let scheduled = 0;
+
+    if (!isNaN(start)) {
+      for (const offset of new Set(offsetMinutes)) {
+        const remindAt = start - offset * 60 * 1000;
+        if (remindAt <= now.getTime()) continue;
+
+        this.reminders.push({
+          fingerprint,
+          offsetMinutes: offset,
+          remindAt: new Date(remindAt).toISOString(),
+          eventStart: new Date(start).toISOString(),
+        });
+        scheduled++;
+      }
+    }
+
+    this.save();
+    return scheduled;
+  }
+
+  /**
+   * Cancel all reminders for an event
+   * Returns the number of reminders removed
+   */
+  public cancel(fingerprint: string): number {
+    const before = this.reminders.length;
+    this.reminders = this.reminders.filter(
+      (reminder) => reminder.fingerprint !== fingerprint
+    );
+    const removed = before - this.reminders.length;
+
+    if (removed > 0) {
+      this.save();
+    }
+    return removed;
+  }
+
+  /**
+   * Pending reminders, earliest first
+   */
+  public getPending(): Reminder[] {
+    return [...this.reminders].sort((a, b) =>
+      a.remindAt.localeCompare(b.remindAt)
+    );
+  }
+
+  /**
+   * Send all reminders that are due
+   * Reminders for events that have already started (e.g. missed while offline) are dropped
+   * Returns the number of reminders sent
+   */
+  public async processDue(now = new Date()): Promise<number> {
+    if (this.isProcessing) return 0;
+    this.isProcessing = true;
+
+    let sent = 0;
+    let changed = false;
+
+    try {
+      for (const reminder of this.getPending()) {
+        if (new Date(reminder.remindAt).getTime() > now.getTime()) break;
+
+        if (new Date(reminder.eventStart).getTime() <= now.getTime()) {
+          console.log(
+            `⚠️ Reminder for event ${reminder.fingerprint.substring(0, 8)} is past the event start, dropping`
+          );
+          this.remove(reminder);
+          changed = true;
+          continue;
+        }
+
+        try {
+          if (await this.handler(reminder)) {
+            this.remove(reminder);
+            changed = true;
+            sent++;
+          }
+        } catch (error) {
+          console.error("Error sending reminder:", error);
+        }
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+
+    if (changed) {
+      this.save();
+    }
+    return sent;
+  }
+
+  /**
+   * Start checking for due reminders periodically
+   */
+  public start(): void {
+    if (this.checkInterval) return;
+    this.checkInterval = setInterval(() => {
+      void this.processDue();
+    }, this.checkIntervalMs);
+  }
+
+  /**
+   * Stop checking for due reminders
+   */
+  public stop(): void {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+  }
+
+  /**
+   * Save pending reminders to file for persistence across restarts
+   */
+  public save(): void {
+    try {
+      fs.writeFileSync(this.filePath, JSON.stringify(this.reminders, null, 2));
+    } catch (error) {
+      console.error("Error saving reminders to file:", error);
+    }
+  }
+
+  /**
+   * Load pending reminders from file on startup
+   */
+  public load(): void {
+    try {
+      if (!fs.existsSync(this.filePath)) {
+        console.log("No reminders file found, starting fresh");
+        return;
+      }
+
+      const data = fs.readFileSync(this.filePath, "utf-8");
+      this.reminders = JSON.parse(data) as Reminder[];
+      console.log(`Loaded ${this.reminders.length} reminder(s) from file`);
+    } catch (error) {
+      console.error("Error loading reminders from file:", error);
+    }
+  }
+
+  private remove(reminder: Reminder): void {
+    this.reminders = this.reminders.filter((pending) => pending !== reminder);
+  }
+}
@@ -0,0 +1,202 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import type { ExtractedDocument } from "./document-extractor";
+import type { MultiEventResult } from "./llm-service";
+
+/**
+ * What an analysis depends on, besides the conversation around the message
+ */
+export interface ResponseCacheKeyParts {
+  promptVersion: number;
+  model: string;
+  text: string;
+  imageBase64?: string | null;
+  document?: ExtractedDocument;
+  voiceNote?: boolean;
+  settings: string[]; // Prompt settings such as the language, time zone, local date and focused instructions
+}
+
+interface CacheEntry {
+  result: MultiEventResult;
+  expiresAt: string; // ISO
+}
+
+/**
+ * Response cache settings from the environment
+ * (RESPONSE_CACHE_TTL_HOURS, 0 disables the cache; RESPONSE_CACHE_MAX_ENTRIES)
+ */
+export function responseCacheSettingsFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): { ttlHours: number; maxEntries: number } {
+  const ttlHours = Number(env.RESPONSE_CACHE_TTL_HOURS);
+  const maxEntries = Number(env.RESPONSE_CACHE_MAX_ENTRIES);
+  return {
+    ttlHours: env.RESPONSE_CACHE_TTL_HOURS && ttlHours >= 0 ? ttlHours : 24,
+    maxEntries:
+      env.RESPONSE_CACHE_MAX_ENTRIES && maxEntries > 0
+        ? Math.floor(maxEntries)
+        : 1000,
+  };
+}
+
+/**
+ * Normalize message text so copies of a message differ only in what matters
+ * (Unicode form, direction and zero-width marks, whitespace and case are ignored)
+ */
+export function normalizeMessageText(text: string): string {
+  return text
+    .normalize("NFKC")
+    .replace(/[\u200b-\u200f\u202a-\u202e\u2066-\u2069\ufeff]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase();
+}
+
+function sha256(value: string): string {
+  return crypto.createHash("sha256").update(value).digest("hex");
+}
+
+/**
+ * Content address of an analysis: a hash of the normalized text, the image and document,
+ * the model and the prompt version and settings
+ */
+export function responseCacheKey(parts: ResponseCacheKeyParts): string {
+  return sha256(
+    JSON.stringify([
+      parts.promptVersion,
+      parts.model,
+      normalizeMessageText(parts.text),
+      parts.imageBase64 ? sha256(parts.imageBase64) : null,
+      parts.document
+        ? sha256(
+            JSON.stringify([
+              parts.document.fileName,
+              parts.document.text,
+              parts.document.pageImages,
+            ])
+          )
+        : null,
+      parts.voiceNote ?? false,
+      parts.settings,
+    ])
+  );
+}
+
+/**
+ * Earlier analysis results by content, so identical messages are not analyzed twice
+ *
+ * Forwarded messages and chain announcements often arrive in several monitored groups;
+ * the first copy is analyzed and the others reuse its result until it expires after ttlHours.
+ * The oldest entries are dropped beyond maxEntries. The cache is persisted to response_cache.json.
+ */
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private hits = 0;
+  private misses = 0;
+  private readonly filePath: string;
+
+  constructor(
+    sessionDir?: string,
+    private readonly ttlHours = 24,
+    private readonly maxEntries = 1000
+  ) {
+    const dir = sessionDir || process.env.BAILEYS_AUTH_DIR || ".baileys_auth";
+    this.filePath = path.join(dir, "response_cache.json");
+  }
+
+  public isEnabled(): boolean {
+    return this.ttlHours > 0;
+  }
+
+  /**
+   * The cached result for a key, or null if there is none or it expired
+   */
+  public get(key: string, now = new Date()): MultiEventResult | null {
+    const entry = this.entries.get(key);
+    if (!entry || new Date(entry.expiresAt).getTime() <= now.getTime()) {
+      this.misses++;
+      return null;
+    }
+    this.hits++;
+    return JSON.parse(JSON.stringify(entry.result)) as MultiEventResult;
+  }
+
+  public set(key: string, result: MultiEventResult, now = new Date()): void {
+    if (!this.isEnabled()) return;
+    this.entries.delete(key);
+    this.entries.set(key, {
+      result: JSON.parse(JSON.stringify(result)) as MultiEventResult,
+      expiresAt: new Date(
+        now.getTime() + this.ttlHours * 60 * 60 * 1000
+      ).toISOString(),
+    });
+
+    // Maps keep insertion order, so the first keys are the oldest
+    for (const oldest of [...this.entries.keys()].slice(
+      0,
+      Math.max(0, this.entries.size - this.maxEntries)
+    )) {
+      this.entries.delete(oldest);
+    }
+  }
+
+  /**
+   * Cache hits and misses since startup, and the number of cached results
+   */
+  public getStats(): { entries: number; hits: number; misses: number } {
+    return { entries: this.entries.size, hits: this.hits, misses: this.misses };
+  }
+
+  /**
+   * Drop expired results
+   */
+  public prune(now = new Date()): void {
+    for (const [key, entry] of this.entries) {
+      if (new Date(entry.expiresAt).getTime() <= now.getTime()) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Save the cache to file for persistence across restarts
+   */
+  public save(): void {
+    this.prune();
+    try {
+      fs.writeFileSync(
+        this.filePath,
+        JSON.stringify(Object.fromEntries(this.entries), null, 2)
+      );
+    } catch (error) {
+      console.error("Error saving response cache to file:", error);
+    }
+  }
+
+  /**
+   * Load the cache from file on startup
+   */
+  public load(): void {
+    try {
+      if (!fs.existsSync(this.filePath)) {
+        console.log("No response cache file found, starting fresh");
+        return;
+      }
+
+      const data = fs.readFileSync(this.filePath, "utf-8");
+      const entries = JSON.parse(data) as Record<string, CacheEntry>;
+      this.entries = new Map(
+        Object.entries(entries).filter(
+          ([, entry]) =>
+            typeof entry?.expiresAt === "string" &&
+            Array.isArray(entry.result?.events)
+        )
+      );
+      this.prune();
+      console.log(`Loaded ${this.entries.size} cached analysis result(s) from file`);
+    } catch (error) {
+      console.error("Error loading response cache from file:", error);
+    }
+  }
+}
@@ -1,4 +1,5 @@
 import { LLMService, EventDetails } from "./llm-service";
+import { createEventVCalendar } from "./ics-generator";
 import dotenv from "dotenv";
 import * as readline from "readline";
 import * as fs from "fs";
@@ -7,55 +8,6 @@ import * as path from "path";
 // Load environment variables
 dotenv.config();
 
-function createEventVCalendar(eventDetails: EventDetails): string {
-  const now = new Date();
-  const dtstamp = now.toISOString().replace(/[-:]/g, "").split(".")[0] + "Z";
-  const uid = `event-${Date.now()}-${Math.random()
-    .toString(36)
-    .substring(7)}@whatsapp-bot`;
-
-  let vcalendar = "BEGIN:VCALENDAR\n";
-  vcalendar += "VERSION:2.0\n";
-  vcalendar += "PRODID:-//WhatsApp Event Bot//EN\n";
-  vcalendar += "BEGIN:VEVENT\n";
-  vcalendar += `UID:${uid}\n`;
-  vcalendar += `DTSTAMP:${dtstamp}\n`;
-
-  if (eventDetails.startDateISO) {
-    const startDate = new Date(eventDetails.startDateISO);
-    const dtstart =
-      startDate.toISOString().replace(/[-:]/g, "").split(".")[0] + "Z";
-    vcalendar += `DTSTART:${dtstart}\n`;
-  }
-
-  if (eventDetails.endDateISO) {
-    const endDate = new Date(eventDetails.endDateISO);
-    const dtend =
-      endDate.toISOString().replace(/[-:]/g, "").split(".")[0] + "Z";
-    vcalendar += `DTEND:${dtend}\n`;
-  }
-
-  if (eventDetails.title) {
-    vcalendar += `SUMMARY:${eventDetails.title.replace(/\n/g, "\\n")}\n`;
-  }
-
-  if (eventDetails.description) {
-    vcalendar += `DESCRIPTION:${eventDetails.description.replace(
-      /\n/g,
-      "\\n"
-    )}\n`;
-  }
-
-  if (eventDetails.location) {
-    vcalendar += `LOCATION:${eventDetails.location.replace(/\n/g, "\\n")}\n`;
-  }
-
-  vcalendar += "END:VEVENT\n";
-  vcalendar += "END:VCALENDAR";
-
-  return vcalendar;
-}
-
 function saveIcsFile(eventDetails: EventDetails, index: number): string {
   const outputDir = path.join(process.cwd(), "test-output");
 
@@ -153,8 +105,9 @@ function interactiveMode(): void {
 }
 
 async function main(): Promise<void> {
-  // Check if API key is set
-  if (!process.env.OPENROUTER_API_KEY) {
+  // Check if API key is set (only the default OpenRouter provider needs it)
+  const provider = process.env.LLM_PROVIDER || "openrouter";
+  if (provider === "openrouter" && !process.env.OPENROUTER_API_KEY) {
     console.error("Error: OPENROUTER_API_KEY is not defined in .env file");
     process.exit(1);
   }
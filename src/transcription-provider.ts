@@ -0,0 +1,235 @@
+/**
+ * Transcription Providers
+ *
+ * Voice notes are transcribed to text before event detection. Backends:
+ * - openai: the OpenAI /audio/transcriptions API
+ * - openai-compatible: any server exposing /audio/transcriptions (faster-whisper-server, LocalAI, Groq)
+ * - whisper-cpp: a local whisper.cpp binary (audio is converted to 16 kHz WAV with ffmpeg first)
+ *
+ * Configuration:
+ * - TRANSCRIPTION_PROVIDER selects the backend (voice notes are ignored when it is not set)
+ * - OPENAI_API_KEY for openai; TRANSCRIPTION_BASE_URL and optional TRANSCRIPTION_API_KEY for openai-compatible
+ * - TRANSCRIPTION_MODEL overrides the model name of the API backends
+ * - WHISPER_CPP_MODEL (required), WHISPER_CPP_BINARY and FFMPEG_PATH for whisper-cpp
+ * - TRANSCRIPTION_LANGUAGE: spoken language (ISO 639-1, e.g. "he"); detected automatically when empty
+ */
+import { execFile } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { promisify } from "util";
+
+export interface TranscriptionProvider {
+  readonly name: string;
+  /**
+   * Transcribe audio to text (returns an empty string when nothing was said)
+   */
+  transcribe(audio: Buffer, mimeType: string): Promise<string>;
+}
+
+export type TranscriptionProviderName =
+  | "openai"
+  | "openai-compatible"
+  | "whisper-cpp";
+
+type FetchFunction = (url: string, init: RequestInit) => Promise<Response>;
+
+type ExecFunction = (
+  file: string,
+  args: string[],
+  options: { timeout: number }
+) => Promise<{ stdout: string; stderr: string }>;
+
+const REQUEST_TIMEOUT_MS = 60 * 1000;
+const WHISPER_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * File extension for an audio MIME type (WhatsApp voice notes are "audio/ogg; codecs=opus")
+ */
+export function audioExtension(mimeType: string): string {
+  const type = mimeType.split(";")[0].trim().toLowerCase();
+  const extensions: Record<string, string> = {
+    "audio/ogg": "ogg",
+    "audio/mpeg": "mp3",
+    "audio/mp4": "m4a",
+    "audio/aac": "aac",
+    "audio/wav": "wav",
+    "audio/webm": "webm",
+  };
+  return extensions[type] || "ogg";
+}
+
+/**
+ * Provider for any backend speaking the OpenAI /audio/transcriptions API
+ */
+export class OpenAICompatibleTranscriptionProvider
+  implements TranscriptionProvider
+{
+  constructor(
+    public readonly name: string,
+    private readonly options: { baseURL: string; apiKey?: string },
+    private readonly model: string,
+    private readonly language?: string,
+    private readonly fetchFn: FetchFunction = (url, init) => fetch(url, init)
+  ) {}
+
+  public async transcribe(audio: Buffer, mimeType: string): Promise<string> {
+    const form = new FormData();
+    form.append(
+      "file",
+      new Blob([new Uint8Array(audio)], { type: mimeType }),
+      `voice.${audioExtension(mimeType)}`
+    );
+    form.append("model", this.model);
+    form.append("response_format", "json");
+    if (this.language) {
+      form.append("language", this.language);
+    }
+
+    const response = await this.fetchFn(
+      `${this.options.baseURL.replace(/\/+$/, "")}/audio/transcriptions`,
+      {
+        method: "POST",
+        headers: this.options.apiKey
+          ? { Authorization: `Bearer ${this.options.apiKey}` }
+          : {},
+        body: form,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      }
+    );
+    if (!response.ok) {
+      throw new Error(
+        `Transcription request failed: HTTP ${response.status} ${await response.text()}`
+      );
+    }
+
+    const result = (await response.json()) as { text?: string };
+    return (result.text || "").trim();
+  }
+}
+
+/**
+ * Provider running a local whisper.cpp binary
+ * Audio is converted to 16 kHz mono WAV (the input format whisper.cpp expects) with ffmpeg
+ */
+export class WhisperCppProvider implements TranscriptionProvider {
+  public readonly name = "whisper-cpp";
+
+  constructor(
+    private readonly modelPath: string,
+    private readonly binaryPath = "whisper-cli",
+    private readonly ffmpegPath = "ffmpeg",
+    private readonly language?: string,
+    private readonly exec: ExecFunction = promisify(execFile)
+  ) {}
+
+  public async transcribe(audio: Buffer, mimeType: string): Promise<string> {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "voice-"));
+    try {
+      const inputPath = path.join(dir, `voice.${audioExtension(mimeType)}`);
+      const wavPath = path.join(dir, "voice.wav");
+      await fs.promises.writeFile(inputPath, audio);
+
+      await this.exec(
+        this.ffmpegPath,
+        [
+          "-y",
+          "-i",
+          inputPath,
+          "-ar",
+          "16000",
+          "-ac",
+          "1",
+          "-c:a",
+          "pcm_s16le",
+          wavPath,
+        ],
+        { timeout: WHISPER_TIMEOUT_MS }
+      );
+
+      // -nt: no timestamps, -np: no progress/system output, so stdout is just the text
+      const { stdout } = await this.exec(
+        this.binaryPath,
+        [
+          "-m",
+          this.modelPath,
+          "-f",
+          wavPath,
+          "-l",
+          this.language || "auto",
+          "-nt",
+          "-np",
+        ],
+        { timeout: WHISPER_TIMEOUT_MS }
+      );
+      return stdout
+        .split("\n")
+        .map((line) => line.trim())
+        .filter(Boolean)
+        .join(" ");
+    } finally {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+  }
+}
+
+/**
+ * Create the provider selected by TRANSCRIPTION_PROVIDER, or null if transcription is disabled
+ */
+export function createTranscriptionProvider(
+  env: NodeJS.ProcessEnv = process.env
+): TranscriptionProvider | null {
+  const providerName = (env.TRANSCRIPTION_PROVIDER || "").trim().toLowerCase();
+  if (!providerName || providerName === "none") return null;
+
+  const language = env.TRANSCRIPTION_LANGUAGE?.trim() || undefined;
+
+  switch (providerName as TranscriptionProviderName) {
+    case "openai": {
+      const apiKey = env.OPENAI_API_KEY;
+      if (!apiKey) {
+        throw new Error(
+          "OPENAI_API_KEY must be defined in .env file when TRANSCRIPTION_PROVIDER=openai"
+        );
+      }
+      return new OpenAICompatibleTranscriptionProvider(
+        "openai",
+        { baseURL: "https://api.openai.com/v1", apiKey },
+        env.TRANSCRIPTION_MODEL || "whisper-1",
+        language
+      );
+    }
+    case "openai-compatible": {
+      const baseURL = env.TRANSCRIPTION_BASE_URL;
+      if (!baseURL) {
+        throw new Error(
+          "TRANSCRIPTION_BASE_URL must be defined in .env file when TRANSCRIPTION_PROVIDER=openai-compatible"
+        );
+      }
+      return new OpenAICompatibleTranscriptionProvider(
+        "openai-compatible",
+        { baseURL, apiKey: env.TRANSCRIPTION_API_KEY || undefined },
+        env.TRANSCRIPTION_MODEL || "whisper-1",
+        language
+      );
+    }
+    case "whisper-cpp": {
+      const modelPath = env.WHISPER_CPP_MODEL;
+      if (!modelPath) {
+        throw new Error(
+          "WHISPER_CPP_MODEL must be defined in .env file when TRANSCRIPTION_PROVIDER=whisper-cpp"
+        );
+      }
+      return new WhisperCppProvider(
+        modelPath,
+        env.WHISPER_CPP_BINARY || undefined,
+        env.FFMPEG_PATH || undefined,
+        language
+      );
+    }
+    default:
+      throw new Error(
+        `Unknown TRANSCRIPTION_PROVIDER "${env.TRANSCRIPTION_PROVIDER}" (expected openai, openai-compatible or whisper-cpp)`
+      );
+  }
+}
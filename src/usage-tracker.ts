@@ -0,0 +1,409 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { ConfigService } from "./config-service";
+
+/**
+ * What an analysis call ended with
+ * - events / no-events: the model answered (after a repair if needed)
+ * - invalid: the answer was still invalid after re-asking the model
+ * - error: the call failed
+ */
+export type UsageOutcome = "events" | "no-events" | "invalid" | "error";
+
+/**
+ * How far detection is cut back because a budget is exceeded
+ */
+export type DegradationLevel = "none" | "text-only" | "cheapest-model" | "paused";
+
+/**
+ * A single analysis (including its repair request, if any)
+ */
+export interface UsageRecord {
+  timestamp: string;
+  model: string;
+  chatId: string;
+  chatName: string;
+  outcome: UsageOutcome;
+  promptTokens: number;
+  completionTokens: number;
+  imageInputs: number; // Images sent with the prompt (photos and scanned document pages)
+  cost: number; // Estimated cost in USD
+}
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  imageInputs: number;
+  cost: number;
+}
+
+/**
+ * Usage totals for the admin interface (breakdowns are for the current month)
+ */
+export interface UsageSummary {
+  today: UsageTotals;
+  month: UsageTotals;
+  byModel: Record<string, UsageTotals>;
+  byChat: Record<string, UsageTotals>; // Keyed by chat name
+  byOutcome: Record<string, UsageTotals>;
+  budget: {
+    dailyUsd: number | null;
+    monthlyUsd: number | null;
+    level: DegradationLevel;
+  };
+}
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface ModelPrice {
+  prompt: number;
+  completion: number;
+}
+
+// Prices of the default models (override or extend with LLM_PRICES)
+const KNOWN_PRICES: Record<string, ModelPrice> = {
+  "google/gemini-2.0-flash-lite-001": { prompt: 0.075, completion: 0.3 },
+  "google/gemini-2.0-flash-001": { prompt: 0.1, completion: 0.4 },
+  "meta-llama/llama-3.2-11b-vision-instruct": { prompt: 0.049, completion: 0.049 },
+  "gpt-4o-mini": { prompt: 0.15, completion: 0.6 },
+  "openai/gpt-4o-mini": { prompt: 0.15, completion: 0.6 },
+  "gpt-4o": { prompt: 2.5, completion: 10 },
+  "openai/gpt-4o": { prompt: 2.5, completion: 10 },
+  "gpt-5-mini": { prompt: 0.25, completion: 2 },
+  "gpt-5-nano": { prompt: 0.05, completion: 0.4 },
+  "rule-based": { prompt: 0, completion: 0 },
+};
+
+// Share of the budget at which each level starts, highest first
+const DEGRADATION_STEPS: { level: DegradationLevel; share: number }[] = [
+  { level: "paused", share: 1.25 },
+  { level: "cheapest-model", share: 1.1 },
+  { level: "text-only", share: 1 },
+];
+
+const DEGRADATION_ORDER: DegradationLevel[] = [
+  "none",
+  "text-only",
+  "cheapest-model",
+  "paused",
+];
+
+const DEGRADATION_NOTICES: Record<DegradationLevel, string> = {
+  none: "",
+  "text-only": "images and scanned documents are no longer analyzed",
+  "cheapest-model": "messages are analyzed with the cheapest model, without images",
+  paused: "event detection is paused",
+};
+
+const RETENTION_DAYS = 62; // Keep this month and the last one
+
+/**
+ * Parse model prices from "model=prompt/completion" pairs (USD per million tokens),
+ * e.g. "gpt-4o-mini=0.15/0.6,my-local-model=0/0". Invalid entries are ignored.
+ */
+export function parseModelPrices(value: string): Record<string, ModelPrice> {
+  const prices: Record<string, ModelPrice> = {};
+  for (const entry of value.split(",")) {
+    const match = /^\s*(.+?)\s*=\s*([\d.]+)\s*\/\s*([\d.]+)\s*$/.exec(entry);
+    if (!match) continue;
+    const prompt = Number(match[2]);
+    const completion = Number(match[3]);
+    if (Number.isFinite(prompt) && Number.isFinite(completion)) {
+      prices[match[1]] = { prompt, completion };
+    }
+  }
+  return prices;
+}
+
+const emptyTotals = (): UsageTotals => ({
+  calls: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  imageInputs: 0,
+  cost: 0,
+});
+
+/**
+ * Records the tokens, images and estimated cost of every LLM call, and enforces the budgets
+ *
+ * When the daily or monthly budget (ConfigService) is exceeded, detection is cut back step by
+ * step: first images are no longer sent, at 110% of the budget the cheapest configured model is
+ * used, and at 125% detection is paused until the next day or month. Each step is announced once
+ * in the target group. Usage is persisted to usage.json.
+ */
+export class UsageTracker {
+  private records: UsageRecord[] = [];
+  private announced: string[] = []; // "<level>:<day or month>" announcements already sent
+  private readonly filePath: string;
+  private readonly prices: Record<string, ModelPrice>;
+  private readonly unpricedModels = new Set<string>();
+  private dayFormat: { timeZone: string; format: Intl.DateTimeFormat } | null =
+    null; // Formats local days (YYYY-MM-DD) in the configured time zone
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly announce: (text: string) => Promise<void> | void = () => {},
+    sessionDir?: string,
+    prices: Record<string, ModelPrice> = parseModelPrices(
+      process.env.LLM_PRICES || ""
+    )
+  ) {
+    const dir = sessionDir || process.env.BAILEYS_AUTH_DIR || ".baileys_auth";
+    this.filePath = path.join(dir, "usage.json");
+    this.prices = { ...KNOWN_PRICES, ...prices };
+  }
+
+  /**
+   * The price of a model, or null if it is not known (models ending in ":free" cost nothing)
+   */
+  public getPrice(model: string): ModelPrice | null {
+    if (model.endsWith(":free")) return { prompt: 0, completion: 0 };
+    return this.prices[model] ?? null;
+  }
+
+  /**
+   * Estimate the cost of a call in USD (0 for models without a known price)
+   */
+  public estimateCost(
+    model: string,
+    promptTokens: number,
+    completionTokens: number
+  ): number {
+    const price = this.getPrice(model);
+    if (!price) {
+      if (!this.unpricedModels.has(model)) {
+        this.unpricedModels.add(model);
+        console.warn(
+          `⚠️ No price known for model ${model}, its cost is counted as 0 (set LLM_PRICES)`
+        );
+      }
+      return 0;
+    }
+    return (
+      (promptTokens * price.prompt + completionTokens * price.completion) /
+      1_000_000
+    );
+  }
+
+  /**
+   * The model with the lowest known price (the first one if no price is known)
+   */
+  public cheapestModel(models: string[]): string {
+    const total = (model: string): number => {
+      const price = this.getPrice(model);
+      return price ? price.prompt + price.completion : Infinity;
+    };
+    return models.reduce((cheapest, model) =>
+      (total(model) < total(cheapest) ? model : cheapest)
+    );
+  }
+
+  /**
+   * Record an analysis and announce a new degradation level if a budget is now exceeded
+   */
+  public record(
+    entry: Omit<UsageRecord, "timestamp" | "cost">,
+    now = new Date()
+  ): UsageRecord {
+    const record: UsageRecord = {
+      ...entry,
+      timestamp: now.toISOString(),
+      cost: this.estimateCost(
+        entry.model,
+        entry.promptTokens,
+        entry.completionTokens
+      ),
+    };
+    this.records.push(record);
+    this.prune(now);
+    this.checkBudget(now);
+    this.save();
+    return record;
+  }
+
+  /**
+   * How far detection is currently cut back
+   */
+  public getDegradationLevel(now = new Date()): DegradationLevel {
+    return this.getBudgetState(now).level;
+  }
+
+  /**
+   * Usage of today and this month (in the configured time zone) and the budget state
+   */
+  public getSummary(now = new Date()): UsageSummary {
+    const { day, month } = this.getPeriods(now);
+    const monthRecords = this.records.filter(
+      (record) => this.getPeriods(new Date(record.timestamp)).month === month
+    );
+    const group = (key: (record: UsageRecord) => string) => {
+      const groups: Record<string, UsageTotals> = {};
+      for (const record of monthRecords) {
+        groups[key(record)] = this.addTotals(
+          groups[key(record)] || emptyTotals(),
+          record
+        );
+      }
+      return groups;
+    };
+
+    return {
+      today: this.sum(
+        monthRecords.filter(
+          (record) => this.getPeriods(new Date(record.timestamp)).day === day
+        )
+      ),
+      month: this.sum(monthRecords),
+      byModel: group((record) => record.model),
+      byChat: group((record) => record.chatName || record.chatId),
+      byOutcome: group((record) => record.outcome),
+      budget: {
+        dailyUsd: this.configService.getDailyBudget(),
+        monthlyUsd: this.configService.getMonthlyBudget(),
+        level: this.getDegradationLevel(now),
+      },
+    };
+  }
+
+  /**
+   * The degradation level and the period (day or month) whose budget causes it
+   */
+  private getBudgetState(now: Date): {
+    level: DegradationLevel;
+    period: string;
+  } {
+    const { day, month } = this.getPeriods(now);
+    const summary = { today: 0, month: 0 };
+    for (const record of this.records) {
+      const periods = this.getPeriods(new Date(record.timestamp));
+      if (periods.month !== month) continue;
+      summary.month += record.cost;
+      if (periods.day === day) summary.today += record.cost;
+    }
+
+    const daily = this.levelFor(summary.today, this.configService.getDailyBudget());
+    const monthly = this.levelFor(
+      summary.month,
+      this.configService.getMonthlyBudget()
+    );
+    return DEGRADATION_ORDER.indexOf(monthly) >= DEGRADATION_ORDER.indexOf(daily)
+      ? { level: monthly, period: month }
+      : { level: daily, period: day };
+  }
+
+  private levelFor(spent: number, budget: number | null): DegradationLevel {
+    if (!budget || budget <= 0) return "none";
+    const step = DEGRADATION_STEPS.find(({ share }) => spent >= budget * share);
+    return step ? step.level : "none";
+  }
+
+  /**
+   * Announce a degradation level the first time it is reached in its period
+   */
+  private checkBudget(now: Date): void {
+    const { level, period } = this.getBudgetState(now);
+    if (level === "none") return;
+
+    const key = `${level}:${period}`;
+    if (this.announced.includes(key)) return;
+    this.announced.push(key);
+
+    const budget = period.length > 7 ? "daily" : "monthly";
+    const text = `⚠️ The ${budget} LLM budget is exceeded: ${DEGRADATION_NOTICES[level]} until the budget resets.`;
+    console.warn(text);
+    void Promise.resolve(this.announce(text)).catch((error) => {
+      console.error("Error announcing the budget state:", error);
+    });
+  }
+
+  /**
+   * The local day (YYYY-MM-DD) and month (YYYY-MM) of a time, in the configured time zone
+   */
+  private getPeriods(date: Date): { day: string; month: string } {
+    const timeZone = this.configService.getTimezone();
+    if (this.dayFormat?.timeZone !== timeZone) {
+      this.dayFormat = {
+        timeZone,
+        format: new Intl.DateTimeFormat("en-CA", { timeZone }),
+      };
+    }
+    const day = this.dayFormat.format.format(date);
+    return { day, month: day.slice(0, 7) };
+  }
+
+  private sum(records: UsageRecord[]): UsageTotals {
+    return records.reduce(
+      (totals, record) => this.addTotals(totals, record),
+      emptyTotals()
+    );
+  }
+
+  private addTotals(totals: UsageTotals, record: UsageRecord): UsageTotals {
+    return {
+      calls: totals.calls + 1,
+      promptTokens: totals.promptTokens + record.promptTokens,
+      completionTokens: totals.completionTokens + record.completionTokens,
+      imageInputs: totals.imageInputs + record.imageInputs,
+      cost: totals.cost + record.cost,
+    };
+  }
+
+  /**
+   * Drop records and announcements older than the retention period
+   */
+  private prune(now: Date): void {
+    const cutoff = new Date(
+      now.getTime() - RETENTION_DAYS * 24 * 60 * 60 * 1000
+    );
+    this.records = this.records.filter(
+      (record) => new Date(record.timestamp) >= cutoff
+    );
+    const { month } = this.getPeriods(now);
+    this.announced = this.announced.filter((key) =>
+      key.split(":")[1].startsWith(month)
+    );
+  }
+
+  /**
+   * Save usage records to file for persistence across restarts
+   */
+  public save(): void {
+    try {
+      fs.writeFileSync(
+        this.filePath,
+        JSON.stringify(
+          { records: this.records, announced: this.announced },
+          null,
+          2
+        )
+      );
+    } catch (error) {
+      console.error("Error saving usage to file:", error);
+    }
+  }
+
+  /**
+   * Load usage records from file on startup
+   */
+  public load(): void {
+    try {
+      if (!fs.existsSync(this.filePath)) {
+        console.log("No usage file found, starting fresh");
+        return;
+      }
+
+      const data = fs.readFileSync(this.filePath, "utf-8");
+      const parsed = JSON.parse(data) as {
+        records?: UsageRecord[];
+        announced?: string[];
+      };
+      this.records = Array.isArray(parsed.records) ? parsed.records : [];
+      this.announced = Array.isArray(parsed.announced) ? parsed.announced : [];
+      console.log(`Loaded ${this.records.length} usage record(s) from file`);
+    } catch (error) {
+      console.error("Error loading usage from file:", error);
+    }
+  }
+}
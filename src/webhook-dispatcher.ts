@@ -0,0 +1,269 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as crypto from "crypto";
+import type { EventDetails } from "./llm-service";
+import type { EventSource } from "./event-store";
+import type { WebhookEndpoint } from "./config-service";
+
+/**
+ * JSON body POSTed to webhooks for every detected, updated, cancelled or withdrawn event
+ */
+export interface WebhookPayload {
+  action: "create" | "update" | "cancel" | "withdraw";
+  reference: string; // Short event reference (stable across updates)
+  event: EventDetails;
+  source: EventSource;
+  timestamp: string; // ISO time of the change
+}
+
+/**
+ * A queued webhook request
+ */
+export interface WebhookDelivery {
+  id: string; // Sent as X-Webhook-Id so receivers can ignore duplicates
+  url: string;
+  secret?: string; // HMAC key (unsigned if missing)
+  body: string;
+  attempts: number;
+  nextAttemptAt: string; // ISO time of the next attempt
+  lastError?: string;
+}
+
+/**
+ * Counts of webhook deliveries since startup
+ */
+export interface WebhookStats {
+  sent: number;
+  failed: number; // Given up after MAX_ATTEMPTS or a permanent error
+  pending: number;
+}
+
+/**
+ * Validate webhook endpoints from the admin interface
+ * Returns an error message, or null if the endpoints are valid
+ */
+export function validateWebhookEndpoints(value: unknown): string | null {
+  if (!Array.isArray(value)) return "Webhooks must be an array";
+  for (const [index, endpoint] of (
+    value as Partial<WebhookEndpoint>[]
+  ).entries()) {
+    if (
+      typeof endpoint?.url !== "string" ||
+      !/^https?:\/\//.test(endpoint.url)
+    ) {
+      return `Webhook ${index + 1} needs an http(s) URL`;
+    }
+    if (endpoint.secret !== undefined && typeof endpoint.secret !== "string") {
+      return `Webhook ${index + 1}: secret must be a string`;
+    }
+  }
+  return null;
+}
+
+type FetchFunction = (url: string, init: RequestInit) => Promise<Response>;
+
+const MAX_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Sends event webhooks through a persistent queue
+ *
+ * Each request carries X-Webhook-Id, X-Webhook-Timestamp and, when a secret is configured,
+ * X-Webhook-Signature: "sha256=" + HMAC-SHA256 of "<timestamp>.<body>" (hex).
+ * Failed requests are retried with exponential backoff (30s, 1m, 2m, ... up to 1h);
+ * 4xx responses other than 408 and 429 are not retried.
+ * The queue is persisted to webhook_queue.json so pending deliveries survive restarts.
+ */
+export class WebhookDispatcher {
+  private queue: WebhookDelivery[] = [];
+  private readonly filePath: string;
+  private checkInterval: NodeJS.Timeout | null = null;
+  private isProcessing = false;
+  private stats = { sent: 0, failed: 0 };
+
+  constructor(
+    sessionDir?: string,
+    private readonly fetchFn: FetchFunction = (url, init) => fetch(url, init),
+    private readonly checkIntervalMs = 15 * 1000
+  ) {
+    const dir = sessionDir || process.env.BAILEYS_AUTH_DIR || ".baileys_auth";
+    this.filePath = path.join(dir, "webhook_queue.json");
+  }
+
+  /**
+   * Compute the signature header value for a request body
+   */
+  public static sign(secret: string, timestamp: string, body: string): string {
+    const hmac = crypto
+      .createHmac("sha256", secret)
+      .update(`${timestamp}.${body}`)
+      .digest("hex");
+    return `sha256=${hmac}`;
+  }
+
+  /**
+   * Queue a payload for a webhook and try to send it right away
+   */
+  public enqueue(url: string, payload: WebhookPayload, secret?: string): void {
+    this.queue.push({
+      id: crypto.randomUUID(),
+      url,
+      secret: secret || undefined,
+      body: JSON.stringify(payload),
+      attempts: 0,
+      nextAttemptAt: new Date().toISOString(),
+    });
+    this.save();
+    void this.processDue();
+  }
+
+  /**
+   * Pending deliveries, in queue order
+   */
+  public getPending(): WebhookDelivery[] {
+    return [...this.queue];
+  }
+
+  public getStats(): WebhookStats {
+    return { ...this.stats, pending: this.queue.length };
+  }
+
+  /**
+   * Attempt all deliveries that are due
+   * Returns the number of deliveries that succeeded
+   */
+  public async processDue(now = new Date()): Promise<number> {
+    if (this.isProcessing) return 0;
+    this.isProcessing = true;
+
+    let sent = 0;
+    try {
+      const due = this.queue.filter(
+        (delivery) => new Date(delivery.nextAttemptAt) <= now
+      );
+      for (const delivery of due) {
+        if (await this.attempt(delivery, now)) sent++;
+      }
+      if (due.length > 0) this.save();
+    } finally {
+      this.isProcessing = false;
+    }
+    return sent;
+  }
+
+  /**
+   * Start retrying pending deliveries periodically
+   */
+  public start(): void {
+    if (this.checkInterval) return;
+    this.checkInterval = setInterval(() => {
+      void this.processDue();
+    }, this.checkIntervalMs);
+  }
+
+  /**
+   * Stop retrying pending deliveries
+   */
+  public stop(): void {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+  }
+
+  /**
+   * Save the queue to file for persistence across restarts
+   */
+  public save(): void {
+    try {
+      fs.writeFileSync(this.filePath, JSON.stringify(this.queue, null, 2));
+    } catch (error) {
+      console.error("Error saving webhook queue to file:", error);
+    }
+  }
+
+  /**
+   * Load the queue from file on startup
+   */
+  public load(): void {
+    try {
+      if (!fs.existsSync(this.filePath)) return;
+      const data = fs.readFileSync(this.filePath, "utf-8");
+      this.queue = JSON.parse(data) as WebhookDelivery[];
+      if (this.queue.length > 0) {
+        console.log(`Loaded ${this.queue.length} pending webhook delivery(s)`);
+      }
+    } catch (error) {
+      console.error("Error loading webhook queue from file:", error);
+    }
+  }
+
+  /**
+   * Send one delivery, rescheduling or dropping it on failure
+   * Returns true if it was delivered
+   */
+  private async attempt(delivery: WebhookDelivery, now: Date): Promise<boolean> {
+    const timestamp = Math.floor(now.getTime() / 1000).toString();
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      "User-Agent": "whatsapp-me-webhooks",
+      "X-Webhook-Id": delivery.id,
+      "X-Webhook-Timestamp": timestamp,
+    };
+    if (delivery.secret) {
+      headers["X-Webhook-Signature"] = WebhookDispatcher.sign(
+        delivery.secret,
+        timestamp,
+        delivery.body
+      );
+    }
+
+    let retryable = true;
+    try {
+      const response = await this.fetchFn(delivery.url, {
+        method: "POST",
+        headers,
+        body: delivery.body,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      if (response.ok) {
+        this.remove(delivery);
+        this.stats.sent++;
+        return true;
+      }
+      delivery.lastError = `HTTP ${response.status}`;
+      retryable =
+        response.status >= 500 ||
+        response.status === 408 ||
+        response.status === 429;
+    } catch (error) {
+      delivery.lastError = error instanceof Error ? error.message : String(error);
+    }
+
+    delivery.attempts++;
+    if (!retryable || delivery.attempts >= MAX_ATTEMPTS) {
+      console.error(
+        `❌ Webhook ${delivery.url} failed after ${delivery.attempts} attempt(s) (${delivery.lastError}), dropping: ${delivery.body}`
+      );
+      this.remove(delivery);
+      this.stats.failed++;
+      return false;
+    }
+
+    const delay = Math.min(
+      BASE_RETRY_DELAY_MS * 2 ** (delivery.attempts - 1),
+      MAX_RETRY_DELAY_MS
+    );
+    delivery.nextAttemptAt = new Date(now.getTime() + delay).toISOString();
+    console.warn(
+      `⚠️ Webhook ${delivery.url} failed (${delivery.lastError}), retry ${delivery.attempts}/${MAX_ATTEMPTS - 1} at ${delivery.nextAttemptAt}`
+    );
+    return false;
+  }
+
+  private remove(delivery: WebhookDelivery): void {
+    this.queue = this.queue.filter((pending) => pending !== delivery);
+  }
+}
@@ -8,6 +8,8 @@ import makeWASocket, {
   WAMessage,
   Browsers,
   downloadMediaMessage,
+  decryptPollVote,
+  proto,
   type GroupMetadata,
   type WAConnectionState,
   type Chat,
@@ -21,8 +23,75 @@ import * as crypto from "crypto";
 import * as qrcode from "qrcode-terminal";
 import * as QRCode from "qrcode";
 import NodeCache from "node-cache";
-import { LLMService, type EventDetails } from "./llm-service";
+import {
+  LLMService,
+  type EventDetails,
+  type KnownEventReference,
+  type QuotedMessage,
+  type PollResult,
+} from "./llm-service";
 import { ConfigService } from "./config-service";
+import { getLabels } from "./locale";
+import {
+  EventStore,
+  sourceChatNames,
+  type EventDelivery,
+  type EventSource,
+  type EventStatus,
+  type StoredEvent,
+} from "./event-store";
+import {
+  eventMatchSettingsFromEnv,
+  findMatchingEvent,
+  type EventMatchSettings,
+} from "./event-matcher";
+import { ReminderScheduler, type Reminder } from "./reminder-scheduler";
+import { DigestService } from "./digest-service";
+import { DateResolver } from "./date-resolver";
+import { CommandHandler } from "./command-handler";
+import {
+  ApprovalQueue,
+  applyEventEdit,
+  parseApprovalReply,
+  type PendingEvent,
+} from "./approval-queue";
+import { WebhookDispatcher } from "./webhook-dispatcher";
+import { CalDavClient } from "./caldav-client";
+import {
+  DocumentExtractor,
+  documentLimitsFromEnv,
+  type ExtractedDocument,
+} from "./document-extractor";
+import { eventDetailsFromEventMessage } from "./native-event";
+import { UsageTracker } from "./usage-tracker";
+import {
+  MessagePrefilter,
+  prefilterSettingsFromEnv,
+} from "./message-prefilter";
+import {
+  ResponseCache,
+  responseCacheSettingsFromEnv,
+} from "./response-cache";
+import {
+  ConversationBuffer,
+  conversationSettingsFromEnv,
+  formatConversationMessage,
+  type ConversationMessage,
+} from "./conversation-buffer";
+import {
+  PollTracker,
+  pollSettingsFromEnv,
+  type PollDecision,
+} from "./poll-tracker";
+import {
+  createTranscriptionProvider,
+  type TranscriptionProvider,
+} from "./transcription-provider";
+import {
+  destinationJid,
+  resolveDestinations,
+  type RouteDestination,
+} from "./event-router";
 
 // Type for cached group data persisted to file
 interface PersistedCacheData {
@@ -30,20 +99,25 @@ interface PersistedCacheData {
   savedAt: number;
 }
 
-// Type for tracking created events
-interface CreatedEvent {
-  fingerprint: string;
-  title: string;
-  startDateISO: string;
-  createdAt: number;
-}
-
 // Type for tracking recent image messages to detect photo floods
 interface ImageMessageTimestamp {
   timestamp: number;
   hasCaption: boolean;
 }
 
+// Type for a text message waiting in a chat's burst before it is analyzed
+interface BatchedMessage extends ConversationMessage {
+  messageId: string | null;
+  quotedMessage: QuotedMessage | null;
+}
+
+// Type for the burst of messages of a chat, analyzed together after a quiet period
+interface PendingBatch {
+  chatName: string;
+  messages: BatchedMessage[];
+  timer: NodeJS.Timeout;
+}
+
 // Type for connection update from Baileys
 interface BaileysConnectionUpdate {
   connection?: WAConnectionState;
@@ -62,6 +136,22 @@ interface MessagesUpsert {
 
 type WASocketType = ReturnType<typeof makeWASocket>;
 
+// Changes to an announced event: updated or cancelled by a later message, or withdrawn
+// because the message it was detected from was deleted
+type EventChange = "update" | "cancel" | "withdraw";
+
+const EVENT_CHANGE_STATUS: Record<EventChange, EventStatus> = {
+  update: "active",
+  cancel: "cancelled",
+  withdraw: "withdrawn",
+};
+
+const EVENT_CHANGE_NAMES: Record<EventChange, string> = {
+  update: "update",
+  cancel: "cancellation",
+  withdraw: "withdrawal",
+};
+
 export class WhatsAppClient {
   private socket: WASocketType | null = null;
   private isReady = false;
@@ -70,7 +160,6 @@ export class WhatsAppClient {
   private maxReconnectAttempts = 3;
   private readonly sessionDir = process.env.BAILEYS_AUTH_DIR || ".baileys_auth";
   private readonly cacheFilePath: string;
-  private readonly eventsFilePath: string;
   private llmService: LLMService;
   private configService: ConfigService;
   private targetGroupName = "אני"; // Default target group name (can be overridden via TARGET_GROUP_NAME env var)
@@ -79,8 +168,28 @@ export class WhatsAppClient {
   private connectionState: WAConnectionState = "close";
   private groupCache: NodeCache;
   private cacheFlushInterval: NodeJS.Timeout | null = null;
-  private createdEvents = new Map<string, CreatedEvent>();
+  private eventStore: EventStore;
+  private reminderScheduler: ReminderScheduler;
+  private digestService: DigestService;
+  private webhookDispatcher: WebhookDispatcher;
+  private caldavClient: CalDavClient;
+  private documentExtractor: DocumentExtractor;
+  private pollTracker: PollTracker;
+  private transcriptionProvider: TranscriptionProvider | null;
+  private commandHandler: CommandHandler;
+  private approvalQueue: ApprovalQueue;
+  private ownMessageIds = new Set<string>(); // Command replies and drafts, skipped when they come back in the self-chat
+  private conversationBuffer: ConversationBuffer;
+  private usageTracker: UsageTracker;
+  private prefilter: MessagePrefilter;
+  private responseCache: ResponseCache;
+  private pendingBatches = new Map<string, PendingBatch>();
+  private readonly batchWindowMs: number; // Quiet period before a burst of text messages is analyzed (0 = analyze each message)
+  private readonly MAX_BATCH_MESSAGES = 20; // A longer burst is analyzed without waiting for it to end
+  private readonly maxVoiceNoteSeconds: number;
   private readonly EVENT_RETENTION_DAYS = 30; // Keep events for 30 days
+  private readonly eventMatchSettings: EventMatchSettings; // When two announcements are the same event
+  private readonly MAX_KNOWN_EVENTS = 10; // Upcoming events offered to the LLM as update/cancel targets
   private recentImageMessages = new Map<string, ImageMessageTimestamp[]>();
   private readonly PHOTO_FLOOD_THRESHOLD = 3; // Number of photos to consider a flood
   private readonly PHOTO_FLOOD_WINDOW_MS = 30000; // 30 seconds window
@@ -91,8 +200,75 @@ export class WhatsAppClient {
     this.configService = configService || new ConfigService();
     this.groupCache = new NodeCache({ stdTTL: 30 * 60, useClones: false }); // 30 minute TTL
     this.cacheFilePath = path.join(this.sessionDir, "group_cache.json");
-    this.eventsFilePath = path.join(this.sessionDir, "created_events.json");
-    this.llmService = new LLMService(this.configService);
+    this.eventStore = new EventStore(this.sessionDir, this.EVENT_RETENTION_DAYS);
+    this.eventMatchSettings = eventMatchSettingsFromEnv();
+    this.reminderScheduler = new ReminderScheduler(
+      (reminder) => this.sendReminder(reminder),
+      this.sessionDir
+    );
+    this.webhookDispatcher = new WebhookDispatcher(this.sessionDir);
+    this.caldavClient = new CalDavClient(
+      this.configService,
+      undefined,
+      this.sessionDir
+    );
+    this.documentExtractor = new DocumentExtractor(documentLimitsFromEnv());
+    const pollSettings = pollSettingsFromEnv();
+    this.pollTracker = new PollTracker(
+      (decision) => this.handlePollDecision(decision),
+      this.sessionDir,
+      pollSettings.majority,
+      pollSettings.closeAfterHours
+    );
+    this.approvalQueue = new ApprovalQueue(this.sessionDir);
+    this.transcriptionProvider = createTranscriptionProvider();
+    this.maxVoiceNoteSeconds =
+      Number(process.env.TRANSCRIPTION_MAX_SECONDS) || 300;
+    this.digestService = new DigestService(
+      this.eventStore,
+      this.configService,
+      (text) => this.sendDigest(text),
+      (event) => this.isForTargetGroup(event),
+      this.sessionDir
+    );
+    this.commandHandler = new CommandHandler(
+      this.configService,
+      this.eventStore,
+      this.reminderScheduler,
+      this.webhookDispatcher,
+      this.digestService,
+      this
+    );
+    const conversationSettings = conversationSettingsFromEnv();
+    this.conversationBuffer = new ConversationBuffer(
+      this.sessionDir,
+      conversationSettings.maxMessages,
+      conversationSettings.maxAgeHours
+    );
+    this.batchWindowMs = conversationSettings.batchWindowSeconds * 1000;
+    this.usageTracker = new UsageTracker(
+      this.configService,
+      (text) => this.announceBudgetState(text),
+      this.sessionDir
+    );
+    this.prefilter = new MessagePrefilter(
+      prefilterSettingsFromEnv(),
+      this.sessionDir
+    );
+    const responseCacheSettings = responseCacheSettingsFromEnv();
+    this.responseCache = new ResponseCache(
+      this.sessionDir,
+      responseCacheSettings.ttlHours,
+      responseCacheSettings.maxEntries
+    );
+    this.llmService = new LLMService(
+      this.configService,
+      undefined,
+      undefined,
+      this.conversationBuffer,
+      this.usageTracker,
+      this.responseCache
+    );
 
     // Configure target group from environment variables
     this.configureTargetGroup();
@@ -106,20 +282,65 @@ export class WhatsAppClient {
     // Load persisted events
     this.loadEventsFromFile();
 
+    // Load the recent conversation of each chat
+    this.conversationBuffer.load();
+
+    // Load LLM usage of this month (for the budgets)
+    this.usageTracker.load();
+
+    // Load the pre-filter's skip counts
+    this.prefilter.load();
+
+    // Load cached analysis results (identical messages are not analyzed again)
+    this.responseCache.load();
+
+    // Load pending reminders and start checking for due ones
+    this.reminderScheduler.load();
+    this.reminderScheduler.start();
+
+    // Load the last sent digest and start checking for the next one
+    this.digestService.load();
+    this.digestService.start();
+
+    // Load pending webhook deliveries and keep retrying them
+    this.webhookDispatcher.load();
+    this.webhookDispatcher.start();
+
+    // Load pending calendar changes and keep retrying them
+    this.caldavClient.load();
+    this.caldavClient.start();
+
+    // Load open polls and close them when their time is up
+    this.pollTracker.load();
+    this.pollTracker.start();
+
+    // Load drafts waiting for approval and drop them when they expire
+    this.approvalQueue.load();
+    this.approvalQueue.start();
+
     // Set up periodic cache saving (every 5 minutes)
     this.cacheFlushInterval = setInterval(() => {
       this.saveCacheToFile();
       this.saveEventsToFile();
+      this.conversationBuffer.save();
+      this.prefilter.save();
+      this.responseCache.save();
     }, 5 * 60 * 1000);
 
     // Save cache on process exit
     process.on("SIGTERM", () => {
       this.saveCacheToFile();
       this.saveEventsToFile();
+      this.conversationBuffer.save();
+      this.prefilter.save();
+      this.responseCache.save();
     });
     process.on("SIGINT", () => {
       this.saveCacheToFile();
       this.saveEventsToFile();
+      this.conversationBuffer.save();
+      this.prefilter.save();
+      this.responseCache.save();
     });
   }
 
@@ -259,95 +480,127 @@ export class WhatsAppClient {
   }
 
   /**
-   * Check if an event was already created
+   * The active stored event an event repeats: one with the same fingerprint, or one
+   * starting at about the same time with a similar title and location (see event-matcher.ts)
+   * Cancelled and withdrawn events are not matched, so announcing them again sends them again.
    */
-  private isEventAlreadyCreated(event: EventDetails): boolean {
-    const fingerprint = this.generateEventFingerprint(event);
-    return this.createdEvents.has(fingerprint);
+  private findDuplicateEvent(event: EventDetails): StoredEvent | undefined {
+    const exact = this.eventStore.findByFingerprint(
+      this.generateEventFingerprint(event)
+    );
+    if (exact?.status === "active") return exact;
+    const start = event.startDateISO
+      ? new Date(event.startDateISO).getTime()
+      : NaN;
+    if (isNaN(start)) return undefined;
+
+    const tolerance = this.eventMatchSettings.toleranceMinutes * 60 * 1000;
+    const candidates = this.eventStore
+      .query({
+        from: new Date(start - tolerance).toISOString(),
+        to: new Date(start + tolerance).toISOString(),
+      })
+      .filter((stored) => stored.status === "active");
+    return findMatchingEvent(event, candidates, this.eventMatchSettings);
+  }
+
+  /**
+   * Merge a repeated announcement into the stored event instead of sending a new message
+   * An announcement from another chat adds that chat to the event's sources.
+   */
+  private mergeDuplicateEvent(
+    existing: StoredEvent,
+    event: EventDetails,
+    source: EventSource,
+    record: boolean
+  ): void {
+    const merged =
+      record && source.chatId
+        ? this.eventStore.addSource(existing.fingerprint, source)
+        : undefined;
+    if (!merged) {
+      console.log(
+        `⚠️ Duplicate event detected, skipping: ${event.title} at ${event.startDateISO}`
+      );
+      return;
+    }
+    console.log(
+      `🔗 "${event.title}" from ${source.chatName} is the same event as "${existing.details.title}", merged (sources: ${sourceChatNames(merged).join(", ")})`
+    );
+    this.syncCalendarEvent(existing.fingerprint);
   }
 
   /**
-   * Mark an event as created
+   * Mark an event as created, recording where it came from
+   * Returns the event's fingerprint
    */
-  private markEventAsCreated(event: EventDetails): void {
+  private markEventAsCreated(
+    event: EventDetails,
+    source?: EventSource,
+    model?: string | null,
+    deliveries: EventDelivery[] = []
+  ): string {
     const fingerprint = this.generateEventFingerprint(event);
-    this.createdEvents.set(fingerprint, {
+    this.eventStore.add({
       fingerprint,
-      title: event.title || "",
-      startDateISO: event.startDateISO || "",
+      details: this.stripEventAction(event),
+      source: source ?? {
+        chatId: "",
+        chatName: "",
+        sender: "",
+        messageId: null,
+        messageText: "",
+      },
+      model: model ?? null,
+      detectedAt: new Date().toISOString(),
       createdAt: Date.now(),
+      status: "active",
+      deliveries,
     });
+    return fingerprint;
   }
 
   /**
-   * Save created events to file for persistence across restarts
+   * Remove the update/cancel fields the LLM attaches, keeping only the event details
    */
-  private saveEventsToFile(): void {
-    try {
-      // Clean up old events before saving
-      this.cleanupOldEvents();
-
-      const eventsArray = Array.from(this.createdEvents.values());
-      
-      if (eventsArray.length > 0) {
-        fs.writeFileSync(
-          this.eventsFilePath,
-          JSON.stringify(eventsArray, null, 2)
-        );
-        console.log(`Saved ${eventsArray.length} event(s) to events file`);
-      }
-    } catch (error) {
-      console.error("Error saving events to file:", error);
-    }
+  private stripEventAction(event: EventDetails): EventDetails {
+    const { action: _action, relatedEventId: _relatedEventId, ...details } =
+      event;
+    return details;
   }
 
   /**
-   * Load created events from file on startup
+   * Upcoming events from a chat, passed to the LLM so it can recognize updates and cancellations
    */
-  private loadEventsFromFile(): void {
-    try {
-      if (!fs.existsSync(this.eventsFilePath)) {
-        console.log("No events file found, starting fresh");
-        return;
-      }
-
-      const data = fs.readFileSync(this.eventsFilePath, "utf-8");
-      const eventsArray = JSON.parse(data) as CreatedEvent[];
-
-      const maxAge = this.EVENT_RETENTION_DAYS * 24 * 60 * 60 * 1000;
-      let loadedCount = 0;
-      let expiredCount = 0;
+  private getKnownEventsForChat(chatId: string): KnownEventReference[] {
+    return this.eventStore
+      .query({ chat: chatId, from: new Date().toISOString() })
+      .filter((stored) => stored.status === "active")
+      .slice(0, this.MAX_KNOWN_EVENTS)
+      .map((stored) => this.toKnownEventReference(stored));
+  }
 
-      for (const event of eventsArray) {
-        // Only load if not too old
-        if (Date.now() - event.createdAt < maxAge) {
-          this.createdEvents.set(event.fingerprint, event);
-          loadedCount++;
-        } else {
-          expiredCount++;
-        }
-      }
+  private toKnownEventReference(stored: StoredEvent): KnownEventReference {
+    return {
+      id: EventStore.referenceFor(stored.fingerprint),
+      title: stored.details.title,
+      startDateISO: stored.details.startDateISO,
+      location: stored.details.location,
+    };
+  }
 
-      console.log(
-        `Loaded ${loadedCount} event(s) from events file (${expiredCount} expired)`
-      );
-    } catch (error) {
-      console.error("Error loading events from file:", error);
-    }
+  /**
+   * Save created events to file for persistence across restarts
+   */
+  private saveEventsToFile(): void {
+    this.eventStore.save();
   }
 
   /**
-   * Clean up events older than EVENT_RETENTION_DAYS
+   * Load created events from file on startup
    */
-  private cleanupOldEvents(): void {
-    const maxAge = this.EVENT_RETENTION_DAYS * 24 * 60 * 60 * 1000;
-    const now = Date.now();
-    
-    for (const [fingerprint, event] of this.createdEvents.entries()) {
-      if (now - event.createdAt > maxAge) {
-        this.createdEvents.delete(fingerprint);
-      }
-    }
+  private loadEventsFromFile(): void {
+    this.eventStore.load();
   }
 
   /**
@@ -672,23 +925,87 @@ export class WhatsAppClient {
       const isSelfChat = message.key.fromMe && !isGroup;
       if (!isGroup && !isSelfChat) return;
 
+      // Commands sent from the self-chat or the target group control the bot
+      if (message.key.fromMe && message.key.id) {
+        if (this.ownMessageIds.delete(message.key.id)) return;
+
+        const text =
+          message.message.conversation ||
+          message.message.extendedTextMessage?.text ||
+          "";
+        if (CommandHandler.isCommand(text) && this.isCommandChat(chatId)) {
+          await this.handleCommand(chatId, text);
+          return;
+        }
+
+        // Answers to drafts waiting for approval
+        if (
+          this.isSelfChat(chatId) &&
+          (await this.handleApprovalReply(message, chatId, text))
+        ) {
+          return;
+        }
+      }
+
       // In groups, skip our own messages to avoid loops
       if (isGroup && message.key.fromMe) return;
 
       const messageType = getContentType(message.message);
+
+      // Polls are tracked until their votes decide an event
+      if (
+        messageType === "pollCreationMessage" ||
+        messageType === "pollCreationMessageV2" ||
+        messageType === "pollCreationMessageV3"
+      ) {
+        await this.trackPoll(message, chatId, Boolean(isGroup));
+        return;
+      }
+      if (messageType === "pollUpdateMessage") {
+        await this.recordPollVote(message);
+        return;
+      }
+
+      // Edits and deletions can change the events detected from a message
+      if (
+        messageType === "protocolMessage" ||
+        messageType === "editedMessage"
+      ) {
+        await this.handleProtocolMessage(message, chatId, Boolean(isGroup));
+        return;
+      }
+
+      // Native WhatsApp events already have structured details, no LLM call needed
+      if (messageType === "eventMessage") {
+        await this.ingestNativeEvent(message, chatId, Boolean(isGroup));
+        return;
+      }
+
       if (
         !messageType ||
         (messageType !== "conversation" &&
           messageType !== "extendedTextMessage" &&
-          messageType !== "imageMessage")
+          messageType !== "imageMessage" &&
+          messageType !== "documentMessage" &&
+          messageType !== "documentWithCaptionMessage" &&
+          messageType !== "audioMessage")
       ) {
-        return; // Only process text and image messages
+        return; // Only process text, image, document and voice messages
       }
 
-      // Extract message text and/or image
+      // Get chat and contact information
+      const { chatName, contactName, participants } = await this.getChatInfo(
+        chatId,
+        Boolean(isGroup),
+        message.key.participant || ""
+      );
+
+      // Extract message text and/or image or document
       let messageText = "";
       let imageBase64: string | null = null;
       let imageMimeType: string | null = null;
+      let document: ExtractedDocument | null = null;
+      let transcribed = false;
 
       if (messageType === "conversation") {
         messageText = message.message.conversation || "";
@@ -711,27 +1028,98 @@ export class WhatsAppClient {
 
         // Download the image
         try {
-          if (!this.socket) throw new Error("Socket not connected");
-          const buffer = await downloadMediaMessage(
-            message,
-            "buffer",
-            {},
-            {
-              logger: pino({ level: "silent" }),
-              reuploadRequest: this.socket.updateMediaMessage,
-            }
-          );
-          if (buffer) {
-            imageBase64 = buffer.toString("base64");
-            console.log(`Downloaded image (${buffer.length} bytes)`);
-          }
+          const buffer = await this.downloadMedia(message);
+          imageBase64 = buffer.toString("base64");
+          console.log(`Downloaded image (${buffer.length} bytes)`);
         } catch (error) {
           console.error("Error downloading image:", error);
         }
+      } else if (
+        messageType === "documentMessage" ||
+        messageType === "documentWithCaptionMessage"
+      ) {
+        // Documents with a caption are wrapped in documentWithCaptionMessage
+        const documentMessage =
+          message.message.documentMessage ||
+          message.message.documentWithCaptionMessage?.message?.documentMessage;
+        if (!documentMessage) return;
+
+        messageText = documentMessage.caption || "";
+        const fileName =
+          documentMessage.fileName || documentMessage.title || "document";
+        const mimeType = documentMessage.mimetype || null;
+
+        if (!this.documentExtractor.isSupported(mimeType, fileName)) {
+          console.log(
+            `Skipping unsupported document "${fileName}" (${mimeType})`
+          );
+          return;
+        }
+        const fileLength =
+          typeof documentMessage.fileLength === "number"
+            ? documentMessage.fileLength
+            : (documentMessage.fileLength?.toNumber() ?? 0);
+        if (this.documentExtractor.isTooLarge(fileLength)) {
+          console.log(
+            `⚠️ Document "${fileName}" is too large (${fileLength} bytes), skipping LLM analysis`
+          );
+          return;
+        }
+
+        // Download the document and extract its text
+        try {
+          const buffer = await this.downloadMedia(message);
+          console.log(
+            `Downloaded document "${fileName}" (${buffer.length} bytes)`
+          );
+          document = await this.documentExtractor.extract(
+            buffer,
+            mimeType,
+            fileName
+          );
+        } catch (error) {
+          console.error("Error reading document:", error);
+        }
+        if (!document) return;
+      } else if (messageType === "audioMessage") {
+        // Voice notes are transcribed and then handled like text messages
+        const audioMessage = message.message.audioMessage;
+        if (!audioMessage || !this.transcriptionProvider) return;
+
+        // Audio of chats that are not monitored is never downloaded or sent out
+        if (!this.llmService.isChatAllowed(chatName || chatId, Boolean(isGroup))) {
+          console.log(
+            `Skipping voice note from chat "${chatName}" - not in allowed list`
+          );
+          return;
+        }
+
+        const seconds = audioMessage.seconds || 0;
+        if (seconds > this.maxVoiceNoteSeconds) {
+          console.log(
+            `⚠️ Voice note is too long (${seconds}s), skipping transcription`
+          );
+          return;
+        }
+
+        try {
+          const buffer = await this.downloadMedia(message);
+          messageText = await this.transcriptionProvider.transcribe(
+            buffer,
+            audioMessage.mimetype || "audio/ogg; codecs=opus"
+          );
+          transcribed = true;
+          console.log(
+            `🎤 Transcribed voice note (${seconds}s) with ${this.transcriptionProvider.name}`
+          );
+        } catch (error) {
+          console.error("Error transcribing voice note:", error);
+          return;
+        }
       }
 
-      // Skip if no text and no image
-      if (!messageText.trim() && !imageBase64) return;
+      // Skip if no text, no image and no document
+      if (!messageText.trim() && !imageBase64 && !document) return;
 
       // Skip messages that are event summaries to avoid loops
       if (
@@ -746,30 +1134,8 @@ export class WhatsAppClient {
 
       const timestamp = new Date().toLocaleTimeString();
 
-      let chatName = "";
-      let contactName = "Unknown";
-
-      // Get chat and contact information
-      try {
-        if (isGroup && this.socket) {
-          const groupMetadata = await this.socket.groupMetadata(chatId);
-          chatName = groupMetadata.subject || "Unknown Group";
-
-          // Find the participant who sent the message
-          const participant = groupMetadata.participants.find(
-            (p: GroupParticipant) =>
-              jidNormalizedUser(p.id) ===
-              jidNormalizedUser(message.key.participant || "")
-          );
-          contactName =
-            participant?.notify || participant?.id?.split("@")[0] || "Unknown";
-        } else {
-          chatName = chatId.split("@")[0];
-          contactName = chatName;
-        }
-      } catch (error) {
-        console.error("Error getting chat/contact info:", error);
-      }
+      // A reply is analyzed together with the message it quotes
+      const quotedMessage = this.getQuotedMessage(message, participants);
 
       // Log the message
       console.log(`\n--------------------------------`);
@@ -780,7 +1146,41 @@ export class WhatsAppClient {
       );
 
       // Add message to history for this chat
-      this.llmService.addMessageToHistory(chatId, messageText);
+      let historyText = messageText;
+      if (document) {
+        historyText = `📄 ${document.fileName} ${messageText}`.trim();
+      } else if (transcribed) {
+        historyText = `🎤 ${messageText}`;
+      }
+      const seconds =
+        typeof message.messageTimestamp === "number"
+          ? message.messageTimestamp
+          : (message.messageTimestamp?.toNumber() ?? 0);
+      const sentAt = seconds > 0 ? new Date(seconds * 1000) : new Date();
+      this.addToHistory(chatId, chatName, historyText, contactName, sentAt);
+
+      // Text messages wait for the rest of their burst and are analyzed together
+      if (this.batchWindowMs > 0 && !imageBase64 && !document && !transcribed) {
+        this.addToBatch(chatId, chatName, {
+          sender: contactName,
+          text: messageText,
+          timestamp: sentAt.toISOString(),
+          messageId: message.key.id ?? null,
+          quotedMessage,
+        });
+        return;
+      }
+
+      // Other messages are analyzed right away, after the burst they follow
+      await this.flushBatch(chatId);
+
+      if (
+        !imageBase64 &&
+        !document &&
+        !this.passesPrefilter(chatId, chatName, messageText, quotedMessage)
+      ) {
+        return;
+      }
 
       // Process the message (shared logic with test endpoint)
       await this.processMessageForEvents(
@@ -789,86 +1189,938 @@ export class WhatsAppClient {
         chatName,
         contactName,
         imageBase64,
-        imageMimeType
+        imageMimeType,
+        true,
+        message.key.id ?? null,
+        document,
+        transcribed,
+        quotedMessage
       );
     } catch (error) {
       console.error("Error handling incoming message:", error);
     }
   }
 
-  private async findTargetGroup(): Promise<void> {
-    if (!this.socket || !this.isReady) return;
+  /**
+   * Add a text message to its chat's burst and restart the quiet period
+   * A burst that reaches MAX_BATCH_MESSAGES is analyzed right away.
+   */
+  private addToBatch(
+    chatId: string,
+    chatName: string,
+    message: BatchedMessage
+  ): void {
+    const existing = this.pendingBatches.get(chatId);
+    if (existing) {
+      clearTimeout(existing.timer);
+    }
+    const messages = [...(existing?.messages || []), message];
+    const timer = setTimeout(() => {
+      void this.flushBatch(chatId);
+    }, this.batchWindowMs);
+    this.pendingBatches.set(chatId, { chatName, messages, timer });
+
+    if (messages.length >= this.MAX_BATCH_MESSAGES) {
+      void this.flushBatch(chatId);
+    }
+  }
 
-    try {
-      // If we already have the target group ID from environment variables, no need to search
-      if (this.targetGroupId) {
-        console.log(
-          `Target group ID already configured: ${this.targetGroupId}`
-        );
-        return;
-      }
+  /**
+   * Whether a text message (or burst) is worth an LLM call, by the local pre-filter
+   * Messages of chats that are not monitored are left for the LLM service to reject.
+   */
+  private passesPrefilter(
+    chatId: string,
+    chatName: string,
+    text: string,
+    quotedMessage: QuotedMessage | null
+  ): boolean {
+    if (
+      !this.prefilter.isEnabled() ||
+      !this.llmService.isChatAllowed(chatName || chatId)
+    ) {
+      return true;
+    }
 
-      console.log(`Looking for target group: "${this.targetGroupName}"`);
+    const verdict = this.prefilter.check(text, quotedMessage?.text);
+    this.prefilter.record(chatName || chatId, text, verdict);
+    if (!verdict.analyze) {
+      console.log(`⏭️ Skipping LLM analysis (pre-filter: ${verdict.reason})`);
+    }
+    return verdict.analyze;
+  }
 
-      // Actively search for the group by fetching all participating groups
-      const groups = await this.socket.groupFetchAllParticipating();
-      console.log(
-        `Found ${Object.keys(groups).length} groups. Searching for "${
-          this.targetGroupName
-        }"...`
-      );
+  /**
+   * Analyze a chat's burst of messages as one exchange
+   * A single message is analyzed as it is; several are joined into one message, one line each.
+   */
+  private async flushBatch(chatId: string): Promise<void> {
+    const batch = this.pendingBatches.get(chatId);
+    if (!batch) return;
+    clearTimeout(batch.timer);
+    this.pendingBatches.delete(chatId);
 
-      for (const [groupId, groupMetadata] of Object.entries(groups)) {
-        console.log(`  - Group: "${groupMetadata.subject}" (ID: ${groupId})`);
-        if (groupMetadata.subject === this.targetGroupName) {
-          this.targetGroupId = groupId;
-          console.log(
-            `✅ Found target group "${this.targetGroupName}" with ID: ${this.targetGroupId}`
-          );
-          return;
-        }
-      }
+    const { chatName, messages } = batch;
+    const last = messages[messages.length - 1];
+    const quotedMessage =
+      [...messages].reverse().find((message) => message.quotedMessage)
+        ?.quotedMessage ?? null;
 
-      // If not found by exact match, try partial match
-      for (const [groupId, groupMetadata] of Object.entries(groups)) {
-        if (
-          groupMetadata.subject?.includes(this.targetGroupName) ||
-          this.targetGroupName.includes(groupMetadata.subject || "")
-        ) {
-          this.targetGroupId = groupId;
-          console.log(
-            `✅ Found target group (partial match) "${groupMetadata.subject}" with ID: ${this.targetGroupId}`
-          );
-          return;
-        }
+    const text = messages.map((message) => message.text).join("\n");
+    if (!this.passesPrefilter(chatId, chatName, text, quotedMessage)) return;
+
+    try {
+      if (messages.length === 1) {
+        await this.processMessageForEvents(
+          chatId,
+          last.text,
+          chatName,
+          last.sender,
+          null,
+          null,
+          true,
+          last.messageId,
+          null,
+          false,
+          quotedMessage
+        );
+        return;
       }
 
       console.log(
-        `❌ Target group "${this.targetGroupName}" not found. Available groups listed above.`
+        `📦 Analyzing a burst of ${messages.length} messages in ${chatName}`
+      );
+      const timezone = this.configService.getTimezone();
+      await this.processMessageForEvents(
+        chatId,
+        messages
+          .map((message) => formatConversationMessage(message, timezone))
+          .join("\n"),
+        chatName,
+        [...new Set(messages.map((message) => message.sender))].join(", "),
+        null,
+        null,
+        true,
+        last.messageId,
+        null,
+        false,
+        quotedMessage,
+        null,
+        messages.length,
+        messages
+          .map((message) => message.messageId)
+          .filter((messageId): messageId is string => messageId !== null)
       );
     } catch (error) {
-      console.error("Error finding target group:", error);
+      console.error("Error analyzing message burst:", error);
     }
   }
 
-  private async sendMessageToGroup(
-    groupId: string,
-    message: string
-  ): Promise<void> {
-    if (!this.socket || !this.isReady) {
-      console.error("WhatsApp socket not ready");
-      return;
-    }
+  /**
+   * Check if a chat is the chat with ourselves ("Message yourself")
+   */
+  private isSelfChat(chatId: string): boolean {
+    const user = this.socket?.user;
+    return [user?.id, user?.lid].some(
+      (jid) => jid && jidNormalizedUser(jid) === jidNormalizedUser(chatId)
+    );
+  }
 
-    try {
-      await this.socket.sendMessage(groupId, { text: message });
-    } catch (error) {
-      console.error("Error sending message to group:", error);
-    }
+  /**
+   * The ID of the chat with ourselves, or null when not connected
+   */
+  private getSelfChatId(): string | null {
+    const userId = this.socket?.user?.id;
+    return userId ? jidNormalizedUser(userId) : null;
   }
 
   /**
-   * Process a message for event detection (shared by real messages and test endpoint)
+   * Check if commands are accepted in a chat: the self-chat and the target group
+   */
+  private isCommandChat(chatId: string): boolean {
+    return chatId === this.targetGroupId || this.isSelfChat(chatId);
+  }
+
+  /**
+   * Run a command and reply in the chat it was sent in
+   */
+  private async handleCommand(chatId: string, text: string): Promise<void> {
+    console.log(`🤖 Command: ${text}`);
+    const reply = await this.commandHandler.handle(text);
+    if (!this.socket) return;
+
+    const sent = await this.socket.sendMessage(chatId, { text: reply });
+    if (sent?.key.id) {
+      this.ownMessageIds.add(sent.key.id);
+    }
+  }
+
+  /**
+   * Approve, edit or drop a draft in reply to it (or to the latest draft when no draft is quoted)
+   * Returns false if the message is not an answer to a draft
+   */
+  private async handleApprovalReply(
+    message: WAMessage,
+    chatId: string,
+    text: string
+  ): Promise<boolean> {
+    const reply = parseApprovalReply(text);
+    if (!reply) return false;
+
+    const quotedId = message.message?.extendedTextMessage?.contextInfo?.stanzaId;
+    const pending = quotedId
+      ? this.approvalQueue.findByDraftMessage(quotedId)
+      : this.approvalQueue.getLatest();
+    if (!pending) return false;
+
+    const title = pending.event.title || pending.event.summary;
+    let answer: string;
+    if (reply.type === "approve") {
+      await this.approvePendingEvent(pending.id);
+      answer = `✅ Sent: ${title}`;
+    } else if (reply.type === "reject") {
+      this.rejectPendingEvent(pending.id);
+      answer = `🗑️ Dropped: ${title}`;
+    } else {
+      const edited = applyEventEdit(
+        pending.event,
+        reply.field,
+        reply.value,
+        new DateResolver(this.configService.getTimezone())
+      );
+      if (!edited) {
+        answer = `⚠️ Could not read the ${reply.field} "${reply.value}"`;
+      } else {
+        const updated = this.approvalQueue.update(pending.id, {
+          event: edited,
+        });
+        if (updated) {
+          await this.sendDraft(updated);
+        }
+        return true;
+      }
+    }
+
+    const sent = await this.socket?.sendMessage(chatId, { text: answer });
+    if (sent?.key.id) {
+      this.ownMessageIds.add(sent.key.id);
+    }
+    return true;
+  }
+
+  /**
+   * Get the name of a chat and the display name of a message's author
+   * (for private chats both are the chat's phone number)
+   */
+  private async getChatInfo(
+    chatId: string,
+    isGroup: boolean,
+    authorJid: string
+  ): Promise<{
+    chatName: string;
+    contactName: string;
+    participants: GroupParticipant[];
+  }> {
+    try {
+      if (isGroup && this.socket) {
+        const groupMetadata = await this.socket.groupMetadata(chatId);
+
+        // Find the participant who sent the message
+        const participant = groupMetadata.participants.find(
+          (p: GroupParticipant) =>
+            jidNormalizedUser(p.id) === jidNormalizedUser(authorJid)
+        );
+        return {
+          chatName: groupMetadata.subject || "Unknown Group",
+          contactName:
+            participant?.notify || participant?.id?.split("@")[0] || "Unknown",
+          participants: groupMetadata.participants,
+        };
+      }
+
+      const chatName = chatId.split("@")[0];
+      return { chatName, contactName: chatName, participants: [] };
+    } catch (error) {
+      console.error("Error getting chat/contact info:", error);
+      return { chatName: "", contactName: "Unknown", participants: [] };
+    }
+  }
+
+  /**
+   * Handle an edit or deletion ("delete for everyone") of a message
+   * Events detected from a deleted message are withdrawn; edited messages are analyzed again
+   */
+  private async handleProtocolMessage(
+    message: WAMessage,
+    chatId: string,
+    isGroup: boolean
+  ): Promise<void> {
+    // Edits may arrive wrapped in editedMessage
+    const protocolMessage =
+      message.message?.protocolMessage ||
+      message.message?.editedMessage?.message?.protocolMessage;
+    const originalId = protocolMessage?.key?.id;
+    if (!protocolMessage || !originalId) return;
+
+    const events = this.eventStore
+      .findBySourceMessage(chatId, originalId)
+      .filter((stored) => stored.status === "active");
+
+    if (protocolMessage.type === proto.Message.ProtocolMessage.Type.REVOKE) {
+      for (const stored of events) {
+        // Events also announced in other chats stay, with the remaining announcements as sources
+        const remaining = this.eventStore.removeSource(
+          stored.fingerprint,
+          chatId,
+          originalId
+        );
+        if (remaining) {
+          console.log(
+            `🗑️ Message of event was deleted, still announced in ${sourceChatNames(remaining).join(", ")}: ${stored.details.title}`
+          );
+          this.syncCalendarEvent(stored.fingerprint);
+          continue;
+        }
+        console.log(
+          `🗑️ Message of event was deleted, withdrawing: ${stored.details.title}`
+        );
+        await this.announceEventChange(
+          stored,
+          stored.details,
+          "withdraw",
+          stored.source.chatName,
+          true
+        );
+      }
+      return;
+    }
+
+    if (
+      protocolMessage.type ===
+        proto.Message.ProtocolMessage.Type.MESSAGE_EDIT &&
+      protocolMessage.editedMessage
+    ) {
+      const { chatName, contactName } = await this.getChatInfo(
+        chatId,
+        isGroup,
+        message.key.participant || ""
+      );
+      await this.handleEditedMessage(
+        protocolMessage.editedMessage,
+        { chatId, chatName, sender: contactName, messageId: originalId },
+        events
+      );
+    }
+  }
+
+  /**
+   * Apply an edit to the events detected from the original message, or analyze the
+   * edited message like a new one when no events came from it
+   */
+  private async handleEditedMessage(
+    edited: proto.IMessage,
+    origin: Omit<EventSource, "messageText">,
+    events: StoredEvent[]
+  ): Promise<void> {
+    // Edited native event: take the new details as they are
+    if (edited.eventMessage) {
+      const source: EventSource = {
+        ...origin,
+        messageText: [edited.eventMessage.name, edited.eventMessage.description]
+          .filter(Boolean)
+          .join("\n"),
+      };
+      const details = eventDetailsFromEventMessage(
+        edited.eventMessage,
+        this.configService.getDateLocale(),
+        this.configService.getTimezone()
+      );
+      if (events.length === 0) {
+        if (details) {
+          await this.handleDetectedEvents([details], source, null, true);
+        }
+        return;
+      }
+      for (const stored of events) {
+        await this.applyEventChange(
+          stored,
+          details
+            ? { ...details, action: "update" }
+            : { ...stored.details, action: "cancel" },
+          source.chatName,
+          true
+        );
+      }
+      return;
+    }
+
+    const editedDocument =
+      edited.documentMessage ||
+      edited.documentWithCaptionMessage?.message?.documentMessage;
+    const text =
+      edited.conversation ||
+      edited.extendedTextMessage?.text ||
+      edited.imageMessage?.caption ||
+      editedDocument?.caption ||
+      "";
+    if (!text.trim()) return;
+    const source: EventSource = { ...origin, messageText: text };
+
+    console.log(
+      `✏️ Message edited in ${source.chatName} (${events.length} event(s) detected from it)`
+    );
+    this.addToHistory(
+      source.chatId,
+      source.chatName,
+      `✏️ ${text}`,
+      source.sender
+    );
+
+    if (events.length === 0) {
+      await this.processMessageForEvents(
+        source.chatId,
+        text,
+        source.chatName,
+        source.sender,
+        null,
+        null,
+        true,
+        source.messageId
+      );
+      return;
+    }
+
+    const analysis = await this.llmService.analyzeMessage(
+      source.chatId,
+      text,
+      source.chatName,
+      source.sender,
+      null,
+      null,
+      {
+        knownEvents: events.map((stored) => this.toKnownEventReference(stored)),
+        editedFrom: events[0].source.messageText,
+      }
+    );
+    if (analysis.hasEvents && analysis.events.length > 0) {
+      await this.handleDetectedEvents(
+        analysis.events,
+        source,
+        analysis.model,
+        true
+      );
+    }
+  }
+
+  /**
+   * Take a native WhatsApp event into the event store and deliver it as it is
+   */
+  private async ingestNativeEvent(
+    message: WAMessage,
+    chatId: string,
+    isGroup: boolean
+  ): Promise<void> {
+    const eventMessage = message.message?.eventMessage;
+    if (!eventMessage) return;
+
+    const { chatName, contactName } = await this.getChatInfo(
+      chatId,
+      isGroup,
+      message.key.participant || ""
+    );
+    if (!this.llmService.isChatAllowed(chatName || chatId)) {
+      console.log(
+        `Skipping native event from chat "${chatName}" - not in allowed list`
+      );
+      return;
+    }
+
+    const event = eventDetailsFromEventMessage(
+      eventMessage,
+      this.configService.getDateLocale(),
+      this.configService.getTimezone()
+    );
+    if (!event) {
+      console.log(
+        `Skipping native event without a name or start time (or cancelled) in ${chatName}`
+      );
+      return;
+    }
+
+    console.log(`📅 Native WhatsApp event in ${chatName}: ${event.title}`);
+    this.llmService.addMessageToHistory(
+      chatId,
+      `📅 ${event.title} (${event.date} ${event.time})`,
+      contactName
+    );
+    await this.handleDetectedEvents(
+      [event],
+      {
+        chatId,
+        chatName,
+        sender: contactName,
+        messageId: message.key.id ?? null,
+        messageText: [eventMessage.name, eventMessage.description]
+          .filter(Boolean)
+          .join("\n"),
+      },
+      null,
+      true
+    );
+  }
+
+  /**
+   * JID of a message's author (normalized, as used to encrypt poll votes)
+   */
+  private getMessageAuthor(key: WAMessageKey): string {
+    return jidNormalizedUser(
+      (key.fromMe ? this.socket?.user?.id : key.participant || key.remoteJid) ||
+        ""
+    );
+  }
+
+  /**
+   * Start tracking a new poll so its votes can decide an event
+   */
+  private async trackPoll(
+    message: WAMessage,
+    chatId: string,
+    isGroup: boolean
+  ): Promise<void> {
+    const content = message.message;
+    const pollMessage =
+      content?.pollCreationMessage ||
+      content?.pollCreationMessageV2 ||
+      content?.pollCreationMessageV3;
+    const encKey = content?.messageContextInfo?.messageSecret;
+    const options = (pollMessage?.options || [])
+      .map((option) => option.optionName || "")
+      .filter(Boolean);
+    if (
+      !pollMessage?.name ||
+      !message.key.id ||
+      !encKey ||
+      options.length < 2
+    ) {
+      return;
+    }
+
+    const creatorJid = this.getMessageAuthor(message.key);
+    const { chatName, contactName, participants } = await this.getChatInfo(
+      chatId,
+      isGroup,
+      creatorJid
+    );
+
+    this.pollTracker.track({
+      id: message.key.id,
+      chatId,
+      chatName,
+      creator: contactName,
+      creatorJid,
+      question: pollMessage.name,
+      options,
+      encKey: Buffer.from(encKey).toString("base64"),
+      memberCount: participants.length || 2,
+    });
+    this.addToHistory(
+      chatId,
+      chatName,
+      `📊 ${pollMessage.name}: ${options.join(" / ")}`,
+      contactName
+    );
+    console.log(
+      `📊 Tracking poll in ${chatName}: "${pollMessage.name}" (${options.length} options)`
+    );
+  }
+
+  /**
+   * Decrypt a poll vote and count it
+   */
+  private async recordPollVote(message: WAMessage): Promise<void> {
+    const update = message.message?.pollUpdateMessage;
+    const pollId = update?.pollCreationMessageKey?.id;
+    const poll = pollId ? this.pollTracker.get(pollId) : undefined;
+    if (!update?.vote || !poll) return;
+
+    const voterJid = this.getMessageAuthor(message.key);
+    try {
+      const vote = decryptPollVote(update.vote, {
+        pollCreatorJid: poll.creatorJid,
+        pollMsgId: poll.id,
+        pollEncKey: Buffer.from(poll.encKey, "base64"),
+        voterJid,
+      });
+      await this.pollTracker.recordVote(
+        poll.id,
+        voterJid,
+        vote.selectedOptions || []
+      );
+    } catch (error) {
+      console.error("Error decrypting poll vote:", error);
+    }
+  }
+
+  /**
+   * Run the option a poll decided on through event detection, with the question as context
+   */
+  private async handlePollDecision(decision: PollDecision): Promise<void> {
+    const { poll, option, votes } = decision;
+    const pollResult: PollResult = {
+      question: poll.question,
+      options: poll.options,
+      creator: poll.creator,
+      votes,
+    };
+
+    this.addToHistory(
+      poll.chatId,
+      poll.chatName,
+      `📊 ${poll.question} → ${option}`,
+      poll.creator
+    );
+    await this.processMessageForEvents(
+      poll.chatId,
+      option,
+      poll.chatName,
+      poll.creator,
+      null,
+      null,
+      true,
+      poll.id,
+      null,
+      false,
+      null,
+      pollResult
+    );
+  }
+
+  /**
+   * Add a message to its chat's conversation history
+   * Only monitored chats are kept, so text from other chats is never written to disk
+   */
+  private addToHistory(
+    chatId: string,
+    chatName: string,
+    text: string,
+    sender: string,
+    sentAt?: Date
+  ): void {
+    if (!this.llmService.isChatAllowed(chatName || chatId, Boolean(isJidGroup(chatId)))) {
+      return;
+    }
+    this.llmService.addMessageToHistory(chatId, text, sender, sentAt);
+  }
+
+  /**
+   * Get the text and sender of the message a message replies to, if any
+   */
+  private getQuotedMessage(
+    message: WAMessage,
+    participants: GroupParticipant[]
+  ): QuotedMessage | null {
+    const content = message.message;
+    const contextInfo =
+      content?.extendedTextMessage?.contextInfo ||
+      content?.imageMessage?.contextInfo ||
+      content?.documentMessage?.contextInfo ||
+      content?.documentWithCaptionMessage?.message?.documentMessage
+        ?.contextInfo ||
+      content?.audioMessage?.contextInfo;
+    const quoted = contextInfo?.quotedMessage;
+    if (!quoted) return null;
+
+    const quotedDocument =
+      quoted.documentMessage ||
+      quoted.documentWithCaptionMessage?.message?.documentMessage;
+    const text = (
+      quoted.conversation ||
+      quoted.extendedTextMessage?.text ||
+      quoted.imageMessage?.caption ||
+      quotedDocument?.caption ||
+      quotedDocument?.fileName ||
+      ""
+    ).trim();
+    if (!text) return null;
+
+    const senderJid = jidNormalizedUser(contextInfo?.participant || "");
+    const participant = participants.find(
+      (p) => jidNormalizedUser(p.id) === senderJid
+    );
+    const sender =
+      participant?.notify || senderJid.split("@")[0] || "Unknown";
+
+    return { text, sender };
+  }
+
+  /**
+   * Download the media (image, document or voice note) of a message
+   */
+  private async downloadMedia(message: WAMessage): Promise<Buffer> {
+    if (!this.socket) throw new Error("Socket not connected");
+    return downloadMediaMessage(
+      message,
+      "buffer",
+      {},
+      {
+        logger: pino({ level: "silent" }),
+        reuploadRequest: this.socket.updateMediaMessage,
+      }
+    );
+  }
+
+  private async findTargetGroup(): Promise<void> {
+    if (!this.socket || !this.isReady) return;
+
+    try {
+      // If we already have the target group ID from environment variables, no need to search
+      if (this.targetGroupId) {
+        console.log(
+          `Target group ID already configured: ${this.targetGroupId}`
+        );
+        return;
+      }
+
+      console.log(`Looking for target group: "${this.targetGroupName}"`);
+
+      // Actively search for the group by fetching all participating groups
+      const groups = await this.socket.groupFetchAllParticipating();
+      console.log(
+        `Found ${Object.keys(groups).length} groups. Searching for "${
+          this.targetGroupName
+        }"...`
+      );
+
+      for (const [groupId, groupMetadata] of Object.entries(groups)) {
+        console.log(`  - Group: "${groupMetadata.subject}" (ID: ${groupId})`);
+        if (groupMetadata.subject === this.targetGroupName) {
+          this.targetGroupId = groupId;
+          console.log(
+            `✅ Found target group "${this.targetGroupName}" with ID: ${this.targetGroupId}`
+          );
+          return;
+        }
+      }
+
+      // If not found by exact match, try partial match
+      for (const [groupId, groupMetadata] of Object.entries(groups)) {
+        if (
+          groupMetadata.subject?.includes(this.targetGroupName) ||
+          this.targetGroupName.includes(groupMetadata.subject || "")
+        ) {
+          this.targetGroupId = groupId;
+          console.log(
+            `✅ Found target group (partial match) "${groupMetadata.subject}" with ID: ${this.targetGroupId}`
+          );
+          return;
+        }
+      }
+
+      console.log(
+        `❌ Target group "${this.targetGroupName}" not found. Available groups listed above.`
+      );
+    } catch (error) {
+      console.error("Error finding target group:", error);
+    }
+  }
+
+  private async sendMessageToGroup(
+    groupId: string,
+    message: string
+  ): Promise<void> {
+    if (!this.socket || !this.isReady) {
+      console.error("WhatsApp socket not ready");
+      return;
+    }
+
+    try {
+      await this.socket.sendMessage(groupId, { text: message });
+    } catch (error) {
+      console.error("Error sending message to group:", error);
+    }
+  }
+
+  /**
+   * Deliver and store detected events, or apply them to earlier events they update or cancel
+   * Returns the formatted event messages
+   */
+  private async handleDetectedEvents(
+    events: EventDetails[],
+    source: EventSource,
+    model: string | null | undefined,
+    sendToWhatsApp: boolean
+  ): Promise<string[]> {
+    const formattedMessages: string[] = [];
+    const chatName = source.chatName;
+
+    console.log(`${events.length} event(s) detected!`);
+
+    for (const event of events) {
+      if (event.isEvent && event.summary) {
+        console.log(`Event detected! Summary: ${event.summary}`);
+        console.log(`Event details:`, {
+          title: event.title,
+          date: event.date,
+          time: event.time,
+          location: event.location,
+          description: event.description,
+          startDateISO: event.startDateISO,
+          endDateISO: event.endDateISO,
+        });
+
+        // Updates and cancellations of an event we already sent
+        if (event.action === "update" || event.action === "cancel") {
+          const existing = event.relatedEventId
+            ? this.eventStore.findByReference(event.relatedEventId)
+            : undefined;
+
+          if (existing && existing.status === "active") {
+            const notice = await this.applyEventChange(
+              existing,
+              event,
+              chatName,
+              sendToWhatsApp
+            );
+            if (notice) formattedMessages.push(notice);
+            continue;
+          }
+
+          if (event.action === "cancel") {
+            console.log(
+              `⚠️ Cancellation for unknown event (${event.relatedEventId}), skipping: ${event.title}`
+            );
+            continue;
+          }
+          // An update we cannot match is treated as a new event
+          console.log(
+            `Update for unknown event (${event.relatedEventId}), treating as new: ${event.title}`
+          );
+        }
+
+        // Format the message for response
+        if (event.title && event.startDateISO) {
+          // The same event announced again, in this chat or another one
+          const duplicate = this.findDuplicateEvent(event);
+          if (duplicate) {
+            this.mergeDuplicateEvent(duplicate, event, source, sendToWhatsApp);
+            continue;
+          }
+
+          const formattedMessage = this.formatEventMessage(event, chatName);
+          formattedMessages.push(formattedMessage);
+
+          // Only send to WhatsApp if requested (not for test endpoint)
+          if (sendToWhatsApp) {
+            // In approval mode the event is only forwarded once approved
+            if (this.configService.getApprovalMode()) {
+              await this.requestApproval(event, source, model);
+            } else {
+              await this.forwardEvent(event, source, model);
+            }
+          }
+        }
+      }
+    }
+
+    return formattedMessages;
+  }
+
+  /**
+   * Send a new event to its destinations, store it and schedule its reminders
+   */
+  private async forwardEvent(
+    event: EventDetails,
+    source: EventSource,
+    model: string | null | undefined
+  ): Promise<void> {
+    const deliveryMode = this.configService.getDeliveryMode();
+
+    // In digest mode the target group gets the event in a later digest; other destinations are sent it now
+    const allDestinations = this.getEventDestinations(source, event);
+    const destinations = allDestinations.filter(
+      (destination) => !this.isDigestDestination(destination, event)
+    );
+    const inLaterDigest = destinations.length < allDestinations.length;
+    if (destinations.length === 0 && deliveryMode !== "digest") {
+      console.log(
+        `Target group "${this.targetGroupName}" not found. Event not sent.`
+      );
+      return;
+    }
+
+    const deliveries = await this.deliverEvent(event, source, destinations);
+    // Mark event as created after successful send
+    const fingerprint = this.markEventAsCreated(
+      event,
+      source,
+      model,
+      deliveries
+    );
+    if (inLaterDigest) {
+      console.log(`Event saved for the next digest: ${event.title}`);
+    }
+    this.syncCalendarEvent(fingerprint);
+    this.reminderScheduler.schedule(
+      fingerprint,
+      event.startDateISO,
+      this.configService.getReminderOffsets()
+    );
+  }
+
+  /**
+   * Hold a new event for approval and send it as a draft to the self-chat
+   * (drafts can also be approved in the admin interface)
+   */
+  private async requestApproval(
+    event: EventDetails,
+    source: EventSource,
+    model: string | null | undefined
+  ): Promise<void> {
+    const id = EventStore.referenceFor(this.generateEventFingerprint(event));
+    if (this.approvalQueue.get(id)) {
+      console.log(`⚠️ Event is already waiting for approval: ${event.title}`);
+      return;
+    }
+
+    const pending = this.approvalQueue.add(
+      id,
+      this.stripEventAction(event),
+      source,
+      model ?? null,
+      this.configService.getApprovalExpiryHours()
+    );
+    console.log(`📝 Event waiting for approval [${id}]: ${event.title}`);
+    await this.sendDraft(pending);
+  }
+
+  /**
+   * Send the draft of a pending event to the self-chat, remembering its message ID
+   * so replies quoting it can be matched
+   */
+  private async sendDraft(pending: PendingEvent): Promise<void> {
+    const selfChatId = this.getSelfChatId();
+    if (!this.socket || !selfChatId) {
+      console.log("Self-chat not available, draft only visible in the admin interface");
+      return;
+    }
+
+    const text =
+      `📝 *Draft* [${pending.id}]\n\n` +
+      this.formatEventMessage(pending.event, pending.source.chatName) +
+      `\nReply 1/ok to send, "edit time 18:00" to change it (title, date, time, location, description) or "no" to drop it.`;
+    try {
+      const sent = await this.socket.sendMessage(selfChatId, { text });
+      if (sent?.key.id) {
+        this.ownMessageIds.add(sent.key.id);
+        this.approvalQueue.update(pending.id, { draftMessageId: sent.key.id });
+      }
+    } catch (error) {
+      console.error("Error sending draft to self-chat:", error);
+    }
+  }
+
+  /**
+   * Process a message for event detection (shared by real messages and test endpoint)
    */
   private async processMessageForEvents(
     chatId: string,
@@ -877,7 +2129,14 @@ export class WhatsAppClient {
     contactName: string,
     imageBase64: string | null = null,
     imageMimeType: string | null = null,
-    sendToWhatsApp = true
+    sendToWhatsApp = true,
+    messageId: string | null = null,
+    document: ExtractedDocument | null = null,
+    transcribed = false,
+    quotedMessage: QuotedMessage | null = null,
+    pollResult: PollResult | null = null,
+    batchSize = 1,
+    batchMessageIds: string[] = []
   ): Promise<{
     hasEvents: boolean;
     events: EventDetails[];
@@ -885,7 +2144,9 @@ export class WhatsAppClient {
   }> {
     // Analyze the message for events
     console.log(
-      `Analyzing message for events...${imageBase64 ? " (with image)" : ""}`
+      `Analyzing message for events...${imageBase64 ? " (with image)" : ""}${
+        document ? ` (with document "${document.fileName}")` : ""
+      }`
     );
 
     const analysis = await this.llmService.analyzeMessage(
@@ -894,53 +2155,35 @@ export class WhatsAppClient {
       chatName,
       contactName,
       imageBase64,
-      imageMimeType
+      imageMimeType,
+      {
+        knownEvents: this.getKnownEventsForChat(chatId),
+        document: document ?? undefined,
+        ...(transcribed ? { voiceNote: true } : {}),
+        ...(quotedMessage ? { quotedMessage } : {}),
+        ...(pollResult ? { poll: pollResult } : {}),
+        ...(batchSize > 1 ? { batchSize } : {}),
+      }
     );
 
-    const formattedMessages: string[] = [];
-
-    if (analysis.hasEvents && analysis.events.length > 0) {
-      console.log(`${analysis.events.length} event(s) detected!`);
-
-      for (const event of analysis.events) {
-        if (event.isEvent && event.summary) {
-          console.log(`Event detected! Summary: ${event.summary}`);
-          console.log(`Event details:`, {
-            title: event.title,
-            date: event.date,
-            time: event.time,
-            location: event.location,
-            description: event.description,
-            startDateISO: event.startDateISO,
-            endDateISO: event.endDateISO,
-          });
-
-          // Format the message for response
-          if (event.title && event.startDateISO) {
-            // Check if event was already created
-            if (this.isEventAlreadyCreated(event)) {
-              console.log(`⚠️ Duplicate event detected, skipping: ${event.title} at ${event.startDateISO}`);
-              continue;
-            }
-
-            const formattedMessage = this.formatEventMessage(event, chatName);
-            formattedMessages.push(formattedMessage);
-
-            // Only send to WhatsApp if requested (not for test endpoint)
-            if (sendToWhatsApp && this.targetGroupId) {
-              await this.sendEventToGroup(this.targetGroupId, event, chatName);
-              console.log(`Event sent to "${this.targetGroupName}" group`);
-              // Mark event as created after successful send
-              this.markEventAsCreated(event);
-            } else if (sendToWhatsApp && !this.targetGroupId) {
-              console.log(
-                `Target group "${this.targetGroupName}" not found. Event not sent.`
-              );
-            }
-          }
-        }
-      }
-    }
+    const source: EventSource = {
+      chatId,
+      chatName,
+      sender: contactName,
+      messageId,
+      ...(batchMessageIds.length > 1 ? { messageIds: batchMessageIds } : {}),
+      messageText,
+      ...(transcribed ? { transcribed } : {}),
+    };
+    const formattedMessages =
+      analysis.hasEvents && analysis.events.length > 0
+        ? await this.handleDetectedEvents(
+            analysis.events,
+            source,
+            analysis.model,
+            sendToWhatsApp
+          )
+        : [];
 
     return {
       hasEvents: analysis.hasEvents,
@@ -950,14 +2193,400 @@ export class WhatsAppClient {
     };
   }
 
+  /**
+   * Apply an update or cancellation to a stored event and notify the target group
+   * The notice quotes the original event message so it links back to it
+   * Returns the notice text, or null if nothing changed
+   */
+  private async applyEventChange(
+    existing: StoredEvent,
+    change: EventDetails,
+    chatName: string,
+    sendToWhatsApp: boolean
+  ): Promise<string | null> {
+    if (change.action === "cancel") {
+      return this.announceEventChange(
+        existing,
+        existing.details,
+        "cancel",
+        chatName,
+        sendToWhatsApp
+      );
+    }
+
+    // Keep the original values for fields the update does not mention
+    const changedFields = Object.fromEntries(
+      Object.entries(this.stripEventAction(change)).filter(
+        ([, value]) => value !== null && value !== undefined && value !== ""
+      )
+    );
+    const updatedDetails = { ...existing.details, ...changedFields };
+
+    if (
+      this.generateEventFingerprint(updatedDetails) ===
+      this.generateEventFingerprint(existing.details)
+    ) {
+      console.log(
+        `⚠️ Update has no changes, skipping: ${existing.details.title}`
+      );
+      return null;
+    }
+
+    return this.announceEventChange(
+      existing,
+      updatedDetails,
+      "update",
+      chatName,
+      sendToWhatsApp
+    );
+  }
+
+  /**
+   * Notify the destinations of an event about a change and store it
+   * Returns the notice text
+   */
+  private async announceEventChange(
+    existing: StoredEvent,
+    updatedDetails: EventDetails,
+    change: EventChange,
+    chatName: string,
+    sendToWhatsApp: boolean
+  ): Promise<string> {
+    const changeName = EVENT_CHANGE_NAMES[change];
+    const notice = this.formatEventChangeMessage(
+      updatedDetails,
+      change,
+      chatName
+    );
+
+    if (!sendToWhatsApp) return notice;
+
+    // In digest mode, the target group is not notified before it has seen the event in a digest
+    const inDigest = (existing.deliveries ?? []).some(
+      (delivery) => delivery.chatId === this.targetGroupId
+    );
+    const destinations = this.getEventDestinations(
+      existing.source,
+      updatedDetails
+    ).filter(
+      (destination) =>
+        inDigest || !this.isDigestDestination(destination, updatedDetails)
+    );
+
+    if (
+      destinations.length === 0 &&
+      this.configService.getDeliveryMode() !== "digest"
+    ) {
+      console.log(
+        `Target group "${this.targetGroupName}" not found. Event ${changeName} not sent.`
+      );
+      return notice;
+    }
+
+    for (const destination of destinations) {
+      if (destination.type === "webhook") {
+        this.webhookDispatcher.enqueue(
+          destination.url,
+          {
+            action: change,
+            reference: EventStore.referenceFor(existing.fingerprint),
+            event: updatedDetails,
+            source: existing.source,
+            timestamp: new Date().toISOString(),
+          },
+          destination.secret
+        );
+      } else {
+        const jid = destinationJid(destination);
+        await this.sendNoticeToGroup(
+          jid,
+          notice,
+          this.findOriginalMessage(existing, jid)
+        );
+      }
+    }
+
+    this.recordEventChange(existing, updatedDetails, change);
+    console.log(
+      `Event ${changeName} sent to ${destinations.length} destination(s): ${existing.details.title}`
+    );
+
+    return notice;
+  }
+
+  /**
+   * Where an event from a source is sent: the destinations of matching routing rules
+   * (or the target group when no rule matches), plus the webhooks receiving all events
+   */
+  private getEventDestinations(
+    source: EventSource,
+    event: EventDetails
+  ): RouteDestination[] {
+    const routed = resolveDestinations(this.configService.getRoutingRules(), {
+      chatId: source.chatId,
+      chatName: source.chatName,
+      sender: source.sender,
+      messageText: source.messageText,
+      event,
+    });
+    const destinations: RouteDestination[] =
+      routed.length > 0 || !this.targetGroupId
+        ? routed
+        : [{ type: "group", id: this.targetGroupId, name: this.targetGroupName }];
+
+    for (const webhook of this.configService.getWebhooks()) {
+      const isRouted = destinations.some(
+        (destination) =>
+          destination.type === "webhook" && destination.url === webhook.url
+      );
+      if (!isRouted) {
+        destinations.push({ type: "webhook", ...webhook });
+      }
+    }
+    return destinations;
+  }
+
+  /**
+   * Whether the routing rules send a stored event to the target group
+   */
+  private isForTargetGroup(event: StoredEvent): boolean {
+    return this.getEventDestinations(event.source, event.details).some(
+      (destination) =>
+        destination.type !== "webhook" &&
+        destinationJid(destination) === this.targetGroupId
+    );
+  }
+
+  /**
+   * Whether a destination gets an event in a later digest instead of a message now
+   * (in digest mode, the target group; routed chats and webhooks still get each event,
+   * and so does the target group when no digest that is still to come lists the event)
+   */
+  private isDigestDestination(
+    destination: RouteDestination,
+    event: EventDetails
+  ): boolean {
+    return (
+      this.configService.getDeliveryMode() === "digest" &&
+      destination.type !== "webhook" &&
+      destinationJid(destination) === this.targetGroupId &&
+      this.digestService.coversLater(event.startDateISO)
+    );
+  }
+
+  /**
+   * Send a new event to its destinations, returning the WhatsApp messages that were sent
+   */
+  private async deliverEvent(
+    event: EventDetails,
+    source: EventSource,
+    destinations: RouteDestination[]
+  ): Promise<EventDelivery[]> {
+    const deliveries: EventDelivery[] = [];
+
+    for (const destination of destinations) {
+      if (destination.type === "webhook") {
+        this.webhookDispatcher.enqueue(
+          destination.url,
+          {
+            action: "create",
+            reference: EventStore.referenceFor(
+              this.generateEventFingerprint(event)
+            ),
+            event: this.stripEventAction(event),
+            source,
+            timestamp: new Date().toISOString(),
+          },
+          destination.secret
+        );
+        continue;
+      }
+
+      const jid = destinationJid(destination);
+      const sentMessageId = await this.sendEventToGroup(
+        jid,
+        event,
+        source.chatName
+      );
+      deliveries.push({
+        chatId: jid,
+        messageId: sentMessageId,
+        sentAt: new Date().toISOString(),
+      });
+      console.log(`Event sent to "${destination.name || jid}"`);
+    }
+
+    return deliveries;
+  }
+
+  /**
+   * The bot's earlier message for an event in a chat, to reply to it
+   */
+  private findOriginalMessage(
+    stored: StoredEvent,
+    chatId: string
+  ): { id: string; title: string | null } | undefined {
+    const original = stored.deliveries?.find(
+      (delivery) => delivery.chatId === chatId && delivery.messageId
+    );
+    return original?.messageId
+      ? { id: original.messageId, title: stored.details.title }
+      : undefined;
+  }
+
+  /**
+   * Store an update, cancellation or withdrawal and move or cancel the event's reminders
+   */
+  private recordEventChange(
+    existing: StoredEvent,
+    updatedDetails: EventDetails,
+    change: EventChange
+  ): void {
+    const isCancel = change !== "update";
+    this.eventStore.update(existing.fingerprint, {
+      details: updatedDetails,
+      status: EVENT_CHANGE_STATUS[change],
+      updatedAt: new Date().toISOString(),
+      aliases: isCancel
+        ? existing.aliases
+        : [
+            ...(existing.aliases || []),
+            this.generateEventFingerprint(updatedDetails),
+          ],
+    });
+    if (isCancel) {
+      this.reminderScheduler.cancel(existing.fingerprint);
+    } else {
+      this.reminderScheduler.schedule(
+        existing.fingerprint,
+        updatedDetails.startDateISO,
+        this.configService.getReminderOffsets()
+      );
+    }
+    this.syncCalendarEvent(existing.fingerprint);
+  }
+
+  /**
+   * Push a stored event to the CalDAV calendar, or delete it there when it was cancelled or withdrawn
+   * Runs in the background; failures are logged by the CalDAV client
+   */
+  private syncCalendarEvent(fingerprint: string): void {
+    if (!this.caldavClient.isEnabled()) return;
+    const stored = this.eventStore.get(fingerprint);
+    if (!stored) return;
+
+    void (stored.status !== "active"
+      ? this.caldavClient.deleteEvent(fingerprint)
+      : this.caldavClient.putEvent(stored));
+  }
+
+  /**
+   * Send a due reminder to the target group, replying to the original event message
+   * Reminders for events that were cancelled or removed from the store are dropped
+   */
+  private async sendReminder(reminder: Reminder): Promise<boolean> {
+    const stored = this.eventStore.get(reminder.fingerprint);
+    if (!stored || stored.status !== "active") {
+      console.log(
+        `Event ${EventStore.referenceFor(reminder.fingerprint)} was cancelled or removed, dropping reminder`
+      );
+      return true;
+    }
+
+    // Reminders go to the WhatsApp destinations of the event (retried when we cannot send yet)
+    const chats = this.getEventDestinations(
+      stored.source,
+      stored.details
+    ).flatMap((destination) =>
+      (destination.type === "webhook" ? [] : [destinationJid(destination)])
+    );
+    if (!this.socket || !this.isReady || chats.length === 0) {
+      return false;
+    }
+
+    const text = this.formatReminderMessage(
+      stored.details,
+      stored.source.chatName
+    );
+    for (const chat of chats) {
+      await this.sendNoticeToGroup(
+        chat,
+        text,
+        this.findOriginalMessage(stored, chat)
+      );
+    }
+    console.log(
+      `⏰ Reminder sent to ${chats.length} chat(s): ${stored.details.title}`
+    );
+    return true;
+  }
+
+  /**
+   * Send the digest to the target group, returning the delivery (null if it could not be sent)
+   */
+  private async sendDigest(text: string): Promise<EventDelivery | null> {
+    if (!this.socket || !this.isReady || !this.targetGroupId) {
+      return null;
+    }
+
+    try {
+      const sent = await this.socket.sendMessage(this.targetGroupId, { text });
+      return {
+        chatId: this.targetGroupId,
+        messageId: sent?.key.id ?? null,
+        sentAt: new Date().toISOString(),
+      };
+    } catch (error) {
+      console.error("Error sending digest to group:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Tell the target group that detection is cut back because an LLM budget is exceeded
+   */
+  private async announceBudgetState(text: string): Promise<void> {
+    if (!this.targetGroupId) return;
+    await this.sendMessageToGroup(this.targetGroupId, text);
+  }
+
+  /**
+   * Send a text notice, replying to an earlier bot message when its ID is known
+   */
+  private async sendNoticeToGroup(
+    groupId: string,
+    text: string,
+    replyTo?: { id: string; title: string | null }
+  ): Promise<void> {
+    if (!this.socket || !this.isReady) {
+      console.error("WhatsApp socket not ready");
+      return;
+    }
+
+    try {
+      const quoted = replyTo
+        ? {
+            key: { remoteJid: groupId, fromMe: true, id: replyTo.id },
+            message: { conversation: replyTo.title || "" },
+          }
+        : undefined;
+      await this.socket.sendMessage(groupId, { text }, { quoted });
+    } catch (error) {
+      console.error("Error sending notice to group:", error);
+    }
+  }
+
+  /**
+   * Send an event to a group, returning the ID of the sent message (null if unknown)
+   */
   private async sendEventToGroup(
     groupId: string,
     eventDetails: EventDetails,
     sourceGroupName?: string
-  ): Promise<void> {
+  ): Promise<string | null> {
     if (!this.socket || !this.isReady) {
       console.error("WhatsApp socket not ready");
-      return;
+      return null;
     }
 
     try {
@@ -974,10 +2603,11 @@ export class WhatsAppClient {
           // Build event description with source group info
           let eventDescription = eventDetails.description || "";
           if (sourceGroupName) {
-            eventDescription = `מקור: ${sourceGroupName}\n\n${eventDescription}`;
+            const labels = getLabels(this.configService.getLanguage());
+            eventDescription = `${labels.source}: ${sourceGroupName}\n\n${eventDescription}`;
           }
 
-          await this.socket.sendMessage(groupId, {
+          const sent = await this.socket.sendMessage(groupId, {
             event: {
               name: eventDetails.title,
               description: eventDescription.trim() || undefined,
@@ -992,6 +2622,7 @@ export class WhatsAppClient {
                 : undefined,
             },
           });
+          return sent?.key.id ?? null;
         } catch (error) {
           console.error(
             "Failed to send event message, sending text only:",
@@ -1002,7 +2633,10 @@ export class WhatsAppClient {
             eventDetails,
             sourceGroupName
           );
-          await this.socket.sendMessage(groupId, { text: textMessage });
+          const sent = await this.socket.sendMessage(groupId, {
+            text: textMessage,
+          });
+          return sent?.key.id ?? null;
         }
       } else {
         // If no complete event details, just send the text message
@@ -1010,10 +2644,14 @@ export class WhatsAppClient {
           eventDetails,
           sourceGroupName
         );
-        await this.socket.sendMessage(groupId, { text: textMessage });
+        const sent = await this.socket.sendMessage(groupId, {
+          text: textMessage,
+        });
+        return sent?.key.id ?? null;
       }
     } catch (error) {
       console.error("Error sending event to group:", error);
+      return null;
     }
   }
 
@@ -1021,10 +2659,14 @@ export class WhatsAppClient {
     eventDetails: EventDetails,
     sourceGroupName?: string
   ): string {
-    let eventMessage = `📅 *${eventDetails.title || "אירוע"}*\n\n`;
+    const labels = getLabels(this.configService.getLanguage());
+    const locale = this.configService.getDateLocale();
+    const timeZone = this.configService.getTimezone();
+
+    let eventMessage = `📅 *${eventDetails.title || labels.event}*\n\n`;
 
     if (sourceGroupName) {
-      eventMessage += `📱 מקור: ${sourceGroupName}\n\n`;
+      eventMessage += `📱 ${labels.source}: ${sourceGroupName}\n\n`;
     }
 
     if (eventDetails.description) {
@@ -1034,23 +2676,23 @@ export class WhatsAppClient {
     // Format the date/time in a simple readable way
     if (eventDetails.startDateISO) {
       const startDate = new Date(eventDetails.startDateISO);
-      const formattedDate = startDate.toLocaleString("he-IL", {
+      const formattedDate = startDate.toLocaleString(locale, {
         weekday: "long",
         day: "numeric",
         month: "long",
         hour: "2-digit",
         minute: "2-digit",
-        timeZone: "Asia/Jerusalem",
+        timeZone,
       });
       eventMessage += `🕐 ${formattedDate}`;
 
       // Add end time if different from start
       if (eventDetails.endDateISO) {
         const endDate = new Date(eventDetails.endDateISO);
-        const endTime = endDate.toLocaleString("he-IL", {
+        const endTime = endDate.toLocaleString(locale, {
           hour: "2-digit",
           minute: "2-digit",
-          timeZone: "Asia/Jerusalem",
+          timeZone,
         });
         eventMessage += ` - ${endTime}`;
       }
@@ -1064,6 +2706,33 @@ export class WhatsAppClient {
     return eventMessage;
   }
 
+  private formatEventChangeMessage(
+    eventDetails: EventDetails,
+    change: EventChange,
+    sourceGroupName?: string
+  ): string {
+    const labels = getLabels(this.configService.getLanguage());
+
+    if (change !== "update") {
+      const label = change === "cancel" ? labels.cancelled : labels.withdrawn;
+      let cancelMessage = `❌ *${label}: ${eventDetails.title || labels.event}*\n`;
+      if (sourceGroupName) {
+        cancelMessage += `\n📱 ${labels.source}: ${sourceGroupName}\n`;
+      }
+      return cancelMessage;
+    }
+
+    return `✏️ *${labels.updated}*\n\n${this.formatEventMessage(eventDetails, sourceGroupName)}`;
+  }
+
+  private formatReminderMessage(
+    eventDetails: EventDetails,
+    sourceGroupName?: string
+  ): string {
+    const labels = getLabels(this.configService.getLanguage());
+    return `⏰ *${labels.reminder}*\n\n${this.formatEventMessage(eventDetails, sourceGroupName)}`;
+  }
+
   public async initialize(): Promise<void> {
     try {
       console.log("Initializing WhatsApp client...");
@@ -1116,14 +2785,30 @@ export class WhatsAppClient {
   public async disconnect(): Promise<void> {
     this.shouldReconnect = false;
 
+    // Analyze bursts still waiting for their quiet period while the socket is open
+    await Promise.all(
+      [...this.pendingBatches.keys()].map((chatId) => this.flushBatch(chatId))
+    );
+
     // Clear the cache flush interval
     if (this.cacheFlushInterval) {
       clearInterval(this.cacheFlushInterval);
       this.cacheFlushInterval = null;
     }
 
-    // Save events before disconnecting
+    // Stop sending reminders, digests and retries, closing polls and expiring drafts (their state is already persisted)
+    this.reminderScheduler.stop();
+    this.digestService.stop();
+    this.webhookDispatcher.stop();
+    this.caldavClient.stop();
+    this.pollTracker.stop();
+    this.approvalQueue.stop();
+
+    // Save events, conversations, pre-filter counts and cached results before disconnecting
     this.saveEventsToFile();
+    this.conversationBuffer.save();
+    this.prefilter.save();
+    this.responseCache.save();
 
     if (this.socket) {
       try {
@@ -1158,6 +2843,151 @@ export class WhatsAppClient {
     return this.targetGroupName;
   }
 
+  /**
+   * Get the store of detected events (for the admin interface and HTTP API)
+   */
+  public getEventStore(): EventStore {
+    return this.eventStore;
+  }
+
+  /**
+   * Get the reminder scheduler (pending reminders for detected events)
+   */
+  public getReminderScheduler(): ReminderScheduler {
+    return this.reminderScheduler;
+  }
+
+  /**
+   * Get the digest service (scheduled agenda of upcoming events)
+   */
+  public getDigestService(): DigestService {
+    return this.digestService;
+  }
+
+  /**
+   * Get the webhook dispatcher (queue of outgoing event webhooks)
+   */
+  public getWebhookDispatcher(): WebhookDispatcher {
+    return this.webhookDispatcher;
+  }
+
+  /**
+   * Get the usage tracker (LLM tokens, cost and budgets)
+   */
+  public getUsageTracker(): UsageTracker {
+    return this.usageTracker;
+  }
+
+  /**
+   * Get the message pre-filter (skip counts for tuning)
+   */
+  public getPrefilter(): MessagePrefilter {
+    return this.prefilter;
+  }
+
+  /**
+   * Get the events waiting for approval (for the admin interface)
+   */
+  public getPendingEvents(): PendingEvent[] {
+    return this.approvalQueue.getAll();
+  }
+
+  /**
+   * Forward an event waiting for approval
+   * Returns false if there is no such pending event
+   */
+  public async approvePendingEvent(id: string): Promise<boolean> {
+    const pending = this.approvalQueue.remove(id);
+    if (!pending) return false;
+
+    const duplicate = this.findDuplicateEvent(pending.event);
+    if (duplicate) {
+      console.log(`⚠️ Approved event was already sent: ${pending.event.title}`);
+      this.mergeDuplicateEvent(duplicate, pending.event, pending.source, true);
+      return true;
+    }
+    console.log(`✅ Event approved [${id}]: ${pending.event.title}`);
+    await this.forwardEvent(pending.event, pending.source, pending.model);
+    return true;
+  }
+
+  /**
+   * Drop an event waiting for approval
+   * Returns false if there is no such pending event
+   */
+  public rejectPendingEvent(id: string): boolean {
+    const pending = this.approvalQueue.remove(id);
+    if (!pending) return false;
+    console.log(`🗑️ Event dropped [${id}]: ${pending.event.title}`);
+    return true;
+  }
+
+  /**
+   * Retract the most recently detected event: the bot's messages for it are deleted
+   * (a digest that lists other events too gets a withdrawal notice instead), and it is
+   * withdrawn from webhooks, reminders and the calendar
+   * Returns the retracted event, or null if there is no active event
+   */
+  public async undoLastEvent(): Promise<StoredEvent | null> {
+    const allEvents = this.eventStore.query();
+    const [latest] = allEvents
+      .filter((stored) => stored.status === "active")
+      .sort((a, b) => b.detectedAt.localeCompare(a.detectedAt));
+    if (!latest) return null;
+
+    const notice = this.formatEventChangeMessage(
+      latest.details,
+      "withdraw",
+      latest.source.chatName
+    );
+    for (const { chatId, messageId } of latest.deliveries || []) {
+      if (!messageId) continue;
+
+      const isShared = allEvents.some(
+        (other) =>
+          other.fingerprint !== latest.fingerprint &&
+          other.deliveries?.some((delivery) => delivery.messageId === messageId)
+      );
+      if (isShared) {
+        await this.sendNoticeToGroup(chatId, notice, {
+          id: messageId,
+          title: latest.details.title,
+        });
+        continue;
+      }
+
+      try {
+        await this.socket?.sendMessage(chatId, {
+          delete: { remoteJid: chatId, fromMe: true, id: messageId },
+        });
+      } catch (error) {
+        console.error("Error deleting event message:", error);
+      }
+    }
+
+    for (const destination of this.getEventDestinations(
+      latest.source,
+      latest.details
+    )) {
+      if (destination.type !== "webhook") continue;
+      this.webhookDispatcher.enqueue(
+        destination.url,
+        {
+          action: "withdraw",
+          reference: EventStore.referenceFor(latest.fingerprint),
+          event: latest.details,
+          source: latest.source,
+          timestamp: new Date().toISOString(),
+        },
+        destination.secret
+      );
+    }
+
+    this.recordEventChange(latest, latest.details, "withdraw");
+    console.log(`↩️ Event retracted: ${latest.details.title}`);
+    return latest;
+  }
+
   /**
    * Get all available chats (groups and direct chats)
    * Returns an array of chat objects with id, name, and isGroup flag